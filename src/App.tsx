@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import './style.css';
 import { signOut, fetchAuthSession } from 'aws-amplify/auth';
-import { SettingsManager } from './lib/util/SettingsManager';
+import { type AppSettings, SettingsManager } from './lib/util/SettingsManager';
+import { ProfileManager } from './lib/util/ProfileManager';
 import { ChatHistoryManager } from './lib/util/ChatHistoryManager';
 import { AudioPlayer } from './lib/play/AudioPlayer';
 import { target } from './lib/sdk/events_proxy';
@@ -15,9 +16,15 @@ import ToastNotifications from './components/ToastNotifications';
 import ShoppingCart from './components/ShoppingCart';
 import MenuDisplay from './components/MenuDisplay';
 import QuickStartDialog from './components/QuickStartDialog';
+import SessionRecorderControls from './components/SessionRecorderControls';
+import ProfilePicker from './components/ProfilePicker';
+import ToolAuditPanel from './components/ToolAuditPanel';
 import { ToolProvider, useToolContext } from './contexts/ToolContext';
 import { useAutoRegisterComponent, createMethodDescriptor } from './hooks/useAutoRegisterComponent';
 import { toolExecutor } from './lib/tools/ToolExecutor';
+import { ToolAuditLog } from './lib/tools/ToolAuditLog';
+import type { ModifierSelection } from './lib/util/MenuModifiers';
+import type { VariantSelection } from './lib/util/MenuVariants';
 
 interface ChatMessage {
   role: string;
@@ -60,6 +67,8 @@ const AppContent: React.FC = () => {
 
   // Quick Start dialog state
   const [showQuickStart, setShowQuickStart] = useState(false);
+  // Sample waiting for the user to accept its tools that run on the main thread
+  const [pendingSample, setPendingSample] = useState<{ sampleId: string; settings: AppSettings; warnings: string[] } | null>(null);
   const [hasCheckedForDefaults, setHasCheckedForDefaults] = useState(false);
 
   // Tool execution state
@@ -90,6 +99,7 @@ const AppContent: React.FC = () => {
   const roleRef = useRef("");
   const autoInitiateFirstMessageRef = useRef(false); // Track if we should skip first user message
   const isStreamingRef = useRef(false);
+  const pendingTypedMessagesRef = useRef<string[]>([]); // Typed messages already shown in the chat
 
   // Audio processing constants
   const samplingRatioRef = useRef(1);
@@ -279,6 +289,19 @@ const AppContent: React.FC = () => {
           { name: 'autoStartStreaming', type: 'boolean', description: 'Whether to start streaming after reload (default: false)', required: false }
         ]
       ),
+      // Sandboxed tools cannot pass a callback to stopUI, so the restart is chained here
+      restartUI: createMethodDescriptor(
+        (displayMessage = true, messageText = "Processing...", countDownTimer = 10, startMessage: string, autoStartStreaming: boolean = false) =>
+          stopUI(displayMessage, messageText, countDownTimer, () => startUI(startMessage, autoStartStreaming)),
+        'Display overlay with countdown, then reinitialize the application like startUI',
+        [
+          { name: 'displayMessage', type: 'boolean', description: 'Whether to show the overlay (default: true)', required: false },
+          { name: 'messageText', type: 'string', description: 'Message to display during countdown (default: "Processing...")', required: false },
+          { name: 'countDownTimer', type: 'number', description: 'Countdown seconds (default: 10)', required: false },
+          { name: 'startMessage', type: 'string', description: 'Message to display during initialization', required: true },
+          { name: 'autoStartStreaming', type: 'boolean', description: 'Whether to start streaming after reload (default: false)', required: false }
+        ]
+      ),
     }
   });
 
@@ -531,6 +554,34 @@ const AppContent: React.FC = () => {
           { name: 'query', type: 'string', description: 'Search query', required: true }
         ]
       ),
+      getVariants: createMethodDescriptor(
+        (itemId: string) => {
+          return menuDisplayRef.current?.getVariants?.(itemId) || null;
+        },
+        'Get the variants (size, temperature, crust...) of a menu item with their prices, availability and nutrition',
+        [
+          { name: 'itemId', type: 'string', description: 'The menu item ID', required: true }
+        ]
+      ),
+      findVariant: createMethodDescriptor(
+        (itemId: string, selection: VariantSelection) => {
+          return menuDisplayRef.current?.findVariant?.(itemId, selection);
+        },
+        'Pick the variant of a menu item the customer asked for',
+        [
+          { name: 'itemId', type: 'string', description: 'The menu item ID', required: true },
+          { name: 'selection', type: 'object', description: 'The variant id or name, or attributes such as { "size": "Large", "temperature": "Iced" }', required: true }
+        ]
+      ),
+      describePrice: createMethodDescriptor(
+        (amount: number) => {
+          return menuDisplayRef.current?.describePrice?.(amount);
+        },
+        'Format a price in the store currency and spell it out to read back, e.g. "four dollars and fifty cents"',
+        [
+          { name: 'amount', type: 'number', description: 'The price, e.g. 4.5', required: true }
+        ]
+      ),
       highlightItem: createMethodDescriptor(
         (itemId: string, duration: number = 3000) => {
           return menuDisplayRef.current?.highlightItem?.(itemId, duration);
@@ -551,9 +602,9 @@ const AppContent: React.FC = () => {
     category: 'ui',
     methods: {
       addToCart: createMethodDescriptor(
-        (menuItemId: string, name: string, basePrice: number, quantity: number = 1, customizations: any[] = []) => {
-          console.log("🔧 App: addToCart tool called with:", { menuItemId, name, basePrice, quantity, customizations });
-          const result = shoppingCartRef.current?.addToCart?.(menuItemId, name, basePrice, quantity, customizations);
+        (menuItemId: string, name: string, basePrice: number, quantity: number = 1, customizations: any[] = [], modifiers: ModifierSelection[] = [], variant?: VariantSelection) => {
+          console.log("🔧 App: addToCart tool called with:", { menuItemId, name, basePrice, quantity, customizations, modifiers, variant });
+          const result = shoppingCartRef.current?.addToCart?.(menuItemId, name, basePrice, quantity, customizations, modifiers, variant);
           console.log("🔧 App: addToCart tool returning to Nova:", result);
           return result;
         },
@@ -563,7 +614,19 @@ const AppContent: React.FC = () => {
           { name: 'name', type: 'string', description: 'The item name', required: true },
           { name: 'basePrice', type: 'number', description: 'The base price of the item', required: true },
           { name: 'quantity', type: 'number', description: 'Quantity to add', required: false },
-          { name: 'customizations', type: 'array', description: 'Array of customizations', required: false }
+          { name: 'customizations', type: 'array', description: 'Array of customizations', required: false },
+          {
+            name: 'modifiers',
+            type: 'array',
+            description: 'Modifier group choices, each with groupId, optionId, quantity (optional) and nested modifiers (optional); groups left out get their default options. The result lists missingChoices to ask the customer for',
+            required: false
+          },
+          {
+            name: 'variant',
+            type: 'object',
+            description: 'For items with variants: the variant id or name, or attributes such as { "size": "Large" }; defaults to the default variant, whose price replaces basePrice',
+            required: false
+          }
         ]
       ),
       bulkAddToCart: createMethodDescriptor(
@@ -578,7 +641,7 @@ const AppContent: React.FC = () => {
           {
             name: 'items',
             type: 'array',
-            description: 'Array of items to add. Each item should have: menuItemId, name, price, quantity (optional), customizations (optional)',
+            description: 'Array of items to add. Each item should have: menuItemId, name, price, quantity (optional), customizations (optional), modifiers (optional), variant (optional)',
             required: true
           }
         ]
@@ -603,6 +666,49 @@ const AppContent: React.FC = () => {
           { name: 'customizationId', type: 'string', description: 'The id of the customization to be removed from the item in the cart', required: true }
         ]
       ),
+      addModifierToCartItem: createMethodDescriptor(
+        (cartItemId: string, groupId: string, optionId: string, quantity: number = 1, parentOptionId?: string) => {
+          return shoppingCartRef.current?.addModifier?.(cartItemId, groupId, optionId, quantity, parentOptionId);
+        },
+        'Choose an option of a modifier group for an item in the cart; rejected when the group rules do not allow it',
+        [
+          { name: 'cartItemId', type: 'string', description: 'The unique id of the item in the cart', required: true },
+          { name: 'groupId', type: 'string', description: 'The id or name of the modifier group', required: true },
+          { name: 'optionId', type: 'string', description: 'The id or name of the option to choose', required: true },
+          { name: 'quantity', type: 'number', description: 'How many of the option to add (defaults to 1)', required: false },
+          { name: 'parentOptionId', type: 'string', description: 'For nested groups, the id of the chosen option the group belongs to', required: false }
+        ]
+      ),
+      removeModifierFromCartItem: createMethodDescriptor(
+        (cartItemId: string, optionId: string, quantity?: number) => {
+          return shoppingCartRef.current?.removeModifier?.(cartItemId, optionId, quantity);
+        },
+        'Remove a chosen modifier option from an item in the cart',
+        [
+          { name: 'cartItemId', type: 'string', description: 'The unique id of the item in the cart', required: true },
+          { name: 'optionId', type: 'string', description: 'The id of the chosen option to remove', required: true },
+          { name: 'quantity', type: 'number', description: 'How many to remove (removes the whole choice when left out)', required: false }
+        ]
+      ),
+      changeVariant: createMethodDescriptor(
+        (cartItemId: string, variant: VariantSelection) => {
+          return shoppingCartRef.current?.changeVariant?.(cartItemId, variant);
+        },
+        'Change the variant (size, temperature, crust...) of an item in the cart and reprice it',
+        [
+          { name: 'cartItemId', type: 'string', description: 'The unique id of the item in the cart', required: true },
+          { name: 'variant', type: 'object', description: 'The variant id or name, or the attributes to change such as { "size": "Large" }; other attributes are kept', required: true }
+        ]
+      ),
+      getMissingRequiredChoices: createMethodDescriptor(
+        (cartItemId?: string) => {
+          return shoppingCartRef.current?.getMissingRequiredChoices?.(cartItemId) || [];
+        },
+        'List the required modifier choices (e.g. a size) still missing, so the customer can be asked for them',
+        [
+          { name: 'cartItemId', type: 'string', description: 'Only check this cart item (checks the whole cart when left out)', required: false }
+        ]
+      ),
       removeFromCart: createMethodDescriptor(
         (cartItemId: string) => {
           return shoppingCartRef.current?.removeFromCart?.(cartItemId);
@@ -656,11 +762,65 @@ const AppContent: React.FC = () => {
       ),
       getOrderSummary: createMethodDescriptor(
         () => {
-          return shoppingCartRef.current?.getOrderSummary?.() || { items: [], itemCount: 0, totalQuantity: 0, subtotal: 0, tax: 0, total: 0 };
+          return shoppingCartRef.current?.getOrderSummary?.() || {
+            items: [], itemCount: 0, totalQuantity: 0, subtotal: 0, discount: 0, serviceCharge: 0, deliveryFee: 0, tax: 0, tip: 0, total: 0,
+            taxInclusive: false, taxLines: [], lines: [], promotions: [], couponCodes: [], loyaltyMember: false
+          };
+        },
+        'Get complete order summary with items and totals; lines lists subtotal, discounts, service charge, delivery fee, tax per rate, tip and total in the order to read them to the customer, each with a formatted and a spoken amount',
+        []
+      ),
+      getTipOptions: createMethodDescriptor(
+        () => {
+          return shoppingCartRef.current?.getTipOptions?.() || { options: [], currentTip: 0 };
+        },
+        'Get the tip presets with their amounts for the current order, and the current tip',
+        []
+      ),
+      setTip: createMethodDescriptor(
+        (percent?: number, amount?: number) => {
+          return shoppingCartRef.current?.setTip?.(percent, amount);
+        },
+        'Set the tip as a percentage of the subtotal after discounts or as a fixed amount; pass neither to remove the tip',
+        [
+          { name: 'percent', type: 'number', description: 'Tip percentage, e.g. 18', required: false },
+          { name: 'amount', type: 'number', description: 'Fixed tip amount, e.g. 5', required: false }
+        ]
+      ),
+      applyCoupon: createMethodDescriptor(
+        (code: string) => {
+          return shoppingCartRef.current?.applyCoupon?.(code);
+        },
+        'Apply a coupon code the customer gave; spoken codes work too, e.g. "save twenty five" for SAVE25. Returns whether the deal applies now, its discount, or what the order still needs',
+        [
+          { name: 'code', type: 'string', description: 'The coupon code as the customer said or typed it', required: true }
+        ]
+      ),
+      removeCoupon: createMethodDescriptor(
+        (code: string) => {
+          return shoppingCartRef.current?.removeCoupon?.(code);
+        },
+        'Remove a coupon code from the order',
+        [
+          { name: 'code', type: 'string', description: 'The coupon code to remove', required: true }
+        ]
+      ),
+      getEligiblePromotions: createMethodDescriptor(
+        () => {
+          return shoppingCartRef.current?.getEligiblePromotions?.() || { promotions: [], totalDiscount: 0, couponCodes: [], loyaltyMember: false };
         },
-        'Get complete order summary with items, totals, and tax',
+        'Get the promotions running now: the ones applied to the order with their discount, and for the others what the order still needs (items, spend, time or loyalty membership)',
         []
       ),
+      setLoyaltyMember: createMethodDescriptor(
+        (customerId?: string) => {
+          return shoppingCartRef.current?.setLoyaltyMember?.(customerId);
+        },
+        'Mark the customer as an identified loyalty member, which unlocks loyalty-only deals; pass no id to clear it',
+        [
+          { name: 'customerId', type: 'string', description: 'Loyalty customer ID', required: false }
+        ]
+      ),
       clearCart: createMethodDescriptor(
         () => {
           return shoppingCartRef.current?.clearCart?.();
@@ -691,6 +851,48 @@ const AppContent: React.FC = () => {
     }
   });
 
+  // Auto-register the tool audit log for tools
+  useAutoRegisterComponent({
+    name: 'audit',
+    description: 'Audit log of tool calls per session: input, result, error and duration',
+    category: 'core',
+    methods: {
+      getSessions: createMethodDescriptor(
+        () => ToolAuditLog.getSessions().map(({ sessionId, startedAt, entries }) => ({ sessionId, startedAt, callCount: entries.length })),
+        'List the sessions with logged tool calls, most recent first',
+        []
+      ),
+      getEntries: createMethodDescriptor(
+        (sessionId?: string) => ToolAuditLog.getEntries(sessionId),
+        'Get the logged tool calls of a session in call order',
+        [
+          { name: 'sessionId', type: 'string', description: 'Session to read (default: every session)', required: false }
+        ]
+      ),
+      exportJSON: createMethodDescriptor(
+        (sessionId?: string) => ToolAuditLog.exportJSON(sessionId),
+        'Export logged tool calls as a JSON array',
+        [
+          { name: 'sessionId', type: 'string', description: 'Session to export (default: every session)', required: false }
+        ]
+      ),
+      exportCSV: createMethodDescriptor(
+        (sessionId?: string) => ToolAuditLog.exportCSV(sessionId),
+        'Export logged tool calls as CSV',
+        [
+          { name: 'sessionId', type: 'string', description: 'Session to export (default: every session)', required: false }
+        ]
+      ),
+      clear: createMethodDescriptor(
+        (sessionId?: string) => ToolAuditLog.clear(sessionId),
+        'Clear the logged tool calls',
+        [
+          { name: 'sessionId', type: 'string', description: 'Session to clear (default: every session)', required: false }
+        ]
+      ),
+    }
+  });
+
   // Update chatRef when chat state changes
   useEffect(() => {
     chatRef.current = chat;
@@ -879,6 +1081,37 @@ const AppContent: React.FC = () => {
     setIsEditingConfig(true); // Open settings for manual configuration
   };
 
+  const reportSampleError = (sampleId: string, error: unknown) => {
+    console.error('Error loading sample from Quick Start:', error);
+    showNotification(
+      `Error loading ${sampleId} sample. Please try manual setup.`,
+      "error"
+    );
+  };
+
+  // Load the sample into a new profile, so the current configuration is kept
+  const loadSampleIntoProfile = async (sampleId: string, settings: AppSettings) => {
+    const result = await ProfileManager.loadIntoNewProfile(settings.agent.companyName || sampleId, settings);
+
+    if (result.loaded && SettingsManager.isConfigured()) {
+      // Cognito is already set up, so the sample can be used right away
+      setShowQuickStart(false);
+      await handleConfigSet();
+      showNotification(`${sampleId} sample loaded into profile "${result.profile?.name}"`, "success", { duration: 5000 });
+    } else if (result.loaded) {
+      setShowQuickStart(false);
+      setIsEditingConfig(true); // Open settings for Cognito configuration
+      showNotification(
+        `${sampleId} sample loaded! Please configure your AWS Cognito settings to continue.`,
+        "success",
+        { duration: 8000 }
+      );
+    } else {
+      setShowQuickStart(false);
+      setIsEditingConfig(true);
+    }
+  };
+
   const handleQuickStartLoadSample = async (sampleId: string) => {
     try {
       console.log('🚀 Quick Start: Loading sample configuration:', sampleId);
@@ -891,27 +1124,31 @@ const AppContent: React.FC = () => {
 
       const sampleSettings = await response.json();
 
-      // Load the sample configuration using SettingsManager
-      const result = await SettingsManager.initializeWithSettings(sampleSettings.settings);
-
-      if (result.loaded) {
-        setShowQuickStart(false);
-        setIsEditingConfig(true); // Open settings for Cognito configuration
-        showNotification(
-          `${sampleId} sample loaded! Please configure your AWS Cognito settings to continue.`,
-          "success",
-          { duration: 8000 }
-        );
-      } else {
-        setShowQuickStart(false);
-        setIsEditingConfig(true);
+      // Bring the sample up to the current settings version before loading it
+      const prepared = SettingsManager.prepareImport(sampleSettings);
+      if (!prepared.settings) {
+        throw new Error(`Invalid sample: ${prepared.errors.join('; ')}`);
       }
+
+      // Tools on the main thread get full access to the page, so the user confirms them first
+      if (prepared.mainThreadTools.length > 0) {
+        setPendingSample({ sampleId, settings: prepared.settings, warnings: prepared.warnings });
+        return;
+      }
+      await loadSampleIntoProfile(sampleId, prepared.settings);
     } catch (error) {
-      console.error('Error loading sample from Quick Start:', error);
-      showNotification(
-        `Error loading ${sampleId} sample. Please try manual setup.`,
-        "error"
-      );
+      reportSampleError(sampleId, error);
+    }
+  };
+
+  const handleQuickStartConfirmSample = async () => {
+    if (!pendingSample) return;
+    const { sampleId, settings } = pendingSample;
+    setPendingSample(null);
+    try {
+      await loadSampleIntoProfile(sampleId, settings);
+    } catch (error) {
+      reportSampleError(sampleId, error);
     }
   };
 
@@ -1040,6 +1277,26 @@ const AppContent: React.FC = () => {
     console.log('🧹 All notifications cleared');
   }, []);
 
+  // Surface tool timeouts and cancellations to the user
+  useEffect(() => {
+    return toolExecutor.onExecution((record) => {
+      if (record.status === 'timeout') {
+        showNotification(`Tool ${record.toolName} timed out after ${record.timeoutMs} ms; a fallback result was sent`, 'warning');
+      } else if (record.status === 'cancelled') {
+        showNotification(`Tool ${record.toolName} was cancelled`, 'info');
+      }
+    });
+  }, [showNotification]);
+
+  // Report migrations run on the stored settings when the app loaded them
+  useEffect(() => {
+    const migrations = SettingsManager.takeLoadMigrations();
+    if (migrations.length > 0) {
+      const versions = migrations.map(migration => `v${migration.from} → v${migration.to}`).join(', ');
+      showNotification(`Stored settings were upgraded to the current format (${versions})`, 'info', { duration: 8000 });
+    }
+  }, [showNotification]);
+
   // Save-only callback (doesn't close settings or trigger full refresh)
   const handleConfigSaveOnly = useCallback(() => {
     console.log("💾 App: Configuration saved (staying in settings)");
@@ -1334,6 +1591,7 @@ const AppContent: React.FC = () => {
 
     // Reset auto-initiate flag
     autoInitiateFirstMessageRef.current = false;
+    pendingTypedMessagesRef.current = [];
 
     // Reset thinking indicators
     setWaitingForUserTranscription(false);
@@ -1353,6 +1611,22 @@ const AppContent: React.FC = () => {
     }
   }, []);
 
+  // Send a typed message into the active session (text-input mode)
+  const sendTextMessage = useCallback((text: string) => {
+    if (!isStreamingRef.current) return;
+
+    console.log("App::sendTextMessage::Sending typed message");
+    // Show the message right away; the model may not echo typed input as a USER transcription
+    pendingTypedMessagesRef.current.push(text);
+    if (chatHistoryManagerRef.current) {
+      chatHistoryManagerRef.current.addTextMessage({ role: "USER", message: text });
+    }
+    setWaitingForUserTranscription(false);
+    setWaitingForAssistantResponse(true);
+
+    target.dispatchEvent(new CustomEvent("textInput", { detail: text }));
+  }, []);
+
   // Toggle streaming function
   const toggleStreaming = useCallback(() => {
     if (isStreaming) {
@@ -1446,6 +1720,15 @@ const AppContent: React.FC = () => {
 
       if (roleRef.current === "USER") {
         transcriptionReceivedRef.current = true;
+
+        // Skip the echo of a typed message that is already in the chat
+        const typedIndex = pendingTypedMessagesRef.current.indexOf(data.content?.trim());
+        if (typedIndex >= 0) {
+          pendingTypedMessagesRef.current.splice(typedIndex, 1);
+          setWaitingForAssistantResponse(true);
+          return;
+        }
+
         processTextOutput({
           role: data.role,
           content: data.content,
@@ -1520,6 +1803,18 @@ const AppContent: React.FC = () => {
       setWaitingForAssistantResponse(false);
     };
 
+    const handleReconnecting = (e: Event) => {
+      const { attempt, maxRetries } = (e as CustomEvent).detail;
+      setStatus({ text: `Reconnecting… (attempt ${attempt}/${maxRetries})`, className: "reconnecting" });
+      setWaitingForAssistantResponse(false);
+    };
+
+    const handleReconnected = () => {
+      if (isStreamingRef.current) {
+        setStatus({ text: "Listening... You may speak now", className: "recording" });
+      }
+    };
+
     const handleError = (e: Event) => {
       const error = (e as CustomEvent).detail;
       console.error("Event proxy error:", error);
@@ -1540,6 +1835,8 @@ const AppContent: React.FC = () => {
     target.addEventListener("connect", handleConnect);
     target.addEventListener("disconnect", handleDisconnect);
     target.addEventListener("error", handleError);
+    target.addEventListener("reconnecting", handleReconnecting);
+    target.addEventListener("reconnected", handleReconnected);
 
     // Cleanup
     return () => {
@@ -1551,6 +1848,8 @@ const AppContent: React.FC = () => {
       target.removeEventListener("connect", handleConnect);
       target.removeEventListener("disconnect", handleDisconnect);
       target.removeEventListener("error", handleError);
+      target.removeEventListener("reconnecting", handleReconnecting);
+      target.removeEventListener("reconnected", handleReconnected);
     };
   }, [stopStreaming, base64ToFloat32Array, processTextOutput]);
 
@@ -1590,6 +1889,9 @@ const AppContent: React.FC = () => {
       <QuickStartDialog
         onLoadSample={handleQuickStartLoadSample}
         onSkip={handleQuickStartSkip}
+        mainThreadWarnings={pendingSample?.warnings ?? null}
+        onConfirmMainThread={handleQuickStartConfirmSample}
+        onCancelMainThread={() => setPendingSample(null)}
       />
     );
   }
@@ -1640,6 +1942,16 @@ const AppContent: React.FC = () => {
               <p className="powered-by-subtext">{POWERED_BY_TEXT}</p>
             </div>
             <div className="app-controls">
+              <ProfilePicker
+                disabled={isStreaming}
+                onProfileSwitched={handleConfigSet}
+                onNewFromSample={() => setShowQuickStart(true)}
+                onNotify={showNotification}
+              />
+              <SessionRecorderControls
+                disabled={isStreaming}
+                onNotify={showNotification}
+              />
               <button
                 className="settings-btn"
                 onClick={handleEditSettings}
@@ -1675,7 +1987,10 @@ const AppContent: React.FC = () => {
                   chat={chat}
                   waitingForUserTranscription={waitingForUserTranscription}
                   waitingForAssistantResponse={waitingForAssistantResponse}
+                  textInputEnabled={isStreaming}
+                  onSendText={sendTextMessage}
                 />
+                <ToolAuditPanel />
               </div>
 
               {/* Cart section */}
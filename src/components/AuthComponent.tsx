@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Authenticator, useAuthenticator } from '@aws-amplify/ui-react';
 import { fetchAuthSession } from 'aws-amplify/auth';
+import { SecretVault } from '../lib/util/SecretVault';
 import { SettingsManager } from '../lib/util/SettingsManager';
+import { target } from '../lib/sdk/events_proxy';
 import '@aws-amplify/ui-react/styles.css';
 
 interface AuthComponentProps {
@@ -120,6 +122,8 @@ const AuthenticatedWrapper: React.FC<AuthComponentProps> = ({ children, onAuthSt
         try {
           console.log('🔐 AuthComponent: Fetching credentials for authenticated user');
           const session = await fetchAuthSession();
+          // Secret global parameters may be encrypted with a key derived from the Cognito identity
+          await SecretVault.setIdentity(session.identityId);
           if (session.credentials) {
             SettingsManager.saveCredentials(session.credentials);
             console.log('🔐 AuthComponent: Credentials saved, setting credentialsReady to true');
@@ -128,12 +132,37 @@ const AuthenticatedWrapper: React.FC<AuthComponentProps> = ({ children, onAuthSt
         } catch (error) {
           console.error('Error fetching credentials:', error);
         }
+      } else if (authStatus === 'unauthenticated') {
+        await SecretVault.setIdentity(undefined);
       }
     };
 
     fetchCredentials();
   }, [user, authStatus]);
 
+  // Refresh expired credentials when the voice session needs to reconnect
+  useEffect(() => {
+    const handleCredentialsExpired = async () => {
+      try {
+        console.log('🔐 AuthComponent: Refreshing expired credentials');
+        const session = await fetchAuthSession({ forceRefresh: true });
+        if (!session.credentials) {
+          throw new Error('No credentials returned by Cognito');
+        }
+        SettingsManager.saveCredentials(session.credentials);
+        target.dispatchEvent(new Event('credentialsRefreshed'));
+      } catch (error) {
+        console.error('Error refreshing credentials:', error);
+        target.dispatchEvent(new CustomEvent('credentialsRefreshFailed', {
+          detail: { message: error instanceof Error ? error.message : String(error) }
+        }));
+      }
+    };
+
+    target.addEventListener('credentialsExpired', handleCredentialsExpired);
+    return () => target.removeEventListener('credentialsExpired', handleCredentialsExpired);
+  }, []);
+
   // Notify parent of authentication status changes (only once)
   useEffect(() => {
     if (onAuthStatusChange && credentialsReady && !hasNotifiedAuth) {
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import ThinkingIndicator from './ThinkingIndicator';
 
 interface ChatHistory {
@@ -14,14 +14,29 @@ interface ChatContainerProps {
   chat: ChatHistory;
   waitingForUserTranscription: boolean;
   waitingForAssistantResponse: boolean;
+  textInputEnabled?: boolean;
+  onSendText?: (text: string) => void;
 }
 
 const ChatContainer: React.FC<ChatContainerProps> = ({ 
   chat, 
   waitingForUserTranscription, 
-  waitingForAssistantResponse 
+  waitingForAssistantResponse,
+  textInputEnabled = false,
+  onSendText
 }) => {
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const [textInput, setTextInput] = useState('');
+
+  // Send the typed message and clear the input box
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const text = textInput.trim();
+    if (!text || !textInputEnabled || !onSendText) return;
+
+    onSendText(text);
+    setTextInput('');
+  };
 
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
@@ -31,39 +46,61 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
   }, [chat, waitingForUserTranscription, waitingForAssistantResponse]);
 
   return (
-    <div id="chat-container" ref={chatContainerRef}>
-      <div className="chat-content">
-        {chat.history.map((item, index) => {
-          if (item.endOfConversation) {
-            return (
-              <div key={index} className="message system">
-                Conversation ended
-              </div>
-            );
-          }
+    <>
+      <div id="chat-container" ref={chatContainerRef}>
+        <div className="chat-content">
+          {chat.history.map((item, index) => {
+            if (item.endOfConversation) {
+              return (
+                <div key={index} className="message system">
+                  Conversation ended
+                </div>
+              );
+            }
 
-          if (item.role) {
-            const roleLowerCase = item.role.toLowerCase();
-            return (
-              <div key={index} className={`message ${roleLowerCase}`}>
-                <div className="role-label">{item.role}</div>
-                <div>{item.message || "No content"}</div>
-              </div>
-            );
-          }
+            if (item.role) {
+              const roleLowerCase = item.role.toLowerCase();
+              return (
+                <div key={index} className={`message ${roleLowerCase}`}>
+                  <div className="role-label">{item.role}</div>
+                  <div>{item.message || "No content"}</div>
+                </div>
+              );
+            }
 
-          return null;
-        })}
+            return null;
+          })}
 
-        {waitingForUserTranscription && (
-          <ThinkingIndicator role="USER" text="Listening" />
-        )}
+          {waitingForUserTranscription && (
+            <ThinkingIndicator role="USER" text="Listening" />
+          )}
 
-        {waitingForAssistantResponse && (
-          <ThinkingIndicator role="ASSISTANT" text="Thinking" />
-        )}
+          {waitingForAssistantResponse && (
+            <ThinkingIndicator role="ASSISTANT" text="Thinking" />
+          )}
+        </div>
       </div>
-    </div>
+
+      {onSendText && (
+        <form className="chat-text-input" onSubmit={handleSubmit}>
+          <input
+            type="text"
+            value={textInput}
+            onChange={(e) => setTextInput(e.target.value)}
+            placeholder={textInputEnabled ? 'Type a message...' : 'Start streaming to type a message'}
+            disabled={!textInputEnabled}
+            aria-label="Type a message"
+          />
+          <button
+            type="submit"
+            disabled={!textInputEnabled || !textInput.trim()}
+            title="Send message"
+          >
+            Send
+          </button>
+        </form>
+      )}
+    </>
   );
 };
 
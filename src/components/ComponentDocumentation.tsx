@@ -103,7 +103,8 @@ async function execute({...args}) {
     toolName,        // Name of this tool
     agentTriggered,  // Boolean: true if AI-triggered, false if auto-executed
     globals,         // Global parameters: key-value pairs from Tools Global Parameters
-    axios,           // HTTP client for API requests
+    signal,          // AbortSignal: aborted when the tool times out or is cancelled
+    axios,           // HTTP client for API requests (cancelled together with signal)
     components,      // UI components: { app, chat, ui, auth }
     utils,           // Utility functions: { generateId, formatDate, sleep, parseJSON, stringifyJSON }
     auth,            // Authentication: { getCredentials, getTokens, getJWT, getUserInfo }
@@ -501,6 +502,7 @@ async function execute({...args}) {
             <li><strong>Core Parameters:</strong> <code>input</code> (AI/auto data), <code>sessionId</code>, <code>toolName</code>, <code>agentTriggered</code> (boolean)</li>
             <li><strong>Global Parameters:</strong> <code>globals</code> - Key-value pairs from Tools Global Parameters (e.g., <code>globals.API_ENDPOINT</code>)</li>
             <li><strong>HTTP Client:</strong> <code>axios</code> - Full Axios instance for API requests</li>
+            <li><strong>Timeouts:</strong> <code>signal</code> - AbortSignal aborted when the tool exceeds its timeout or the session closes; <code>axios</code> requests use it automatically</li>
             <li><strong>UI Components:</strong> <code>components.app</code>, <code>components.chat</code>, <code>components.ui</code>, <code>components.auth</code></li>
             <li><strong>Utilities:</strong> <code>utils.generateId()</code>, <code>utils.formatDate()</code>, <code>utils.sleep()</code>, <code>utils.parseJSON()</code>, <code>utils.getDeviceId()</code></li>
             <li><strong>Authentication:</strong> <code>auth.getCredentials()</code>, <code>auth.getTokens()</code>, <code>auth.getJWT()</code></li>
@@ -611,19 +613,19 @@ async function execute({...args}) {
           
           <div className="example-section">
             <h5>Example 4: Environment-Specific Global Parameters</h5>
-            <p>Use global parameters for different environments (dev/staging/prod):</p>
+            <p>
+              Add environments (e.g. dev, staging, prod) in the Global Parameters section and give parameters own values
+              per environment. Tools receive the values of the active environment in <code>globals</code>; open the app
+              with <code>?env=staging</code> to use another environment for that page.
+            </p>
             <CodeExample
-              code={`// Development Environment Global Parameters:
-// API_ENDPOINT = "https://dev-api.mycompany.com/v1"
-// DEBUG_MODE = "true"
-// CACHE_TTL = "60"
-// LOG_LEVEL = "debug"
-
-// Production Environment Global Parameters:
-// API_ENDPOINT = "https://api.mycompany.com/v1"
-// DEBUG_MODE = "false"
-// CACHE_TTL = "3600"
-// LOG_LEVEL = "error"
+              code={`// Environments: dev, prod
+// Global Parameters (default value, then own values per environment):
+// ENVIRONMENT_NAME = "dev"                              prod: "prod"
+// API_ENDPOINT = "https://dev-api.mycompany.com/v1"     prod: "https://api.mycompany.com/v1"
+// DEBUG_MODE = "true"                                   prod: "false"
+// CACHE_TTL = "60"                                      prod: "3600"
+// LOG_LEVEL = "debug"                                   prod: "error"
 
 async function execute({...args}) {
   const { 
@@ -645,7 +647,7 @@ async function execute({...args}) {
     const response = await axios.post(\`\${globals.API_ENDPOINT}/orders\`, {
       ...input,
       metadata: {
-        environment: globals.API_ENDPOINT.includes('dev') ? 'development' : 'production',
+        environment: globals.ENVIRONMENT_NAME,
         debugMode: isDebugMode,
         sessionId: sessionId
       }
@@ -674,7 +676,7 @@ async function execute({...args}) {
     return JSON.stringify({
       success: true,
       orderId: response.data.orderId,
-      environment: globals.API_ENDPOINT.includes('dev') ? 'dev' : 'prod',
+      environment: globals.ENVIRONMENT_NAME,
       debugMode: isDebugMode,
       processingTime: response.headers['x-processing-time']
     });
@@ -694,7 +696,7 @@ async function execute({...args}) {
     return JSON.stringify({
       success: false,
       error: error.message,
-      environment: globals.API_ENDPOINT.includes('dev') ? 'dev' : 'prod',
+      environment: globals.ENVIRONMENT_NAME,
       debugMode: isDebugMode
     });
   }
@@ -930,7 +932,7 @@ async function execute({...args}) {
             <h5>🌟 Global Parameters Best Practices:</h5>
             <ul>
               <li><strong>Naming Convention:</strong> Use UPPERCASE_WITH_UNDERSCORES for parameter keys</li>
-              <li><strong>Environment Switching:</strong> Change global parameters for dev/staging/prod environments</li>
+              <li><strong>Environment Switching:</strong> Give parameters own values for dev/staging/prod and switch the active environment in Settings or with <code>?env=name</code></li>
               <li><strong>JSON Values:</strong> Store complex configuration as JSON strings in parameter values</li>
               <li><strong>Security:</strong> Keep API keys and sensitive data in global parameters, not in tool code</li>
               <li><strong>Documentation:</strong> Use the description field to document each parameter's purpose</li>
@@ -950,7 +952,7 @@ async function execute({...args}) {
               <li><strong>Input Usage:</strong> Use <code>input</code> parameter for dynamic API parameters</li>
               <li><strong>Chat vs Return:</strong> Chat display for user visibility, JSON return for AI processing</li>
               <li><strong>Notifications:</strong> Use <code>components.ui.showNotification()</code> for user feedback</li>
-              <li><strong>Environment Config:</strong> Switch global parameters for different environments</li>
+              <li><strong>Environment Config:</strong> Keep one <code>API_ENDPOINT</code> parameter with a value per environment</li>
             </ul>
           </div>
         </div>
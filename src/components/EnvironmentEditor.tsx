@@ -0,0 +1,118 @@
+import type React from "react";
+import { useId, useState } from "react";
+import { SettingsManager } from "../lib/util/SettingsManager";
+
+interface EnvironmentEditorProps {
+  environments: string[];
+  activeEnvironment?: string;
+  onChange: (
+    environments: string[],
+    activeEnvironment: string | undefined,
+  ) => void;
+}
+
+export const EnvironmentEditor: React.FC<EnvironmentEditorProps> = ({
+  environments,
+  activeEnvironment,
+  onChange,
+}) => {
+  const fieldId = useId();
+  const [newName, setNewName] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const urlEnvironment = SettingsManager.getUrlEnvironment();
+
+  const addEnvironment = () => {
+    const name = newName.trim().toLowerCase();
+    const nameErrors = SettingsManager.validateEnvironmentName(
+      name,
+      environments,
+    );
+    setErrors(nameErrors);
+    if (nameErrors.length > 0) return;
+    onChange([...environments, name], activeEnvironment);
+    setNewName("");
+  };
+
+  const removeEnvironment = (name: string) => {
+    onChange(
+      environments.filter((environment) => environment !== name),
+      activeEnvironment === name ? undefined : activeEnvironment,
+    );
+  };
+
+  return (
+    <div className="environment-editor">
+      <div className="environment-editor-row">
+        <label htmlFor={`${fieldId}-active`}>Active environment</label>
+        <select
+          id={`${fieldId}-active`}
+          value={activeEnvironment || ""}
+          onChange={(e) => onChange(environments, e.target.value || undefined)}
+        >
+          <option value="">Default values</option>
+          {environments.map((environment) => (
+            <option key={environment} value={environment}>
+              {environment}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {urlEnvironment && (
+        <p
+          className={
+            environments.includes(urlEnvironment) ? "field-hint" : "field-error"
+          }
+        >
+          {environments.includes(urlEnvironment)
+            ? `The URL selects ${urlEnvironment} (?env=${urlEnvironment}) for this page, in place of the active environment.`
+            : `The URL asks for environment ${urlEnvironment}, which is not configured; the active environment is used.`}
+        </p>
+      )}
+
+      <div className="environment-list">
+        {environments.map((environment) => (
+          <span
+            key={environment}
+            className={`environment-chip ${environment === activeEnvironment ? "active" : ""}`}
+          >
+            {environment}
+            <button
+              type="button"
+              onClick={() => removeEnvironment(environment)}
+              title={`Remove ${environment} and the parameter values for it`}
+              aria-label={`Remove ${environment}`}
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addEnvironment();
+            }
+          }}
+          placeholder="dev, staging, prod"
+          aria-label="New environment name"
+        />
+        <button
+          type="button"
+          onClick={addEnvironment}
+          disabled={!newName.trim()}
+        >
+          + Add Environment
+        </button>
+      </div>
+      {errors.map((error) => (
+        <div key={error} className="field-error">
+          {error}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useId } from 'react';
 import Editor from '@monaco-editor/react';
+import { SecretVault } from '../lib/util/SecretVault';
 import { GlobalParameter } from '../lib/util/SettingsManager';
 
 interface GlobalParameterEditorProps {
   parameter: GlobalParameter;
+  environments: string[];
   onUpdate: (parameter: GlobalParameter) => void;
   onRemove: () => void;
   errors: string[];
@@ -11,13 +13,17 @@ interface GlobalParameterEditorProps {
 
 export const GlobalParameterEditor: React.FC<GlobalParameterEditorProps> = ({ 
   parameter, 
+  environments,
   onUpdate, 
   onRemove, 
   errors 
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isValueExpanded, setIsValueExpanded] = useState(false);
+  const fieldId = useId();
   const [localParameter, setLocalParameter] = useState<GlobalParameter>(parameter);
+  const [revealedValue, setRevealedValue] = useState<string | null>(null);
+  const [secretError, setSecretError] = useState('');
 
   // Update local state when prop changes
   useEffect(() => {
@@ -30,6 +36,69 @@ export const GlobalParameterEditor: React.FC<GlobalParameterEditorProps> = ({
     onUpdate(updatedParameter);
   };
 
+  const handleSecretToggle = (secret: boolean) => {
+    if (secret) {
+      handleFieldChange('secret', true);
+      return;
+    }
+    // Turning a secret into a plain parameter stores its values unencrypted again
+    const { encryptedValue: _, encryptedEnvironmentValues: __, ...plain } = localParameter;
+    const environmentValues = localParameter.environmentValues && Object.fromEntries(
+      Object.entries(localParameter.environmentValues).map(([environment, value]) => [
+        environment,
+        value || SecretVault.reveal(localParameter.encryptedEnvironmentValues?.[environment]) || ''
+      ])
+    );
+    const updatedParameter = {
+      ...plain,
+      secret: false,
+      value: localParameter.value || SecretVault.reveal(localParameter.encryptedValue) || '',
+      environmentValues
+    };
+    setLocalParameter(updatedParameter);
+    onUpdate(updatedParameter);
+  };
+
+  const toggleReveal = async () => {
+    setSecretError('');
+    if (revealedValue !== null) {
+      setRevealedValue(null);
+      return;
+    }
+    if (localParameter.value || !localParameter.encryptedValue) {
+      setRevealedValue(localParameter.value);
+      return;
+    }
+    try {
+      setRevealedValue(await SecretVault.decrypt(localParameter.encryptedValue));
+    } catch {
+      setSecretError(SecretVault.isUnlocked() ? 'The stored value cannot be decrypted with the current vault key' : 'Unlock the secret vault to show the value');
+    }
+  };
+
+  // Own value for an environment, or undefined to use the default value there
+  const setEnvironmentValue = (environment: string, value: string | undefined) => {
+    const environmentValues = { ...localParameter.environmentValues };
+    const encryptedEnvironmentValues = { ...localParameter.encryptedEnvironmentValues };
+    if (value === undefined) {
+      delete environmentValues[environment];
+      delete encryptedEnvironmentValues[environment];
+    } else {
+      environmentValues[environment] = value;
+    }
+    const updatedParameter = { ...localParameter, environmentValues, encryptedEnvironmentValues };
+    setLocalParameter(updatedParameter);
+    onUpdate(updatedParameter);
+  };
+
+  const hasStoredSecret = !!localParameter.secret && !localParameter.value && !!localParameter.encryptedValue;
+  const storedEnvironmentSecrets = Object.entries(localParameter.environmentValues || {})
+    .filter(([environment, value]) => !value && localParameter.encryptedEnvironmentValues?.[environment])
+    .map(([environment]) => localParameter.encryptedEnvironmentValues?.[environment]);
+  const canMakePlain = [...(hasStoredSecret ? [localParameter.encryptedValue] : []), ...storedEnvironmentSecrets]
+    .every(encrypted => SecretVault.reveal(encrypted) !== undefined);
+  const environmentValueCount = Object.keys(localParameter.environmentValues || {}).length;
+
   const handleKeyChange = (value: string) => {
     // Convert to valid parameter key format (alphanumeric + underscore, preserve case)
     const cleanKey = value.replace(/[^a-zA-Z0-9_]/g, '_');
@@ -42,14 +111,20 @@ export const GlobalParameterEditor: React.FC<GlobalParameterEditorProps> = ({
     <div className={`global-parameter-editor ${hasErrors ? 'has-errors' : ''}`}>
       <div className="parameter-header" onClick={() => setIsExpanded(!isExpanded)}>
         <div className="parameter-title">
-          <span className="parameter-icon">📋</span>
+          <span className="parameter-icon">{localParameter.secret ? '🔒' : '📋'}</span>
           <span className="parameter-name">
             {localParameter.key || 'Unnamed Parameter'}
           </span>
           <span className="parameter-order">#{localParameter.order}</span>
+          {environmentValueCount > 0 && (
+            <span className="parameter-environments" title="Environments with an own value">🌐 {environmentValueCount}</span>
+          )}
         </div>
         
-        {!isExpanded && localParameter.value && (
+        {!isExpanded && localParameter.secret && (localParameter.value || localParameter.encryptedValue) && (
+          <div className="parameter-preview">••••••••</div>
+        )}
+        {!isExpanded && !localParameter.secret && localParameter.value && (
           <div className="parameter-preview">
             {localParameter.value.length > 50 
               ? `${localParameter.value.substring(0, 50)}...` 
@@ -120,41 +195,121 @@ export const GlobalParameterEditor: React.FC<GlobalParameterEditorProps> = ({
           </div>
 
           <div className="form-group">
-            <div className="editor-header">
-              <label>Parameter Value *</label>
-              <button
-                type="button"
-                className="code-expand-btn"
-                onClick={() => setIsValueExpanded(!isValueExpanded)}
-                title={isValueExpanded ? "Collapse editor" : "Expand editor"}
-              >
-                {isValueExpanded ? '🗗' : '🗖'}
-              </button>
-            </div>
-            <div className={`code-editor-container ${isValueExpanded ? 'expanded' : ''}`}>
-              <Editor
-                height={isValueExpanded ? "300px" : "100px"}
-                defaultLanguage="plaintext"
-                value={localParameter.value}
-                onChange={(value) => handleFieldChange('value', value || '')}
-                theme="vs-dark"
-                options={{
-                  minimap: { enabled: false },
-                  scrollBeyondLastLine: false,
-                  fontSize: 14,
-                  lineNumbers: 'off',
-                  wordWrap: 'on',
-                  scrollbar: {
-                    vertical: 'auto',
-                    horizontal: 'auto'
-                  }
-                }}
+            <label className="checkbox-label" title={canMakePlain ? '' : 'Unlock the secret vault to store this value unencrypted'}>
+              <input
+                type="checkbox"
+                checked={!!localParameter.secret}
+                onChange={(e) => handleSecretToggle(e.target.checked)}
+                disabled={localParameter.secret && !canMakePlain}
               />
-            </div>
-            {errors.some(e => e.includes('value')) && (
-              <div className="field-error">Parameter value is required</div>
-            )}
+              🔒 Secret (encrypted in this browser, left out of exports)
+            </label>
           </div>
+
+          {localParameter.secret ? (
+            <div className="form-group">
+              <label htmlFor={`${fieldId}-secret`}>Secret Value *</label>
+              <div className="secret-value-input">
+                <input
+                  id={`${fieldId}-secret`}
+                  type={revealedValue !== null ? 'text' : 'password'}
+                  value={revealedValue !== null && !localParameter.value ? revealedValue : localParameter.value}
+                  onChange={(e) => {
+                    setRevealedValue(revealedValue !== null ? e.target.value : null);
+                    handleFieldChange('value', e.target.value);
+                  }}
+                  placeholder={hasStoredSecret ? '•••••••• stored encrypted, type to replace' : 'API key, token or password'}
+                  autoComplete="off"
+                  className={errors.some(e => e.includes('value')) ? 'error' : ''}
+                />
+                <button type="button" onClick={toggleReveal} disabled={!localParameter.value && !localParameter.encryptedValue}>
+                  {revealedValue !== null ? 'Hide' : 'Show'}
+                </button>
+              </div>
+              <small className="field-hint">
+                Encrypted with the secret vault key when the settings are saved. Tools receive it in globals like any other parameter.
+              </small>
+              {secretError && <div className="field-error">{secretError}</div>}
+              {errors.includes('Secret value is required') && (
+                <div className="field-error">Secret value is required</div>
+              )}
+            </div>
+          ) : (
+            <div className="form-group">
+              <div className="editor-header">
+                <label>Parameter Value *</label>
+                <button
+                  type="button"
+                  className="code-expand-btn"
+                  onClick={() => setIsValueExpanded(!isValueExpanded)}
+                  title={isValueExpanded ? "Collapse editor" : "Expand editor"}
+                >
+                  {isValueExpanded ? '🗗' : '🗖'}
+                </button>
+              </div>
+              <div className={`code-editor-container ${isValueExpanded ? 'expanded' : ''}`}>
+                <Editor
+                  height={isValueExpanded ? "300px" : "100px"}
+                  defaultLanguage="plaintext"
+                  value={localParameter.value}
+                  onChange={(value) => handleFieldChange('value', value || '')}
+                  theme="vs-dark"
+                  options={{
+                    minimap: { enabled: false },
+                    scrollBeyondLastLine: false,
+                    fontSize: 14,
+                    lineNumbers: 'off',
+                    wordWrap: 'on',
+                    scrollbar: {
+                      vertical: 'auto',
+                      horizontal: 'auto'
+                    }
+                  }}
+                />
+              </div>
+              {errors.some(e => e.includes('value')) && (
+                <div className="field-error">Parameter value is required</div>
+              )}
+            </div>
+          )}
+
+          {environments.length > 0 && (
+            <div className="form-group">
+              <span className="environment-values-title">Environment Values</span>
+              <small className="field-hint">
+                Environments without an own value use the value above.
+              </small>
+              {environments.map(environment => {
+                const ownValue = localParameter.environmentValues?.[environment];
+                const isStoredSecret = !!localParameter.secret && !ownValue && !!localParameter.encryptedEnvironmentValues?.[environment];
+                return (
+                  <div key={environment} className="environment-value-row">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={ownValue !== undefined}
+                        onChange={(e) => setEnvironmentValue(environment, e.target.checked ? '' : undefined)}
+                      />
+                      {environment}
+                    </label>
+                    {ownValue !== undefined && (
+                      <input
+                        type={localParameter.secret ? 'password' : 'text'}
+                        value={ownValue}
+                        onChange={(e) => setEnvironmentValue(environment, e.target.value)}
+                        placeholder={isStoredSecret ? '•••••••• stored encrypted, type to replace' : `Value in ${environment}`}
+                        aria-label={`Value of ${localParameter.key || 'parameter'} in ${environment}`}
+                        autoComplete="off"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {errors.filter(error => error.startsWith('Secret value for')).map(error => (
+                <div key={error} className="field-error">{error}</div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
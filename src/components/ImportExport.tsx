@@ -1,5 +1,15 @@
 import React, { useState, useRef } from 'react';
-import { SettingsManager } from '../lib/util/SettingsManager';
+import type { SettingsImportPlan } from '../lib/util/SettingsDiff';
+import { type AppSettings, type PreparedImport, type SettingsBackup, SettingsManager } from '../lib/util/SettingsManager';
+import type { AppliedSettingsMigration } from '../lib/util/SettingsMigrations';
+import { ImportPreview } from './ImportPreview';
+
+// File waiting in the import preview
+interface PendingImport {
+  fileName: string;
+  current: AppSettings;
+  prepared: PreparedImport & { settings: AppSettings };
+}
 
 interface ImportExportProps {
   onImportSuccess?: () => void;
@@ -14,6 +24,12 @@ export const ImportExport: React.FC<ImportExportProps> = ({
   const [isImporting, setIsImporting] = useState(false);
   const [importStatus, setImportStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importMigrations, setImportMigrations] = useState<AppliedSettingsMigration[]>([]);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [backups, setBackups] = useState<SettingsBackup[]>(() => SettingsManager.listBackups());
+  const [restoreMessage, setRestoreMessage] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [previewErrors, setPreviewErrors] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Generate filename with timestamp
@@ -80,12 +96,41 @@ export const ImportExport: React.FC<ImportExportProps> = ({
     event.preventDefault();
   };
 
-  // Handle import
+  // Report the outcome of an import
+  const finishImport = (
+    result: { success: boolean; errors: string[] },
+    migrations: AppliedSettingsMigration[],
+    warnings: string[]
+  ) => {
+    setImportMigrations(migrations);
+    setImportWarnings(warnings);
+    setBackups(SettingsManager.listBackups());
+    
+    if (result.success) {
+      setImportStatus('success');
+      console.log('✅ Import completed successfully');
+      onImportSuccess?.();
+      
+      // Show success message briefly, longer when there is a migration report to read
+      const hasReport = migrations.length > 0 || warnings.length > 0;
+      setTimeout(() => {
+        setImportStatus('idle');
+      }, hasReport ? 10000 : 3000);
+    } else {
+      setImportStatus('error');
+      setImportErrors(result.errors);
+      console.error('Import failed:', result.errors);
+      onImportError?.(result.errors);
+    }
+  };
+
+  // Handle import: read the file and show what it would change
   const handleImport = async (file: File) => {
     try {
       setIsImporting(true);
       setImportStatus('idle');
       setImportErrors([]);
+      setPendingImport(null);
       
       console.log('📥 Starting import...', file.name);
       
@@ -97,25 +142,20 @@ export const ImportExport: React.FC<ImportExportProps> = ({
       // Read file content
       const fileContent = await file.text();
       
-      // Import settings
-      const result = SettingsManager.importSettings(fileContent, { replaceAll: true });
-      
-      if (result.success) {
-        setImportStatus('success');
-        console.log('✅ Import completed successfully');
-        onImportSuccess?.();
-        
-        // Show success message briefly
-        setTimeout(() => {
-          setImportStatus('idle');
-        }, 3000);
-      } else {
-        setImportStatus('error');
-        setImportErrors(result.errors);
-        console.error('Import failed:', result.errors);
-        onImportError?.(result.errors);
+      // Migrate and validate before previewing
+      const prepared = SettingsManager.readImportFile(fileContent);
+      if (!prepared.settings) {
+        finishImport({ success: false, errors: prepared.errors }, prepared.migrations, prepared.warnings);
+        return;
       }
       
+      setPreviewErrors([]);
+      setPendingImport({
+        fileName: file.name,
+        current: SettingsManager.getSettingsOrDefaults(),
+        prepared: { ...prepared, settings: prepared.settings }
+      });
+      
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       setImportStatus('error');
@@ -131,6 +171,65 @@ export const ImportExport: React.FC<ImportExportProps> = ({
     }
   };
 
+  // Settings of the file with the secret values entered in the preview encrypted
+  const withSecrets = async (secretValues: Record<string, string>): Promise<AppSettings | null> => {
+    if (!pendingImport) return null;
+    try {
+      return await SettingsManager.fillSecrets(pendingImport.prepared.settings, secretValues);
+    } catch (error) {
+      setPreviewErrors([`Could not encrypt the secret values: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+      return null;
+    }
+  };
+
+  // Import the parts picked in the preview
+  const handleImportSelected = async (plan: SettingsImportPlan, secretValues: Record<string, string>) => {
+    if (!pendingImport) return;
+    const { prepared } = pendingImport;
+    const settings = await withSecrets(secretValues);
+    if (!settings) return;
+    const result = SettingsManager.applyImportPlan(settings, plan);
+    if (!result.success) {
+      setPreviewErrors(result.errors);
+      return;
+    }
+    setPendingImport(null);
+    finishImport(result, prepared.migrations, prepared.warnings);
+  };
+
+  // Replace all current settings with the file, as before the preview existed
+  const handleReplaceAll = async (secretValues: Record<string, string>) => {
+    if (!pendingImport) return;
+    const { prepared } = pendingImport;
+    const settings = await withSecrets(secretValues);
+    if (!settings) return;
+    const result = SettingsManager.replaceWithImport(settings);
+    if (!result.success) {
+      setPreviewErrors(result.errors);
+      return;
+    }
+    setPendingImport(null);
+    finishImport(result, prepared.migrations, prepared.warnings);
+  };
+
+  // Restore a backup into the current settings; the settings it replaces are backed up too
+  const handleRestore = (backup: SettingsBackup) => {
+    const result = SettingsManager.restoreBackup(backup.key);
+    setBackups(SettingsManager.listBackups());
+    if (result.success) {
+      setRestoreMessage(`✅ Restored the backup of ${new Date(backup.createdAt).toLocaleString()}`);
+      onImportSuccess?.();
+    } else {
+      setRestoreMessage(null);
+      onImportError?.(result.errors);
+    }
+  };
+
+  const handleDeleteBackup = (backup: SettingsBackup) => {
+    SettingsManager.deleteBackup(backup.key);
+    setBackups(SettingsManager.listBackups());
+  };
+
   return (
     <div className="import-export-section">
       <h3>💾 Backup & Restore</h3>
@@ -155,41 +254,76 @@ export const ImportExport: React.FC<ImportExportProps> = ({
       {/* Import Section */}
       <div className="import-section">
         <h4>📥 Import Settings</h4>
-        <p>Upload a previously exported settings file to restore your complete application configuration. This will restore Amazon Cognito settings, custom tools, system prompts, and all preferences.</p>
+        <p>Upload a previously exported settings file to restore your complete application configuration, or pick single tools and global parameters from it. A preview shows what the file changes before anything is imported.</p>
         
-        <div 
-          className={`import-dropzone ${isImporting ? 'importing' : ''} ${importStatus}`}
-          onDrop={handleDrop}
-          onDragOver={handleDragOver}
-          onClick={() => fileInputRef.current?.click()}
-        >
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".json"
-            onChange={handleFileSelect}
-            style={{ display: 'none' }}
+        {pendingImport ? (
+          <ImportPreview
+            fileName={pendingImport.fileName}
+            current={pendingImport.current}
+            incoming={pendingImport.prepared.settings}
+            migrations={pendingImport.prepared.migrations}
+            warnings={pendingImport.prepared.warnings}
+            mainThreadTools={pendingImport.prepared.mainThreadTools}
+            errors={previewErrors}
+            onImport={handleImportSelected}
+            onReplaceAll={handleReplaceAll}
+            onCancel={() => setPendingImport(null)}
           />
+        ) : (
+          <div 
+            className={`import-dropzone ${isImporting ? 'importing' : ''} ${importStatus}`}
+            onDrop={handleDrop}
+            onDragOver={handleDragOver}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json"
+              onChange={handleFileSelect}
+              style={{ display: 'none' }}
+            />
           
-          {isImporting ? (
-            <div className="import-loading">
-              <div className="spinner"></div>
-              <p>⏳ Importing settings...</p>
-            </div>
-          ) : (
-            <div className="import-content">
-              <div className="import-icon">📁</div>
-              <p><strong>Click to choose file</strong> or drag & drop here</p>
-              <p className="file-info">Accepts .json files only</p>
-            </div>
-          )}
-        </div>
+            {isImporting ? (
+              <div className="import-loading">
+                <div className="spinner"></div>
+                <p>⏳ Importing settings...</p>
+              </div>
+            ) : (
+              <div className="import-content">
+                <div className="import-icon">📁</div>
+                <p><strong>Click to choose file</strong> or drag & drop here</p>
+                <p className="file-info">Accepts .json files only</p>
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Import Status */}
         {importStatus === 'success' && (
           <div className="import-success">
             <p>✅ Settings imported successfully!</p>
             <p className="success-note">Your configuration has been updated. You may need to refresh the page.</p>
+            {importMigrations.length > 0 && (
+              <>
+                <p className="success-note">🔀 Upgraded from an older settings format:</p>
+                <ul>
+                  {importMigrations.map((migration) => (
+                    <li key={migration.to}>v{migration.from} → v{migration.to}: {migration.description}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {importWarnings.length > 0 && (
+              <>
+                <p className="success-note">⚠️ Warnings:</p>
+                <ul>
+                  {importWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </>
+            )}
           </div>
         )}
 
@@ -206,9 +340,43 @@ export const ImportExport: React.FC<ImportExportProps> = ({
 
         {/* Warning */}
         <div className="import-warning">
-          <p>⚠️ <strong>Warning:</strong> Importing will replace your current settings and tools. A backup will be created automatically.</p>
+          <p>⚠️ <strong>Warning:</strong> Replace Everything replaces your current settings and tools with the file. A backup is created automatically before any import.</p>
         </div>
       </div>
+
+      {/* Backups Section */}
+      <div className="backups-section">
+        <h4>🗂️ Automatic Backups</h4>
+        <p>Settings are backed up before an import, a restore or deleting a profile. Restoring a backup replaces the settings of the current profile.</p>
+
+        {restoreMessage && <div className="import-success"><p>{restoreMessage}</p></div>}
+
+        {backups.length === 0 ? (
+          <p className="file-info">No backups yet.</p>
+        ) : (
+          <ul className="backup-list">
+            {backups.map((backup) => (
+              <li key={backup.key} className="backup-item">
+                <div className="backup-details">
+                  <strong>{new Date(backup.createdAt).toLocaleString()}</strong>
+                  <span>{backup.reason}</span>
+                  <span className="backup-meta">
+                    {backup.companyName ? `${backup.companyName} · ` : ''}{backup.toolCount} tool{backup.toolCount === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="backup-actions">
+                  <button type="button" className="export-btn" onClick={() => handleRestore(backup)}>
+                    ♻️ Restore
+                  </button>
+                  <button type="button" className="remove-btn" onClick={() => handleDeleteBackup(backup)} title="Delete backup">
+                    🗑️
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 };
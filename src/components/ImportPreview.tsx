@@ -0,0 +1,467 @@
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+import { SecretVault } from "../lib/util/SecretVault";
+import {
+  type GlobalParameterImportAction,
+  type ImportItemStatus,
+  SettingsDiff,
+  type SettingsDiffResult,
+  type SettingsImportPlan,
+  type ToolImportAction,
+} from "../lib/util/SettingsDiff";
+import { type AppSettings, SettingsManager } from "../lib/util/SettingsManager";
+import type { AppliedSettingsMigration } from "../lib/util/SettingsMigrations";
+import { SecretVaultPanel } from "./SecretVaultPanel";
+
+interface ImportPreviewProps {
+  fileName: string;
+  current: AppSettings;
+  incoming: AppSettings;
+  migrations: AppliedSettingsMigration[];
+  warnings: string[];
+  mainThreadTools: string[]; // Tools of the file that run on the main thread
+  errors: string[];
+  onImport: (
+    plan: SettingsImportPlan,
+    secretValues: Record<string, string>,
+  ) => void;
+  onReplaceAll: (secretValues: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<ImportItemStatus, string> = {
+  new: "New",
+  changed: "Changed",
+  unchanged: "Unchanged",
+};
+
+const TOOL_ACTIONS: Record<
+  ImportItemStatus,
+  { value: ToolImportAction; label: string }[]
+> = {
+  new: [
+    { value: "add", label: "Add" },
+    { value: "skip", label: "Skip" },
+  ],
+  changed: [
+    { value: "replace", label: "Replace current" },
+    { value: "copy", label: "Add as copy" },
+    { value: "skip", label: "Keep current" },
+  ],
+  unchanged: [
+    { value: "copy", label: "Add as copy" },
+    { value: "skip", label: "Skip" },
+  ],
+};
+
+const PARAMETER_ACTIONS: Record<
+  ImportItemStatus,
+  { value: GlobalParameterImportAction; label: string }[]
+> = {
+  new: [
+    { value: "add", label: "Add" },
+    { value: "skip", label: "Skip" },
+  ],
+  changed: [
+    { value: "replace", label: "Replace current" },
+    { value: "skip", label: "Keep current" },
+  ],
+  unchanged: [{ value: "skip", label: "Skip" }],
+};
+
+const truncate = (text: string, length = 160) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({
+  fileName,
+  current,
+  incoming,
+  migrations,
+  warnings,
+  mainThreadTools,
+  errors,
+  onImport,
+  onReplaceAll,
+  onCancel,
+}) => {
+  const diff: SettingsDiffResult = useMemo(
+    () => SettingsDiff.diff(current, incoming),
+    [current, incoming],
+  );
+  const [plan, setPlan] = useState<SettingsImportPlan>(() =>
+    SettingsDiff.createDefaultPlan(diff),
+  );
+  const [isVaultUnlocked, setIsVaultUnlocked] = useState(
+    SecretVault.isUnlocked(),
+  );
+  const [trustsMainThread, setTrustsMainThread] = useState(false);
+
+  // Secrets are left out of exports, so their values are entered here; a value in the file is suggested
+  const secretInputs = useMemo(
+    () => SettingsManager.getSecretsToEnter(incoming),
+    [incoming],
+  );
+  const [secretValues, setSecretValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      secretInputs.map((input) => [input.id, input.suggestedValue]),
+    ),
+  );
+
+  useEffect(() => {
+    const refresh = () => setIsVaultUnlocked(SecretVault.isUnlocked());
+    window.addEventListener("secretVaultUpdated", refresh);
+    return () => window.removeEventListener("secretVaultUpdated", refresh);
+  }, []);
+
+  const isSecret = (key: string) =>
+    incoming.agent.globalParameters.some(
+      (param) => param.key === key && param.secret,
+    );
+
+  // Names a copied tool may not take
+  const takenToolNames = () => [
+    ...current.agent.tools.map((tool) => tool.tool_name),
+    ...incoming.agent.tools.map((tool) => tool.tool_name),
+    ...Object.values(plan.tools).map((choice) => choice.copyName || ""),
+  ];
+
+  const setToolAction = (name: string, action: ToolImportAction) => {
+    const copyName =
+      action === "copy"
+        ? plan.tools[name]?.copyName ||
+          SettingsDiff.suggestCopyName(name, takenToolNames())
+        : undefined;
+    setPlan({
+      ...plan,
+      tools: { ...plan.tools, [name]: { action, copyName } },
+    });
+  };
+
+  const setCopyName = (name: string, copyName: string) => {
+    setPlan({
+      ...plan,
+      tools: { ...plan.tools, [name]: { action: "copy", copyName } },
+    });
+  };
+
+  const setParameterAction = (
+    key: string,
+    action: GlobalParameterImportAction,
+  ) => {
+    setPlan({
+      ...plan,
+      globalParameters: { ...plan.globalParameters, [key]: action },
+    });
+  };
+
+  const selectAll = (mode: "merge" | "none") => {
+    setPlan(
+      mode === "merge"
+        ? SettingsDiff.createMergePlan(diff)
+        : {
+            ...SettingsDiff.createDefaultPlan(diff),
+            tools: Object.fromEntries(
+              diff.tools.map((tool) => [
+                tool.name,
+                { action: "skip" as ToolImportAction },
+              ]),
+            ),
+            globalParameters: Object.fromEntries(
+              diff.globalParameters.map((param) => [
+                param.key,
+                "skip" as GlobalParameterImportAction,
+              ]),
+            ),
+          },
+    );
+  };
+
+  const planErrors = SettingsDiff.validatePlan(current, diff, plan);
+  const hasSecretValues = Object.values(secretValues).some(Boolean);
+  if (hasSecretValues && !isVaultUnlocked) {
+    planErrors.push(
+      "Unlock the secret vault to import the entered secret values",
+    );
+  }
+  // Main-thread tools get full access to the page, so importing one takes an explicit confirmation
+  const needsMainThreadTrust = mainThreadTools.length > 0 && !trustsMainThread;
+  if (
+    needsMainThreadTrust &&
+    mainThreadTools.some((name) => plan.tools[name]?.action !== "skip")
+  ) {
+    planErrors.push(
+      "Confirm that you trust the selected tools that run on the main thread",
+    );
+  }
+  const hasSelection =
+    plan.cognito ||
+    plan.systemPrompt ||
+    plan.agentSettings ||
+    Object.values(plan.tools).some((choice) => choice.action !== "skip") ||
+    Object.values(plan.globalParameters).some((action) => action !== "skip");
+
+  return (
+    <div className="import-preview">
+      <div className="import-preview-header">
+        <h4>🔍 Preview: {fileName}</h4>
+        <div className="import-preview-quick">
+          <button type="button" onClick={() => selectAll("merge")}>
+            Select all changes
+          </button>
+          <button type="button" onClick={() => selectAll("none")}>
+            Select nothing
+          </button>
+        </div>
+      </div>
+
+      {migrations.length > 0 && (
+        <p className="import-preview-note">
+          🔀 Upgraded from settings version {migrations[0].from} to{" "}
+          {migrations[migrations.length - 1].to} before comparing.
+        </p>
+      )}
+      {warnings.map((warning) => (
+        <p key={warning} className="import-preview-note">
+          ⚠️ {warning}
+        </p>
+      ))}
+      {mainThreadTools.length > 0 && (
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={trustsMainThread}
+            onChange={(e) => setTrustsMainThread(e.target.checked)}
+          />
+          I trust this file to run {mainThreadTools.join(", ")} on the main
+          thread
+        </label>
+      )}
+
+      {/* Sections */}
+      <div className="import-preview-group">
+        <h5>Settings</h5>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={plan.cognito}
+            onChange={(e) => setPlan({ ...plan, cognito: e.target.checked })}
+            disabled={diff.cognitoChangedFields.length === 0}
+          />
+          Amazon Cognito
+          <span className="import-preview-detail">
+            {diff.cognitoChangedFields.length === 0
+              ? "unchanged"
+              : `changes ${diff.cognitoChangedFields.join(", ")}`}
+          </span>
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={plan.systemPrompt}
+            onChange={(e) =>
+              setPlan({ ...plan, systemPrompt: e.target.checked })
+            }
+            disabled={!diff.systemPromptChanged}
+          />
+          System prompt
+          <span className="import-preview-detail">
+            {diff.systemPromptChanged ? "changed" : "unchanged"}
+          </span>
+        </label>
+        {diff.systemPromptChanged && plan.systemPrompt && (
+          <div className="import-preview-compare">
+            <div>
+              <strong>Current:</strong> {truncate(current.agent.system_prompt)}
+            </div>
+            <div>
+              <strong>Incoming:</strong>{" "}
+              {truncate(incoming.agent.system_prompt)}
+            </div>
+          </div>
+        )}
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={plan.agentSettings}
+            onChange={(e) =>
+              setPlan({ ...plan, agentSettings: e.target.checked })
+            }
+            disabled={diff.agentChangedFields.length === 0}
+          />
+          Other agent settings
+          <span className="import-preview-detail">
+            {diff.agentChangedFields.length === 0
+              ? "unchanged"
+              : `changes ${diff.agentChangedFields.join(", ")}`}
+          </span>
+        </label>
+      </div>
+
+      {/* Global parameters */}
+      <div className="import-preview-group">
+        <h5>Global Parameters</h5>
+        {diff.globalParameters.length === 0 && (
+          <p className="import-preview-note">
+            The file has no global parameters.
+          </p>
+        )}
+        {diff.globalParameters.map((param) => (
+          <div key={param.key} className="import-preview-row">
+            <span className={`import-status-badge ${param.status}`}>
+              {STATUS_LABELS[param.status]}
+            </span>
+            <div className="import-preview-item">
+              <code>{param.key}</code>
+              {isSecret(param.key) && (
+                <span className="import-preview-detail">🔒 secret</span>
+              )}
+              {param.status === "changed" && !isSecret(param.key) && (
+                <span className="import-preview-detail">
+                  {truncate(param.currentValue || "", 40)} →{" "}
+                  {truncate(param.incoming.value, 40)}
+                </span>
+              )}
+            </div>
+            <select
+              value={plan.globalParameters[param.key]}
+              onChange={(e) =>
+                setParameterAction(
+                  param.key,
+                  e.target.value as GlobalParameterImportAction,
+                )
+              }
+              aria-label={`Action for ${param.key}`}
+            >
+              {PARAMETER_ACTIONS[param.status].map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {/* Secret values */}
+      {secretInputs.length > 0 && (
+        <div className="import-preview-group">
+          <h5>🔒 Secret Values</h5>
+          <p className="import-preview-note">
+            Secret parameters are not exported. Enter their values now, or later
+            in the Agent tab. A secret left empty keeps the current value of the
+            secret with the same key.
+          </p>
+          {!isVaultUnlocked && hasSecretValues && <SecretVaultPanel />}
+          {secretInputs.map((input) => (
+            <div key={input.id} className="import-preview-row">
+              <div className="import-preview-item">
+                <code>{input.key}</code>
+                {input.environment && (
+                  <span className="import-preview-detail">
+                    in {input.environment}
+                  </span>
+                )}
+              </div>
+              <input
+                type="password"
+                value={secretValues[input.id] || ""}
+                onChange={(e) =>
+                  setSecretValues({
+                    ...secretValues,
+                    [input.id]: e.target.value,
+                  })
+                }
+                aria-label={`Value of ${input.key}${input.environment ? ` in ${input.environment}` : ""}`}
+                placeholder="Secret value"
+                autoComplete="off"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Tools */}
+      <div className="import-preview-group">
+        <h5>Tools</h5>
+        {diff.tools.length === 0 && (
+          <p className="import-preview-note">The file has no tools.</p>
+        )}
+        {diff.tools.map((tool) => {
+          const choice = plan.tools[tool.name];
+          return (
+            <div key={tool.name} className="import-preview-row">
+              <span className={`import-status-badge ${tool.status}`}>
+                {STATUS_LABELS[tool.status]}
+              </span>
+              <div className="import-preview-item">
+                <code>{tool.name}</code>
+                <span className="import-preview-detail">
+                  {tool.status === "changed"
+                    ? `changes ${tool.changedFields.join(", ")}`
+                    : truncate(tool.incoming.description, 80)}
+                </span>
+                {choice?.action === "copy" && (
+                  <input
+                    type="text"
+                    value={choice.copyName || ""}
+                    onChange={(e) => setCopyName(tool.name, e.target.value)}
+                    aria-label={`Name of the copy of ${tool.name}`}
+                    placeholder="Name of the copy"
+                  />
+                )}
+              </div>
+              <select
+                value={choice?.action || "skip"}
+                onChange={(e) =>
+                  setToolAction(tool.name, e.target.value as ToolImportAction)
+                }
+                aria-label={`Action for ${tool.name}`}
+              >
+                {TOOL_ACTIONS[tool.status].map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+        {diff.keptTools.length > 0 && (
+          <p className="import-preview-note">
+            Not in the file and kept as they are: {diff.keptTools.join(", ")}
+          </p>
+        )}
+      </div>
+
+      {[...planErrors, ...errors].map((error) => (
+        <div key={error} className="error-message">
+          ⚠️ {error}
+        </div>
+      ))}
+
+      <div className="import-preview-actions">
+        <button
+          type="button"
+          className="export-btn"
+          onClick={() => onImport(plan, secretValues)}
+          disabled={!hasSelection || planErrors.length > 0}
+        >
+          📥 Import Selected
+        </button>
+        <button
+          type="button"
+          onClick={() => onReplaceAll(secretValues)}
+          disabled={
+            (hasSecretValues && !isVaultUnlocked) || needsMainThreadTrust
+          }
+          title="Replace all current settings with the file"
+        >
+          Replace Everything
+        </button>
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
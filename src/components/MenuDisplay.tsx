@@ -1,4 +1,9 @@
 import { useState, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { MenuModifiers, type ModifierGroup } from '../lib/util/MenuModifiers';
+import { type MenuVariant, MenuVariants, type NutritionalInfo, type VariantSelection } from '../lib/util/MenuVariants';
+import { PriceFormatter } from '../lib/util/PriceFormatter';
+import type { StoreLocale } from '../lib/util/SettingsManager';
+import { useStoreLocale } from '../hooks/useStoreLocale';
 
 interface MenuItem {
   id: string;
@@ -10,6 +15,8 @@ interface MenuItem {
   image?: string;
   available: boolean;
   customizations: Customization[];
+  modifierGroups?: ModifierGroup[]; // Choices with selection rules, e.g. "choose a size: exactly 1"
+  variants?: MenuVariant[]; // Sizes, temperatures or crusts with their own price, availability and nutrition
   badges?: string[];
   allergens?: string[];
   nutritionalInfo?: NutritionalInfo;
@@ -36,13 +43,6 @@ interface Customization {
   category?: string;
 }
 
-interface NutritionalInfo {
-  calories?: number;
-  protein?: number;
-  carbs?: number;
-  fat?: number;
-}
-
 // Helper functions for multi-category support
 const normalizeCategories = (category: string | string[]): string[] => {
   return Array.isArray(category) ? category : [category];
@@ -61,8 +61,23 @@ const calculateDiscountedPrice = (originalPrice: number, discount: number): numb
   return originalPrice * (1 - validDiscount / 100);
 };
 
-const formatPrice = (price: number): string => {
-  return `$${price.toFixed(2)}`;
+const formatPrice = (price: number, store: StoreLocale): string => {
+  return PriceFormatter.format(price, store);
+};
+
+// Item as returned to tools, with the discount applied to its price and the prices of its variants
+const withDiscountedPrices = (item: MenuItem): MenuItem => ({
+  ...item,
+  price: calculateDiscountedPrice(item.price, item.discount || 0),
+  ...(item.variants && {
+    variants: item.variants.map(variant => ({ ...variant, price: calculateDiscountedPrice(variant.price, item.discount || 0) }))
+  })
+});
+
+const formatVariantPrices = (variants: MenuVariant[], discount: number, store: StoreLocale): string => {
+  const { min, max } = MenuVariants.getPriceRange(variants);
+  const low = formatPrice(calculateDiscountedPrice(min, discount), store);
+  return min === max ? low : `${low} – ${formatPrice(calculateDiscountedPrice(max, discount), store)}`;
 };
 
 const itemBelongsToCategory = (item: MenuItem, targetCategory: string): boolean => {
@@ -70,11 +85,98 @@ const itemBelongsToCategory = (item: MenuItem, targetCategory: string): boolean
   return categories.includes(targetCategory);
 };
 
+// Items are still added when their modifier groups or variants are inconsistent, the cart rejects choices they do not allow
+const warnInvalidItemOptions = (item: MenuItem) => {
+  const errors = [...MenuModifiers.validateGroups(item.modifierGroups || []), ...MenuVariants.validateVariants(item.variants || [])];
+  if (errors.length > 0) {
+    console.warn(`⚠️ MenuDisplay: Invalid modifier groups or variants on ${item.name}:`, errors);
+  }
+};
+
+// Variants of a menu item: with one dimension each variant and its price, otherwise the values of each dimension
+const VariantList = ({ variants, discount, store }: { variants: MenuVariant[]; discount: number; store: StoreLocale }) => {
+  const dimensions = MenuVariants.getDimensions(variants);
+  const names = Object.keys(dimensions);
+
+  if (names.length <= 1) {
+    return (
+      <div className="item-variants">
+        <div className="modifier-options">
+          {variants.map(variant => (
+            <span
+              key={variant.id}
+              className={`variant-option ${variant.isDefault ? 'default' : ''} ${variant.available === false ? 'unavailable' : ''}`}
+              title={variant.nutritionalInfo?.calories !== undefined ? `${variant.nutritionalInfo.calories} cal` : undefined}
+            >
+              {variant.name} {formatPrice(calculateDiscountedPrice(variant.price, discount), store)}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="item-variants">
+      {names.map(dimension => (
+        <div key={dimension} className="variant-dimension">
+          <span className="variant-dimension-name">{dimension}</span>
+          <div className="modifier-options">
+            {dimensions[dimension].map(value => {
+              const available = variants.some(variant => variant.attributes[dimension] === value && variant.available !== false);
+              return (
+                <span key={value} className={`variant-option ${available ? '' : 'unavailable'}`}>
+                  {value}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Modifier groups of a menu item with their rules, nested groups shown under their option
+const ModifierGroupList = ({ groups, store }: { groups: ModifierGroup[]; store: StoreLocale }) => (
+  <div className="item-modifier-groups">
+    {groups.map(group => (
+      <div key={group.id} className="modifier-group">
+        <div className="modifier-group-header">
+          <span className="modifier-group-name">{group.name}</span>
+          <span className={`modifier-group-rule ${group.minSelections > 0 ? 'required' : ''}`}>
+            {MenuModifiers.describeRule(group)}
+          </span>
+        </div>
+        <div className="modifier-options">
+          {group.options.map(option => (
+            <span
+              key={option.id}
+              className={`modifier-option ${option.isDefault ? 'default' : ''} ${option.available === false ? 'unavailable' : ''}`}
+              title={option.isDefault ? 'Selected by default' : undefined}
+            >
+              {option.name}
+              {option.price > 0 && ` +${formatPrice(option.price, store)}`}
+            </span>
+          ))}
+        </div>
+        {group.options.filter(option => option.modifierGroups?.length).map(option => (
+          <div key={option.id} className="modifier-nested">
+            <span className="modifier-nested-label">With {option.name}:</span>
+            <ModifierGroupList groups={option.modifierGroups || []} store={store} />
+          </div>
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
 const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [activeCategory, setActiveCategory] = useState<string>('all');
   const [highlightedItems, setHighlightedItems] = useState<Set<string>>(new Set());
+  const storeLocale = useStoreLocale();
 
   // Auto-create category if it doesn't exist
   const ensureCategoryExists = useCallback((categoryId: string, categoryName?: string) => {
@@ -100,6 +202,7 @@ const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
     items.forEach(item => {
       const categories = normalizeCategories(item.category);
       categories.forEach(cat => ensureCategoryExists(cat));
+      warnInvalidItemOptions(item);
     });
 
     setMenuItems(prev => {
@@ -114,6 +217,7 @@ const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
   const addItem = useCallback((item: MenuItem) => {
     const categories = normalizeCategories(item.category);
     categories.forEach(cat => ensureCategoryExists(cat));
+    warnInvalidItemOptions(item);
     
     setMenuItems(prev => {
       const exists = prev.some(existing => existing.id === item.id);
@@ -200,10 +304,7 @@ const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
     const items = !category ? menuItems : menuItems.filter(item => itemBelongsToCategory(item, category));
     
     // Return items with discounted prices calculated
-    return items.map(item => ({
-      ...item,
-      price: calculateDiscountedPrice(item.price, item.discount || 0)
-    }));
+    return items.map(withDiscountedPrices);
   }, [menuItems]);
 
   const getItemById = useCallback((itemId: string) => {
@@ -211,10 +312,7 @@ const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
     if (!item) return null;
     
     // Return item with discounted price calculated
-    return {
-      ...item,
-      price: calculateDiscountedPrice(item.price, item.discount || 0)
-    };
+    return withDiscountedPrices(item);
   }, [menuItems]);
 
   const searchItems = useCallback((query: string) => {
@@ -230,12 +328,46 @@ const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
     });
     
     // Return items with discounted prices calculated
-    return items.map(item => ({
-      ...item,
-      price: calculateDiscountedPrice(item.price, item.discount || 0)
-    }));
+    return items.map(withDiscountedPrices);
+  }, [menuItems]);
+
+  // Variants
+  const getVariants = useCallback((itemId: string) => {
+    const item = menuItems.find(item => item.id === itemId);
+    if (!item?.variants?.length) return null;
+
+    const { variants = [] } = withDiscountedPrices(item);
+    return {
+      itemId,
+      dimensions: MenuVariants.getDimensions(variants),
+      defaultVariantId: MenuVariants.getDefault(variants)?.id || null,
+      variants
+    };
   }, [menuItems]);
 
+  const findVariant = useCallback((itemId: string, selection: VariantSelection) => {
+    const item = menuItems.find(item => item.id === itemId);
+    if (!item) {
+      return { success: false, errors: [`Menu item ${itemId} not found`] };
+    }
+
+    const { variant, errors } = MenuVariants.find(withDiscountedPrices(item).variants || [], selection);
+    return { success: errors.length === 0, errors, ...(variant && { variant }) };
+  }, [menuItems]);
+
+  // Price as shown on the menu and spelled out for the agent to read back
+  const describePrice = useCallback((amount: number) => {
+    return PriceFormatter.describe(amount, storeLocale);
+  }, [storeLocale]);
+
+  const setVariantAvailability = useCallback((itemId: string, variantId: string, available: boolean) => {
+    setMenuItems(prev => prev.map(item =>
+      item.id === itemId && item.variants
+        ? { ...item, variants: item.variants.map(variant => (variant.id === variantId ? { ...variant, available } : variant)) }
+        : item
+    ));
+  }, []);
+
   // Visual feedback
   const highlightItem = useCallback((itemId: string, duration: number = 3000) => {
     setHighlightedItems(prev => new Set([...prev, itemId]));
@@ -293,16 +425,22 @@ const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
     searchItems,
     highlightItem,
     clearHighlights,
+
+    // Variants
+    getVariants,
+    findVariant,
+    describePrice,
     
     // Availability Management
     setItemAvailability,
+    setVariantAvailability,
     getUnavailableItems,
     bulkUpdateAvailability,
   }), [
     addItems, addItem, updateItem, removeItem, clearMenu,
     createCategory, updateCategory, removeCategory, reorderCategories, getAllCategories, showCategory, getCurrentCategory,
-    getMenuItems, getItemById, searchItems, highlightItem, clearHighlights,
-    setItemAvailability, getUnavailableItems, bulkUpdateAvailability
+    getMenuItems, getItemById, searchItems, highlightItem, clearHighlights, getVariants, findVariant, describePrice,
+    setItemAvailability, setVariantAvailability, getUnavailableItems, bulkUpdateAvailability
   ]);
 
   // Get filtered items for display
@@ -384,16 +522,26 @@ const MenuDisplay = forwardRef<any, {}>((_props, ref) => {
                   <div className="item-content">
                     <div className="item-header">
                       <h3 className="item-name">{item.name}</h3>
-                      {item.discount && item.discount > 0 ? (
+                      {item.variants && item.variants.length > 0 ? (
+                        <span className="item-price">{formatVariantPrices(item.variants, item.discount || 0, storeLocale)}</span>
+                      ) : item.discount && item.discount > 0 ? (
                         <div className="item-pricing">
-                          <span className="original-price">{formatPrice(item.price)}</span>
-                          <span className="discounted-price">{formatPrice(calculateDiscountedPrice(item.price, item.discount))}</span>
+                          <span className="original-price">{formatPrice(item.price, storeLocale)}</span>
+                          <span className="discounted-price">{formatPrice(calculateDiscountedPrice(item.price, item.discount), storeLocale)}</span>
                         </div>
                       ) : (
-                        <span className="item-price">{formatPrice(item.price)}</span>
+                        <span className="item-price">{formatPrice(item.price, storeLocale)}</span>
                       )}
                     </div>
                     <p className="item-description">{item.description}</p>
+
+                    {item.variants && item.variants.length > 0 && (
+                      <VariantList variants={item.variants} discount={item.discount || 0} store={storeLocale} />
+                    )}
+
+                    {item.modifierGroups && item.modifierGroups.length > 0 && (
+                      <ModifierGroupList groups={item.modifierGroups} store={storeLocale} />
+                    )}
                     
                     {item.badges && item.badges.length > 0 && (
                       <div className="item-badges">
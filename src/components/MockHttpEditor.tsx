@@ -0,0 +1,317 @@
+import type React from "react";
+import { useId, useState } from "react";
+import type {
+  MockHttpConfig,
+  MockHttpResponseType,
+  MockHttpRoute,
+} from "../lib/util/SettingsManager";
+
+interface MockHttpEditorProps {
+  mockHttp?: MockHttpConfig;
+  onChange: (mockHttp: MockHttpConfig) => void;
+  errors: string[];
+}
+
+const METHODS = [
+  "ANY",
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+];
+
+const RESPONSE_TYPES: { value: MockHttpResponseType; label: string }[] = [
+  { value: "json", label: "Static JSON" },
+  { value: "template", label: "Template" },
+  { value: "script", label: "Script" },
+];
+
+const BODY_PLACEHOLDERS: Record<MockHttpResponseType, string> = {
+  json: '{ "items": [] }',
+  template:
+    '{ "found": true, "phone": "{{query.phone}}", "orderId": "{{uuid}}", "total": "{{body.total}}" }',
+  script:
+    'state.orders = (state.orders || 0) + 1;\nreturn { success: true, orderId: "ORD-" + state.orders, total: request.body.total };',
+};
+
+const BODY_HELP: Record<MockHttpResponseType, string> = {
+  json: "Returned as is.",
+  template:
+    "JSON or text where {{query.name}}, {{params.name}}, {{body.path}}, {{headers.name}}, {{now}}, {{timestamp}} and {{uuid}} are replaced. A placeholder that is a whole JSON string keeps the value's type.",
+  script:
+    "Async function body with request (method, url, path, query, params, headers, body), response (set status or headers) and state (kept between calls of this route); return the response data.",
+};
+
+const DEFAULT_CONFIG: MockHttpConfig = {
+  enabled: false,
+  passthrough: false,
+  routes: [],
+};
+
+const generateRouteId = () =>
+  `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const MockHttpEditor: React.FC<MockHttpEditorProps> = ({
+  mockHttp = DEFAULT_CONFIG,
+  onChange,
+  errors,
+}) => {
+  const fieldId = useId();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateConfig = (changes: Partial<MockHttpConfig>) => {
+    onChange({ ...mockHttp, ...changes });
+  };
+
+  const updateRoute = (id: string, changes: Partial<MockHttpRoute>) => {
+    updateConfig({
+      routes: mockHttp.routes.map((route) =>
+        route.id === id ? { ...route, ...changes } : route,
+      ),
+    });
+  };
+
+  const addRoute = () => {
+    const route: MockHttpRoute = {
+      id: generateRouteId(),
+      method: "GET",
+      urlPattern: "",
+      responseType: "json",
+      status: 200,
+      body: "{}",
+    };
+    updateConfig({ routes: [...mockHttp.routes, route] });
+    setExpandedId(route.id);
+  };
+
+  const removeRoute = (id: string) => {
+    updateConfig({
+      routes: mockHttp.routes.filter((route) => route.id !== id),
+    });
+  };
+
+  return (
+    <div className="global-parameters-section mock-http-section">
+      <div className="global-parameters-header">
+        <h4 className="global-parameters-title">Mock HTTP</h4>
+        <button type="button" onClick={addRoute} className="add-parameter-btn">
+          + Add Route
+        </button>
+      </div>
+
+      <p className="global-parameters-description">
+        Answer the tools' <code>axios</code> requests from these routes instead
+        of the network, so tools can be demoed and tested without their backend.
+        Routes are matched in order and exported with the settings.
+      </p>
+
+      <div className="mock-http-options">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={mockHttp.enabled}
+            onChange={(e) => updateConfig({ enabled: e.target.checked })}
+          />
+          Enable mock HTTP
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={mockHttp.passthrough}
+            onChange={(e) => updateConfig({ passthrough: e.target.checked })}
+            disabled={!mockHttp.enabled}
+          />
+          Send unmatched requests to the network (otherwise they fail with 404)
+        </label>
+      </div>
+
+      {errors.map((error) => (
+        <div key={error} className="error-message">
+          ⚠️ {error}
+        </div>
+      ))}
+
+      {mockHttp.routes.length === 0 ? (
+        <div className="no-parameters">
+          <p>No mock routes configured.</p>
+        </div>
+      ) : (
+        <div className="global-parameters-list">
+          {mockHttp.routes.map((route, index) => {
+            const id = `${fieldId}-route-${index}`;
+            const isExpanded = expandedId === route.id;
+            return (
+              <div
+                key={route.id}
+                className="global-parameter-editor mock-http-route"
+              >
+                <div className="parameter-header">
+                  <button
+                    type="button"
+                    className="parameter-title mock-http-route-title"
+                    onClick={() => setExpandedId(isExpanded ? null : route.id)}
+                    aria-expanded={isExpanded}
+                  >
+                    <span className="mock-http-method">{route.method}</span>
+                    <span className="parameter-name">
+                      {route.urlPattern || "No URL pattern"}
+                    </span>
+                    <span className="parameter-order">{route.status}</span>
+                  </button>
+                  <div className="parameter-actions">
+                    <button
+                      type="button"
+                      className="expand-btn"
+                      onClick={() =>
+                        setExpandedId(isExpanded ? null : route.id)
+                      }
+                    >
+                      {isExpanded ? "▼" : "▶"}
+                    </button>
+                    <button
+                      type="button"
+                      className="remove-btn"
+                      onClick={() => removeRoute(route.id)}
+                      title="Remove route"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="parameter-content">
+                    <div className="mock-http-route-grid">
+                      <div className="form-group">
+                        <label htmlFor={`${id}-method`}>Method</label>
+                        <select
+                          id={`${id}-method`}
+                          value={route.method}
+                          onChange={(e) =>
+                            updateRoute(route.id, { method: e.target.value })
+                          }
+                        >
+                          {METHODS.map((method) => (
+                            <option key={method} value={method}>
+                              {method}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${id}-url`}>URL Pattern</label>
+                        <input
+                          id={`${id}-url`}
+                          type="text"
+                          value={route.urlPattern}
+                          onChange={(e) =>
+                            updateRoute(route.id, {
+                              urlPattern: e.target.value,
+                            })
+                          }
+                          placeholder="*/menu or https://api.example.com/orders/:orderId"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${id}-status`}>Status</label>
+                        <input
+                          id={`${id}-status`}
+                          type="number"
+                          min={100}
+                          max={599}
+                          value={route.status}
+                          onChange={(e) =>
+                            updateRoute(route.id, {
+                              status: Number(e.target.value),
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${id}-delay`}>Delay (ms)</label>
+                        <input
+                          id={`${id}-delay`}
+                          type="number"
+                          min={0}
+                          step={100}
+                          value={route.delayMs ?? ""}
+                          onChange={(e) =>
+                            updateRoute(route.id, {
+                              delayMs:
+                                e.target.value === ""
+                                  ? undefined
+                                  : Number(e.target.value),
+                            })
+                          }
+                          placeholder="0"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="help-text">
+                      <code>*</code> matches anything and <code>:name</code> one
+                      path segment. The query string is ignored unless the
+                      pattern contains <code>?</code>.
+                    </div>
+
+                    <div className="form-group">
+                      <label htmlFor={`${id}-description`}>Description</label>
+                      <input
+                        id={`${id}-description`}
+                        type="text"
+                        value={route.description || ""}
+                        onChange={(e) =>
+                          updateRoute(route.id, {
+                            description: e.target.value || undefined,
+                          })
+                        }
+                        placeholder="What this route stands in for"
+                      />
+                    </div>
+
+                    <div className="form-group">
+                      <label htmlFor={`${id}-type`}>Response</label>
+                      <select
+                        id={`${id}-type`}
+                        value={route.responseType}
+                        onChange={(e) =>
+                          updateRoute(route.id, {
+                            responseType: e.target
+                              .value as MockHttpResponseType,
+                          })
+                        }
+                      >
+                        {RESPONSE_TYPES.map((type) => (
+                          <option key={type.value} value={type.value}>
+                            {type.label}
+                          </option>
+                        ))}
+                      </select>
+                      <textarea
+                        id={`${id}-body`}
+                        className="tool-test-code"
+                        value={route.body}
+                        onChange={(e) =>
+                          updateRoute(route.id, { body: e.target.value })
+                        }
+                        placeholder={BODY_PLACEHOLDERS[route.responseType]}
+                        rows={route.responseType === "script" ? 6 : 4}
+                        aria-label="Response body"
+                      />
+                      <div className="help-text">
+                        {BODY_HELP[route.responseType]}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
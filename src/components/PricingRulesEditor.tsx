@@ -0,0 +1,351 @@
+import type React from "react";
+import { useEffect, useId, useState } from "react";
+import { PriceFormatter } from "../lib/util/PriceFormatter";
+import {
+  type PricingConfig,
+  type PricingRoundingMode,
+  SettingsManager,
+  type StoreLocale,
+} from "../lib/util/SettingsManager";
+
+interface PricingRulesEditorProps {
+  pricing?: PricingConfig;
+  storeLocale?: StoreLocale;
+  onChange: (pricing: PricingConfig | undefined) => void;
+  onStoreLocaleChange: (storeLocale: StoreLocale | undefined) => void;
+  errors: string[];
+}
+
+// Suggestions for the locale and currency inputs; any language tag and ISO 4217 code can be entered
+const LOCALE_SUGGESTIONS = ["en-US", "en-CA", "fr-CA", "es-MX", "es-US"];
+const CURRENCY_SUGGESTIONS = ["USD", "CAD", "MXN", "EUR", "GBP", "JPY"];
+
+const ROUNDING_MODES: { value: PricingRoundingMode; label: string }[] = [
+  { value: "halfUp", label: "Half up (0.5 rounds up)" },
+  { value: "halfEven", label: "Half even (banker's rounding)" },
+];
+
+const formatTipPresets = (presets: number[] = []) => presets.join(", ");
+
+// Empty inputs leave optional settings unset
+const toOptionalNumber = (value: string) =>
+  value === "" ? undefined : Number(value);
+
+export const PricingRulesEditor: React.FC<PricingRulesEditorProps> = ({
+  pricing,
+  storeLocale,
+  onChange,
+  onStoreLocaleChange,
+  errors,
+}) => {
+  const fieldId = useId();
+  const config = pricing ?? SettingsManager.getPricing(null);
+  const store = storeLocale ?? SettingsManager.getStoreLocale(null);
+  const storeErrors = SettingsManager.validateStoreLocale(storeLocale);
+  const categoryRates = Object.entries(config.categoryTaxRates || {});
+  const [tipText, setTipText] = useState(formatTipPresets(config.tipPresets));
+
+  // Follow presets changed from outside, e.g. by an import or a reset
+  const presetsKey = formatTipPresets(config.tipPresets);
+  useEffect(() => {
+    setTipText((text) =>
+      formatTipPresets(
+        text
+          .split(",")
+          .filter((part) => part.trim())
+          .map(Number),
+      ) === presetsKey
+        ? text
+        : presetsKey,
+    );
+  }, [presetsKey]);
+
+  const updateConfig = (changes: Partial<PricingConfig>) => {
+    onChange({ ...config, ...changes });
+  };
+
+  const updateStoreLocale = (changes: Partial<StoreLocale>) => {
+    const next = { ...store, ...changes };
+    onStoreLocaleChange(next);
+    // Round to the minor unit of a valid new currency, e.g. whole yen
+    if (
+      changes.currency &&
+      SettingsManager.validateStoreLocale(next).length === 0
+    ) {
+      const minorUnits = PriceFormatter.getMinorDigits(next);
+      if (minorUnits !== config.minorUnits) {
+        updateConfig({ minorUnits });
+      }
+    }
+  };
+
+  const updateCategoryRates = (entries: [string, number][]) => {
+    updateConfig({
+      categoryTaxRates:
+        entries.length > 0 ? Object.fromEntries(entries) : undefined,
+    });
+  };
+
+  const updateTipPresets = (text: string) => {
+    setTipText(text);
+    const presets = text
+      .split(",")
+      .filter((part) => part.trim())
+      .map(Number);
+    updateConfig({ tipPresets: presets.length > 0 ? presets : undefined });
+  };
+
+  return (
+    <div className="global-parameters-section pricing-rules-section">
+      <div className="global-parameters-header">
+        <h4 className="global-parameters-title">Pricing Rules</h4>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="add-parameter-btn"
+          disabled={!pricing}
+        >
+          Reset to Defaults
+        </button>
+      </div>
+
+      <p className="global-parameters-description">
+        Currency of the menu and cart, and the tax, fees and tips of the order
+        summary the agent reads to the customer. Amounts are rounded to whole
+        minor units of the currency, per tax rate and per fee.
+      </p>
+
+      <div className="pricing-rules-grid">
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-locale`}>Store locale</label>
+          <input
+            id={`${fieldId}-locale`}
+            type="text"
+            list={`${fieldId}-locales`}
+            value={store.locale}
+            onChange={(e) =>
+              updateStoreLocale({ locale: e.target.value.trim() })
+            }
+            placeholder="en-CA"
+          />
+          <datalist id={`${fieldId}-locales`}>
+            {LOCALE_SUGGESTIONS.map((locale) => (
+              <option key={locale} value={locale} />
+            ))}
+          </datalist>
+        </div>
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-currency`}>Currency</label>
+          <input
+            id={`${fieldId}-currency`}
+            type="text"
+            list={`${fieldId}-currencies`}
+            value={store.currency}
+            onChange={(e) =>
+              updateStoreLocale({
+                currency: e.target.value.trim().toUpperCase(),
+              })
+            }
+            placeholder="CAD"
+            maxLength={3}
+          />
+          <datalist id={`${fieldId}-currencies`}>
+            {CURRENCY_SUGGESTIONS.map((currency) => (
+              <option key={currency} value={currency} />
+            ))}
+          </datalist>
+        </div>
+        <div className="form-group">
+          <span className="pricing-preview-label">Preview</span>
+          <div className="help-text">
+            {storeErrors.length === 0
+              ? `${PriceFormatter.format(4.5, store)}: "${PriceFormatter.toWords(4.5, store)}"`
+              : "Enter a valid locale and currency"}
+          </div>
+        </div>
+      </div>
+
+      <div className="pricing-rules-grid">
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-tax`}>Tax rate (%)</label>
+          <input
+            id={`${fieldId}-tax`}
+            type="number"
+            min={0}
+            max={100}
+            step={0.001}
+            value={config.taxRate}
+            onChange={(e) => updateConfig({ taxRate: Number(e.target.value) })}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-service`}>Service charge (%)</label>
+          <input
+            id={`${fieldId}-service`}
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={config.serviceChargeRate ?? ""}
+            onChange={(e) =>
+              updateConfig({
+                serviceChargeRate: toOptionalNumber(e.target.value),
+              })
+            }
+            placeholder="0"
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-delivery`}>Delivery fee</label>
+          <input
+            id={`${fieldId}-delivery`}
+            type="number"
+            min={0}
+            step={0.01}
+            value={config.deliveryFee ?? ""}
+            onChange={(e) =>
+              updateConfig({ deliveryFee: toOptionalNumber(e.target.value) })
+            }
+            placeholder="0"
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-tips`}>Tip presets (%)</label>
+          <input
+            id={`${fieldId}-tips`}
+            type="text"
+            value={tipText}
+            onChange={(e) => updateTipPresets(e.target.value)}
+            placeholder="15, 18, 20"
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-minor`}>Minor units</label>
+          <input
+            id={`${fieldId}-minor`}
+            type="number"
+            min={0}
+            max={4}
+            value={PriceFormatter.getMinorDigits(store)}
+            disabled
+            title="Set by the store currency"
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor={`${fieldId}-rounding`}>Rounding</label>
+          <select
+            id={`${fieldId}-rounding`}
+            value={config.rounding}
+            onChange={(e) =>
+              updateConfig({ rounding: e.target.value as PricingRoundingMode })
+            }
+          >
+            {ROUNDING_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mock-http-options">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={config.taxInclusive}
+            onChange={(e) => updateConfig({ taxInclusive: e.target.checked })}
+          />
+          Menu prices include tax (the summary shows the tax they contain)
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={config.feesTaxable || false}
+            onChange={(e) =>
+              updateConfig({ feesTaxable: e.target.checked || undefined })
+            }
+          />
+          Tax the service charge and delivery fee at the tax rate
+        </label>
+      </div>
+
+      <div className="pricing-category-rates">
+        <div className="global-parameters-header">
+          <h5>Tax rates per category</h5>
+          <button
+            type="button"
+            onClick={() =>
+              updateCategoryRates([...categoryRates, ["", config.taxRate]])
+            }
+            className="add-parameter-btn"
+            disabled={categoryRates.some(([category]) => !category)}
+          >
+            + Add Category Rate
+          </button>
+        </div>
+        {categoryRates.length === 0 && (
+          <p className="help-text">All items are taxed at the tax rate.</p>
+        )}
+        {/* The category is renamed when its input loses focus, as the row is keyed by it */}
+        {categoryRates.map(([category, rate], index) => (
+          <div key={category} className="pricing-category-rate">
+            <input
+              type="text"
+              defaultValue={category}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (
+                  name !== category &&
+                  !categoryRates.some(([other]) => other === name)
+                ) {
+                  updateCategoryRates(
+                    categoryRates.map((entry, i) =>
+                      i === index ? [name, entry[1]] : entry,
+                    ),
+                  );
+                } else {
+                  // Unchanged, or another row has this category already
+                  e.target.value = category;
+                }
+              }}
+              placeholder="Category id, e.g. beverages"
+              aria-label="Category"
+            />
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={0.001}
+              value={rate}
+              onChange={(e) =>
+                updateCategoryRates(
+                  categoryRates.map((entry, i) =>
+                    i === index ? [entry[0], Number(e.target.value)] : entry,
+                  ),
+                )
+              }
+              aria-label={`Tax rate of ${category || "the category"} (%)`}
+            />
+            <button
+              type="button"
+              className="remove-btn"
+              onClick={() =>
+                updateCategoryRates(categoryRates.filter((_, i) => i !== index))
+              }
+              title="Remove category rate"
+            >
+              🗑️
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {[...storeErrors, ...errors].map((error) => (
+        <div key={error} className="error-message">
+          ⚠️ {error}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+import type React from "react";
+import { useEffect, useId, useState } from "react";
+import {
+  ProfileManager,
+  type SettingsProfile,
+} from "../lib/util/ProfileManager";
+
+interface ProfilePickerProps {
+  disabled: boolean;
+  onProfileSwitched: () => void;
+  onNewFromSample?: () => void;
+  onNotify?: (
+    message: string,
+    type: "info" | "success" | "warning" | "error",
+  ) => void;
+}
+
+type ProfileAction = "create" | "clone" | "rename";
+
+const ACTION_LABELS: Record<ProfileAction, string> = {
+  create: "Create",
+  clone: "Clone",
+  rename: "Rename",
+};
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({
+  disabled,
+  onProfileSwitched,
+  onNewFromSample,
+  onNotify,
+}) => {
+  const fieldId = useId();
+  const [profiles, setProfiles] = useState<SettingsProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isManaging, setIsManaging] = useState(false);
+  const [action, setAction] = useState<ProfileAction | null>(null);
+  const [name, setName] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Keep the list in sync with changes made here, in Quick Start or in other tabs
+  useEffect(() => {
+    const refresh = () => {
+      setProfiles(ProfileManager.listProfiles());
+      setActiveId(ProfileManager.getActiveProfile()?.id || null);
+    };
+    refresh();
+
+    window.addEventListener("profilesUpdated", refresh);
+    window.addEventListener("storage", refresh);
+    return () => {
+      window.removeEventListener("profilesUpdated", refresh);
+      window.removeEventListener("storage", refresh);
+    };
+  }, []);
+
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeId) || null;
+
+  const handleSwitch = (id: string) => {
+    const profile = profiles.find((item) => item.id === id);
+    const result = ProfileManager.switchProfile(id);
+    if (!result.success) {
+      onNotify?.(result.errors.join(", "), "error");
+      return;
+    }
+    onNotify?.(`Switched to profile "${profile?.name}"`, "success");
+    onProfileSwitched();
+  };
+
+  const startAction = (nextAction: ProfileAction) => {
+    setAction(nextAction);
+    setErrors([]);
+    setConfirmDeleteId(null);
+    if (nextAction === "create") {
+      setName(ProfileManager.getUniqueName("New Profile"));
+    } else if (nextAction === "clone") {
+      setName(
+        ProfileManager.getUniqueName(
+          `${activeProfile?.name || "Profile"} Copy`,
+        ),
+      );
+    } else {
+      setName(activeProfile?.name || "");
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || !activeId) return;
+
+    const result =
+      action === "create"
+        ? ProfileManager.createProfile(name)
+        : action === "clone"
+          ? ProfileManager.cloneProfile(activeId, name)
+          : ProfileManager.renameProfile(activeId, name);
+
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+    setAction(null);
+    setErrors([]);
+    onNotify?.(
+      action === "rename"
+        ? `Profile renamed to "${result.profile?.name}"`
+        : `Profile "${result.profile?.name}" created`,
+      "success",
+    );
+  };
+
+  const handleDelete = (profile: SettingsProfile) => {
+    if (confirmDeleteId !== profile.id) {
+      setConfirmDeleteId(profile.id);
+      return;
+    }
+    const result = ProfileManager.deleteProfile(profile.id);
+    setConfirmDeleteId(null);
+    if (!result.success) {
+      onNotify?.(result.errors.join(", "), "error");
+      return;
+    }
+    onNotify?.(
+      `Profile "${profile.name}" deleted. Its settings can be restored from the Backup tab.`,
+      "info",
+    );
+  };
+
+  return (
+    <div className="profile-picker">
+      <label htmlFor={`${fieldId}-profile`} className="profile-picker-label">
+        👤
+      </label>
+      <select
+        id={`${fieldId}-profile`}
+        className="profile-select"
+        value={activeId || ""}
+        onChange={(e) => handleSwitch(e.target.value)}
+        disabled={disabled || profiles.length < 2}
+        title={
+          disabled
+            ? "Stop the conversation to switch profiles"
+            : "Switch configuration profile"
+        }
+      >
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className={`recorder-btn ${isManaging ? "active" : ""}`}
+        onClick={() => {
+          setIsManaging(!isManaging);
+          setAction(null);
+          setConfirmDeleteId(null);
+        }}
+        title="Manage profiles"
+        aria-expanded={isManaging}
+      >
+        ⋯
+      </button>
+
+      {isManaging && (
+        <div className="profile-manager-panel">
+          <div className="profile-manager-actions">
+            <button
+              type="button"
+              onClick={() => startAction("create")}
+              disabled={disabled}
+            >
+              ➕ New
+            </button>
+            <button
+              type="button"
+              onClick={() => startAction("clone")}
+              disabled={disabled || !activeProfile}
+            >
+              📄 Clone
+            </button>
+            <button
+              type="button"
+              onClick={() => startAction("rename")}
+              disabled={!activeProfile}
+            >
+              ✏️ Rename
+            </button>
+            {onNewFromSample && (
+              <button
+                type="button"
+                onClick={onNewFromSample}
+                disabled={disabled}
+              >
+                📦 From Sample
+              </button>
+            )}
+          </div>
+
+          {action && (
+            <form className="profile-name-form" onSubmit={handleSubmit}>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Profile name"
+                aria-label="Profile name"
+                maxLength={60}
+              />
+              <button type="submit">{ACTION_LABELS[action]}</button>
+              <button type="button" onClick={() => setAction(null)}>
+                Cancel
+              </button>
+            </form>
+          )}
+          {errors.map((error) => (
+            <div key={error} className="error-message">
+              ⚠️ {error}
+            </div>
+          ))}
+
+          <ul className="profile-list">
+            {profiles.map((profile) => (
+              <li
+                key={profile.id}
+                className={profile.id === activeId ? "active" : ""}
+              >
+                <span className="profile-name">{profile.name}</span>
+                {profile.id === activeId ? (
+                  <span className="profile-active-badge">Active</span>
+                ) : (
+                  <button
+                    type="button"
+                    className="profile-delete-btn"
+                    onClick={() => handleDelete(profile)}
+                    disabled={disabled}
+                    title="Delete profile"
+                  >
+                    {confirmDeleteId === profile.id ? "Confirm delete" : "🗑️"}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <p className="profile-manager-note">
+            Amazon Cognito settings are shared by all profiles.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
@@ -0,0 +1,547 @@
+import type React from "react";
+import { useId, useState } from "react";
+import type {
+  Promotion,
+  PromotionSchedule,
+  PromotionType,
+} from "../lib/util/SettingsManager";
+
+interface PromotionsEditorProps {
+  promotions?: Promotion[];
+  onChange: (promotions: Promotion[] | undefined) => void;
+  errors: string[];
+}
+
+const PROMOTION_TYPES: { value: PromotionType; label: string }[] = [
+  { value: "percentOff", label: "Percent off items" },
+  { value: "amountOff", label: "Amount off each item" },
+  { value: "bogo", label: "Buy X get Y" },
+  { value: "orderDiscount", label: "Order discount" },
+];
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DEFAULT_SCHEDULE: PromotionSchedule = {
+  startTime: "15:00",
+  endTime: "18:00",
+};
+
+const generatePromotionId = () =>
+  `promo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Empty inputs leave optional settings unset
+const toOptionalNumber = (value: string) =>
+  value === "" ? undefined : Number(value);
+
+const toOptionalList = (value: string) => {
+  const list = value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+};
+
+const describeType = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case "bogo":
+      return `Buy ${promotion.buyQuantity || 1} get ${promotion.getQuantity || 1}`;
+    case "amountOff":
+      return `${promotion.amountOff ?? 0} off`;
+    case "orderDiscount":
+      return promotion.percentOff !== undefined
+        ? `${promotion.percentOff}% off order`
+        : `${promotion.amountOff ?? 0} off order`;
+    default:
+      return `${promotion.percentOff ?? 0}% off`;
+  }
+};
+
+export const PromotionsEditor: React.FC<PromotionsEditorProps> = ({
+  promotions = [],
+  onChange,
+  errors,
+}) => {
+  const fieldId = useId();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updatePromotions = (next: Promotion[]) => {
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  const updatePromotion = (id: string, changes: Partial<Promotion>) => {
+    updatePromotions(
+      promotions.map((promotion) =>
+        promotion.id === id ? { ...promotion, ...changes } : promotion,
+      ),
+    );
+  };
+
+  const updateSchedule = (
+    promotion: Promotion,
+    changes: Partial<PromotionSchedule>,
+  ) => {
+    updatePromotion(promotion.id, {
+      schedule: { ...(promotion.schedule || DEFAULT_SCHEDULE), ...changes },
+    });
+  };
+
+  // Each type keeps only the amounts it uses
+  const changeType = (promotion: Promotion, type: PromotionType) => {
+    const percentOff = type === "amountOff" ? undefined : promotion.percentOff;
+    const amountOff =
+      type === "amountOff" ||
+      (type === "orderDiscount" && percentOff === undefined)
+        ? promotion.amountOff
+        : undefined;
+    updatePromotion(promotion.id, {
+      type,
+      percentOff:
+        percentOff ??
+        (type === "bogo" || amountOff !== undefined ? undefined : 10),
+      amountOff: amountOff ?? (type === "amountOff" ? 1 : undefined),
+      buyQuantity: type === "bogo" ? (promotion.buyQuantity ?? 1) : undefined,
+      getQuantity: type === "bogo" ? (promotion.getQuantity ?? 1) : undefined,
+    });
+  };
+
+  const addPromotion = () => {
+    const promotion: Promotion = {
+      id: generatePromotionId(),
+      name: "New promotion",
+      type: "percentOff",
+      enabled: true,
+      percentOff: 10,
+    };
+    updatePromotions([...promotions, promotion]);
+    setExpandedId(promotion.id);
+  };
+
+  const removePromotion = (id: string) => {
+    updatePromotions(promotions.filter((promotion) => promotion.id !== id));
+  };
+
+  return (
+    <div className="global-parameters-section promotions-section">
+      <div className="global-parameters-header">
+        <h4 className="global-parameters-title">Promotions</h4>
+        <button
+          type="button"
+          onClick={addPromotion}
+          className="add-parameter-btn"
+        >
+          + Add Promotion
+        </button>
+      </div>
+
+      <p className="global-parameters-description">
+        Deals the cart applies by itself on every change and shows as discount
+        lines. Item deals apply before order discounts. Deals with a coupon code
+        apply once the customer gives the code, typed or spoken.
+      </p>
+
+      {errors.map((error) => (
+        <div key={error} className="error-message">
+          ⚠️ {error}
+        </div>
+      ))}
+
+      {promotions.length === 0 ? (
+        <div className="no-parameters">
+          <p>No promotions configured.</p>
+        </div>
+      ) : (
+        <div className="global-parameters-list">
+          {promotions.map((promotion, index) => {
+            const id = `${fieldId}-promotion-${index}`;
+            const isExpanded = expandedId === promotion.id;
+            const isOrderDiscount = promotion.type === "orderDiscount";
+            return (
+              <div
+                key={promotion.id}
+                className={`global-parameter-editor promotion-editor ${promotion.enabled ? "" : "disabled"}`}
+              >
+                <div className="parameter-header">
+                  <button
+                    type="button"
+                    className="parameter-title mock-http-route-title"
+                    onClick={() =>
+                      setExpandedId(isExpanded ? null : promotion.id)
+                    }
+                    aria-expanded={isExpanded}
+                  >
+                    <span className="mock-http-method">
+                      {describeType(promotion)}
+                    </span>
+                    <span className="parameter-name">
+                      {promotion.name || "Unnamed promotion"}
+                    </span>
+                    {promotion.couponCode && (
+                      <span className="parameter-order">
+                        🎟️ {promotion.couponCode}
+                      </span>
+                    )}
+                    {promotion.loyaltyOnly && (
+                      <span className="parameter-order">⭐</span>
+                    )}
+                  </button>
+                  <div className="parameter-actions">
+                    <button
+                      type="button"
+                      className="expand-btn"
+                      onClick={() =>
+                        setExpandedId(isExpanded ? null : promotion.id)
+                      }
+                    >
+                      {isExpanded ? "▼" : "▶"}
+                    </button>
+                    <button
+                      type="button"
+                      className="remove-btn"
+                      onClick={() => removePromotion(promotion.id)}
+                      title="Remove promotion"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="parameter-content">
+                    <div className="promotion-grid">
+                      <div className="form-group">
+                        <label htmlFor={`${id}-name`}>Name</label>
+                        <input
+                          id={`${id}-name`}
+                          type="text"
+                          value={promotion.name}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              name: e.target.value,
+                            })
+                          }
+                          placeholder="Shown as the discount line, e.g. Happy hour drinks"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${id}-type`}>Type</label>
+                        <select
+                          id={`${id}-type`}
+                          value={promotion.type}
+                          onChange={(e) =>
+                            changeType(
+                              promotion,
+                              e.target.value as PromotionType,
+                            )
+                          }
+                        >
+                          {PROMOTION_TYPES.map((type) => (
+                            <option key={type.value} value={type.value}>
+                              {type.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${id}-coupon`}>Coupon code</label>
+                        <input
+                          id={`${id}-coupon`}
+                          type="text"
+                          value={promotion.couponCode || ""}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              couponCode:
+                                e.target.value.toUpperCase() || undefined,
+                            })
+                          }
+                          placeholder="None, applies by itself"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="form-group">
+                      <label htmlFor={`${id}-description`}>Description</label>
+                      <input
+                        id={`${id}-description`}
+                        type="text"
+                        value={promotion.description || ""}
+                        onChange={(e) =>
+                          updatePromotion(promotion.id, {
+                            description: e.target.value || undefined,
+                          })
+                        }
+                        placeholder="How the agent can describe the deal"
+                      />
+                    </div>
+
+                    <div className="promotion-grid">
+                      {promotion.type === "bogo" && (
+                        <>
+                          <div className="form-group">
+                            <label htmlFor={`${id}-buy`}>Buy</label>
+                            <input
+                              id={`${id}-buy`}
+                              type="number"
+                              min={1}
+                              value={promotion.buyQuantity ?? ""}
+                              onChange={(e) =>
+                                updatePromotion(promotion.id, {
+                                  buyQuantity: toOptionalNumber(e.target.value),
+                                })
+                              }
+                            />
+                          </div>
+                          <div className="form-group">
+                            <label htmlFor={`${id}-get`}>Get</label>
+                            <input
+                              id={`${id}-get`}
+                              type="number"
+                              min={1}
+                              value={promotion.getQuantity ?? ""}
+                              onChange={(e) =>
+                                updatePromotion(promotion.id, {
+                                  getQuantity: toOptionalNumber(e.target.value),
+                                })
+                              }
+                            />
+                          </div>
+                        </>
+                      )}
+                      {promotion.type !== "amountOff" && (
+                        <div className="form-group">
+                          <label htmlFor={`${id}-percent`}>
+                            {promotion.type === "bogo"
+                              ? 'Off the "get" items (%)'
+                              : "Percent off (%)"}
+                          </label>
+                          <input
+                            id={`${id}-percent`}
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={promotion.percentOff ?? ""}
+                            onChange={(e) =>
+                              updatePromotion(promotion.id, {
+                                percentOff: toOptionalNumber(e.target.value),
+                              })
+                            }
+                            placeholder={promotion.type === "bogo" ? "100" : ""}
+                          />
+                        </div>
+                      )}
+                      {(promotion.type === "amountOff" || isOrderDiscount) && (
+                        <div className="form-group">
+                          <label htmlFor={`${id}-amount`}>
+                            {isOrderDiscount
+                              ? "Amount off the order"
+                              : "Amount off each item"}
+                          </label>
+                          <input
+                            id={`${id}-amount`}
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={promotion.amountOff ?? ""}
+                            onChange={(e) =>
+                              updatePromotion(promotion.id, {
+                                amountOff: toOptionalNumber(e.target.value),
+                              })
+                            }
+                          />
+                        </div>
+                      )}
+                      <div className="form-group">
+                        <label htmlFor={`${id}-min`}>Minimum subtotal</label>
+                        <input
+                          id={`${id}-min`}
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={promotion.minSubtotal ?? ""}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              minSubtotal: toOptionalNumber(e.target.value),
+                            })
+                          }
+                          placeholder="None"
+                        />
+                      </div>
+                    </div>
+
+                    {!isOrderDiscount && (
+                      <div className="promotion-grid">
+                        {/* Lists are parsed when the input loses focus, so commas can be typed */}
+                        <div className="form-group">
+                          <label htmlFor={`${id}-items`}>Menu item ids</label>
+                          <input
+                            id={`${id}-items`}
+                            type="text"
+                            defaultValue={(promotion.itemIds || []).join(", ")}
+                            onBlur={(e) =>
+                              updatePromotion(promotion.id, {
+                                itemIds: toOptionalList(e.target.value),
+                              })
+                            }
+                            placeholder="e.g. latte, cappuccino"
+                          />
+                        </div>
+                        <div className="form-group">
+                          <label htmlFor={`${id}-categories`}>Categories</label>
+                          <input
+                            id={`${id}-categories`}
+                            type="text"
+                            defaultValue={(promotion.categories || []).join(
+                              ", ",
+                            )}
+                            onBlur={(e) =>
+                              updatePromotion(promotion.id, {
+                                categories: toOptionalList(e.target.value),
+                              })
+                            }
+                            placeholder="All items when both are empty"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="promotion-grid">
+                      <div className="form-group">
+                        <label htmlFor={`${id}-from`}>Valid from</label>
+                        <input
+                          id={`${id}-from`}
+                          type="date"
+                          value={promotion.validFrom || ""}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              validFrom: e.target.value || undefined,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label htmlFor={`${id}-until`}>Valid until</label>
+                        <input
+                          id={`${id}-until`}
+                          type="date"
+                          value={promotion.validUntil || ""}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              validUntil: e.target.value || undefined,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    <div className="mock-http-options">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={promotion.enabled}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              enabled: e.target.checked,
+                            })
+                          }
+                        />
+                        Enabled
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={promotion.loyaltyOnly || false}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              loyaltyOnly: e.target.checked || undefined,
+                            })
+                          }
+                        />
+                        Only for loyalty members
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(promotion.schedule)}
+                          onChange={(e) =>
+                            updatePromotion(promotion.id, {
+                              schedule: e.target.checked
+                                ? DEFAULT_SCHEDULE
+                                : undefined,
+                            })
+                          }
+                        />
+                        Only during a time window, e.g. a happy hour
+                      </label>
+                    </div>
+
+                    {promotion.schedule && (
+                      <div className="promotion-schedule">
+                        <div className="promotion-days">
+                          {DAYS.map((day, dayIndex) => (
+                            <label key={day} className="checkbox-label">
+                              <input
+                                type="checkbox"
+                                checked={
+                                  promotion.schedule?.days?.includes(
+                                    dayIndex,
+                                  ) || false
+                                }
+                                onChange={(e) => {
+                                  const days = (
+                                    promotion.schedule?.days || []
+                                  ).filter((item) => item !== dayIndex);
+                                  const next = e.target.checked
+                                    ? [...days, dayIndex].sort()
+                                    : days;
+                                  updateSchedule(promotion, {
+                                    days: next.length > 0 ? next : undefined,
+                                  });
+                                }}
+                              />
+                              {day}
+                            </label>
+                          ))}
+                        </div>
+                        <div className="promotion-grid">
+                          <div className="form-group">
+                            <label htmlFor={`${id}-start`}>From</label>
+                            <input
+                              id={`${id}-start`}
+                              type="time"
+                              value={promotion.schedule.startTime}
+                              onChange={(e) =>
+                                updateSchedule(promotion, {
+                                  startTime: e.target.value,
+                                })
+                              }
+                            />
+                          </div>
+                          <div className="form-group">
+                            <label htmlFor={`${id}-end`}>Until</label>
+                            <input
+                              id={`${id}-end`}
+                              type="time"
+                              value={promotion.schedule.endTime}
+                              onChange={(e) =>
+                                updateSchedule(promotion, {
+                                  endTime: e.target.value,
+                                })
+                              }
+                            />
+                          </div>
+                        </div>
+                        <div className="help-text">
+                          Every day when no day is checked. A window past
+                          midnight belongs to the day it starts on.
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
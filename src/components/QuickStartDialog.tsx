@@ -25,11 +25,17 @@ interface SamplesIndex {
 interface QuickStartDialogProps {
   onLoadSample: (sampleId: string) => void;
   onSkip: () => void;
+  mainThreadWarnings: string[] | null; // Set while the picked sample waits for the user to trust its main-thread tools
+  onConfirmMainThread: () => void;
+  onCancelMainThread: () => void;
 }
 
 const QuickStartDialog: React.FC<QuickStartDialogProps> = ({
   onLoadSample,
-  onSkip
+  onSkip,
+  mainThreadWarnings,
+  onConfirmMainThread,
+  onCancelMainThread
 }) => {
   const [samples, setSamples] = useState<Sample[]>([]);
   const [loading, setLoading] = useState(true);
@@ -67,6 +73,46 @@ const QuickStartDialog: React.FC<QuickStartDialogProps> = ({
     }
   };
 
+  if (mainThreadWarnings) {
+    return (
+      <div className="quick-start-overlay">
+        <div className="quick-start-dialog">
+          <div className="quick-start-header">
+            <h2>⚠️ Tools on the Main Thread</h2>
+          </div>
+
+          <div className="quick-start-content">
+            <p className="quick-start-description">
+              This sample has tools that do not run in the sandbox. Load it only if you trust where it comes from.
+            </p>
+            {mainThreadWarnings.map((warning) => (
+              <div key={warning} className="quick-start-note">
+                {warning}
+              </div>
+            ))}
+          </div>
+
+          <div className="quick-start-actions">
+            <button
+              type="button"
+              className="quick-start-btn secondary"
+              onClick={onCancelMainThread}
+            >
+              ← Back
+            </button>
+            <button
+              type="button"
+              className="quick-start-btn primary"
+              onClick={onConfirmMainThread}
+            >
+              Trust and Load Sample
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (showSampleSelection) {
     return (
       <div className="quick-start-overlay">
@@ -0,0 +1,193 @@
+import type React from "react";
+import { useEffect, useId, useState } from "react";
+import { SecretVault, type SecretVaultMode } from "../lib/util/SecretVault";
+
+interface SecretVaultPanelProps {
+  description?: string;
+}
+
+export const SecretVaultPanel: React.FC<SecretVaultPanelProps> = ({
+  description,
+}) => {
+  const fieldId = useId();
+  const [mode, setMode] = useState<SecretVaultMode | null>(
+    SecretVault.getMode(),
+  );
+  const [isUnlocked, setIsUnlocked] = useState(SecretVault.isUnlocked());
+  const [hasIdentity, setHasIdentity] = useState(SecretVault.hasIdentity());
+  const [setupMode, setSetupMode] = useState<SecretVaultMode>("passphrase");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Follow unlocks from other components, e.g. the automatic identity unlock after sign-in
+  useEffect(() => {
+    const refresh = () => {
+      setMode(SecretVault.getMode());
+      setIsUnlocked(SecretVault.isUnlocked());
+      setHasIdentity(SecretVault.hasIdentity());
+    };
+    window.addEventListener("secretVaultUpdated", refresh);
+    return () => window.removeEventListener("secretVaultUpdated", refresh);
+  }, []);
+
+  const run = async (
+    action: () => Promise<{ success: boolean; errors: string[] }>,
+  ) => {
+    setIsWorking(true);
+    const result = await action();
+    setIsWorking(false);
+    setErrors(result.errors);
+    if (result.success) {
+      setPassphrase("");
+      setConfirmation("");
+    }
+  };
+
+  const handleSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (setupMode === "passphrase" && passphrase !== confirmation) {
+      setErrors(["Passphrases do not match"]);
+      return;
+    }
+    run(() => SecretVault.setup(setupMode, passphrase));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => SecretVault.unlock(passphrase));
+  };
+
+  const handleReset = () => {
+    if (!confirmReset) {
+      setConfirmReset(true);
+      return;
+    }
+    SecretVault.reset();
+    setConfirmReset(false);
+    setErrors([]);
+  };
+
+  return (
+    <div className={`secret-vault-panel ${isUnlocked ? "unlocked" : ""}`}>
+      <div className="secret-vault-status">
+        <strong>
+          {isUnlocked
+            ? "🔓 Secret vault unlocked"
+            : mode
+              ? "🔐 Secret vault locked"
+              : "🔐 Secret vault not set up"}
+        </strong>
+        {mode && (
+          <span className="secret-vault-mode">
+            {mode === "identity"
+              ? "Key from your Cognito identity"
+              : "Key from a passphrase"}
+          </span>
+        )}
+        {isUnlocked && mode === "passphrase" && (
+          <button type="button" onClick={() => SecretVault.lock()}>
+            Lock
+          </button>
+        )}
+      </div>
+      {description && <p className="secret-vault-description">{description}</p>}
+
+      {!mode && (
+        <form className="secret-vault-form" onSubmit={handleSetup}>
+          <label
+            htmlFor={`${fieldId}-passphrase-mode`}
+            className="checkbox-label"
+          >
+            <input
+              id={`${fieldId}-passphrase-mode`}
+              type="radio"
+              checked={setupMode === "passphrase"}
+              onChange={() => setSetupMode("passphrase")}
+            />
+            Passphrase (needed once per browser session)
+          </label>
+          <label
+            htmlFor={`${fieldId}-identity-mode`}
+            className="checkbox-label"
+          >
+            <input
+              id={`${fieldId}-identity-mode`}
+              type="radio"
+              checked={setupMode === "identity"}
+              onChange={() => setSetupMode("identity")}
+              disabled={!hasIdentity}
+            />
+            Cognito identity (unlocks when you sign in
+            {hasIdentity ? "" : "; sign in first"})
+          </label>
+          {setupMode === "passphrase" && (
+            <>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase (at least 8 characters)"
+                aria-label="Passphrase"
+                autoComplete="new-password"
+              />
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Repeat passphrase"
+                aria-label="Repeat passphrase"
+                autoComplete="new-password"
+              />
+            </>
+          )}
+          <button type="submit" disabled={isWorking}>
+            Set Up Vault
+          </button>
+        </form>
+      )}
+
+      {mode && !isUnlocked && (
+        <form className="secret-vault-form" onSubmit={handleUnlock}>
+          {mode === "passphrase" ? (
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              aria-label="Passphrase"
+              autoComplete="current-password"
+            />
+          ) : (
+            !hasIdentity && (
+              <span className="secret-vault-description">
+                Sign in to unlock the vault.
+              </span>
+            )
+          )}
+          <button
+            type="submit"
+            disabled={isWorking || (mode === "identity" && !hasIdentity)}
+          >
+            Unlock
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            title="Forget the vault key; secret values have to be entered again"
+          >
+            {confirmReset ? "Confirm reset" : "Reset vault"}
+          </button>
+        </form>
+      )}
+
+      {errors.map((error) => (
+        <div key={error} className="error-message">
+          ⚠️ {error}
+        </div>
+      ))}
+    </div>
+  );
+};
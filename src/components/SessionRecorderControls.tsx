@@ -0,0 +1,164 @@
+import type React from "react";
+import { useRef, useState } from "react";
+import {
+  getLastRecording,
+  setRecordingEnabled,
+  startReplay,
+  stopReplay,
+} from "../lib/sdk/events_proxy";
+import { SessionRecorder } from "../lib/sdk/session_recorder";
+
+interface SessionRecorderControlsProps {
+  disabled: boolean;
+  onNotify?: (
+    message: string,
+    type: "info" | "success" | "warning" | "error",
+  ) => void;
+}
+
+const SessionRecorderControls: React.FC<SessionRecorderControlsProps> = ({
+  disabled,
+  onNotify,
+}) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [replayName, setReplayName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Generate filename with timestamp
+  const generateFilename = () => {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/:/g, "-")
+      .replace(/\..+/, "")
+      .replace("T", "-");
+    return `nova-sonic-recording-${timestamp}.json`;
+  };
+
+  const handleToggleRecording = () => {
+    const enabled = !isRecording;
+    setRecordingEnabled(enabled);
+    setIsRecording(enabled);
+    onNotify?.(
+      enabled
+        ? "Recording enabled for the next conversation"
+        : "Recording disabled",
+      "info",
+    );
+  };
+
+  // Download the recording of the current or last session
+  const handleDownload = () => {
+    const recording = getLastRecording();
+    if (!recording) {
+      onNotify?.(
+        "No recording available yet. Enable recording and start a conversation first.",
+        "warning",
+      );
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(recording, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = generateFilename();
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    console.log(`⏺️ Recording downloaded (${recording.events.length} events)`);
+  };
+
+  // Load a recording and replay it on the next conversation
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const recording = SessionRecorder.parseRecording(await file.text());
+      startReplay(recording);
+      setReplayName(file.name);
+      onNotify?.(
+        `Replay mode: start a conversation to replay ${file.name}`,
+        "success",
+      );
+    } catch (error) {
+      console.error("Failed to load recording:", error);
+      onNotify?.(
+        `Failed to load recording: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "error",
+      );
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleExitReplay = () => {
+    stopReplay();
+    setReplayName(null);
+    onNotify?.("Replay mode disabled", "info");
+  };
+
+  return (
+    <div className="session-recorder-controls">
+      <button
+        type="button"
+        className={`recorder-btn ${isRecording ? "active" : ""}`}
+        onClick={handleToggleRecording}
+        disabled={disabled}
+        title={
+          isRecording
+            ? "Stop recording new conversations"
+            : "Record the next conversation"
+        }
+      >
+        {isRecording ? "⏺️ Recording" : "⏺️ Record"}
+      </button>
+      <button
+        type="button"
+        className="recorder-btn"
+        onClick={handleDownload}
+        title="Download the last recording"
+      >
+        ⬇️ Recording
+      </button>
+      {replayName ? (
+        <button
+          type="button"
+          className="recorder-btn active"
+          onClick={handleExitReplay}
+          disabled={disabled}
+          title={`Replaying ${replayName}. Click to exit replay mode`}
+        >
+          ⏏️ Exit Replay
+        </button>
+      ) : (
+        <button
+          type="button"
+          className="recorder-btn"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          title="Load a recording to replay"
+        >
+          ⏯️ Replay
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json"
+        onChange={handleFileSelect}
+        style={{ display: "none" }}
+      />
+    </div>
+  );
+};
+
+export default SessionRecorderControls;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useId } from 'react';
 import { Amplify } from 'aws-amplify';
 import Editor from '@monaco-editor/react';
 import {
@@ -21,11 +21,24 @@ import {
   restrictToParentElement,
 } from '@dnd-kit/modifiers';
 import { SettingsManager, type AppSettings, type CognitoConfig, type AgentConfig, type Tool, type GlobalParameter } from '../lib/util/SettingsManager';
+import { SecretVault } from '../lib/util/SecretVault';
 import { SortableToolEditor } from './SortableToolEditor';
+import { ToolFlowOverview } from './ToolFlowOverview';
 import { SortableGlobalParameterEditor } from './SortableGlobalParameterEditor';
+import { EnvironmentEditor } from './EnvironmentEditor';
+import { MockHttpEditor } from './MockHttpEditor';
+import { PricingRulesEditor } from './PricingRulesEditor';
+import { PromotionsEditor } from './PromotionsEditor';
+import { SecretVaultPanel } from './SecretVaultPanel';
 import ComponentDocumentation from './ComponentDocumentation';
 import ImportExport from './ImportExport';
-import { POWERED_BY_TEXT } from '../lib/sdk/consts';
+import {
+  POWERED_BY_TEXT,
+  DefaultModelId,
+  SupportedRegions,
+  SupportedVoices,
+} from '../lib/sdk/consts';
+import type { InferenceConfig } from '../lib/sdk/types';
 
 interface SettingsComponentProps {
   onConfigSet: () => void;
@@ -58,6 +71,7 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const modelFieldId = useId();
   const [toolErrors, setToolErrors] = useState<Record<number, string[]>>({});
   const [parameterErrors, setParameterErrors] = useState<Record<number, string[]>>({});
   const [isLoading, setIsLoading] = useState(false);
@@ -158,6 +172,35 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
       }
     });
 
+    // Validate model, region, voice and inference settings
+    const modelErrors = SettingsManager.validateModelSettings(settings.agent);
+    if (modelErrors.length > 0) {
+      newErrors.modelSettings = modelErrors.join('. ');
+    }
+
+    const toolTimeoutErrors = SettingsManager.validateToolTimeout(settings.agent.toolTimeoutMs, 'Default tool timeout');
+    if (toolTimeoutErrors.length > 0) {
+      newErrors.toolTimeout = toolTimeoutErrors.join('. ');
+    }
+
+    const mockHttpErrors = SettingsManager.validateMockHttp(settings.agent.mockHttp);
+    if (mockHttpErrors.length > 0) {
+      newErrors.mockHttp = mockHttpErrors.join('. ');
+    }
+
+    const pricingErrors = [
+      ...SettingsManager.validateStoreLocale(settings.agent.storeLocale),
+      ...SettingsManager.validatePricing(settings.agent.pricing)
+    ];
+    if (pricingErrors.length > 0) {
+      newErrors.pricing = pricingErrors.join('. ');
+    }
+
+    const promotionErrors = SettingsManager.validatePromotions(settings.agent.promotions);
+    if (promotionErrors.length > 0) {
+      newErrors.promotions = promotionErrors.join('. ');
+    }
+
     // Validate auto-initiate configuration
     if (settings.agent.autoInitiateConversation && !settings.agent.initiationAudio) {
       newErrors.autoInitiate = 'Please record an initiation audio or disable auto-initiate conversation before saving.';
@@ -177,6 +220,21 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
     }
   };
 
+  // Encrypt newly entered secret values before the settings are saved; null when the vault is locked
+  const sealSecrets = async (): Promise<AppSettings | null> => {
+    const params = settings.agent.globalParameters;
+    if (!SecretVault.hasUnsealedValues(params)) {
+      return settings;
+    }
+    if (!SecretVault.isUnlocked()) {
+      setErrors({ general: 'Set up or unlock the secret vault in the Agent tab to save secret parameter values.' });
+      return null;
+    }
+    const sealedSettings = { ...settings, agent: { ...settings.agent, globalParameters: await SecretVault.sealParameters(params) } };
+    setSettings(sealedSettings);
+    return sealedSettings;
+  };
+
   // New save-only function (doesn't close settings)
   const handleSaveOnly = async () => {
     if (!validateForm()) {
@@ -185,11 +243,14 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
 
     setIsLoading(true);
     try {
+      const sealedSettings = await sealSecrets();
+      if (!sealedSettings) return;
+      
       // Save settings to localStorage
-      SettingsManager.saveSettings(settings);
+      SettingsManager.saveSettings(sealedSettings);
       
       // Configure Amplify with new settings
-      configureAmplify(settings);
+      configureAmplify(sealedSettings);
       
       console.log('Settings saved successfully (staying open)');
       
@@ -218,11 +279,14 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
 
     setIsLoading(true);
     try {
+      const sealedSettings = await sealSecrets();
+      if (!sealedSettings) return;
+      
       // Save settings to localStorage
-      SettingsManager.saveSettings(settings);
+      SettingsManager.saveSettings(sealedSettings);
       
       // Configure Amplify with new settings
-      configureAmplify(settings);
+      configureAmplify(sealedSettings);
       
       console.log('Settings saved successfully (closing)');
       
@@ -286,6 +350,8 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
     }
   };
 
+  const modelSettings = SettingsManager.getModelSettings(settings.agent);
+
   const handleAgentChange = (field: keyof AgentConfig, value: any) => {
     setSettings(prev => ({
       ...prev,
@@ -300,6 +366,13 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
     handleAgentChange('system_prompt', value || '');
   };
 
+  const handleInferenceChange = (field: keyof InferenceConfig, value: string) => {
+    handleAgentChange('inferenceConfig', {
+      ...modelSettings.inferenceConfig,
+      [field]: value === '' ? Number.NaN : Number(value)
+    });
+  };
+
   // Audio recording handlers
   const handleAutoInitiateChange = (enabled: boolean) => {
     handleAgentChange('autoInitiateConversation', enabled);
@@ -547,6 +620,25 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
     }));
   };
 
+  // Removing an environment removes the parameter values for it too
+  const handleEnvironmentsChange = (environments: string[], activeEnvironment: string | undefined) => {
+    const pick = (values?: Record<string, string>) =>
+      values && Object.fromEntries(Object.entries(values).filter(([environment]) => environments.includes(environment)));
+    setSettings(prev => ({
+      ...prev,
+      agent: {
+        ...prev.agent,
+        environments,
+        activeEnvironment,
+        globalParameters: prev.agent.globalParameters.map(param => ({
+          ...param,
+          environmentValues: pick(param.environmentValues),
+          encryptedEnvironmentValues: pick(param.encryptedEnvironmentValues)
+        }))
+      }
+    }));
+  };
+
   const removeParameter = (index: number) => {
     const newParameters = settings.agent.globalParameters.filter((_, i) => i !== index);
     const reorderedParameters = SettingsManager.reorderGlobalParameters(newParameters);
@@ -857,6 +949,97 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
                 </div>
               </div>
 
+              {/* Model & Voice Section */}
+              <div className="model-settings-section">
+                <h4 className="model-settings-title">Model &amp; Voice</h4>
+                <p className="model-settings-description">
+                  Choose the Amazon Bedrock model, region and voice used for each conversation with this configuration.
+                </p>
+
+                {errors.modelSettings && (
+                  <div className="error-message">
+                    {errors.modelSettings}
+                  </div>
+                )}
+
+                <div className="model-settings-grid">
+                  <div className="form-group">
+                    <label htmlFor={`${modelFieldId}-model-id`}>Model ID</label>
+                    <input
+                      id={`${modelFieldId}-model-id`}
+                      type="text"
+                      value={settings.agent.modelId ?? ''}
+                      onChange={(e) => handleAgentChange('modelId', e.target.value)}
+                      placeholder={DefaultModelId}
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor={`${modelFieldId}-region`}>Bedrock Region</label>
+                    <select
+                      id={`${modelFieldId}-region`}
+                      value={modelSettings.region}
+                      onChange={(e) => handleAgentChange('region', e.target.value)}
+                    >
+                      {SupportedRegions.map(region => (
+                        <option key={region.id} value={region.id}>{region.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor={`${modelFieldId}-voice`}>Voice</label>
+                    <select
+                      id={`${modelFieldId}-voice`}
+                      value={modelSettings.voiceId}
+                      onChange={(e) => handleAgentChange('voiceId', e.target.value)}
+                    >
+                      {SupportedVoices.map(voice => (
+                        <option key={voice.id} value={voice.id}>{voice.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor={`${modelFieldId}-max-tokens`}>Max Tokens</label>
+                    <input
+                      id={`${modelFieldId}-max-tokens`}
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={Number.isNaN(modelSettings.inferenceConfig.maxTokens) ? '' : modelSettings.inferenceConfig.maxTokens}
+                      onChange={(e) => handleInferenceChange('maxTokens', e.target.value)}
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor={`${modelFieldId}-top-p`}>Top P</label>
+                    <input
+                      id={`${modelFieldId}-top-p`}
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={Number.isNaN(modelSettings.inferenceConfig.topP) ? '' : modelSettings.inferenceConfig.topP}
+                      onChange={(e) => handleInferenceChange('topP', e.target.value)}
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor={`${modelFieldId}-temperature`}>Temperature</label>
+                    <input
+                      id={`${modelFieldId}-temperature`}
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={Number.isNaN(modelSettings.inferenceConfig.temperature) ? '' : modelSettings.inferenceConfig.temperature}
+                      onChange={(e) => handleInferenceChange('temperature', e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+
               {/* Auto-Initiate Conversation Section */}
               <div className="auto-initiate-section">
                 <div className="auto-initiate-header">
@@ -970,9 +1153,20 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
                 <p className="global-parameters-description">
                   Define reusable key-value parameters that are automatically passed to all tools. 
                   Use these for common endpoints, API keys, configuration values, and other constants 
-                  to avoid repetition across tools.
+                  to avoid repetition across tools. Parameters can have own values per environment; tools receive
+                  the values of the active environment, which the URL can override with <code>?env=name</code>.
                 </p>
 
+                <EnvironmentEditor
+                  environments={settings.agent.environments || []}
+                  activeEnvironment={settings.agent.activeEnvironment}
+                  onChange={handleEnvironmentsChange}
+                />
+
+                {(settings.agent.globalParameters.some(param => param.secret) || SecretVault.getMode()) && (
+                  <SecretVaultPanel description="Secret parameters are encrypted with the vault key. Tools receive them only while the vault is unlocked." />
+                )}
+
                 {settings.agent.globalParameters.length === 0 ? (
                   <div className="no-parameters">
                     <span className="no-parameters-icon">📋</span>
@@ -997,6 +1191,7 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
                             <SortableGlobalParameterEditor
                               key={`param-${parameter.order}`}
                               parameter={parameter}
+                              environments={settings.agent.environments || []}
                               onUpdate={(updatedParameter) => updateParameter(index, updatedParameter)}
                               onRemove={() => removeParameter(index)}
                               errors={parameterErrors[index] || []}
@@ -1008,6 +1203,26 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
                 )}
               </div>
 
+              <MockHttpEditor
+                mockHttp={settings.agent.mockHttp}
+                onChange={(mockHttp) => handleAgentChange('mockHttp', mockHttp)}
+                errors={SettingsManager.validateMockHttp(settings.agent.mockHttp)}
+              />
+
+              <PricingRulesEditor
+                pricing={settings.agent.pricing}
+                storeLocale={settings.agent.storeLocale}
+                onChange={(pricing) => handleAgentChange('pricing', pricing)}
+                onStoreLocaleChange={(storeLocale) => handleAgentChange('storeLocale', storeLocale)}
+                errors={SettingsManager.validatePricing(settings.agent.pricing)}
+              />
+
+              <PromotionsEditor
+                promotions={settings.agent.promotions}
+                onChange={(promotions) => handleAgentChange('promotions', promotions)}
+                errors={SettingsManager.validatePromotions(settings.agent.promotions)}
+              />
+
               <div className="tools-section">
                 <div className="tools-header">
                   <h4>Tools Configuration</h4>
@@ -1031,6 +1246,27 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
                   Drag and drop to reorder execution priority.
                 </p>
 
+                <div className="form-group tool-timeout-default">
+                  <label htmlFor={`${modelFieldId}-tool-timeout`}>Default Tool Timeout (ms)</label>
+                  <input
+                    id={`${modelFieldId}-tool-timeout`}
+                    type="number"
+                    min={100}
+                    step={100}
+                    value={settings.agent.toolTimeoutMs ?? ''}
+                    onChange={(e) => handleAgentChange('toolTimeoutMs', e.target.value === '' ? undefined : Number(e.target.value))}
+                    placeholder={String(SettingsManager.getDefaultToolTimeout())}
+                  />
+                  <div className="help-text">
+                    Tools that take longer are cancelled and return their fallback result to the model. Each tool can override this value.
+                  </div>
+                  {errors.toolTimeout && (
+                    <div className="field-error">{errors.toolTimeout}</div>
+                  )}
+                </div>
+
+                <ToolFlowOverview tools={settings.agent.tools} />
+
                 {settings.agent.tools.length === 0 ? (
                   <div className="empty-tools">
                     <p>No tools configured. Click "Add New Tool" to create your first tool.</p>
@@ -1056,6 +1292,10 @@ export const SettingsComponent: React.FC<SettingsComponentProps> = ({
                               onUpdate={(updatedTool) => updateTool(index, updatedTool)}
                               onRemove={() => removeTool(index)}
                               errors={toolErrors[index] || []}
+                              defaultTimeoutMs={SettingsManager.getDefaultToolTimeout(settings.agent)}
+                              toolNames={settings.agent.tools
+                                .map(other => other.tool_name)
+                                .filter(name => name && name !== tool.tool_name)}
                             />
                           ))}
                       </div>
@@ -1,12 +1,21 @@
 import { useState, useCallback, forwardRef, useImperativeHandle, useRef, useEffect } from 'react';
+import { type AppliedModifier, type MissingChoice, MenuModifiers, type ModifierGroup, type ModifierSelection } from '../lib/util/MenuModifiers';
+import { type MenuVariant, MenuVariants, type SelectedVariant, type VariantSelection } from '../lib/util/MenuVariants';
+import { OrderPricing, type SummaryLine, type TaxLine, type TipOption, type TipSelection } from '../lib/util/OrderPricing';
+import { PriceFormatter } from '../lib/util/PriceFormatter';
+import { type PromotionLine, Promotions } from '../lib/util/Promotions';
+import { type PricingConfig, type Promotion, SettingsManager, type StoreLocale } from '../lib/util/SettingsManager';
+import { useStoreLocale } from '../hooks/useStoreLocale';
 
 interface CartItem {
   id: string;
   menuItemId: string;
   name: string;
-  basePrice: number;
+  basePrice: number; // Price of the variant for items with variants
   quantity: number;
+  variant?: SelectedVariant; // Size, temperature or crust of the line
   customizations: AppliedCustomization[];
+  modifiers?: AppliedModifier[]; // Choices of the modifier groups of the menu item
   totalPrice: number;
   notes?: string;
 }
@@ -18,20 +27,45 @@ interface AppliedCustomization {
   type: 'add' | 'remove' | 'substitute';
 }
 
+// Summary row with its amount formatted for display and spelled out for the agent
+interface OrderSummaryLine extends SummaryLine {
+  formatted: string;
+  spoken: string;
+}
+
 interface OrderSummary {
-  subtotal: number;
-  tax: number;
+  subtotal: number; // Before discounts
+  discount: number; // Promotions taken off the subtotal
+  serviceCharge: number;
+  deliveryFee: number;
+  tax: number; // Already part of the subtotal when taxInclusive
+  tip: number;
   total: number;
+  taxInclusive: boolean;
+  taxLines: TaxLine[];
+  lines: OrderSummaryLine[]; // Subtotal, discounts, fees, tax, tip and total in the order they are read to the customer
+  promotions: { promotionId: string; name: string; amount: number }[];
+  couponCodes: string[];
+  loyaltyMember: boolean;
   items: CartItem[];
   totalQuantity: number;
 }
 
+// Choices of the customer the summary is priced with; calls changing them pass the new values, as state updates later
+interface PricingState {
+  tip?: TipSelection;
+  couponCodes: string[];
+  loyaltyCustomerId: string | null;
+}
+
 interface BulkCartItem {
   menuItemId: string;
   name: string;
   price: number;
   quantity?: number; // defaults to 1
   customizations?: AppliedCustomization[]; // defaults to []
+  modifiers?: ModifierSelection[]; // defaults to the default options of the item's modifier groups
+  variant?: VariantSelection; // defaults to the default variant of items with variants; its price replaces price
 }
 
 interface BulkCartResult {
@@ -49,6 +83,8 @@ interface BulkCartResult {
     totalQuantity: number;
   };
   summary?: OrderSummary;
+  errors?: string[];
+  missingChoices?: CartMissingChoice[];
   comboApplied?: {
     comboName: string;
     savings: number;
@@ -74,6 +110,12 @@ interface BulkRemoveResult {
   summary?: OrderSummary;
 }
 
+// Required modifier choice still missing on a cart line
+interface CartMissingChoice extends MissingChoice {
+  cartItemId: string;
+  itemName: string;
+}
+
 interface ShoppingCartProps {
   menuItems?: any[];
 }
@@ -85,36 +127,195 @@ interface ComboSuggestion {
   originalPrice: number;
   savings: number;
   savingsPercentage: number;
-  matchedItems: { menuItemId: string; name: string; price: number; }[];
+  matchedItems: ComboMatchedItem[];
   recommendation: string;
 }
 
+// Item a combo includes, as listed on the combo's menu item
+interface ComboMenuItem {
+  id?: string;
+  name: string;
+  variantId?: string; // Variant the combo includes; lines with the default variant match when missing
+}
+
+// Cart line a combo can take: one without customizations, changed modifiers, missing choices or an upgraded variant,
+// so replacing it by the combo loses nothing the customer asked for
+interface ComboCandidate {
+  cartItemId: string;
+  menuItemId: string;
+  name: string;
+  price: number; // Unit price of the line, with its modifiers
+  quantity: number;
+  variant?: string; // Variant id of the line
+  defaultVariant: boolean; // True for lines without variants or with the default one
+}
+
+interface ComboMatchedItem {
+  cartItemId: string;
+  menuItemId: string;
+  name: string;
+  price: number;
+  variantId?: string;
+}
+
+// Price of one unit of a cart line, with its customizations and modifiers
+const calculateUnitPrice = (item: Pick<CartItem, 'basePrice' | 'customizations' | 'modifiers'>): number => {
+  const customizationTotal = item.customizations.reduce((sum, custom) => sum + custom.price, 0);
+  return item.basePrice + customizationTotal + MenuModifiers.total(item.modifiers || []);
+};
+
+// Choices of a list of modifiers, whatever order they were made in
+const modifierSignature = (modifiers: AppliedModifier[]): string =>
+  modifiers
+    .map(modifier => `${modifier.groupId}:${modifier.optionId}x${modifier.quantity}(${modifierSignature(modifier.modifiers || [])})`)
+    .sort()
+    .join(',');
+
+// Modifier choices of a cart line, nested choices indented under their option
+const ModifierLines = ({ modifiers, store }: { modifiers: AppliedModifier[]; store: StoreLocale }) => (
+  <div className="cart-modifiers">
+    {modifiers.map(modifier => {
+      const ownPrice = modifier.price - modifier.quantity * MenuModifiers.total(modifier.modifiers || []);
+      return (
+        <div key={`${modifier.groupId}/${modifier.optionId}`}>
+          <span className="customization">
+            + {modifier.quantity > 1 && `${modifier.quantity}× `}{modifier.name}
+            {ownPrice > 0 && ` (+${PriceFormatter.format(ownPrice, store)})`}
+          </span>
+          {modifier.modifiers && <ModifierLines modifiers={modifier.modifiers} store={store} />}
+        </div>
+      );
+    })}
+  </div>
+);
+
 const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref) => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [taxRate] = useState(0.08); // 8% tax rate
+  const [pricing, setPricing] = useState<PricingConfig>(() => SettingsManager.getPricing());
+  const [promotions, setPromotions] = useState<Promotion[]>(() => SettingsManager.getAgentConfig().promotions || []);
+  const [tip, setTipSelection] = useState<TipSelection | undefined>(undefined);
+  const [couponCodes, setCouponCodes] = useState<string[]>([]);
+  const [loyaltyCustomerId, setLoyaltyCustomerId] = useState<string | null>(null);
+  const storeLocale = useStoreLocale();
   const cartItemsRef = useRef<HTMLDivElement>(null);
 
-  // Helper function to calculate summary from any cart items array
-  const calculateSummary = useCallback((items: CartItem[]): OrderSummary => {
-    const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-    const tax = subtotal * taxRate;
-    const total = subtotal + tax;
+  // Pick up pricing rules and promotions saved in Settings
+  useEffect(() => {
+    const refreshPricing = () => {
+      const agent = SettingsManager.getAgentConfig();
+      setPricing(SettingsManager.getPricing(agent));
+      setPromotions(agent.promotions || []);
+    };
+    window.addEventListener('settingsUpdated', refreshPricing);
+    return () => window.removeEventListener('settingsUpdated', refreshPricing);
+  }, []);
+
+  // Categories of a cart line's menu item, for its tax rate
+  const getItemCategories = useCallback((menuItemId: string): string[] => {
+    const category = menuItems.find(menuItem => menuItem.id === menuItemId)?.category;
+    return Array.isArray(category) ? category : category ? [category] : [];
+  }, [menuItems]);
+
+  const formatPrice = useCallback((amount: number) => PriceFormatter.format(amount, storeLocale), [storeLocale]);
+
+  const describeLines = useCallback((lines: SummaryLine[]): OrderSummaryLine[] => {
+    return lines.map(line => ({ ...line, formatted: formatPrice(line.amount), spoken: PriceFormatter.toWords(line.amount, storeLocale) }));
+  }, [formatPrice, storeLocale]);
+
+  const toPricedLines = useCallback((items: CartItem[]): PromotionLine[] => {
+    return items.map(item => ({
+      menuItemId: item.menuItemId,
+      unitPrice: calculateUnitPrice(item),
+      quantity: item.quantity,
+      categories: getItemCategories(item.menuItemId)
+    }));
+  }, [getItemCategories]);
+
+  const evaluatePromotions = useCallback((lines: PromotionLine[], state: PricingState) => {
+    return Promotions.evaluate(
+      lines,
+      promotions,
+      { now: new Date(), couponCodes: state.couponCodes, loyaltyMember: Boolean(state.loyaltyCustomerId), formatPrice },
+      pricing
+    );
+  }, [promotions, pricing, formatPrice]);
+
+  // Helper function to calculate summary from any cart items array; promotions are evaluated on every change
+  const calculateSummary = useCallback((items: CartItem[], overrides: Partial<PricingState> = {}): OrderSummary => {
+    const state: PricingState = { tip, couponCodes, loyaltyCustomerId, ...overrides };
+    const lines = toPricedLines(items);
+    const { applied } = evaluatePromotions(lines, state);
+    const breakdown = OrderPricing.calculate(lines, pricing, state.tip, applied);
     const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
 
-    return { subtotal, tax, total, items, totalQuantity };
-  }, [taxRate]);
+    return {
+      ...breakdown,
+      lines: describeLines(breakdown.lines),
+      promotions: applied.map(promotion => ({ promotionId: promotion.promotionId, name: promotion.label, amount: promotion.amount })),
+      couponCodes: state.couponCodes,
+      loyaltyMember: Boolean(state.loyaltyCustomerId),
+      items,
+      totalQuantity
+    };
+  }, [pricing, tip, couponCodes, loyaltyCustomerId, toPricedLines, evaluatePromotions, describeLines]);
 
   // Generate unique ID for cart items
   const generateCartItemId = useCallback(() => {
     return `cart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }, []);
 
+  // Modifier groups of a menu item, as loaded in the menu
+  const getModifierGroups = useCallback((menuItemId: string): ModifierGroup[] => {
+    const menuItem = menuItems.find(item => item.id === menuItemId);
+    return menuItem?.modifierGroups || [];
+  }, [menuItems]);
+
+  // Variants of a menu item, as loaded in the menu (with discounted prices)
+  const getMenuVariants = useCallback((menuItemId: string): MenuVariant[] => {
+    const menuItem = menuItems.find(item => item.id === menuItemId);
+    return menuItem?.variants || [];
+  }, [menuItems]);
+
+  // Required modifier choices still missing on the given cart lines
+  const findMissingChoices = useCallback((items: CartItem[]): CartMissingChoice[] => {
+    return items.flatMap(item =>
+      MenuModifiers.getMissingChoices(getModifierGroups(item.menuItemId), item.modifiers || [])
+        .map(choice => ({ ...choice, cartItemId: item.id, itemName: item.name }))
+    );
+  }, [getModifierGroups]);
+
   // ========================================
   // COMBO DETECTION FUNCTIONS
   // ========================================
 
+  // Cart lines a combo can take; the combo line has no modifiers or variant of its own, so lines that would lose
+  // a customization, a modifier choice other than the defaults, a required choice still to ask for or a variant
+  // other than the default one are left out
+  const toComboCandidates = useCallback((items: CartItem[]): ComboCandidate[] => {
+    return items.flatMap(item => {
+      const groups = getModifierGroups(item.menuItemId);
+      const modifiers = item.modifiers || [];
+      const keepsChoices = item.customizations.length === 0
+        && modifierSignature(modifiers) === modifierSignature(MenuModifiers.select(groups, []).modifiers)
+        && MenuModifiers.getMissingChoices(groups, modifiers).length === 0;
+      if (!keepsChoices) {
+        return [];
+      }
+      const defaultVariant = MenuVariants.getDefault(getMenuVariants(item.menuItemId));
+      return [{
+        cartItemId: item.id,
+        menuItemId: item.menuItemId,
+        name: item.name,
+        price: calculateUnitPrice(item),
+        quantity: item.quantity,
+        ...(item.variant && { variant: item.variant.id }),
+        defaultVariant: !item.variant || item.variant.id === defaultVariant?.id
+      }];
+    });
+  }, [getModifierGroups, getMenuVariants]);
+
   // Analyze cart items for combo opportunities
-  const analyzeForComboOpportunities = useCallback((items: BulkCartItem[]): ComboSuggestion[] => {
+  const analyzeForComboOpportunities = useCallback((items: ComboCandidate[]): ComboSuggestion[] => {
     if (!menuItems || menuItems.length === 0 || items.length === 0) {
       return [];
     }
@@ -149,7 +350,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
         
         const savingsPercentage = Math.round((comboMatch.savings / comboMatch.originalPrice) * 100);
         const itemNames = comboMatch.matchedItems.map((item: any) => item.name).join(", ");
-        const recommendation = `Save $${comboMatch.savings.toFixed(2)} by switching ${itemNames} to ${combo.name}!`;
+        const recommendation = `Save ${formatPrice(comboMatch.savings)} by switching ${itemNames} to ${combo.name}!`;
         
         suggestions.push({
           comboName: combo.name,
@@ -171,13 +372,13 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     
     console.log("🍔 Found", suggestions.length, "combo suggestions");
     return suggestions;
-  }, [menuItems]);
+  }, [menuItems, formatPrice]);
 
   // Helper function to check if items can form a combo
-  const checkComboMatch = useCallback((cartItems: BulkCartItem[], comboItems: any[], combo: any) => {
+  const checkComboMatch = useCallback((cartItems: ComboCandidate[], comboItems: ComboMenuItem[], combo: { name: string; price: number }) => {
     console.log("🍔 checkComboMatch for:", combo.name);
     
-    const matchedItems: { menuItemId: string; name: string; price: number; }[] = [];
+    const matchedItems: ComboMatchedItem[] = [];
     const availableItems = [...cartItems];
     let originalPrice = 0;
     let canFormCombo = true;
@@ -186,12 +387,18 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     for (const comboItem of comboItems) {
       console.log("🍔 Looking for combo item:", comboItem.name, "id:", comboItem.id);
       
-      // Find matching item in available cart items
-      const itemIndex = availableItems.findIndex(cartItem => 
-        cartItem.menuItemId === comboItem.id ||
-        cartItem.name.toLowerCase().includes(comboItem.name.toLowerCase()) ||
-        comboItem.name.toLowerCase().includes(cartItem.name.toLowerCase())
-      );
+      // Find matching item in available cart items: by id, then by name, then by a name containing the other
+      // (e.g. "Cola (2)"). Lines with a variant are only matched by id or exact name, since their name leaves out
+      // the size, and must have the variant the combo asks for (variantId), or the default one when it names none.
+      const comboName = comboItem.name.toLowerCase();
+      const matchers: ((cartItem: ComboCandidate) => boolean)[] = [
+        cartItem => cartItem.menuItemId === comboItem.id,
+        cartItem => cartItem.name.toLowerCase() === comboName,
+        cartItem => !cartItem.variant && (cartItem.name.toLowerCase().includes(comboName) || comboName.includes(cartItem.name.toLowerCase()))
+      ];
+      const candidates = availableItems.filter(cartItem => comboItem.variantId ? cartItem.variant === comboItem.variantId : cartItem.defaultVariant);
+      const match = matchers.map(matcher => candidates.find(matcher)).find(Boolean);
+      const itemIndex = match ? availableItems.indexOf(match) : -1;
       
       if (itemIndex === -1) {
         console.log("🍔 Combo item not available in cart:", comboItem.name);
@@ -203,15 +410,17 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
       console.log("🍔 Found matching cart item:", cartItem.name);
       
       matchedItems.push({
+        cartItemId: cartItem.cartItemId,
         menuItemId: cartItem.menuItemId,
         name: cartItem.name,
-        price: cartItem.price
+        price: cartItem.price,
+        ...(cartItem.variant && { variantId: cartItem.variant })
       });
       
       originalPrice += cartItem.price;
       
       // Remove item from available items (or reduce quantity)
-      const quantity = cartItem.quantity || 1;
+      const quantity = cartItem.quantity;
       if (quantity > 1) {
         availableItems[itemIndex] = { ...cartItem, quantity: quantity - 1 };
       } else {
@@ -247,10 +456,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
       let replacementMade = false;
       
       // Process each matched item from the suggestion
-      suggestion.matchedItems.forEach((matchedItem: any) => {
-        const cartItemIndex = newCartItems.findIndex(cartItem => 
-          cartItem.menuItemId === matchedItem.menuItemId
-        );
+      suggestion.matchedItems.forEach(matchedItem => {
+        const cartItemIndex = newCartItems.findIndex(cartItem => cartItem.id === matchedItem.cartItemId);
         
         if (cartItemIndex !== -1) {
           const cartItem = newCartItems[cartItemIndex];
@@ -260,7 +467,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
             newCartItems[cartItemIndex] = {
               ...cartItem,
               quantity: cartItem.quantity - 1,
-              totalPrice: (cartItem.basePrice + cartItem.customizations.reduce((sum, c) => sum + c.price, 0)) * (cartItem.quantity - 1)
+              totalPrice: calculateUnitPrice(cartItem) * (cartItem.quantity - 1)
             };
           } else {
             // Remove item completely (quantity is 1)
@@ -294,7 +501,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     
     // Show notification
     const notification = document.createElement('div');
-    notification.innerHTML = `✅ Combo Applied! Saved $${suggestion.savings.toFixed(2)} with ${suggestion.comboName}`;
+    notification.innerHTML = `✅ Combo Applied! Saved ${formatPrice(suggestion.savings)} with ${suggestion.comboName}`;
     Object.assign(notification.style, {
       position: 'fixed',
       top: '20px',
@@ -315,25 +522,35 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
         notification.parentNode.removeChild(notification);
       }
     }, 4000);
-  }, [generateCartItemId]);
+  }, [generateCartItemId, formatPrice]);
 
   // Add item to cart
-  const addToCart = useCallback((menuItemId: string, name: string, basePrice: number, quantity: number = 1, customizations: AppliedCustomization[] = []) => {
-    console.log("🍔 ShoppingCart: addToCart method called with:", { menuItemId, name, basePrice, quantity, customizations });
+  const addToCart = useCallback((menuItemId: string, name: string, basePrice: number, quantity: number = 1, customizations: AppliedCustomization[] = [], modifiers: ModifierSelection[] = [], variant?: VariantSelection) => {
+    console.log("🍔 ShoppingCart: addToCart method called with:", { menuItemId, name, basePrice, quantity, customizations, modifiers, variant });
     console.log("🍔 ShoppingCart: Current cart has", cartItems.length, "items");
     console.log("🍔 ShoppingCart: Menu items available:", menuItems?.length || 0);
-    
-    const customizationTotal = customizations.reduce((sum, custom) => sum + custom.price, 0);
-    const totalPrice = (basePrice + customizationTotal) * quantity;
+
+    // Apply the modifier choices, groups without a choice get their default options
+    // Items with variants are priced by the chosen variant, or the default one
+    const { modifiers: appliedModifiers, errors } = MenuModifiers.select(getModifierGroups(menuItemId), modifiers);
+    const { variant: menuVariant, errors: variantErrors } = MenuVariants.find(getMenuVariants(menuItemId), variant);
+    errors.push(...variantErrors);
+    if (errors.length > 0) {
+      console.warn("🍔 ShoppingCart: addToCart rejected modifier or variant choices:", errors);
+      return { success: false, errors };
+    }
+    const unitBasePrice = menuVariant ? menuVariant.price : basePrice;
 
     const newItem: CartItem = {
       id: generateCartItemId(),
       menuItemId,
       name,
-      basePrice,
+      basePrice: unitBasePrice,
       quantity,
+      ...(menuVariant && { variant: MenuVariants.toSelected(menuVariant) }),
       customizations,
-      totalPrice,
+      ...(appliedModifiers.length > 0 && { modifiers: appliedModifiers }),
+      totalPrice: calculateUnitPrice({ basePrice: unitBasePrice, customizations, modifiers: appliedModifiers }) * quantity,
     };
 
     // Calculate new cart state with the added item
@@ -352,17 +569,11 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     if (menuItems && menuItems.length > 0 && newCartItems.length >= 2) {
       console.log("🍔 addToCart: Checking for combo opportunities after adding:", name);
       
-      // Convert to format needed for combo analysis
-      const cartAsBulkItems = newCartItems.map(item => ({
-        menuItemId: item.menuItemId,
-        name: item.name,
-        price: item.basePrice,
-        quantity: item.quantity,
-        customizations: item.customizations
-      }));
+      // Lines a combo can take without losing choices, priced per unit
+      const comboCandidates = toComboCandidates(newCartItems);
       
       // Use existing combo detection logic
-      let suggestions = analyzeForComboOpportunities(cartAsBulkItems);
+      let suggestions = analyzeForComboOpportunities(comboCandidates);
       
       while (suggestions.length > 0) {
         const topSuggestion = suggestions[0];
@@ -373,10 +584,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
         let replacementMade = false;
         
         // Process each matched item from the suggestion
-        topSuggestion.matchedItems.forEach((matchedItem: any) => {
-          const cartItemIndex = newCartItems.findIndex(cartItem => 
-            cartItem.menuItemId === matchedItem.menuItemId
-          );
+        topSuggestion.matchedItems.forEach(matchedItem => {
+          const cartItemIndex = newCartItems.findIndex(cartItem => cartItem.id === matchedItem.cartItemId);
           
           if (cartItemIndex !== -1) {
             const cartItem = newCartItems[cartItemIndex];
@@ -386,7 +595,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
               newCartItems[cartItemIndex] = {
                 ...cartItem,
                 quantity: cartItem.quantity - 1,
-                totalPrice: (cartItem.basePrice + cartItem.customizations.reduce((sum, c) => sum + c.price, 0)) * (cartItem.quantity - 1)
+                totalPrice: calculateUnitPrice(cartItem) * (cartItem.quantity - 1)
               };
             } else {
               // Remove item completely (quantity is 1)
@@ -433,11 +642,11 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
           totalCombosApplied += 1;
           lastComboName = topSuggestion.comboName;
           
-          console.log(`🍔 addToCart: Applied combo ${totalCombosApplied}, total savings so far: $${totalSavings.toFixed(2)}`);
+          console.log(`🍔 addToCart: Applied combo ${totalCombosApplied}, total savings so far: ${formatPrice(totalSavings)}`);
           
           // Show notification
           const notification = document.createElement('div');
-          notification.innerHTML = `✅ Combo Applied! Saved $${topSuggestion.savings.toFixed(2)} with ${topSuggestion.comboName}`;
+          notification.innerHTML = `✅ Combo Applied! Saved ${formatPrice(topSuggestion.savings)} with ${topSuggestion.comboName}`;
           Object.assign(notification.style, {
             position: 'fixed',
             top: '20px',
@@ -461,14 +670,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
         }
         
         // Re-analyze for more combo opportunities
-        const updatedCartAsBulkItems = newCartItems.map(item => ({
-          menuItemId: item.menuItemId,
-          name: item.name,
-          price: item.basePrice,
-          quantity: item.quantity,
-          customizations: item.customizations
-        }));
-        suggestions = analyzeForComboOpportunities(updatedCartAsBulkItems);
+        const updatedComboCandidates = toComboCandidates(newCartItems);
+        suggestions = analyzeForComboOpportunities(updatedComboCandidates);
       }
       
       // Create final combo information with total savings
@@ -478,8 +681,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
           savings: totalSavings,
           originalItems: [], // Not relevant for multiple combos
           message: totalCombosApplied > 1 
-            ? `Great! I applied ${totalCombosApplied} ${lastComboName}s and saved you $${totalSavings.toFixed(2)}!`
-            : `Great! I applied ${lastComboName} and saved you $${totalSavings.toFixed(2)}!`
+            ? `Great! I applied ${totalCombosApplied} ${lastComboName}s and saved you ${formatPrice(totalSavings)}!`
+            : `Great! I applied ${lastComboName} and saved you ${formatPrice(totalSavings)}!`
         };
         
         console.log("🍔 addToCart: Final combo info with total savings:", comboApplied);
@@ -492,17 +695,20 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     // Calculate and return updated summary
     const updatedSummary = calculateSummary(newCartItems);
     
-    // Return cart item ID, calculated totals, and combo information
+    // Return cart item ID, calculated totals, required choices the agent still has to ask for (on what is left of the
+    // line after combos), and combo information
     return {
+      success: true,
       cartItemId: newItem.id,
       cartTotal: updatedSummary.total,
       cartCount: updatedSummary.totalQuantity,
       subtotal: updatedSummary.subtotal,
       tax: updatedSummary.tax,
       summary: updatedSummary,
+      missingChoices: findMissingChoices(newCartItems.filter(item => item.id === newItem.id)),
       ...(comboApplied && { comboApplied })
     };
-  }, [generateCartItemId, cartItems, taxRate, menuItems, analyzeForComboOpportunities, showComboSuggestion]);
+  }, [generateCartItemId, cartItems, calculateSummary, menuItems, toComboCandidates, analyzeForComboOpportunities, showComboSuggestion, getModifierGroups, getMenuVariants, findMissingChoices, formatPrice]);
 
   // Add multiple items to cart in a single operation
   const bulkAddToCart = useCallback((items: BulkCartItem[]): BulkCartResult => {
@@ -514,24 +720,57 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
       totalPrice: number;
     }[] = [];
     let newCartItems = [...cartItems];
+
+    // Check the modifier and variant choices of every item before changing the cart
+    const errors: string[] = [];
+    const appliedModifiers = items.map(item => {
+      const result = MenuModifiers.select(getModifierGroups(item.menuItemId), item.modifiers || []);
+      errors.push(...result.errors.map(error => `${item.name}: ${error}`));
+      return result.modifiers;
+    });
+    const menuVariants = items.map(item => {
+      const result = MenuVariants.find(getMenuVariants(item.menuItemId), item.variant);
+      errors.push(...result.errors.map(error => `${item.name}: ${error}`));
+      return result.variant;
+    });
+    if (errors.length > 0) {
+      console.warn("🍔 bulkAddToCart: Rejected modifier choices:", errors);
+      const currentSummary = calculateSummary(cartItems);
+      return {
+        success: false,
+        errors,
+        addedItems,
+        cartSummary: {
+          cartTotal: currentSummary.total,
+          cartCount: cartItems.length,
+          totalQuantity: currentSummary.totalQuantity
+        }
+      };
+    }
+    const newItems: CartItem[] = [];
     
     // Process each item
-    items.forEach(item => {
-      const customizationTotal = (item.customizations || []).reduce((sum, custom) => sum + custom.price, 0);
+    items.forEach((item, index) => {
       const quantity = item.quantity || 1;
-      const totalPrice = (item.price + customizationTotal) * quantity;
+      const customizations = item.customizations || [];
+      const modifiers = appliedModifiers[index];
+      const menuVariant = menuVariants[index];
+      const basePrice = menuVariant ? menuVariant.price : item.price;
 
       const newItem: CartItem = {
         id: generateCartItemId(),
         menuItemId: item.menuItemId,
         name: item.name,
-        basePrice: item.price,
+        basePrice,
         quantity,
-        customizations: item.customizations || [],
-        totalPrice,
+        ...(menuVariant && { variant: MenuVariants.toSelected(menuVariant) }),
+        customizations,
+        ...(modifiers.length > 0 && { modifiers }),
+        totalPrice: calculateUnitPrice({ basePrice, customizations, modifiers }) * quantity,
       };
 
       newCartItems.push(newItem);
+      newItems.push(newItem);
       
       // Track what was added for return value
       addedItems.push({
@@ -556,17 +795,11 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     if (menuItems && menuItems.length > 0 && newCartItems.length >= 2) {
       console.log("🍔 bulkAddToCart: Checking for combo opportunities after adding", items.length, "items");
       
-      // Convert to format needed for combo analysis
-      const cartAsBulkItems = newCartItems.map(item => ({
-        menuItemId: item.menuItemId,
-        name: item.name,
-        price: item.basePrice,
-        quantity: item.quantity,
-        customizations: item.customizations
-      }));
+      // Lines a combo can take without losing choices, priced per unit
+      const comboCandidates = toComboCandidates(newCartItems);
       
       // Use existing combo detection logic
-      let suggestions = analyzeForComboOpportunities(cartAsBulkItems);
+      let suggestions = analyzeForComboOpportunities(comboCandidates);
       
       while (suggestions.length > 0) {
         const topSuggestion = suggestions[0];
@@ -577,10 +810,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
         let replacementMade = false;
         
         // Process each matched item from the suggestion
-        topSuggestion.matchedItems.forEach((matchedItem: any) => {
-          const cartItemIndex = newCartItems.findIndex(cartItem => 
-            cartItem.menuItemId === matchedItem.menuItemId
-          );
+        topSuggestion.matchedItems.forEach(matchedItem => {
+          const cartItemIndex = newCartItems.findIndex(cartItem => cartItem.id === matchedItem.cartItemId);
           
           if (cartItemIndex !== -1) {
             const cartItem = newCartItems[cartItemIndex];
@@ -590,7 +821,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
               newCartItems[cartItemIndex] = {
                 ...cartItem,
                 quantity: cartItem.quantity - 1,
-                totalPrice: (cartItem.basePrice + cartItem.customizations.reduce((sum, c) => sum + c.price, 0)) * (cartItem.quantity - 1)
+                totalPrice: calculateUnitPrice(cartItem) * (cartItem.quantity - 1)
               };
             } else {
               // Remove item completely (quantity is 1)
@@ -637,11 +868,11 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
           totalCombosApplied += 1;
           lastComboName = topSuggestion.comboName;
           
-          console.log(`🍔 bulkAddToCart: Applied combo ${totalCombosApplied}, total savings so far: $${totalSavings.toFixed(2)}`);
+          console.log(`🍔 bulkAddToCart: Applied combo ${totalCombosApplied}, total savings so far: ${formatPrice(totalSavings)}`);
           
           // Show notification
           const notification = document.createElement('div');
-          notification.innerHTML = `✅ Combo ${totalCombosApplied} Applied! Total saved: $${totalSavings.toFixed(2)}`;
+          notification.innerHTML = `✅ Combo ${totalCombosApplied} Applied! Total saved: ${formatPrice(totalSavings)}`;
           Object.assign(notification.style, {
             position: 'fixed',
             top: '20px',
@@ -665,14 +896,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
         }
         
         // Re-analyze for more combo opportunities
-        const updatedCartAsBulkItems = newCartItems.map(item => ({
-          menuItemId: item.menuItemId,
-          name: item.name,
-          price: item.basePrice,
-          quantity: item.quantity,
-          customizations: item.customizations
-        }));
-        suggestions = analyzeForComboOpportunities(updatedCartAsBulkItems);
+        const updatedComboCandidates = toComboCandidates(newCartItems);
+        suggestions = analyzeForComboOpportunities(updatedComboCandidates);
       }
       
       // Create final combo information with total savings
@@ -682,8 +907,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
           savings: totalSavings,
           originalItems: [], // Not relevant for multiple combos
           message: totalCombosApplied > 1 
-            ? `Great! I applied ${totalCombosApplied} ${lastComboName}s and saved you $${totalSavings.toFixed(2)}!`
-            : `Great! I applied ${lastComboName} and saved you $${totalSavings.toFixed(2)}!`
+            ? `Great! I applied ${totalCombosApplied} ${lastComboName}s and saved you ${formatPrice(totalSavings)}!`
+            : `Great! I applied ${lastComboName} and saved you ${formatPrice(totalSavings)}!`
         };
         
         console.log("🍔 bulkAddToCart: Final combo info with total savings:", comboApplied);
@@ -705,11 +930,12 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
         totalQuantity: updatedSummary.totalQuantity
       },
       summary: updatedSummary,
+      missingChoices: findMissingChoices(newCartItems.filter(item => newItems.some(newItem => newItem.id === item.id))),
       ...(comboApplied && { comboApplied })
     };
 
     return result;
-  }, [cartItems, taxRate, generateCartItemId, menuItems, analyzeForComboOpportunities, showComboSuggestion]);
+  }, [cartItems, generateCartItemId, menuItems, toComboCandidates, analyzeForComboOpportunities, showComboSuggestion, getModifierGroups, getMenuVariants, findMissingChoices, calculateSummary, formatPrice]);
 
   // Remove item from cart
   const removeFromCart = useCallback((cartItemId: string) => {
@@ -783,8 +1009,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     setCartItems(prev => {
       const newCartItems = prev.map(item => {
         if (item.id === cartItemId) {
-          const customizationTotal = item.customizations.reduce((sum, custom) => sum + custom.price, 0);
-          const totalPrice = (item.basePrice + customizationTotal) * quantity;
+          const totalPrice = calculateUnitPrice(item) * quantity;
           return { ...item, quantity, totalPrice };
         }
         return item;
@@ -816,16 +1041,41 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     return updatedSummary!;
   }, [calculateSummary]);
 
-  // Add customization to item
+  // Add customization to item, checked against the customizations the menu item offers
   const addCustomization = useCallback((cartItemId: string, customization: AppliedCustomization) => {
+    const cartItem = cartItems.find(item => item.id === cartItemId);
+    if (!cartItem) {
+      return { success: false, errors: [`Cart item ${cartItemId} not found`] };
+    }
+    if (!customization?.id || !customization.name || typeof customization.price !== 'number') {
+      return { success: false, errors: ['A customization needs an id, a name and a price'] };
+    }
+    if (cartItem.customizations.some(custom => custom.id === customization.id)) {
+      return { success: false, errors: [`${customization.name} is already applied to ${cartItem.name}`] };
+    }
+
+    // Menu items list their customizations as customizations or, from the restaurant API, availableCustomizations
+    const menuItem = menuItems.find(item => item.id === cartItem.menuItemId);
+    const offered: (Omit<AppliedCustomization, 'type'> & { available?: boolean })[] | undefined = menuItem?.customizations?.length ? menuItem.customizations : menuItem?.availableCustomizations;
+    let applied = customization;
+    if (offered?.length) {
+      const match = offered.find(custom => custom.id === customization.id);
+      if (!match) {
+        return { success: false, errors: [`${customization.name} is not offered for ${cartItem.name}`] };
+      }
+      if (match.available === false) {
+        return { success: false, errors: [`${match.name} is currently unavailable`] };
+      }
+      applied = { ...customization, price: match.price };
+    }
+
     let updatedSummary: OrderSummary;
     
     setCartItems(prev => {
       const newCartItems = prev.map(item => {
         if (item.id === cartItemId) {
-          const newCustomizations = [...item.customizations, customization];
-          const customizationTotal = newCustomizations.reduce((sum, custom) => sum + custom.price, 0);
-          const totalPrice = (item.basePrice + customizationTotal) * item.quantity;
+          const newCustomizations = [...item.customizations, applied];
+          const totalPrice = calculateUnitPrice({ ...item, customizations: newCustomizations }) * item.quantity;
           return { ...item, customizations: newCustomizations, totalPrice };
         }
         return item;
@@ -836,7 +1086,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     });
     
     return updatedSummary!;
-  }, [calculateSummary]);
+  }, [calculateSummary, cartItems, menuItems]);
 
   // Remove customization from item
   const removeCustomization = useCallback((cartItemId: string, customizationId: string) => {
@@ -846,8 +1096,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
       const newCartItems = prev.map(item => {
         if (item.id === cartItemId) {
           const newCustomizations = item.customizations.filter(custom => custom.id !== customizationId);
-          const customizationTotal = newCustomizations.reduce((sum, custom) => sum + custom.price, 0);
-          const totalPrice = (item.basePrice + customizationTotal) * item.quantity;
+          const totalPrice = calculateUnitPrice({ ...item, customizations: newCustomizations }) * item.quantity;
           return { ...item, customizations: newCustomizations, totalPrice };
         }
         return item;
@@ -860,6 +1109,71 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     return updatedSummary!;
   }, [calculateSummary]);
 
+  // Change the modifiers of a cart line; the cart is left unchanged when the change breaks the group rules
+  const updateModifiers = useCallback((cartItemId: string, change: (item: CartItem) => { modifiers: AppliedModifier[]; errors: string[] }) => {
+    const item = cartItems.find(item => item.id === cartItemId);
+    if (!item) {
+      return { success: false, errors: [`Cart item ${cartItemId} not found`] };
+    }
+
+    const { modifiers, errors } = change(item);
+    if (errors.length > 0) {
+      return { success: false, errors, missingChoices: findMissingChoices([item]) };
+    }
+
+    const updatedItem: CartItem = { ...item, modifiers };
+    updatedItem.totalPrice = calculateUnitPrice(updatedItem) * item.quantity;
+    const newCartItems = cartItems.map(cartItem => (cartItem.id === cartItemId ? updatedItem : cartItem));
+    setCartItems(newCartItems);
+
+    return {
+      success: true,
+      errors: [],
+      cartItem: updatedItem,
+      missingChoices: findMissingChoices([updatedItem]),
+      summary: calculateSummary(newCartItems)
+    };
+  }, [cartItems, findMissingChoices, calculateSummary]);
+
+  // Add a modifier choice to an item, nested under one of its chosen options when parentOptionId is given
+  const addModifier = useCallback((cartItemId: string, groupId: string, optionId: string, quantity: number = 1, parentOptionId?: string) => {
+    return updateModifiers(cartItemId, item =>
+      MenuModifiers.add(getModifierGroups(item.menuItemId), item.modifiers || [], { groupId, optionId, quantity }, parentOptionId)
+    );
+  }, [updateModifiers, getModifierGroups]);
+
+  // Remove a modifier choice from an item; without a quantity the whole choice is removed
+  const removeModifier = useCallback((cartItemId: string, optionId: string, quantity?: number) => {
+    return updateModifiers(cartItemId, item =>
+      MenuModifiers.remove(getModifierGroups(item.menuItemId), item.modifiers || [], optionId, quantity)
+    );
+  }, [updateModifiers, getModifierGroups]);
+
+  // Change the variant of an item, e.g. make it a large; attributes left out keep their current values
+  const changeVariant = useCallback((cartItemId: string, selection: VariantSelection) => {
+    const item = cartItems.find(item => item.id === cartItemId);
+    if (!item) {
+      return { success: false, errors: [`Cart item ${cartItemId} not found`] };
+    }
+
+    const { variant, errors } = MenuVariants.find(getMenuVariants(item.menuItemId), selection, item.variant);
+    if (!variant || errors.length > 0) {
+      return { success: false, errors: errors.length > 0 ? errors : [`${item.name} has no variants`] };
+    }
+
+    const updatedItem: CartItem = { ...item, variant: MenuVariants.toSelected(variant), basePrice: variant.price };
+    updatedItem.totalPrice = calculateUnitPrice(updatedItem) * item.quantity;
+    const newCartItems = cartItems.map(cartItem => (cartItem.id === cartItemId ? updatedItem : cartItem));
+    setCartItems(newCartItems);
+
+    return { success: true, errors: [], cartItem: updatedItem, summary: calculateSummary(newCartItems) };
+  }, [cartItems, getMenuVariants, calculateSummary]);
+
+  // Required choices the customer still has to make, for one item or the whole cart
+  const getMissingRequiredChoices = useCallback((cartItemId?: string): CartMissingChoice[] => {
+    return findMissingChoices(cartItemId ? cartItems.filter(item => item.id === cartItemId) : cartItems);
+  }, [cartItems, findMissingChoices]);
+
   // Update item notes
   const updateItemNotes = useCallback((cartItemId: string, notes: string) => {
     let updatedSummary: OrderSummary;
@@ -879,7 +1193,10 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
   // Clear cart
   const clearCart = useCallback(() => {
     setCartItems([]);
-    return calculateSummary([]);
+    setTipSelection(undefined);
+    setCouponCodes([]);
+    setLoyaltyCustomerId(null);
+    return calculateSummary([], { tip: undefined, couponCodes: [], loyaltyCustomerId: null });
   }, [calculateSummary]);
 
   // Get cart summary
@@ -887,6 +1204,93 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     return calculateSummary(cartItems);
   }, [cartItems, calculateSummary]);
 
+  // Tip amounts of the configured presets for the current subtotal after discounts
+  const getTipOptions = useCallback((): { options: TipOption[]; currentTip: number } => {
+    const summary = getOrderSummary();
+    return { options: OrderPricing.getTipOptions(summary.subtotal - summary.discount, pricing), currentTip: summary.tip };
+  }, [getOrderSummary, pricing]);
+
+  // Set the tip as a percentage of the subtotal after discounts or a fixed amount; neither (or 0) removes the tip
+  const setTip = useCallback((percent?: number, amount?: number) => {
+    if (percent !== undefined && amount !== undefined) {
+      return { success: false, errors: ['Give either a tip percentage or a tip amount, not both'] };
+    }
+    if (percent !== undefined && (typeof percent !== 'number' || percent < 0 || percent > 100)) {
+      return { success: false, errors: ['Tip percentage must be between 0 and 100'] };
+    }
+    if (amount !== undefined && (typeof amount !== 'number' || amount < 0)) {
+      return { success: false, errors: ['Tip amount must be at least 0'] };
+    }
+
+    const nextTip: TipSelection | undefined =
+      percent ? { percent } : amount ? { amount: OrderPricing.roundAmount(amount, pricing) } : undefined;
+    setTipSelection(nextTip);
+    const summary = calculateSummary(cartItems, { tip: nextTip });
+    console.log(`💵 Tip set to ${formatPrice(summary.tip)}`);
+    return { success: true, errors: [], tip: summary.tip, total: summary.total, lines: summary.lines };
+  }, [cartItems, pricing, calculateSummary, formatPrice]);
+
+  // Apply a coupon code the customer typed or spoke, e.g. "save twenty five" for SAVE25
+  const applyCoupon = useCallback((code: string) => {
+    if (typeof code !== 'string' || !code.trim()) {
+      return { success: false, errors: ['Coupon code is required'] };
+    }
+    const promotion = Promotions.findByCode(promotions, code);
+    if (!promotion) {
+      return { success: false, errors: [`"${code}" is not a valid coupon code`] };
+    }
+
+    const nextCodes = [...couponCodes.filter(existing => !Promotions.findByCode([promotion], existing)), code.trim()];
+    const status = evaluatePromotions(toPricedLines(cartItems), { tip, couponCodes: nextCodes, loyaltyCustomerId }).statuses
+      .find(item => item.id === promotion.id);
+    if (!status) {
+      return { success: false, errors: [`The coupon for ${promotion.name} is not valid today`] };
+    }
+
+    setCouponCodes(nextCodes);
+    const summary = calculateSummary(cartItems, { couponCodes: nextCodes });
+    console.log(`🎟️ Coupon ${code} for ${promotion.name}: ${status.applied ? `saves ${formatPrice(status.discount)}` : status.requirements.join(', ')}`);
+    return {
+      success: true,
+      errors: [],
+      promotion: { id: promotion.id, name: promotion.name, description: promotion.description },
+      applied: status.applied,
+      discount: status.discount,
+      requirements: status.requirements, // What the order still needs for the coupon to take effect
+      summary
+    };
+  }, [promotions, couponCodes, tip, loyaltyCustomerId, cartItems, evaluatePromotions, toPricedLines, calculateSummary, formatPrice]);
+
+  // Remove a coupon code given before
+  const removeCoupon = useCallback((code: string) => {
+    const promotion = Promotions.findByCode(promotions, code);
+    const nextCodes = couponCodes.filter(existing => existing !== code && !(promotion && Promotions.findByCode([promotion], existing)));
+    if (nextCodes.length === couponCodes.length) {
+      return { success: false, errors: [`Coupon code "${code}" is not applied`] };
+    }
+    setCouponCodes(nextCodes);
+    return { success: true, errors: [], summary: calculateSummary(cartItems, { couponCodes: nextCodes }) };
+  }, [promotions, couponCodes, cartItems, calculateSummary]);
+
+  // Promotions the order gets or could get, with what each still needs; coupon deals show once their code is given
+  const getEligiblePromotions = useCallback(() => {
+    const { statuses, discount } = evaluatePromotions(toPricedLines(cartItems), { tip, couponCodes, loyaltyCustomerId });
+    return {
+      promotions: statuses.map(status => ({ ...status, formattedDiscount: formatPrice(status.discount) })),
+      totalDiscount: discount,
+      couponCodes,
+      loyaltyMember: Boolean(loyaltyCustomerId)
+    };
+  }, [cartItems, tip, couponCodes, loyaltyCustomerId, evaluatePromotions, toPricedLines, formatPrice]);
+
+  // Mark the customer as an identified loyalty member (or not, without an id) for loyalty-only deals
+  const setLoyaltyMember = useCallback((customerId?: string | null) => {
+    const nextCustomerId = customerId ? String(customerId) : null;
+    setLoyaltyCustomerId(nextCustomerId);
+    console.log(nextCustomerId ? `⭐ Loyalty member ${nextCustomerId} identified` : '⭐ Loyalty member cleared');
+    return { success: true, errors: [], summary: calculateSummary(cartItems, { loyaltyCustomerId: nextCustomerId }) };
+  }, [cartItems, calculateSummary]);
+
   // Auto-scroll to bottom when new items are added
   useEffect(() => {
     if (cartItemsRef.current && cartItems.length > 0) {
@@ -940,6 +1344,10 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     updateCartItem,
     addCustomization,
     removeCustomization,
+    addModifier,
+    removeModifier,
+    getMissingRequiredChoices,
+    changeVariant,
     updateItemNotes,
     clearCart,
     getCart,
@@ -947,13 +1355,22 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
     getCartTotal,
     getCartCount,
     getOrderSummary,
+    getTipOptions,
+    setTip,
+    applyCoupon,
+    removeCoupon,
+    getEligiblePromotions,
+    setLoyaltyMember,
     submitOrder,
   }), [
-    addToCart, bulkAddToCart, removeFromCart, bulkRemoveFromCart, updateQuantity, updateCartItem, addCustomization, removeCustomization, updateItemNotes,
-    clearCart, getCart, getCartItem, getCartTotal, getCartCount, getOrderSummary, submitOrder, calculateSummary
+    addToCart, bulkAddToCart, removeFromCart, bulkRemoveFromCart, updateQuantity, updateCartItem, addCustomization, removeCustomization,
+    addModifier, removeModifier, getMissingRequiredChoices, changeVariant, updateItemNotes,
+    clearCart, getCart, getCartItem, getCartTotal, getCartCount, getOrderSummary, getTipOptions, setTip,
+    applyCoupon, removeCoupon, getEligiblePromotions, setLoyaltyMember, submitOrder, calculateSummary
   ]);
 
   const summary = getOrderSummary();
+  const missingChoices = findMissingChoices(cartItems);
 
   return (
     <div className="shopping-cart">
@@ -977,7 +1394,10 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
                 <div key={item.id} className="cart-item">
                   <div className="item-info">
                     <div className="item-name-qty">
-                      <span className="item-name">{item.name}</span>
+                      <span className="item-name">
+                        {item.name}
+                        {item.variant && <span className="item-variant"> ({item.variant.name})</span>}
+                      </span>
                       <div className="quantity-controls">
                         <button 
                           className="qty-btn"
@@ -1000,12 +1420,20 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
                         {item.customizations.map(custom => (
                           <span key={custom.id} className="customization">
                             {custom.type === 'add' ? '+' : custom.type === 'remove' ? '−' : '~'} {custom.name}
-                            {custom.price > 0 && ` (+$${custom.price.toFixed(2)})`}
+                            {custom.price > 0 && ` (+${formatPrice(custom.price)})`}
                           </span>
                         ))}
                       </div>
                     )}
 
+                    {item.modifiers && item.modifiers.length > 0 && <ModifierLines modifiers={item.modifiers} store={storeLocale} />}
+
+                    {missingChoices.filter(choice => choice.cartItemId === item.id).map(choice => (
+                      <div key={[...choice.path, choice.groupId].join('/')} className="missing-choice">
+                        ⚠️ {choice.path.length > 0 && `${choice.path.join(' > ')}: `}{choice.groupName} ({choice.rule.toLowerCase()})
+                      </div>
+                    ))}
+
                     {(item as any).comboItems && (item as any).comboItems.length > 0 && (
                       <div className="combo-items">
                         {(item as any).comboItems.map((comboItem: any) => (
@@ -1014,8 +1442,8 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
                             {comboItem.isReplacement && (
                               <span className="replacement-note"> (was {comboItem.originalName})</span>
                             )}
-                            {comboItem.priceDifference > 0 && ` (+$${comboItem.priceDifference.toFixed(2)})`}
-                            {comboItem.priceDifference < 0 && ` (-$${Math.abs(comboItem.priceDifference).toFixed(2)})`}
+                            {comboItem.priceDifference > 0 && ` (+${formatPrice(comboItem.priceDifference)})`}
+                            {comboItem.priceDifference < 0 && ` (-${formatPrice(Math.abs(comboItem.priceDifference))})`}
                           </span>
                         ))}
                       </div>
@@ -1030,7 +1458,7 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
                   
                   <div className="item-actions">
                     <div className="price-remove">
-                      <span className="item-price">${item.totalPrice.toFixed(2)}</span>
+                      <span className="item-price">{formatPrice(item.totalPrice)}</span>
                       <button 
                         className="remove-btn"
                         onClick={() => removeFromCart(item.id)}
@@ -1045,18 +1473,23 @@ const ShoppingCart = forwardRef<any, ShoppingCartProps>(({ menuItems = [] }, ref
             </div>
 
             <div className="cart-summary">
-              <div className="summary-line">
-                <span>Subtotal:</span>
-                <span>${summary.subtotal.toFixed(2)}</span>
-              </div>
-              <div className="summary-line">
-                <span>Tax:</span>
-                <span>${summary.tax.toFixed(2)}</span>
-              </div>
-              <div className="summary-line total">
-                <span>Total:</span>
-                <span>${summary.total.toFixed(2)}</span>
-              </div>
+              {summary.lines.map(line => (
+                <div key={`${line.kind}-${line.label}`} className={`summary-line ${line.kind}`}>
+                  <span>{line.label}:</span>
+                  <span>{line.formatted}</span>
+                </div>
+              ))}
+              {(summary.couponCodes.length > 0 || summary.loyaltyMember) && (
+                <div className="cart-promotion-tags">
+                  {summary.loyaltyMember && <span className="cart-promotion-tag">⭐ Loyalty member</span>}
+                  {summary.couponCodes.map(code => (
+                    <span key={code} className="cart-promotion-tag">
+                      🎟️ {code}
+                      <button type="button" onClick={() => removeCoupon(code)} title="Remove coupon">✕</button>
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           </>
         )}
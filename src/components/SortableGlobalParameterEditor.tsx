@@ -6,6 +6,7 @@ import { GlobalParameter } from '../lib/util/SettingsManager';
 
 interface SortableGlobalParameterEditorProps {
   parameter: GlobalParameter;
+  environments: string[];
   onUpdate: (parameter: GlobalParameter) => void;
   onRemove: () => void;
   errors: string[];
@@ -13,6 +14,7 @@ interface SortableGlobalParameterEditorProps {
 
 export const SortableGlobalParameterEditor: React.FC<SortableGlobalParameterEditorProps> = ({
   parameter,
+  environments,
   onUpdate,
   onRemove,
   errors
@@ -44,6 +46,7 @@ export const SortableGlobalParameterEditor: React.FC<SortableGlobalParameterEdit
       <div className="parameter-wrapper">
         <GlobalParameterEditor
           parameter={parameter}
+          environments={environments}
           onUpdate={onUpdate}
           onRemove={onRemove}
           errors={errors}
@@ -9,13 +9,17 @@ interface SortableToolEditorProps {
   onUpdate: (tool: Tool) => void;
   onRemove: () => void;
   errors: string[];
+  defaultTimeoutMs: number;
+  toolNames: string[];
 }
 
 export const SortableToolEditor: React.FC<SortableToolEditorProps> = ({
   tool,
   onUpdate,
   onRemove,
-  errors
+  errors,
+  defaultTimeoutMs,
+  toolNames
 }) => {
   const {
     attributes,
@@ -47,6 +51,8 @@ export const SortableToolEditor: React.FC<SortableToolEditorProps> = ({
           onUpdate={onUpdate}
           onRemove={onRemove}
           errors={errors}
+          defaultTimeoutMs={defaultTimeoutMs}
+          toolNames={toolNames}
         />
       </div>
     </div>
@@ -0,0 +1,219 @@
+import type React from "react";
+import { useEffect, useState } from "react";
+import { type ToolAuditEntry, ToolAuditLog } from "../lib/tools/ToolAuditLog";
+import type { ToolExecutionStatus } from "../lib/tools/ToolExecutor";
+
+const STATUS_ICONS: Record<ToolExecutionStatus, string> = {
+  success: "✅",
+  failure: "❎",
+  error: "❌",
+  timeout: "⏱️",
+  cancelled: "🛑",
+  invalid: "⚠️",
+  blocked: "🚧",
+};
+
+const formatJSON = (value: unknown): string => {
+  if (typeof value === "string") {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+      return value;
+    }
+  }
+  return JSON.stringify(value, null, 2) ?? "";
+};
+
+// Download text as a file, the same way recordings and settings are exported
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Debug panel listing the tool calls of a session, with JSON and CSV export
+const ToolAuditPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState(() => ToolAuditLog.getSessions());
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(
+    null,
+  );
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return ToolAuditLog.subscribe(() =>
+      setSessions(ToolAuditLog.getSessions()),
+    );
+  }, []);
+
+  // Follow the latest session unless another one was picked
+  const session =
+    sessions.find((candidate) => candidate.sessionId === selectedSessionId) ||
+    sessions[0];
+  const entries: ToolAuditEntry[] = session
+    ? [...session.entries].reverse()
+    : [];
+  const totalCalls = sessions.reduce(
+    (total, candidate) => total + candidate.entries.length,
+    0,
+  );
+
+  const handleExport = (format: "json" | "csv") => {
+    if (!session) return;
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/:/g, "-")
+      .replace(/\..+/, "")
+      .replace("T", "-");
+    const filename = `tool-calls-${session.sessionId}-${timestamp}.${format}`;
+    if (format === "json") {
+      downloadFile(
+        ToolAuditLog.exportJSON(session.sessionId),
+        filename,
+        "application/json",
+      );
+    } else {
+      downloadFile(
+        ToolAuditLog.exportCSV(session.sessionId),
+        filename,
+        "text/csv",
+      );
+    }
+    console.log(
+      `📋 Exported ${session.entries.length} tool calls of session ${session.sessionId} as ${format.toUpperCase()}`,
+    );
+  };
+
+  const handleClear = () => {
+    if (!session) return;
+    ToolAuditLog.clear(session.sessionId);
+    setSelectedSessionId(null);
+    setSessions(ToolAuditLog.getSessions());
+  };
+
+  return (
+    <div className={`tool-audit-panel ${isOpen ? "open" : ""}`}>
+      <button
+        type="button"
+        className="tool-audit-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? "▾" : "▸"} 📋 Tool Calls ({totalCalls})
+      </button>
+
+      {isOpen && (
+        <div className="tool-audit-content">
+          <div className="tool-audit-toolbar">
+            <select
+              value={session?.sessionId || ""}
+              onChange={(e) => setSelectedSessionId(e.target.value)}
+              disabled={sessions.length === 0}
+              aria-label="Session"
+            >
+              {sessions.length === 0 && (
+                <option value="">No sessions yet</option>
+              )}
+              {sessions.map((candidate) => (
+                <option key={candidate.sessionId} value={candidate.sessionId}>
+                  {candidate.sessionId} ·{" "}
+                  {new Date(candidate.startedAt).toLocaleTimeString()} (
+                  {candidate.entries.length})
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="format-btn"
+              onClick={() => handleExport("json")}
+              disabled={!session}
+            >
+              Export JSON
+            </button>
+            <button
+              type="button"
+              className="format-btn"
+              onClick={() => handleExport("csv")}
+              disabled={!session}
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              className="remove-btn"
+              onClick={handleClear}
+              disabled={!session}
+              title="Clear this session's tool calls"
+            >
+              🗑️
+            </button>
+          </div>
+
+          {entries.length === 0 ? (
+            <div className="help-text">No tool calls yet</div>
+          ) : (
+            <ul className="tool-execution-log tool-audit-entries">
+              {entries.map((entry) => (
+                <li key={entry.id} className={`tool-execution ${entry.status}`}>
+                  <button
+                    type="button"
+                    className="tool-audit-entry-summary"
+                    onClick={() =>
+                      setExpandedId(expandedId === entry.id ? null : entry.id)
+                    }
+                    aria-expanded={expandedId === entry.id}
+                  >
+                    <span className="tool-execution-status">
+                      {STATUS_ICONS[entry.status]} {entry.toolName}
+                    </span>
+                    <span className="tool-execution-time">
+                      {new Date(entry.startedAt).toLocaleTimeString()}
+                    </span>
+                    <span className="tool-execution-duration">
+                      {entry.durationMs} ms
+                    </span>
+                    {!entry.agentTriggered && (
+                      <span className="tool-audit-tag">app</span>
+                    )}
+                  </button>
+                  {expandedId === entry.id && (
+                    <div className="tool-audit-details">
+                      {entry.toolUseId && (
+                        <div className="tool-execution-message">
+                          Tool use: {entry.toolUseId}
+                        </div>
+                      )}
+                      {entry.error && (
+                        <div className="field-error">{entry.error}</div>
+                      )}
+                      <div className="tool-execution-log-title">Input</div>
+                      <pre className="tool-test-output">
+                        {formatJSON(entry.input)}
+                      </pre>
+                      {entry.result !== null && (
+                        <>
+                          <div className="tool-execution-log-title">Result</div>
+                          <pre className="tool-test-output">
+                            {formatJSON(entry.result)}
+                          </pre>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolAuditPanel;
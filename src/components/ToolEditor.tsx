@@ -1,29 +1,65 @@
 import React, { useState, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
-import { Tool } from '../lib/util/SettingsManager';
+import { Tool, ToolPermissions } from '../lib/util/SettingsManager';
+import { toolExecutor, type ToolExecutionRecord, type ToolExecutionStatus } from '../lib/tools/ToolExecutor';
+import { ToolRulesEditor } from './ToolRulesEditor';
+import { ToolTestPanel } from './ToolTestPanel';
 
 interface ToolEditorProps {
   tool: Tool;
   onUpdate: (tool: Tool) => void;
   onRemove: () => void;
   errors: string[];
+  defaultTimeoutMs: number;
+  toolNames: string[]; // Names of the other tools, for preconditions and post-hooks
 }
 
+const EXECUTION_STATUS_LABELS: Record<ToolExecutionStatus, string> = {
+  success: '✅ Success',
+  failure: '❎ Reported failure',
+  error: '❌ Error',
+  timeout: '⏱️ Timed out',
+  cancelled: '🛑 Cancelled',
+  invalid: '⚠️ Invalid input',
+  blocked: '🚧 Precondition not met'
+};
+
+// Split a comma or newline separated list into trimmed entries
+const parseList = (value: string): string[] =>
+  value.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+
 export const ToolEditor: React.FC<ToolEditorProps> = ({ 
   tool, 
   onUpdate, 
   onRemove, 
-  errors 
+  errors,
+  defaultTimeoutMs,
+  toolNames
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isCodeExpanded, setIsCodeExpanded] = useState(false);
   const [localTool, setLocalTool] = useState<Tool>(tool);
+  const [executions, setExecutions] = useState<ToolExecutionRecord[]>([]);
+  // Raw text of the permission lists, so separators can be typed freely
+  const [hostsText, setHostsText] = useState((tool.permissions?.allowedHosts || []).join('\n'));
+  const [componentsText, setComponentsText] = useState((tool.permissions?.allowedComponents || []).join(', '));
 
   // Update local state when prop changes
   useEffect(() => {
     setLocalTool(tool);
   }, [tool]);
 
+  // Keep the execution log of this tool up to date
+  useEffect(() => {
+    const toolName = localTool.tool_name;
+    setExecutions(toolExecutor.getExecutionLog(toolName));
+    return toolExecutor.onExecution((record) => {
+      if (record.toolName === toolName) {
+        setExecutions(toolExecutor.getExecutionLog(toolName));
+      }
+    });
+  }, [localTool.tool_name]);
+
   const handleFieldChange = (field: keyof Tool, value: any) => {
     const updatedTool = { ...localTool, [field]: value };
     setLocalTool(updatedTool);
@@ -39,6 +75,30 @@ export const ToolEditor: React.FC<ToolEditorProps> = ({
     onUpdate(updatedTool);
   };
 
+  const permissions: ToolPermissions = localTool.permissions || { allowedHosts: [], allowedComponents: [] };
+
+  // The sandbox is the default, so only the main thread is stored
+  const runsOnMainThread = localTool.executionMode === 'main';
+
+  const handleMainThreadChange = (enabled: boolean) => {
+    const updatedTool: Tool = {
+      ...localTool,
+      executionMode: enabled ? 'main' : undefined,
+      permissions: enabled ? localTool.permissions : permissions
+    };
+    setLocalTool(updatedTool);
+    onUpdate(updatedTool);
+  };
+
+  const handlePermissionsChange = (field: keyof ToolPermissions, value: string) => {
+    if (field === 'allowedHosts') {
+      setHostsText(value);
+    } else {
+      setComponentsText(value);
+    }
+    handleFieldChange('permissions', { ...permissions, [field]: parseList(value) });
+  };
+
   const validateAndFormatJSON = () => {
     try {
       const parsed = JSON.parse(localTool.inputSchema.json);
@@ -59,6 +119,11 @@ export const ToolEditor: React.FC<ToolEditorProps> = ({
             {localTool.tool_name || 'Unnamed Tool'}
           </span>
           <span className="tool-order">#{localTool.order}</span>
+          {runsOnMainThread && (
+            <span className="tool-main-thread-badge" title="Runs on the main thread with full access to the page">
+              Main thread
+            </span>
+          )}
           {hasErrors && <span className="error-indicator">⚠️</span>}
         </div>
         <div className="tool-actions">
@@ -243,6 +308,132 @@ export const ToolEditor: React.FC<ToolEditorProps> = ({
                 If checked, this tool will be executed automatically when the app starts
               </div>
             </div>
+
+            <div className="form-group tool-sandbox-settings">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={runsOnMainThread}
+                  onChange={(e) => handleMainThreadChange(e.target.checked)}
+                />
+                Run on the main thread (trusted scripts only)
+              </label>
+              {runsOnMainThread ? (
+                <div className="error-message tool-main-thread-warning">
+                  ⚠️ This script runs on the main thread with full access to the page, browser storage, <code>auth</code> and
+                  the AWS credentials. Only use it for scripts you wrote or trust.
+                </div>
+              ) : (
+                <div className="help-text">
+                  Tools run in an isolated worker without access to the page, browser storage or credentials.
+                  They only get <code>input</code>, <code>globals</code>, <code>utils</code> and the hosts and components allowed below;
+                  component calls and their results must be plain data.
+                </div>
+              )}
+
+              {!runsOnMainThread && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={`tool-hosts-${tool.order}`}>Allowed Hosts</label>
+                    <textarea
+                      id={`tool-hosts-${tool.order}`}
+                      value={hostsText}
+                      onChange={(e) => handlePermissionsChange('allowedHosts', e.target.value)}
+                      placeholder={'api.example.com\n*.execute-api.us-east-1.amazonaws.com'}
+                      rows={3}
+                    />
+                    <div className="help-text">
+                      One host per line for <code>axios</code> and <code>fetch</code>; <code>*.domain</code> matches subdomains and <code>self</code> the app's own origin
+                    </div>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={`tool-components-${tool.order}`}>Allowed Components</label>
+                    <textarea
+                      id={`tool-components-${tool.order}`}
+                      value={componentsText}
+                      onChange={(e) => handlePermissionsChange('allowedComponents', e.target.value)}
+                      placeholder="menu, cart, chat.addMessage"
+                      rows={3}
+                    />
+                    <div className="help-text">
+                      Component names or single methods
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="form-group">
+              <ToolRulesEditor
+                idPrefix={`tool-rules-${tool.order}`}
+                preconditions={localTool.preconditions || []}
+                postHooks={localTool.postHooks || []}
+                toolNames={toolNames}
+                onPreconditionsChange={(preconditions) => handleFieldChange('preconditions', preconditions.length > 0 ? preconditions : undefined)}
+                onPostHooksChange={(postHooks) => handleFieldChange('postHooks', postHooks.length > 0 ? postHooks : undefined)}
+              />
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor={`tool-timeout-${tool.order}`}>Timeout (ms)</label>
+                <input
+                  id={`tool-timeout-${tool.order}`}
+                  type="number"
+                  min={100}
+                  step={100}
+                  value={localTool.timeoutMs ?? ''}
+                  onChange={(e) => handleFieldChange('timeoutMs', e.target.value === '' ? undefined : Number(e.target.value))}
+                  placeholder={`Default: ${defaultTimeoutMs}`}
+                  className={errors.some(e => e.includes('timeout must')) ? 'error' : ''}
+                />
+                <div className="help-text">
+                  Leave empty to use the default tool timeout
+                </div>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor={`tool-fallback-${tool.order}`}>Fallback Result on Timeout</label>
+              <textarea
+                id={`tool-fallback-${tool.order}`}
+                value={localTool.timeoutFallback ?? ''}
+                onChange={(e) => handleFieldChange('timeoutFallback', e.target.value === '' ? undefined : e.target.value)}
+                placeholder='{"error": true, "message": "The menu is temporarily unavailable"}'
+                rows={2}
+              />
+              <div className="help-text">
+                Returned to the model when the tool does not finish in time. Leave empty for a generic "temporarily unavailable" error.
+                Scripts can pass the <code>signal</code> parameter to long-running work; <code>axios</code> requests are cancelled automatically.
+              </div>
+            </div>
+
+            <ToolTestPanel
+              tool={localTool}
+              onTestCasesChange={(testCases) => handleFieldChange('testCases', testCases.length > 0 ? testCases : undefined)}
+            />
+
+            <div className="form-group">
+              <div className="tool-execution-log-title">Recent Executions</div>
+              {executions.length === 0 ? (
+                <div className="help-text">
+                  This tool has not run since the page was loaded
+                </div>
+              ) : (
+                <ul className="tool-execution-log">
+                  {executions.slice(0, 10).map((record) => (
+                    <li key={record.id} className={`tool-execution ${record.status}`}>
+                      <span className="tool-execution-status">{EXECUTION_STATUS_LABELS[record.status]}</span>
+                      <span className="tool-execution-time">{new Date(record.startedAt).toLocaleTimeString()}</span>
+                      <span className="tool-execution-duration">{record.durationMs} ms</span>
+                      {record.message && (
+                        <span className="tool-execution-message">{record.message}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -0,0 +1,125 @@
+import type React from "react";
+import { describePrecondition } from "../lib/tools/ToolExecutor";
+import type { Tool, ToolPostHook } from "../lib/util/SettingsManager";
+
+interface ToolFlowOverviewProps {
+  tools: Tool[];
+}
+
+interface FlowStep {
+  step: number;
+  tools: Tool[];
+}
+
+const describePostHook = (hook: ToolPostHook): string => {
+  switch (hook.type) {
+    case "callComponent":
+      return `calls ${hook.component}.${hook.method}()`;
+    case "runTool":
+      return `runs ${hook.tool}`;
+    case "resetToolHistory":
+      return "resets the tool history";
+  }
+};
+
+// Group tools into steps: a tool comes one step after the latest tool it requires to have succeeded
+const buildSteps = (tools: Tool[]): { steps: FlowStep[]; cyclic: string[] } => {
+  const byName = new Map(tools.map((tool) => [tool.tool_name, tool]));
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+  const cyclic = new Set<string>();
+
+  const levelOf = (name: string): number => {
+    const known = levels.get(name);
+    if (known !== undefined) return known;
+    if (visiting.has(name)) {
+      cyclic.add(name);
+      return 0;
+    }
+
+    visiting.add(name);
+    const requirements = (byName.get(name)?.preconditions || []).flatMap(
+      (condition) =>
+        condition.type === "toolSucceeded" && byName.has(condition.tool)
+          ? [condition.tool]
+          : [],
+    );
+    const level = requirements.reduce(
+      (max, required) => Math.max(max, levelOf(required) + 1),
+      0,
+    );
+    visiting.delete(name);
+    levels.set(name, level);
+    return level;
+  };
+
+  const steps: FlowStep[] = [];
+  [...tools]
+    .sort((a, b) => a.order - b.order)
+    .forEach((tool) => {
+      const level = levelOf(tool.tool_name);
+      if (!steps[level]) steps[level] = { step: level + 1, tools: [] };
+      steps[level].tools.push(tool);
+    });
+
+  return { steps: steps.filter(Boolean), cyclic: Array.from(cyclic) };
+};
+
+export const ToolFlowOverview: React.FC<ToolFlowOverviewProps> = ({
+  tools,
+}) => {
+  const hasRules = tools.some(
+    (tool) => tool.preconditions?.length || tool.postHooks?.length,
+  );
+  if (!hasRules) return null;
+
+  const { steps, cyclic } = buildSteps(tools);
+
+  return (
+    <div className="form-group tool-flow">
+      <div className="tool-execution-log-title">Tool Flow</div>
+      <div className="help-text">
+        Order enforced by the tools' preconditions. Each step only runs once the
+        tools it requires from earlier steps have succeeded in the session.
+      </div>
+      {cyclic.length > 0 && (
+        <div className="field-error">
+          Circular preconditions involving {cyclic.join(", ")}; these tools can
+          never run
+        </div>
+      )}
+      <ol className="tool-flow-steps">
+        {steps.map(({ step, tools: stepTools }) => (
+          <li key={step} className="tool-flow-step">
+            <span className="tool-flow-step-number">Step {step}</span>
+            <div className="tool-flow-tools">
+              {stepTools.map((tool) => (
+                <div key={tool.tool_name} className="tool-flow-tool">
+                  <span className="tool-flow-name">
+                    {tool.tool_name || "Unnamed Tool"}
+                  </span>
+                  {(tool.preconditions || []).map((condition) => (
+                    <span
+                      key={`requires-${describePrecondition(condition)}`}
+                      className="tool-flow-rule"
+                    >
+                      🚧 {describePrecondition(condition)}
+                    </span>
+                  ))}
+                  {(tool.postHooks || []).map((hook) => (
+                    <span
+                      key={`then-${describePostHook(hook)}`}
+                      className="tool-flow-rule"
+                    >
+                      🪝 then {describePostHook(hook)}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,444 @@
+import type React from "react";
+import { useRef, useState } from "react";
+import { useToolContext } from "../contexts/ToolContext";
+import type {
+  ToolComparisonOperator,
+  ToolPostHook,
+  ToolPrecondition,
+} from "../lib/util/SettingsManager";
+
+interface ToolRulesEditorProps {
+  idPrefix: string;
+  preconditions: ToolPrecondition[];
+  postHooks: ToolPostHook[];
+  toolNames: string[]; // Other tools a rule can refer to
+  onPreconditionsChange: (preconditions: ToolPrecondition[]) => void;
+  onPostHooksChange: (postHooks: ToolPostHook[]) => void;
+}
+
+const PRECONDITION_TYPES: { value: ToolPrecondition["type"]; label: string }[] =
+  [
+    { value: "toolSucceeded", label: "Tool succeeded this session" },
+    { value: "toolNotSucceeded", label: "Tool has not succeeded yet" },
+    { value: "cartNotEmpty", label: "Cart is not empty" },
+    { value: "componentState", label: "Component method result" },
+  ];
+
+const POST_HOOK_TYPES: { value: ToolPostHook["type"]; label: string }[] = [
+  { value: "callComponent", label: "Call component method" },
+  { value: "runTool", label: "Run another tool" },
+  { value: "resetToolHistory", label: "Reset tool history" },
+];
+
+const OPERATORS: ToolComparisonOperator[] = [
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "==",
+  "!=",
+  "truthy",
+  "falsy",
+];
+
+// Comparison values are typed from their text: numbers and true/false, anything else stays a string
+const parseValue = (text: string): string | number | boolean => {
+  if (text === "true" || text === "false") return text === "true";
+  return text.trim() !== "" && !Number.isNaN(Number(text))
+    ? Number(text)
+    : text;
+};
+
+// Stable React keys for list rows without ids; removeKey must be called before removing a row
+const useRowKeys = (count: number) => {
+  const keys = useRef<string[]>([]);
+  const nextKey = useRef(0);
+  while (keys.current.length < count) {
+    keys.current.push(`rule-${nextKey.current++}`);
+  }
+  keys.current.length = count;
+  return {
+    keys: keys.current,
+    removeKey: (index: number) => {
+      keys.current.splice(index, 1);
+    },
+  };
+};
+
+// JSON list input that only reports valid arrays
+const ArgsInput: React.FC<{
+  id: string;
+  value?: unknown[];
+  onChange: (args?: unknown[]) => void;
+}> = ({ id, value, onChange }) => {
+  const [text, setText] = useState(value?.length ? JSON.stringify(value) : "");
+  const [isValid, setIsValid] = useState(true);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setIsValid(true);
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(next);
+      setIsValid(Array.isArray(parsed));
+      if (Array.isArray(parsed)) onChange(parsed);
+    } catch {
+      setIsValid(false);
+    }
+  };
+
+  return (
+    <input
+      id={id}
+      type="text"
+      value={text}
+      onChange={(e) => handleChange(e.target.value)}
+      placeholder='Arguments, e.g. ["Order placed", "success"]'
+      className={isValid ? "" : "error"}
+      aria-label="Arguments"
+    />
+  );
+};
+
+export const ToolRulesEditor: React.FC<ToolRulesEditorProps> = ({
+  idPrefix,
+  preconditions,
+  postHooks,
+  toolNames,
+  onPreconditionsChange,
+  onPostHooksChange,
+}) => {
+  const { getComponentRegistry } = useToolContext();
+  const registry = getComponentRegistry();
+  const componentListId = `${idPrefix}-components`;
+  const methodListId = (component: string) =>
+    `${idPrefix}-methods-${component}`;
+  const preconditionKeys = useRowKeys(preconditions.length);
+  const postHookKeys = useRowKeys(postHooks.length);
+
+  const updatePrecondition = (index: number, condition: ToolPrecondition) => {
+    onPreconditionsChange(
+      preconditions.map((existing, i) => (i === index ? condition : existing)),
+    );
+  };
+
+  const updatePostHook = (index: number, hook: ToolPostHook) => {
+    onPostHooksChange(
+      postHooks.map((existing, i) => (i === index ? hook : existing)),
+    );
+  };
+
+  const createPrecondition = (
+    type: ToolPrecondition["type"],
+    message?: string,
+  ): ToolPrecondition => {
+    const base = message ? { message } : {};
+    switch (type) {
+      case "toolSucceeded":
+      case "toolNotSucceeded":
+        return { type, tool: toolNames[0] || "", ...base };
+      case "cartNotEmpty":
+        return { type, ...base };
+      case "componentState":
+        return {
+          type,
+          component: "",
+          method: "",
+          operator: ">",
+          value: 0,
+          ...base,
+        };
+    }
+  };
+
+  const createPostHook = (type: ToolPostHook["type"]): ToolPostHook => {
+    switch (type) {
+      case "callComponent":
+        return { type, component: "", method: "" };
+      case "runTool":
+        return { type, tool: toolNames[0] || "" };
+      case "resetToolHistory":
+        return { type };
+    }
+  };
+
+  const renderToolSelect = (
+    id: string,
+    value: string,
+    onChange: (tool: string) => void,
+  ) => (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label="Tool"
+    >
+      {!toolNames.includes(value) && (
+        <option value={value}>{value || "Select a tool"}</option>
+      )}
+      {toolNames.map((name) => (
+        <option key={name} value={name}>
+          {name}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderComponentFields = (
+    id: string,
+    rule: { component: string; method: string; args?: unknown[] },
+    onChange: (fields: {
+      component?: string;
+      method?: string;
+      args?: unknown[];
+    }) => void,
+  ) => (
+    <>
+      <input
+        id={`${id}-component`}
+        type="text"
+        list={componentListId}
+        value={rule.component}
+        onChange={(e) => onChange({ component: e.target.value })}
+        placeholder="Component, e.g. cart"
+        aria-label="Component"
+      />
+      <input
+        id={`${id}-method`}
+        type="text"
+        list={methodListId(rule.component)}
+        value={rule.method}
+        onChange={(e) => onChange({ method: e.target.value })}
+        placeholder="Method, e.g. getCartCount"
+        aria-label="Method"
+      />
+      <ArgsInput
+        id={`${id}-args`}
+        value={rule.args}
+        onChange={(args) => onChange({ args })}
+      />
+    </>
+  );
+
+  return (
+    <div className="tool-rules">
+      <datalist id={componentListId}>
+        {registry.map((registration) => (
+          <option key={registration.name} value={registration.name} />
+        ))}
+      </datalist>
+      {registry.map((registration) => (
+        <datalist key={registration.name} id={methodListId(registration.name)}>
+          {Object.keys(registration.methods).map((method) => (
+            <option key={method} value={method} />
+          ))}
+        </datalist>
+      ))}
+
+      <div className="tool-execution-log-title">Preconditions</div>
+      <div className="help-text">
+        Checked before each call from the model. If one is not met, the tool
+        does not run and the model is told what is missing.
+      </div>
+      {preconditions.map((condition, index) => {
+        const id = `${idPrefix}-precondition-${index}`;
+        return (
+          <div key={preconditionKeys.keys[index]} className="tool-rule-row">
+            <select
+              id={`${id}-type`}
+              value={condition.type}
+              onChange={(e) =>
+                updatePrecondition(
+                  index,
+                  createPrecondition(
+                    e.target.value as ToolPrecondition["type"],
+                    condition.message,
+                  ),
+                )
+              }
+              aria-label="Precondition type"
+            >
+              {PRECONDITION_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+
+            {(condition.type === "toolSucceeded" ||
+              condition.type === "toolNotSucceeded") &&
+              renderToolSelect(`${id}-tool`, condition.tool, (tool) =>
+                updatePrecondition(index, { ...condition, tool }),
+              )}
+
+            {condition.type === "componentState" && (
+              <>
+                {renderComponentFields(id, condition, (fields) =>
+                  updatePrecondition(index, { ...condition, ...fields }),
+                )}
+                <select
+                  id={`${id}-operator`}
+                  value={condition.operator}
+                  onChange={(e) =>
+                    updatePrecondition(index, {
+                      ...condition,
+                      operator: e.target.value as ToolComparisonOperator,
+                    })
+                  }
+                  aria-label="Operator"
+                >
+                  {OPERATORS.map((operator) => (
+                    <option key={operator} value={operator}>
+                      {operator}
+                    </option>
+                  ))}
+                </select>
+                {condition.operator !== "truthy" &&
+                  condition.operator !== "falsy" && (
+                    <input
+                      id={`${id}-value`}
+                      type="text"
+                      value={
+                        condition.value === undefined
+                          ? ""
+                          : String(condition.value)
+                      }
+                      onChange={(e) =>
+                        updatePrecondition(index, {
+                          ...condition,
+                          value: parseValue(e.target.value),
+                        })
+                      }
+                      placeholder="Value"
+                      aria-label="Value"
+                    />
+                  )}
+              </>
+            )}
+
+            <input
+              id={`${id}-message`}
+              type="text"
+              value={condition.message || ""}
+              onChange={(e) =>
+                updatePrecondition(index, {
+                  ...condition,
+                  message: e.target.value || undefined,
+                })
+              }
+              placeholder="Message for the model (optional)"
+              aria-label="Message for the model"
+            />
+            <button
+              type="button"
+              className="remove-btn"
+              onClick={() => {
+                preconditionKeys.removeKey(index);
+                onPreconditionsChange(
+                  preconditions.filter((_, i) => i !== index),
+                );
+              }}
+              title="Remove precondition"
+            >
+              🗑️
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="format-btn"
+        onClick={() =>
+          onPreconditionsChange([
+            ...preconditions,
+            createPrecondition("toolSucceeded"),
+          ])
+        }
+      >
+        + Add Precondition
+      </button>
+
+      <div className="tool-execution-log-title tool-rules-title">
+        Post-Hooks
+      </div>
+      <div className="help-text">
+        Run in order after a successful call from the model, without delaying
+        the result.
+      </div>
+      {postHooks.map((hook, index) => {
+        const id = `${idPrefix}-post-hook-${index}`;
+        return (
+          <div key={postHookKeys.keys[index]} className="tool-rule-row">
+            <select
+              id={`${id}-type`}
+              value={hook.type}
+              onChange={(e) =>
+                updatePostHook(
+                  index,
+                  createPostHook(e.target.value as ToolPostHook["type"]),
+                )
+              }
+              aria-label="Post-hook type"
+            >
+              {POST_HOOK_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+
+            {hook.type === "callComponent" &&
+              renderComponentFields(id, hook, (fields) =>
+                updatePostHook(index, { ...hook, ...fields }),
+              )}
+
+            {hook.type === "runTool" && (
+              <>
+                {renderToolSelect(`${id}-tool`, hook.tool, (tool) =>
+                  updatePostHook(index, { ...hook, tool }),
+                )}
+                <input
+                  id={`${id}-input`}
+                  type="text"
+                  value={hook.input || ""}
+                  onChange={(e) =>
+                    updatePostHook(index, {
+                      ...hook,
+                      input: e.target.value || undefined,
+                    })
+                  }
+                  placeholder='Input JSON, e.g. {"reason": "order complete"}'
+                  aria-label="Tool input"
+                />
+              </>
+            )}
+
+            <button
+              type="button"
+              className="remove-btn"
+              onClick={() => {
+                postHookKeys.removeKey(index);
+                onPostHooksChange(postHooks.filter((_, i) => i !== index));
+              }}
+              title="Remove post-hook"
+            >
+              🗑️
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="format-btn"
+        onClick={() =>
+          onPostHooksChange([...postHooks, createPostHook("callComponent")])
+        }
+      >
+        + Add Post-Hook
+      </button>
+    </div>
+  );
+};
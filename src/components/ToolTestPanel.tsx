@@ -0,0 +1,382 @@
+import type React from "react";
+import { useState } from "react";
+import { useToolContext } from "../contexts/ToolContext";
+import {
+  type ToolTestResult,
+  ToolTestRunner,
+} from "../lib/tools/ToolTestRunner";
+import type { Tool, ToolTestCase } from "../lib/util/SettingsManager";
+
+interface ToolTestPanelProps {
+  tool: Tool;
+  onTestCasesChange: (testCases: ToolTestCase[]) => void;
+}
+
+// Draft shown in the panel; saved as a ToolTestCase
+interface TestDraft {
+  id: string | null; // Saved test case being edited, null for a new one
+  name: string;
+  input: string;
+  useMocks: boolean;
+  mocks: string;
+  expectedResult: string;
+}
+
+const RESULT_STATUS_LABELS: Record<ToolTestResult["status"], string> = {
+  success: "✅ Success",
+  failure: "❎ Reported failure",
+  error: "❌ Error",
+  timeout: "⏱️ Timed out",
+  cancelled: "🛑 Cancelled",
+  invalid: "⚠️ Invalid input",
+  blocked: "🚧 Precondition not met",
+};
+
+const MOCKS_PLACEHOLDER = `{
+  "components": { "cart": { "addItem": { "success": true } } },
+  "axios": { "GET https://api.example.com/menu*": { "status": 200, "data": { "items": [] } } },
+  "auth": { "getJWT": "test-token" }
+}`;
+
+const generateTestCaseId = () =>
+  `test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const passLabel = (result?: ToolTestResult) => {
+  if (!result) return "";
+  if (result.passed === undefined) return RESULT_STATUS_LABELS[result.status];
+  return result.passed ? "✅ Passed" : "❌ Failed";
+};
+
+export const ToolTestPanel: React.FC<ToolTestPanelProps> = ({
+  tool,
+  onTestCasesChange,
+}) => {
+  const { getExecutionContext } = useToolContext();
+  const testCases = tool.testCases || [];
+
+  const newDraft = (): TestDraft => ({
+    id: null,
+    name: "",
+    input: ToolTestRunner.getSampleInput(tool),
+    useMocks: true,
+    mocks: "",
+    expectedResult: "",
+  });
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<TestDraft>(newDraft);
+  const [draftResult, setDraftResult] = useState<ToolTestResult | null>(null);
+  const [caseResults, setCaseResults] = useState<
+    Record<string, ToolTestResult>
+  >({});
+  const [isRunning, setIsRunning] = useState(false);
+
+  const fieldId = (field: string) => `tool-test-${field}-${tool.order}`;
+
+  const updateDraft = (field: keyof TestDraft, value: string | boolean) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const runTestCase = (testCase: Omit<ToolTestCase, "id" | "name">) =>
+    ToolTestRunner.run(tool, testCase, getExecutionContext());
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const result = await runTestCase(draft);
+      setDraftResult(result);
+      if (draft.id) {
+        setCaseResults((prev) => ({ ...prev, [draft.id as string]: result }));
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRunAll = async () => {
+    setIsRunning(true);
+    try {
+      const results: Record<string, ToolTestResult> = {};
+      // Run sequentially so console output and mocks of one case do not mix with another
+      for (const testCase of testCases) {
+        results[testCase.id] = await runTestCase(testCase);
+      }
+      setCaseResults(results);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSave = () => {
+    const testCase: ToolTestCase = {
+      id: draft.id || generateTestCaseId(),
+      name: draft.name.trim() || `Test case ${testCases.length + 1}`,
+      input: draft.input,
+      useMocks: draft.useMocks,
+      ...(draft.mocks.trim() ? { mocks: draft.mocks } : {}),
+      ...(draft.expectedResult.trim()
+        ? { expectedResult: draft.expectedResult }
+        : {}),
+    };
+
+    const exists = testCases.some((existing) => existing.id === testCase.id);
+    onTestCasesChange(
+      exists
+        ? testCases.map((existing) =>
+            existing.id === testCase.id ? testCase : existing,
+          )
+        : [...testCases, testCase],
+    );
+    setDraft({ ...draft, id: testCase.id, name: testCase.name });
+  };
+
+  const handleLoad = (testCase: ToolTestCase) => {
+    setDraft({
+      id: testCase.id,
+      name: testCase.name,
+      input: testCase.input,
+      useMocks: testCase.useMocks,
+      mocks: testCase.mocks || "",
+      expectedResult: testCase.expectedResult || "",
+    });
+    setDraftResult(caseResults[testCase.id] || null);
+  };
+
+  const handleDelete = (id: string) => {
+    onTestCasesChange(testCases.filter((testCase) => testCase.id !== id));
+    if (draft.id === id) {
+      setDraft({ ...draft, id: null });
+    }
+  };
+
+  const handleUseResultAsExpected = () => {
+    if (draftResult?.result !== undefined) {
+      updateDraft("expectedResult", draftResult.result);
+    }
+  };
+
+  return (
+    <div className="form-group tool-test-panel">
+      <div className="form-label-with-actions">
+        <div className="tool-execution-log-title">
+          Test{" "}
+          {testCases.length > 0 && (
+            <span className="tool-test-count">({testCases.length} saved)</span>
+          )}
+        </div>
+        <button
+          type="button"
+          className="format-btn"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen ? "Hide" : "Show"}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          {testCases.length > 0 && (
+            <div className="tool-test-cases">
+              <ul className="tool-execution-log">
+                {testCases.map((testCase) => {
+                  const result = caseResults[testCase.id];
+                  const status = result
+                    ? (result.passed ?? result.status === "success")
+                      ? "success"
+                      : "error"
+                    : "";
+                  return (
+                    <li
+                      key={testCase.id}
+                      className={`tool-execution tool-test-case ${status} ${draft.id === testCase.id ? "selected" : ""}`}
+                    >
+                      <span className="tool-execution-status">
+                        {testCase.name}
+                      </span>
+                      <span className="tool-execution-time">
+                        {testCase.useMocks ? "Mocked" : "Live"}
+                      </span>
+                      {result && (
+                        <span className="tool-execution-duration">
+                          {passLabel(result)} · {result.durationMs} ms
+                        </span>
+                      )}
+                      <span className="tool-test-case-actions">
+                        <button
+                          type="button"
+                          className="format-btn"
+                          onClick={() => handleLoad(testCase)}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          className="remove-btn"
+                          onClick={() => handleDelete(testCase.id)}
+                          title="Delete test case"
+                        >
+                          🗑️
+                        </button>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+              <button
+                type="button"
+                className="format-btn"
+                onClick={handleRunAll}
+                disabled={isRunning}
+              >
+                {isRunning ? "Running..." : "▶ Run All"}
+              </button>
+            </div>
+          )}
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor={fieldId("name")}>Test Case Name</label>
+              <input
+                id={fieldId("name")}
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft("name", e.target.value)}
+                placeholder="e.g. Adds a burger to the cart"
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor={fieldId("input")}>Sample Input (JSON)</label>
+            <textarea
+              id={fieldId("input")}
+              className="tool-test-code"
+              value={draft.input}
+              onChange={(e) => updateDraft("input", e.target.value)}
+              rows={5}
+            />
+            <div className="help-text">
+              Passed to the script as <code>input</code>, exactly as the model
+              would send it; it is checked against the input schema first
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={draft.useMocks}
+                onChange={(e) => updateDraft("useMocks", e.target.checked)}
+              />
+              Use mocked components, axios and auth
+            </label>
+            <div className="help-text">
+              Unchecked runs against the live menu, cart and chat of this page,
+              and real HTTP requests
+            </div>
+          </div>
+
+          {draft.useMocks && (
+            <div className="form-group">
+              <label htmlFor={fieldId("mocks")}>Mocks (JSON)</label>
+              <textarea
+                id={fieldId("mocks")}
+                className="tool-test-code"
+                value={draft.mocks}
+                onChange={(e) => updateDraft("mocks", e.target.value)}
+                placeholder={MOCKS_PLACEHOLDER}
+                rows={5}
+              />
+              <div className="help-text">
+                Values returned by mocked component and auth methods, and
+                responses by <code>METHOD url</code> where <code>*</code>{" "}
+                matches anything. Unmocked HTTP requests fail.
+              </div>
+            </div>
+          )}
+
+          <div className="form-group">
+            <div className="form-label-with-actions">
+              <label htmlFor={fieldId("expected")}>Expected Result</label>
+              <button
+                type="button"
+                className="format-btn"
+                onClick={handleUseResultAsExpected}
+                disabled={draftResult?.result === undefined}
+                title="Use the last result as the expected result"
+              >
+                Use Last Result
+              </button>
+            </div>
+            <textarea
+              id={fieldId("expected")}
+              className="tool-test-code"
+              value={draft.expectedResult}
+              onChange={(e) => updateDraft("expectedResult", e.target.value)}
+              placeholder="Optional; JSON results are compared regardless of key order"
+              rows={3}
+            />
+          </div>
+
+          <div className="tool-test-actions">
+            <button
+              type="button"
+              className="format-btn"
+              onClick={handleRun}
+              disabled={isRunning}
+            >
+              {isRunning ? "Running..." : "▶ Run"}
+            </button>
+            <button type="button" className="format-btn" onClick={handleSave}>
+              {draft.id ? "Update Test Case" : "Save Test Case"}
+            </button>
+            <button
+              type="button"
+              className="format-btn"
+              onClick={() => {
+                setDraft(newDraft());
+                setDraftResult(null);
+              }}
+            >
+              New
+            </button>
+          </div>
+
+          {draftResult && (
+            <div
+              className={`tool-test-result ${draftResult.passed === false ? "error" : draftResult.status}`}
+            >
+              <div className="tool-test-result-header">
+                <span>{passLabel(draftResult)}</span>
+                <span className="tool-execution-duration">
+                  {draftResult.durationMs} ms
+                </span>
+              </div>
+              {draftResult.error && (
+                <div className="field-error">{draftResult.error}</div>
+              )}
+              {draftResult.validationErrors.map((error) => (
+                <div key={error} className="field-error">
+                  {error}
+                </div>
+              ))}
+              {draftResult.result !== undefined && (
+                <pre className="tool-test-output">{draftResult.result}</pre>
+              )}
+              {draftResult.logs.length > 0 && (
+                <>
+                  <div className="tool-execution-log-title">Console</div>
+                  <pre className="tool-test-output tool-test-console">
+                    {draftResult.logs
+                      .map((entry) => `[${entry.level}] ${entry.message}`)
+                      .join("\n")}
+                  </pre>
+                </>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 import React, { createContext, useContext, useRef, useCallback, useState, useEffect, useMemo } from 'react';
 import axios, { AxiosInstance } from 'axios';
-import { SettingsManager } from '../lib/util/SettingsManager';
+import { SettingsManager, type ToolExecutionMode, type ToolPermissions } from '../lib/util/SettingsManager';
+import { ToolSandbox } from '../lib/tools/ToolSandbox';
+import { MockHttpAdapter } from '../lib/tools/MockHttpAdapter';
+import { LocalRestaurantBackend } from '../lib/backend/LocalRestaurantBackend';
 import { StorageManager } from '../lib/util/StorageManager';
 
 // Interface for component registration
@@ -55,6 +58,12 @@ interface ToolExecutionContext {
   React: typeof React;
 }
 
+// How executeToolCode runs code; like tools, it runs in the sandbox unless the main thread is asked for
+interface ToolCodeOptions {
+  executionMode?: ToolExecutionMode;
+  permissions?: ToolPermissions; // Capabilities in the sandbox; none when left out
+}
+
 // Context for tool execution
 interface ToolContextValue {
   // Register a component for tool access
@@ -69,8 +78,8 @@ interface ToolContextValue {
   // Get component registry for documentation
   getComponentRegistry: () => ComponentRegistration[];
   
-  // Execute tool code with context
-  executeToolCode: (code: string, params?: any) => Promise<any>;
+  // Execute tool code in the sandbox with the capabilities of the permission manifest, or on the main thread when asked explicitly
+  executeToolCode: (code: string, params?: any, options?: ToolCodeOptions) => Promise<any>;
   
   // Check if all expected components are registered
   areComponentsReady: () => boolean;
@@ -105,13 +114,21 @@ export const ToolProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [componentRegistry, setComponentRegistry] = useState<Map<string, ComponentRegistration>>(new Map());
   const axiosInstanceRef = useRef<AxiosInstance>();
   
-  // Initialize axios instance
+  // Initialize axios instance; requests are answered by the mock routes in settings while mocking is enabled,
+  // then by the in-browser restaurant backend when the restaurantBackend global is "local"
   useEffect(() => {
     axiosInstanceRef.current = axios.create({
       timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
       },
+      adapter: MockHttpAdapter.createAdapter(
+        () => SettingsManager.getAgentConfig().mockHttp,
+        LocalRestaurantBackend.createAdapter(
+          () => SettingsManager.getGlobals(),
+          axios.getAdapter(axios.defaults.adapter)
+        )
+      ),
     });
   }, []);
   
@@ -216,8 +233,24 @@ export const ToolProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [componentRegistry]);
   
   // Execute tool code with context
-  const executeToolCode = useCallback(async (code: string, params: any = {}) => {
+  const executeToolCode = useCallback(async (code: string, params: any = {}, options: ToolCodeOptions = {}) => {
     const context = getExecutionContext();
+
+    // Sandboxed code only sees plain parameters and the capabilities its manifest grants
+    if (options.executionMode !== 'main') {
+      try {
+        return await ToolSandbox.run({
+          label: 'executeToolCode',
+          body: `"use strict"; return (async function() { ${code} })();`,
+          params,
+          permissions: options.permissions ?? { allowedHosts: [], allowedComponents: [] },
+          host: context
+        });
+      } catch (error) {
+        console.error('Tool execution error:', error);
+        throw new Error(`Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
     
     // Combine context with additional parameters
     const fullContext = {
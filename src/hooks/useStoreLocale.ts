@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { SettingsManager, type StoreLocale } from "../lib/util/SettingsManager";
+
+/**
+ * Hook returning the locale and currency of the store, updated when settings are saved
+ */
+export const useStoreLocale = (): StoreLocale => {
+  const [storeLocale, setStoreLocale] = useState<StoreLocale>(() =>
+    SettingsManager.getStoreLocale(),
+  );
+
+  useEffect(() => {
+    const refresh = () => setStoreLocale(SettingsManager.getStoreLocale());
+    window.addEventListener("settingsUpdated", refresh);
+    return () => window.removeEventListener("settingsUpdated", refresh);
+  }, []);
+
+  return storeLocale;
+};
@@ -0,0 +1,155 @@
+import axios, { type AxiosAdapter } from "axios";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalRestaurantBackend } from "./LocalRestaurantBackend";
+import { SAMPLE_MENU_ITEMS } from "./sampleRestaurantData";
+
+const globals: Record<string, string> = {
+  restaurantBackend: "local",
+  menuAPIURL: "https://api.example.com/menu",
+  loyaltyAPIURL: "https://api.example.com/loyalty",
+  cartAPIURL: "https://api.example.com/cart",
+  orderAPIURL: "https://api.example.com/order",
+  chatAPIURL: "https://api.example.com/chat",
+};
+
+// Requests the local backend leaves to the network
+const fallback = vi.fn<AxiosAdapter>(async (config) => ({
+  data: { fromNetwork: true },
+  status: 200,
+  statusText: "OK",
+  headers: {},
+  config,
+}));
+
+// Node has no IndexedDB, so the backend keeps its data in memory
+const client = (selected = globals) =>
+  axios.create({
+    adapter: LocalRestaurantBackend.createAdapter(() => selected, fallback),
+  });
+
+describe("LocalRestaurantBackend", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    fallback.mockClear();
+    await LocalRestaurantBackend.reset();
+  });
+
+  it("answers the menu with the sample items in seed order", async () => {
+    const { data } = await client().get(globals.menuAPIURL);
+
+    expect(data.count).toBe(SAMPLE_MENU_ITEMS.length);
+    expect(data.items.map((item: { id: string }) => item.id)).toEqual(
+      SAMPLE_MENU_ITEMS.map((item) => item.id),
+    );
+    expect(data.items[0].image).toBeNull();
+  });
+
+  it("looks up loyalty customers by phone number", async () => {
+    const found = await client().get(
+      `${globals.loyaltyAPIURL}?phone=4691234567`,
+    );
+    expect(found.data).toMatchObject({
+      found: true,
+      customer: { customerId: "cust-001" },
+    });
+
+    const missing = await client().get(globals.loyaltyAPIURL, {
+      params: { phone: "5550000000" },
+    });
+    expect(missing.data).toEqual({
+      customer: null,
+      found: false,
+      message: "Customer not found",
+    });
+  });
+
+  it("stores the cart of a device", async () => {
+    const { data } = await client().post(globals.cartAPIURL, {
+      deviceId: "kiosk-1",
+      loyaltyId: "cust-001",
+      cartSummary: { items: [], total: 0 },
+    });
+
+    expect(data).toMatchObject({
+      success: true,
+      message: "Item added to cart successfully",
+    });
+    expect(typeof data.cartItemId).toBe("string");
+  });
+
+  it("creates orders and returns the order history", async () => {
+    const api = client();
+    const created = await api.post(globals.orderAPIURL, {
+      customerId: "cust-001",
+      total: "12.50",
+      items: [{ id: "w1", quantity: 1 }],
+      roomNumber: "101",
+    });
+    const { orderId } = created.data;
+
+    const { data: order } = await api.get(globals.orderAPIURL, {
+      params: { orderId },
+    });
+    expect(order).toMatchObject({
+      found: true,
+      order: {
+        orderId,
+        customerId: "cust-001",
+        status: "pending",
+        total: 12.5,
+        items: '[{"id":"w1","quantity":1}]',
+        roomNumber: "101",
+      },
+    });
+
+    const { data: history } = await api.get(
+      `${globals.orderAPIURL}?customerId=cust-001`,
+    );
+    expect(history.count).toBe(1);
+    const { data: other } = await api.get(
+      `${globals.orderAPIURL}?customerId=cust-002`,
+    );
+    expect(other).toEqual({ orders: [], count: 0 });
+  });
+
+  it("saves chat messages and returns them in time order", async () => {
+    const api = client();
+    const { data: saved } = await api.post(globals.chatAPIURL, {
+      messages: [
+        { orderId: "o-1", timestamp: 2, role: "ASSISTANT", message: "Sure" },
+        { orderId: "o-1", timestamp: 1, role: "USER", message: "Two wings" },
+        { orderId: "o-2", timestamp: 3, role: "USER", message: "Other order" },
+      ],
+    });
+    expect(saved.processedCount).toBe(3);
+
+    const { data } = await api.get(globals.chatAPIURL, {
+      params: { orderId: "o-1" },
+    });
+    expect(data.count).toBe(2);
+    expect(
+      data.messages.map((message: { message: string }) => message.message),
+    ).toEqual(["Two wings", "Sure"]);
+  });
+
+  it("rejects methods an endpoint does not support", async () => {
+    await expect(client().delete(globals.menuAPIURL)).rejects.toMatchObject({
+      response: {
+        status: 405,
+        data: { error: "DELETE is not supported by the local menu API" },
+      },
+    });
+  });
+
+  it("leaves requests to the fallback adapter when it is not selected or the URL is not a sample API", async () => {
+    const network = await client({ ...globals, restaurantBackend: "api" }).get(
+      globals.menuAPIURL,
+    );
+    expect(network.data).toEqual({ fromNetwork: true });
+
+    const other = await client().get("https://api.example.com/weather");
+    expect(other.data).toEqual({ fromNetwork: true });
+    expect(fallback).toHaveBeenCalledTimes(2);
+  });
+});
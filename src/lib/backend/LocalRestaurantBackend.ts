@@ -0,0 +1,565 @@
+import type {
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import {
+  createHttpRequest,
+  type MockHttpRequest,
+  type MockHttpResponse,
+  settleHttpResponse,
+} from "../tools/MockHttpAdapter";
+import { SAMPLE_CUSTOMERS, SAMPLE_MENU_ITEMS } from "./sampleRestaurantData";
+
+// Shapes below follow the responses of the Sample_Restaurant_Backend API Gateway
+
+export interface RestaurantCustomization {
+  id: string;
+  name: string;
+  price: number;
+  isRemoval: boolean;
+}
+
+// Item included in a combo
+export interface RestaurantComboItem {
+  id: string;
+  name: string;
+  price: number;
+  category: string;
+  isCombo: boolean;
+  availableCustomizations: RestaurantCustomization[];
+}
+
+export interface RestaurantMenuItem {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  discount?: number; // Percentage
+  category: string[];
+  isCombo: boolean;
+  availableCustomizations: RestaurantCustomization[];
+  items: RestaurantComboItem[];
+  image?: string | null;
+}
+
+export interface LoyaltyCustomer {
+  phone: string;
+  customerId: string;
+  name: string;
+  email: string;
+  loyaltyPoints: string; // The API returns the DynamoDB number as a string
+  createdAt: string;
+}
+
+export interface RestaurantOrder {
+  orderId: string;
+  customerId: string;
+  status: string;
+  total: number;
+  items: string; // Order items as sent by the tool, usually a JSON string
+  createdAt: string;
+  [field: string]: unknown; // Extra fields of the request, e.g. the hotel room number
+}
+
+export interface RestaurantChatMessage {
+  orderId: string;
+  timestamp: number;
+  role: string;
+  message: string;
+  messageId: string;
+}
+
+export interface RestaurantCart {
+  deviceId: string;
+  customerId: string;
+  cartSummary: string;
+  lastUpdatedAt: string;
+}
+
+export type RestaurantEndpoint = "menu" | "loyalty" | "cart" | "order" | "chat";
+
+// Global parameter selecting the backend: "local" answers the sample APIs in the browser, anything else uses the network
+export const RESTAURANT_BACKEND_GLOBAL = "restaurantBackend";
+
+// Global parameters holding the URL of each endpoint, as used by the sample tools
+export const RESTAURANT_ENDPOINT_GLOBALS: Record<RestaurantEndpoint, string> = {
+  menu: "menuAPIURL",
+  loyalty: "loyaltyAPIURL",
+  cart: "cartAPIURL",
+  order: "orderAPIURL",
+  chat: "chatAPIURL",
+};
+
+type StoreName = "menu" | "customers" | "orders" | "carts" | "chat";
+
+const STORE_KEYS: Record<StoreName, string> = {
+  menu: "id",
+  customers: "phone",
+  orders: "orderId",
+  carts: "deviceId",
+  chat: "messageId",
+};
+
+const DATABASE_NAME = "nova-sonic-restaurant";
+const DATABASE_VERSION = 1;
+
+// Record storage of the backend; IndexedDB in the browser, memory where it is unavailable
+interface RestaurantStore {
+  getAll<T>(store: StoreName): Promise<T[]>;
+  put(store: StoreName, records: object[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openIndexedDBStore = async (): Promise<{
+  store: RestaurantStore;
+  created: boolean;
+}> => {
+  let created = false;
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    created = true;
+    (Object.keys(STORE_KEYS) as StoreName[]).forEach((name) => {
+      if (!request.result.objectStoreNames.contains(name)) {
+        request.result.createObjectStore(name, { keyPath: STORE_KEYS[name] });
+      }
+    });
+  };
+  const database = await requestResult(request);
+  const storeNames = Object.keys(STORE_KEYS) as StoreName[];
+
+  const store: RestaurantStore = {
+    getAll: <T>(name: StoreName) =>
+      requestResult(
+        database.transaction(name).objectStore(name).getAll() as IDBRequest<
+          T[]
+        >,
+      ),
+    put: (name, records) => {
+      const transaction = database.transaction(name, "readwrite");
+      records.forEach((record) => transaction.objectStore(name).put(record));
+      return transactionDone(transaction);
+    },
+    clear: () => {
+      const transaction = database.transaction(storeNames, "readwrite");
+      storeNames.forEach((name) => transaction.objectStore(name).clear());
+      return transactionDone(transaction);
+    },
+  };
+  return { store, created };
+};
+
+const createMemoryStore = (): RestaurantStore => {
+  const stores = new Map<StoreName, Map<string, object>>();
+  const records = (name: StoreName) => {
+    let records = stores.get(name);
+    if (!records) {
+      records = new Map();
+      stores.set(name, records);
+    }
+    return records;
+  };
+
+  return {
+    getAll: async <T>(name: StoreName) =>
+      Array.from(records(name).values()).map(
+        (record) => structuredClone(record) as T,
+      ),
+    put: async (name, values) => {
+      values.forEach((value) =>
+        records(name).set(
+          String((value as Record<string, unknown>)[STORE_KEYS[name]]),
+          structuredClone(value),
+        ),
+      );
+    },
+    clear: async () => {
+      stores.clear();
+    },
+  };
+};
+
+const createId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const normalizeUrl = (url: string) => url.split("?")[0].replace(/\/+$/, "");
+
+const ok = (data: unknown, status = 200): MockHttpResponse => ({
+  status,
+  headers: { "content-type": "application/json" },
+  data,
+});
+
+/**
+ * LocalRestaurantBackend - in-browser stand-in for Sample_Restaurant_Backend.
+ * Keeps the menu, loyalty customers, carts, orders and chat history in IndexedDB and answers the sample
+ * tools' axios requests with the same shapes as the API Gateway when the `restaurantBackend` global is "local".
+ */
+export class LocalRestaurantBackend {
+  private static storePromise: Promise<RestaurantStore> | null = null;
+
+  private constructor() {}
+
+  /**
+   * Whether the global parameters select the local backend
+   */
+  static isSelected(globals: Record<string, string>): boolean {
+    return globals[RESTAURANT_BACKEND_GLOBAL]?.trim().toLowerCase() === "local";
+  }
+
+  /**
+   * Menu items, in seed order
+   */
+  static async getMenu(): Promise<RestaurantMenuItem[]> {
+    const store = await LocalRestaurantBackend.getStore();
+    const items = await store.getAll<RestaurantMenuItem>("menu");
+    const order = new Map(
+      SAMPLE_MENU_ITEMS.map((item, index) => [item.id, index]),
+    );
+    return items.sort(
+      (a, b) =>
+        (order.get(a.id) ?? Number.MAX_SAFE_INTEGER) -
+        (order.get(b.id) ?? Number.MAX_SAFE_INTEGER),
+    );
+  }
+
+  /**
+   * Loyalty customer by phone number or customer id
+   */
+  static async findCustomer(lookup: {
+    phone?: string;
+    customerId?: string;
+  }): Promise<LoyaltyCustomer | null> {
+    const store = await LocalRestaurantBackend.getStore();
+    const customers = await store.getAll<LoyaltyCustomer>("customers");
+    return (
+      customers.find(
+        (customer) =>
+          (lookup.phone !== undefined && customer.phone === lookup.phone) ||
+          (lookup.customerId !== undefined &&
+            customer.customerId === lookup.customerId),
+      ) || null
+    );
+  }
+
+  /**
+   * Store the cart of a device
+   */
+  static async saveCart(
+    cart: Omit<RestaurantCart, "lastUpdatedAt">,
+  ): Promise<RestaurantCart> {
+    const store = await LocalRestaurantBackend.getStore();
+    const saved: RestaurantCart = {
+      ...cart,
+      lastUpdatedAt: new Date().toISOString(),
+    };
+    await store.put("carts", [saved]);
+    return saved;
+  }
+
+  /**
+   * Create a pending order
+   */
+  static async submitOrder(
+    order: Record<string, unknown>,
+  ): Promise<RestaurantOrder> {
+    const store = await LocalRestaurantBackend.getStore();
+    const saved: RestaurantOrder = {
+      ...order,
+      orderId: createId(),
+      customerId: String(order.customerId ?? ""),
+      status: "pending",
+      total: Number(order.total) || 0,
+      items:
+        typeof order.items === "string"
+          ? order.items
+          : JSON.stringify(order.items ?? []),
+      createdAt: new Date().toISOString(),
+    };
+    await store.put("orders", [saved]);
+    console.log(
+      `🏪 Local backend: order ${saved.orderId} created (${saved.total})`,
+    );
+    return saved;
+  }
+
+  /**
+   * Order history, most recent first, optionally for one customer
+   */
+  static async getOrders(customerId?: string): Promise<RestaurantOrder[]> {
+    const store = await LocalRestaurantBackend.getStore();
+    const orders = await store.getAll<RestaurantOrder>("orders");
+    return orders
+      .filter(
+        (order) => customerId === undefined || order.customerId === customerId,
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * One order by id
+   */
+  static async getOrder(orderId: string): Promise<RestaurantOrder | null> {
+    const orders = await LocalRestaurantBackend.getOrders();
+    return orders.find((order) => order.orderId === orderId) || null;
+  }
+
+  /**
+   * Store chat messages of orders. Returns the number of messages saved.
+   */
+  static async saveChatMessages(
+    messages: RestaurantChatMessage[],
+  ): Promise<number> {
+    const store = await LocalRestaurantBackend.getStore();
+    await store.put("chat", messages);
+    return messages.length;
+  }
+
+  /**
+   * Chat messages of an order in time order
+   */
+  static async getChatMessages(
+    orderId: string,
+  ): Promise<RestaurantChatMessage[]> {
+    const store = await LocalRestaurantBackend.getStore();
+    const messages = await store.getAll<RestaurantChatMessage>("chat");
+    return messages
+      .filter((message) => message.orderId === orderId)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Remove carts, orders and chat history and restore the sample menu and customers
+   */
+  static async reset(): Promise<void> {
+    const store = await LocalRestaurantBackend.getStore();
+    await store.clear();
+    await LocalRestaurantBackend.seed(store);
+    console.log("🏪 Local backend reset to the sample data");
+  }
+
+  /**
+   * Answer a request to one of the endpoints configured in the globals, or return null for other URLs
+   */
+  static async handleRequest(
+    request: MockHttpRequest,
+    globals: Record<string, string>,
+  ): Promise<MockHttpResponse | null> {
+    const endpoint = LocalRestaurantBackend.resolveEndpoint(
+      request.path,
+      globals,
+    );
+    if (!endpoint) return null;
+
+    const body: Record<string, unknown> =
+      request.body && typeof request.body === "object"
+        ? { ...request.body }
+        : {};
+    const route = `${request.method} ${endpoint}`;
+
+    switch (route) {
+      case "GET menu": {
+        const items = await LocalRestaurantBackend.getMenu();
+        return ok({ items, count: items.length, authenticated: true });
+      }
+      case "GET loyalty": {
+        const customer = await LocalRestaurantBackend.findCustomer({
+          phone: request.query.phone,
+          customerId: request.query.customerId,
+        });
+        return ok(
+          customer
+            ? { customer, found: true }
+            : { customer: null, found: false, message: "Customer not found" },
+        );
+      }
+      case "POST cart": {
+        await LocalRestaurantBackend.saveCart({
+          deviceId: String(body.deviceId ?? ""),
+          customerId: String(body.loyaltyId ?? ""),
+          cartSummary:
+            typeof body.cartSummary === "string"
+              ? body.cartSummary
+              : JSON.stringify(body.cartSummary ?? null),
+        });
+        return ok({
+          success: true,
+          cartItemId: createId(),
+          message: "Item added to cart successfully",
+        });
+      }
+      case "POST order": {
+        const order = await LocalRestaurantBackend.submitOrder(body);
+        return ok({
+          success: true,
+          orderId: order.orderId,
+          message: "Order created successfully",
+        });
+      }
+      case "GET order": {
+        // Order history is only offered by the local backend
+        if (request.query.orderId) {
+          const order = await LocalRestaurantBackend.getOrder(
+            request.query.orderId,
+          );
+          return ok(
+            order
+              ? { order, found: true }
+              : { order: null, found: false, message: "Order not found" },
+          );
+        }
+        const orders = await LocalRestaurantBackend.getOrders(
+          request.query.customerId,
+        );
+        return ok({ orders, count: orders.length });
+      }
+      case "POST chat": {
+        const messages: RestaurantChatMessage[] = (
+          Array.isArray(body.messages) ? body.messages : []
+        ).map((value: unknown) => {
+          const message: Record<string, unknown> =
+            value && typeof value === "object" ? { ...value } : {};
+          return {
+            orderId: String(message.orderId ?? ""),
+            timestamp: Number(message.timestamp) || Date.now(),
+            role: String(message.role ?? ""),
+            message: String(message.message ?? ""),
+            messageId: String(message.messageId ?? createId()),
+          };
+        });
+        const processedCount =
+          await LocalRestaurantBackend.saveChatMessages(messages);
+        return ok({
+          success: true,
+          message: "Chat messages saved successfully",
+          processedCount,
+        });
+      }
+      case "GET chat": {
+        const messages = await LocalRestaurantBackend.getChatMessages(
+          request.query.orderId || "",
+        );
+        return ok({ messages, count: messages.length });
+      }
+      default:
+        return ok(
+          {
+            error: `${request.method} is not supported by the local ${endpoint} API`,
+          },
+          405,
+        );
+    }
+  }
+
+  /**
+   * Create an adapter that answers the sample APIs locally while the globals select the local backend;
+   * other requests go to the fallback adapter.
+   */
+  static createAdapter(
+    getGlobals: () => Record<string, string>,
+    fallback: AxiosAdapter,
+  ): AxiosAdapter {
+    return async (
+      config: InternalAxiosRequestConfig,
+    ): Promise<AxiosResponse> => {
+      const globals = getGlobals();
+      if (!LocalRestaurantBackend.isSelected(globals)) {
+        return fallback(config);
+      }
+
+      const request = createHttpRequest(
+        config,
+        (config.method || "get").toUpperCase(),
+      );
+      let response: MockHttpResponse | null;
+      try {
+        response = await LocalRestaurantBackend.handleRequest(request, globals);
+      } catch (error) {
+        console.error(
+          `🏪 Local backend: ${request.method} ${request.url} failed:`,
+          error,
+        );
+        response = {
+          status: 500,
+          headers: {},
+          data: {
+            error: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+
+      if (!response) {
+        return fallback(config);
+      }
+      console.log(
+        `🏪 Local backend: ${request.method} ${request.url} → ${response.status}`,
+      );
+      return settleHttpResponse(config, response);
+    };
+  }
+
+  private static resolveEndpoint(
+    path: string,
+    globals: Record<string, string>,
+  ): RestaurantEndpoint | null {
+    const target = normalizeUrl(path);
+    const endpoints = Object.keys(
+      RESTAURANT_ENDPOINT_GLOBALS,
+    ) as RestaurantEndpoint[];
+    return (
+      endpoints.find((endpoint) => {
+        const url = globals[RESTAURANT_ENDPOINT_GLOBALS[endpoint]];
+        return !!url && normalizeUrl(url) === target;
+      }) || null
+    );
+  }
+
+  // Open the database once, seeding it with the sample data when it is created
+  private static getStore(): Promise<RestaurantStore> {
+    if (!LocalRestaurantBackend.storePromise) {
+      LocalRestaurantBackend.storePromise = (async () => {
+        if (typeof indexedDB === "undefined") {
+          console.warn(
+            "🏪 IndexedDB is not available, the local backend keeps its data in memory",
+          );
+          const store = createMemoryStore();
+          await LocalRestaurantBackend.seed(store);
+          return store;
+        }
+        const { store, created } = await openIndexedDBStore();
+        if (created) {
+          await LocalRestaurantBackend.seed(store);
+          console.log("🏪 Local backend database created with the sample data");
+        }
+        return store;
+      })();
+      LocalRestaurantBackend.storePromise.catch(() => {
+        LocalRestaurantBackend.storePromise = null;
+      });
+    }
+    return LocalRestaurantBackend.storePromise;
+  }
+
+  private static async seed(store: RestaurantStore): Promise<void> {
+    await store.put(
+      "menu",
+      SAMPLE_MENU_ITEMS.map((item) => ({ ...item, image: null })),
+    );
+    await store.put("customers", SAMPLE_CUSTOMERS);
+  }
+}
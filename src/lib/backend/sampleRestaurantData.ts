@@ -0,0 +1,441 @@
+import type {
+  LoyaltyCustomer,
+  RestaurantMenuItem,
+} from "./LocalRestaurantBackend";
+
+// Seed data of the local backend, the same menu and customer the Sample_Restaurant_Backend stacks create
+
+export const SAMPLE_MENU_ITEMS: RestaurantMenuItem[] = [
+  {
+    id: "w1",
+    name: "Buffalo Wings (6 pieces)",
+    description:
+      "Six pieces of crispy chicken wings tossed in tangy buffalo sauce, served with celery sticks",
+    price: 7.99,
+    discount: 10,
+    category: ["wings", "Today's Special", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "extra-sauce", name: "Extra Sauce", price: 0.79, isRemoval: false },
+      { id: "extra-spicy", name: "Extra Spicy", price: 0.49, isRemoval: false },
+    ],
+    items: [],
+  },
+  {
+    id: "b2",
+    name: "Cheese Burger",
+    description:
+      "Our classic burger topped with melted American cheese for extra flavor",
+    price: 6.99,
+    discount: 10,
+    category: ["burgers", "Today's Special", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-bacon", name: "Bacon", price: 1.49, isRemoval: false },
+      { id: "add-pickles", name: "Pickles", price: 0.49, isRemoval: false },
+      { id: "remove-onion", name: "Onion", price: 0, isRemoval: true },
+      { id: "remove-tomato", name: "Tomato", price: 0, isRemoval: true },
+      { id: "remove-cheese", name: "Cheese", price: 0, isRemoval: true },
+    ],
+    items: [],
+  },
+  {
+    id: "b1",
+    name: "Classic Burger",
+    description:
+      "A juicy beef patty with fresh lettuce, tomato, onion, and pickles on a toasted sesame seed bun",
+    price: 5.99,
+    category: ["burgers", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-cheese", name: "Cheese", price: 0.99, isRemoval: false },
+      { id: "add-bacon", name: "Bacon", price: 1.49, isRemoval: false },
+      { id: "add-pickles", name: "Pickles", price: 0.49, isRemoval: false },
+      { id: "remove-onion", name: "Onion", price: 0, isRemoval: true },
+      { id: "remove-tomato", name: "Tomato", price: 0, isRemoval: true },
+    ],
+    items: [],
+  },
+  {
+    id: "b3",
+    name: "Double Burger",
+    description:
+      "Two juicy beef patties stacked high with cheese, lettuce, and tomato on a brioche bun",
+    price: 8.99,
+    category: ["burgers", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-cheese", name: "Cheese", price: 0.99, isRemoval: false },
+      { id: "add-bacon", name: "Bacon", price: 1.49, isRemoval: false },
+      { id: "add-pickles", name: "Pickles", price: 0.49, isRemoval: false },
+      { id: "remove-onion", name: "Onion", price: 0, isRemoval: true },
+      { id: "remove-tomato", name: "Tomato", price: 0, isRemoval: true },
+    ],
+    items: [],
+  },
+  {
+    id: "b4",
+    name: "Bacon Burger",
+    description:
+      "Classic burger enhanced with crispy bacon strips, lettuce, tomato, and cheese",
+    price: 7.99,
+    category: ["burgers", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-cheese", name: "Cheese", price: 0.99, isRemoval: false },
+      { id: "add-pickles", name: "Pickles", price: 0.49, isRemoval: false },
+      { id: "remove-onion", name: "Onion", price: 0, isRemoval: true },
+      { id: "remove-tomato", name: "Tomato", price: 0, isRemoval: true },
+      { id: "remove-bacon", name: "Bacon", price: 0, isRemoval: true },
+    ],
+    items: [],
+  },
+  {
+    id: "w2",
+    name: "BBQ Wings (6 pieces)",
+    description:
+      "Six pieces of tender chicken wings glazed with our signature BBQ sauce",
+    price: 7.99,
+    category: ["wings", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "extra-sauce", name: "Extra Sauce", price: 0.79, isRemoval: false },
+    ],
+    items: [],
+  },
+  {
+    id: "w3",
+    name: "Garlic Parmesan Wings (6 pieces)",
+    description:
+      "Six pieces of golden wings tossed in garlic butter and topped with fresh parmesan cheese",
+    price: 8.49,
+    category: ["wings", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "extra-sauce", name: "Extra Sauce", price: 0.79, isRemoval: false },
+      {
+        id: "extra-parmesan",
+        name: "Extra Parmesan",
+        price: 0.99,
+        isRemoval: false,
+      },
+    ],
+    items: [],
+  },
+  {
+    id: "f1",
+    name: "Regular Fries",
+    description: "Golden crispy french fries, perfectly seasoned with salt",
+    price: 2.99,
+    category: ["fries", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-cheese", name: "Cheese", price: 0.99, isRemoval: false },
+      { id: "add-bacon", name: "Bacon Bits", price: 1.29, isRemoval: false },
+      { id: "add-ranch", name: "Ranch Drizzle", price: 0.79, isRemoval: false },
+    ],
+    items: [],
+  },
+  {
+    id: "f2",
+    name: "Cheese Fries",
+    description:
+      "Our golden fries topped with melted cheese sauce for the ultimate indulgence",
+    price: 3.99,
+    category: ["fries", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-bacon", name: "Bacon Bits", price: 1.29, isRemoval: false },
+      { id: "add-ranch", name: "Ranch Drizzle", price: 0.79, isRemoval: false },
+      { id: "remove-cheese", name: "No Cheese", price: 0, isRemoval: true },
+    ],
+    items: [],
+  },
+  {
+    id: "f3",
+    name: "Loaded Fries",
+    description:
+      "Fully loaded fries with melted cheese, crispy bacon bits, and sour cream",
+    price: 4.99,
+    category: ["fries", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-ranch", name: "Ranch Drizzle", price: 0.79, isRemoval: false },
+      { id: "remove-cheese", name: "No Cheese", price: 0, isRemoval: true },
+      { id: "remove-bacon", name: "No Bacon", price: 0, isRemoval: true },
+      {
+        id: "remove-sour-cream",
+        name: "No Sour Cream",
+        price: 0,
+        isRemoval: true,
+      },
+    ],
+    items: [],
+  },
+  {
+    id: "d1",
+    name: "Cola",
+    description:
+      "Refreshing cola served ice-cold with the perfect amount of fizz",
+    price: 1.99,
+    category: ["drinks", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-ice", name: "Extra Ice", price: 0, isRemoval: false },
+      { id: "remove-ice", name: "No Ice", price: 0, isRemoval: true },
+    ],
+    items: [],
+  },
+  {
+    id: "d2",
+    name: "Lemonade",
+    description:
+      "Fresh squeezed lemonade made with real lemons for that perfect sweet and tart balance",
+    price: 2.49,
+    category: ["drinks", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-ice", name: "Extra Ice", price: 0, isRemoval: false },
+      { id: "remove-ice", name: "No Ice", price: 0, isRemoval: true },
+    ],
+    items: [],
+  },
+  {
+    id: "d3",
+    name: "Iced Tea",
+    description:
+      "Freshly brewed iced tea served over ice for a refreshing experience",
+    price: 1.99,
+    category: ["drinks", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      { id: "add-ice", name: "Extra Ice", price: 0, isRemoval: false },
+      { id: "remove-ice", name: "No Ice", price: 0, isRemoval: true },
+      { id: "add-lemon", name: "Lemon", price: 0.25, isRemoval: false },
+    ],
+    items: [],
+  },
+  {
+    id: "d4",
+    name: "Vanilla Milkshake",
+    description:
+      "Thick and creamy milkshake made with premium ice cream and topped with whipped cream",
+    price: 3.99,
+    category: ["drinks", "All Items"],
+    isCombo: false,
+    availableCustomizations: [
+      {
+        id: "add-whipped-cream",
+        name: "Whipped Cream",
+        price: 0.5,
+        isRemoval: false,
+      },
+      { id: "add-cherry", name: "Cherry", price: 0.25, isRemoval: false },
+    ],
+    items: [],
+  },
+  {
+    id: "s1",
+    name: "Ranch",
+    description:
+      "Creamy ranch dressing made with herbs and spices, perfect for dipping",
+    price: 0.5,
+    category: ["sauces", "All Items"],
+    isCombo: false,
+    availableCustomizations: [],
+    items: [],
+  },
+  {
+    id: "s2",
+    name: "BBQ Sauce",
+    description:
+      "Our signature tangy BBQ sauce with a perfect balance of sweet and smoky flavors",
+    price: 0.5,
+    category: ["sauces", "All Items"],
+    isCombo: false,
+    availableCustomizations: [],
+    items: [],
+  },
+  {
+    id: "s3",
+    name: "Honey Mustard",
+    description:
+      "Sweet honey mustard sauce that's perfect for chicken wings and fries",
+    price: 0.5,
+    category: ["sauces", "All Items"],
+    isCombo: false,
+    availableCustomizations: [],
+    items: [],
+  },
+  {
+    id: "c1",
+    name: "Burger Combo",
+    description:
+      "Complete meal featuring our classic burger, crispy fries, and your choice of drink",
+    price: 9.99,
+    category: ["combos", "All Items"],
+    isCombo: true,
+    availableCustomizations: [],
+    items: [
+      {
+        id: "cb1",
+        name: "Classic Burger",
+        price: 5.99,
+        category: "burgers",
+        isCombo: false,
+        availableCustomizations: [
+          { id: "add-cheese", name: "Cheese", price: 0.99, isRemoval: false },
+          { id: "remove-onion", name: "No Onion", price: 0, isRemoval: true },
+        ],
+      },
+      {
+        id: "cf1",
+        name: "Regular Fries",
+        price: 2.99,
+        category: "fries",
+        isCombo: false,
+        availableCustomizations: [],
+      },
+      {
+        id: "cd1",
+        name: "Cola",
+        price: 1.99,
+        category: "drinks",
+        isCombo: false,
+        availableCustomizations: [
+          { id: "remove-ice", name: "No Ice", price: 0, isRemoval: true },
+        ],
+      },
+    ],
+  },
+  {
+    id: "c2",
+    name: "Wings Combo",
+    description:
+      "Six buffalo wings served with fries and a refreshing drink for the perfect meal",
+    price: 11.99,
+    category: ["combos", "All Items"],
+    isCombo: true,
+    availableCustomizations: [],
+    items: [
+      {
+        id: "cw1",
+        name: "Buffalo Wings (6 pieces)",
+        price: 7.99,
+        category: "wings",
+        isCombo: false,
+        availableCustomizations: [
+          {
+            id: "extra-sauce",
+            name: "Extra Sauce",
+            price: 0.79,
+            isRemoval: false,
+          },
+        ],
+      },
+      {
+        id: "cf2",
+        name: "Regular Fries",
+        price: 2.99,
+        category: "fries",
+        isCombo: false,
+        availableCustomizations: [],
+      },
+      {
+        id: "cd2",
+        name: "Cola",
+        price: 1.99,
+        category: "drinks",
+        isCombo: false,
+        availableCustomizations: [],
+      },
+    ],
+  },
+  {
+    id: "c3",
+    name: "Family Meal Combo",
+    description:
+      "Perfect for sharing - includes multiple burgers, wings, fries, and drinks for the whole family",
+    price: 24.99,
+    category: ["combos", "All Items"],
+    isCombo: true,
+    availableCustomizations: [],
+    items: [
+      {
+        id: "cfb1",
+        name: "Classic Burger (2)",
+        price: 11.98,
+        category: "burgers",
+        isCombo: false,
+        availableCustomizations: [],
+      },
+      {
+        id: "cfw1",
+        name: "Buffalo Wings (6 pieces)",
+        price: 7.99,
+        category: "wings",
+        isCombo: false,
+        availableCustomizations: [],
+      },
+      {
+        id: "cff1",
+        name: "Regular Fries (2)",
+        price: 5.98,
+        category: "fries",
+        isCombo: false,
+        availableCustomizations: [],
+      },
+      {
+        id: "cfd1",
+        name: "Cola (2)",
+        price: 3.98,
+        category: "drinks",
+        isCombo: false,
+        availableCustomizations: [],
+      },
+    ],
+  },
+  {
+    id: "t1",
+    name: "Apple Pie Slice",
+    description:
+      "Individual slice of classic apple pie with flaky crust and cinnamon-spiced apple filling",
+    price: 3.99,
+    category: ["desserts", "All Items"],
+    isCombo: false,
+    availableCustomizations: [],
+    items: [],
+  },
+  {
+    id: "t2",
+    name: "Chocolate Pie Slice",
+    description:
+      "Individual slice of rich chocolate cream pie with smooth filling and graham cracker crust",
+    price: 4.49,
+    category: ["desserts", "All Items"],
+    isCombo: false,
+    availableCustomizations: [],
+    items: [],
+  },
+  {
+    id: "t3",
+    name: "Vanilla Ice Cream Cone",
+    description: "Premium vanilla soft-serve ice cream in a crispy waffle cone",
+    price: 2.99,
+    category: ["desserts", "All Items"],
+    isCombo: false,
+    availableCustomizations: [],
+    items: [],
+  },
+];
+
+export const SAMPLE_CUSTOMERS: LoyaltyCustomer[] = [
+  {
+    phone: "4691234567",
+    customerId: "cust-001",
+    name: "John Smith",
+    email: "john.smith@example.com",
+    loyaltyPoints: "150",
+    createdAt: "2025-01-01T00:00:00Z",
+  },
+];
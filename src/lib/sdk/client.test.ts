@@ -0,0 +1,223 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NovaSonicBidirectionalStreamClient } from "./client";
+import { ScriptedStreamTransport } from "./scripted_transport";
+
+const menuToolUse = {
+  toolUseId: "tool-1",
+  toolName: "getMenu",
+  contentId: "content-1",
+  content: JSON.stringify({ category: "drinks" }),
+};
+
+const menuTool = {
+  name: "getMenu",
+  description: "Menu",
+  inputSchema: { json: "{}" },
+};
+
+describe("NovaSonicBidirectionalStreamClient", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("cancels a running tool on renewal and asks its question again on the new stream", async () => {
+    const transport = new ScriptedStreamTransport([
+      {
+        waitFor: "textInput",
+        events: [
+          { toolUse: menuToolUse },
+          { contentEnd: { type: "TOOL", contentId: "content-1" } },
+        ],
+      },
+      {
+        waitFor: "textInput",
+        events: [
+          { textOutput: { role: "ASSISTANT", content: "We have lemonade." } },
+        ],
+      },
+    ]);
+    const client = new NovaSonicBidirectionalStreamClient(
+      {},
+      undefined,
+      transport,
+    );
+    let toolSignal: AbortSignal | undefined;
+    client.setTool(
+      "getMenu",
+      menuTool,
+      (
+        _sessionId: string,
+        _input: string,
+        _agent: boolean,
+        signal: AbortSignal,
+      ) =>
+        new Promise((resolve) => {
+          toolSignal = signal;
+          signal.addEventListener("abort", () =>
+            resolve(JSON.stringify({ cancelled: true })),
+          );
+        }),
+    );
+
+    const session = client.createStreamSession("session-1");
+    session.enableAutoRenewal({
+      renewAfterMs: 60_000,
+      getHistory: () => [
+        { role: "USER", content: "Hi" },
+        { role: "ASSISTANT", content: "Hello! What can I get you?" },
+        { role: "USER", content: "What drinks do you have?" },
+        { role: "ASSISTANT", content: "Let me check." },
+      ],
+    });
+    const toolStarted = new Promise((resolve) =>
+      session.onEvent("toolEnd", resolve),
+    );
+    const answered = new Promise((resolve) =>
+      session.onEvent("textOutput", resolve),
+    );
+    const renewed: unknown[] = [];
+    session.onEvent("sessionRenewed", (data) => renewed.push(data));
+
+    const streaming = client.initiateSession("session-1");
+    await session.setupPromptStart();
+    await session.sendText("What drinks do you have?");
+    await toolStarted;
+    await client.renewSession("session-1");
+
+    expect(await answered).toEqual({
+      role: "ASSISTANT",
+      content: "We have lemonade.",
+    });
+    expect(toolSignal?.aborted).toBe(true);
+    expect(renewed).toMatchObject([
+      { historyMessages: 2, replayedQuestion: true },
+    ]);
+    // The cancelled call has no result on either stream
+    expect(transport.getReceivedEventsOfType("toolResult")).toEqual([]);
+
+    const promptNames = transport
+      .getReceivedEventsOfType("promptStart")
+      .map(({ payload }) => (payload as { promptName: string }).promptName);
+    expect(promptNames).toHaveLength(2);
+    const renewedInputs = transport
+      .getReceivedEvents()
+      .filter(
+        ({ type, payload }) =>
+          type === "contentStart" &&
+          (payload as { promptName: string }).promptName === promptNames[1],
+      )
+      .map(({ payload }) => payload);
+    expect(renewedInputs).toMatchObject([
+      { role: "USER", interactive: false },
+      { role: "ASSISTANT", interactive: false },
+      { role: "USER", interactive: true },
+    ]);
+    expect(
+      transport
+        .getReceivedEventsOfType("textInput")
+        .map(({ payload }) => (payload as { content: string }).content),
+    ).toEqual([
+      "What drinks do you have?",
+      "Hi",
+      "Hello! What can I get you?",
+      "What drinks do you have?",
+    ]);
+
+    client.forceCloseSession("session-1");
+    await streaming;
+  });
+
+  it("restores the session on a new stream after a retryable stream error", async () => {
+    const transport = new ScriptedStreamTransport([
+      {
+        waitFor: "textInput",
+        streamError: {
+          type: "modelStreamErrorException",
+          message: "Stream broke",
+        },
+      },
+      {
+        waitFor: "textInput",
+        events: [{ textOutput: { role: "ASSISTANT", content: "I'm here." } }],
+      },
+    ]);
+    const client = new NovaSonicBidirectionalStreamClient(
+      {},
+      undefined,
+      transport,
+    );
+    client.setReconnectPolicy({ baseDelayMs: 0, jitter: 0 });
+
+    const session = client.createStreamSession("session-1");
+    const reconnecting: unknown[] = [];
+    const errors: unknown[] = [];
+    session.onEvent("reconnecting", (data) => reconnecting.push(data));
+    session.onEvent("error", (data) => errors.push(data));
+    const reconnected = new Promise((resolve) =>
+      session.onEvent("reconnected", resolve),
+    );
+    const answered = new Promise((resolve) =>
+      session.onEvent("textOutput", resolve),
+    );
+
+    const streaming = client.initiateSession("session-1");
+    await session.setupPromptStart();
+    await session.sendText("Hello?");
+
+    expect(await reconnected).toMatchObject({ attempt: 1 });
+    await session.sendText("Are you there?");
+    expect(await answered).toEqual({ role: "ASSISTANT", content: "I'm here." });
+    expect(reconnecting).toMatchObject([
+      {
+        attempt: 1,
+        maxRetries: 5,
+        delayMs: 0,
+        kind: "retryable",
+        reason: "ModelStreamErrorException: Stream broke",
+      },
+    ]);
+    expect(errors).toEqual([]);
+    // The prompt is set up again on the new stream
+    expect(transport.getReceivedEventsOfType("promptStart")).toHaveLength(2);
+
+    client.forceCloseSession("session-1");
+    await streaming;
+  });
+
+  it("reports the stream error once the retry budget is spent", async () => {
+    const streamError = {
+      type: "modelStreamErrorException" as const,
+      message: "Stream broke",
+    };
+    const transport = new ScriptedStreamTransport(
+      [{ waitFor: "textInput", streamError }, { streamError }],
+      { endWhenScriptCompletes: true },
+    );
+    const client = new NovaSonicBidirectionalStreamClient(
+      {},
+      undefined,
+      transport,
+    );
+    client.setReconnectPolicy({ maxRetries: 1, baseDelayMs: 0, jitter: 0 });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const session = client.createStreamSession("session-1");
+    const reconnecting: unknown[] = [];
+    session.onEvent("reconnecting", (data) => reconnecting.push(data));
+    const failed = new Promise((resolve) => session.onEvent("error", resolve));
+
+    const streaming = client.initiateSession("session-1");
+    await session.setupPromptStart();
+    await session.sendText("Hello?");
+
+    expect(await failed).toEqual({
+      type: "modelStreamErrorException",
+      details: { message: "Stream broke" },
+    });
+    expect(reconnecting).toHaveLength(1);
+
+    client.forceCloseSession("session-1");
+    await streaming;
+  });
+});
@@ -1,8 +1,6 @@
-import {
-  BedrockRuntimeClient,
-  InvokeModelWithBidirectionalStreamCommand,
-  type InvokeModelWithBidirectionalStreamInput,
-  type BedrockRuntimeClientConfig
+import type {
+  InvokeModelWithBidirectionalStreamInput,
+  BedrockRuntimeClientConfig
 } from "@aws-sdk/client-bedrock-runtime";
 import { toBase64 } from "@smithy/util-base64";
 import { firstValueFrom, Subject } from "rxjs";
@@ -12,9 +10,31 @@ import {
   DefaultAudioOutputConfiguration,
   DefaultSystemPrompt,
   DefaultTextConfiguration,
-  DefaultInferenceConfiguration
+  DefaultInferenceConfiguration,
+  DefaultModelId,
+  DefaultVoiceId,
+  MaxConnectionDurationMs,
+  DefaultRenewalLeadTimeMs,
+  RenewalIdleWindowMs,
+  RenewalForceLeadTimeMs,
+  MaxHistoryMessages,
+  MaxHistoryMessageLength,
+  DefaultReconnectPolicy
 } from "./consts.ts";
-import type { InferenceConfig } from "./types.ts";
+import type {
+  HistoryMessage,
+  InferenceConfig,
+  ReconnectPolicy,
+  SessionConfig,
+  SessionRenewalOptions
+} from "./types.ts";
+import {
+  BedrockStreamTransport,
+  type StreamTransport,
+  type StreamTransportResponse
+} from "./transport.ts";
+import { SessionRecorder, type SessionRecorderOptions } from "./session_recorder.ts";
+import { classifyStreamError, getReconnectDelay } from "./reconnect.ts";
 
 export class StreamSession {
   private audioBufferQueue: Uint8Array[] = [];
@@ -57,6 +77,15 @@ export class StreamSession {
     this.client.setupStartAudioEvent(this.sessionId, audioConfig);
   }
 
+  // Send a typed user message into the current prompt
+  public async sendText(
+    text: string,
+    textConfig: typeof DefaultTextConfiguration = DefaultTextConfiguration,
+  ): Promise<void> {
+    if (!this.isActive) return;
+    this.client.sendTextInput(this.sessionId, text, textConfig);
+  }
+
   // Stream audio for this session
   public async streamAudio(audioData: Uint8Array): Promise<void> {
     // Check queue size to avoid memory issues
@@ -106,6 +135,12 @@ export class StreamSession {
       }
     }
   }
+  // Roll over to a new stream before the connection time limit, carrying over the conversation
+  public enableAutoRenewal(options: SessionRenewalOptions = {}): StreamSession {
+    this.client.enableSessionRenewal(this.sessionId, options);
+    return this; // For chaining
+  }
+
   // Get session ID
   public getSessionId(): string {
     return this.sessionId;
@@ -132,37 +167,97 @@ export class StreamSession {
   }
 }
 
+// Tool use announced by the model and waiting for its TOOL content end
+interface PendingToolUse {
+  toolUseContent: object;
+  toolName: string;
+  contentId?: string;
+}
+
 // Session data type
 interface SessionData {
   queue: Array<any>;
   queueSignal: Subject<void>;
   closeSignal: Subject<void>;
   responseSubject: Subject<any>;
-  toolUseContent: any;
-  toolUseId: string;
-  toolName: string;
+  pendingToolUses: Map<string, PendingToolUse>; // Keyed by toolUseId
+  runningToolCalls: number;
+  toolAbortControllers: Map<string, AbortController>; // Running tool calls, keyed by toolUseId
   responseHandlers: Map<string, (data: any) => void>;
   promptName: string;
+  modelId: string;
+  voiceId: string;
   inferenceConfig: InferenceConfig;
   isActive: boolean;
   isPromptStartSent: boolean;
   isAudioContentStartSent: boolean;
   audioContentId: string;
+  recorder: SessionRecorder | null;
+  systemPrompt: string | null;
+  textConfig: typeof DefaultTextConfiguration;
+  audioConfig: typeof DefaultAudioInputConfiguration;
+  renewal: SessionRenewalOptions | null;
+  renewalTimer: ReturnType<typeof setTimeout> | null;
+  isRenewing: boolean;
+  streamStartedAt: number;
+  lastResponseAt: number;
+  reconnectAttempts: number;
+  isReconnecting: boolean;
+  isRestoring: boolean; // Set on the stream opened by a reconnect until it is established
+  hasRefreshedCredentials: boolean;
+  isClosing: boolean;
 }
 
+// Keep the most recent turns within the history limits; history must start with a USER turn
+const condenseHistory = (messages: HistoryMessage[]): HistoryMessage[] => {
+  const condensed = messages
+    .filter(message => (message.role === "USER" || message.role === "ASSISTANT") && message.content?.trim())
+    .map(message => {
+      const content = message.content.trim();
+      return {
+        role: message.role,
+        content: content.length > MaxHistoryMessageLength
+          ? `${content.slice(0, MaxHistoryMessageLength - 3)}...`
+          : content,
+      };
+    })
+    .slice(-MaxHistoryMessages);
+
+  while (condensed.length > 0 && condensed[0].role !== "USER") {
+    condensed.shift();
+  }
+  return condensed;
+};
+
+// Split history at its last USER turn; that question and the partial answer after it are dropped from the history
+const splitLastQuestion = (
+  messages: HistoryMessage[],
+): { history: HistoryMessage[]; question: HistoryMessage | null } => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "USER") {
+      return { history: messages.slice(0, i), question: messages[i] };
+    }
+  }
+  return { history: messages, question: null };
+};
+
 export class NovaSonicBidirectionalStreamClient {
-  private bedrockRuntimeClient: BedrockRuntimeClient;
+  private transport: StreamTransport;
   private inferenceConfig: InferenceConfig;
   private activeSessions: Map<string, SessionData> = new Map();
   private sessionLastActivity: Map<string, number> = new Map();
   private sessionCleanupInProgress = new Set<string>();
   private toolsAvailable: Map<string, {toolSpecification: any, action: Function}> = new Map();
+  private reconnectPolicy: ReconnectPolicy = DefaultReconnectPolicy;
+  private credentialsRefresher: (() => Promise<void>) | null = null;
 
-
-  constructor(config: BedrockRuntimeClientConfig, customInferenceConfig: InferenceConfig = DefaultInferenceConfiguration) {
-    this.bedrockRuntimeClient = new BedrockRuntimeClient({
-      ...config
-    });
+  // Pass a custom transport (e.g. ScriptedStreamTransport) to run without AWS
+  constructor(
+    config: BedrockRuntimeClientConfig,
+    customInferenceConfig: InferenceConfig = DefaultInferenceConfiguration,
+    transport?: StreamTransport,
+  ) {
+    this.transport = transport ?? new BedrockStreamTransport(config);
 
     this.inferenceConfig = {
       ...customInferenceConfig
@@ -194,7 +289,8 @@ export class NovaSonicBidirectionalStreamClient {
    * Register a custom tool with the client
    * @param toolsName - The name of the tool (case-insensitive)
    * @param toolSpecification - The tool specification object containing name, description, and inputSchema
-   * @param action - The function to execute when the tool is called. Receives (sessionId, toolUseContent) as parameters
+   * @param action - The function to execute when the tool is called. Receives (sessionId, toolUseContent, agentTriggered, signal) as parameters;
+   * the AbortSignal fires when the session closes before the tool completes
    */
   public setTool(toolsName: string, toolSpecification: any, action: Function): void {
     const normalizedKey = toolsName.toLowerCase();
@@ -227,8 +323,11 @@ export class NovaSonicBidirectionalStreamClient {
     return Array.from(this.toolsAvailable.keys());
   }
 
-  // Create a new streaming session
-  public createStreamSession( sessionId: string = crypto.randomUUID()): StreamSession {
+  // Create a new streaming session, optionally overriding model, voice and inference settings
+  public createStreamSession(
+    sessionId: string = crypto.randomUUID(),
+    sessionConfig: Partial<SessionConfig> = {},
+  ): StreamSession {
     if (this.activeSessions.has(sessionId)) {
       throw new Error(`Stream session with ID ${sessionId} already exists`);
     }
@@ -238,16 +337,35 @@ export class NovaSonicBidirectionalStreamClient {
       queueSignal: new Subject<void>(),
       closeSignal: new Subject<void>(),
       responseSubject: new Subject<any>(),
-      toolUseContent: null,
-      toolUseId: "",
-      toolName: "",
+      pendingToolUses: new Map(),
+      runningToolCalls: 0,
+      toolAbortControllers: new Map(),
       responseHandlers: new Map(),
       promptName: crypto.randomUUID(),
-      inferenceConfig: this.inferenceConfig,
+      modelId: sessionConfig.modelId || DefaultModelId,
+      voiceId: sessionConfig.voiceId || DefaultVoiceId,
+      inferenceConfig: {
+        ...this.inferenceConfig,
+        ...sessionConfig.inferenceConfig,
+      },
       isActive: true,
       isPromptStartSent: false,
       isAudioContentStartSent: false,
       audioContentId: crypto.randomUUID(),
+      recorder: null,
+      systemPrompt: null,
+      textConfig: DefaultTextConfiguration,
+      audioConfig: DefaultAudioInputConfiguration,
+      renewal: null,
+      renewalTimer: null,
+      isRenewing: false,
+      streamStartedAt: 0,
+      lastResponseAt: 0,
+      reconnectAttempts: 0,
+      isReconnecting: false,
+      isRestoring: false,
+      hasRefreshedCredentials: false,
+      isClosing: false,
     };
 
     this.activeSessions.set(sessionId, session);
@@ -255,10 +373,38 @@ export class NovaSonicBidirectionalStreamClient {
     return new StreamSession(sessionId, this);
   }
 
+  // Start capturing every inbound and outbound event of a session
+  public startRecording(
+    sessionId: string,
+    options: SessionRecorderOptions = {},
+  ): SessionRecorder {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Stream session ${sessionId} not found`);
+    }
+
+    session.recorder = new SessionRecorder(sessionId, session.modelId, session.voiceId, options);
+    console.log(`⏺️ Recording started for session ${sessionId}`);
+    return session.recorder;
+  }
+
+  // Detach the recorder from a session and return what it captured
+  public stopRecording(sessionId: string): SessionRecorder | null {
+    const session = this.activeSessions.get(sessionId);
+    if (!session?.recorder) return null;
+
+    const recorder = session.recorder;
+    session.recorder = null;
+    console.log(`⏹️ Recording stopped for session ${sessionId} (${recorder.getEventCount()} events)`);
+    return recorder;
+  }
+
   private async processToolUse(
     sessionId: string,
     toolName: string,
     toolUseContent: object,
+    signal?: AbortSignal,
+    toolUseId?: string,
   ): Promise<Object> {
     const toolName_lc = toolName.toLowerCase();
     console.log(`🔍 Looking for tool: "${toolName}" (normalized: "${toolName_lc}")`);
@@ -273,24 +419,86 @@ export class NovaSonicBidirectionalStreamClient {
 
     if (tool) {
       console.log(`✅ Found tool: "${toolName}" → executing`);
-      return await tool.action(sessionId, JSON.stringify(toolUseContent));
+      return await tool.action(sessionId, JSON.stringify(toolUseContent), true, signal, toolUseId);
     } else {
       console.log(`❌ Tool "${toolName}" not found in available tools`);
       console.log(`❌ Searched for key: "${toolName_lc}"`);
       console.log(`❌ Available keys: [${Array.from(this.toolsAvailable.keys()).join(', ')}]`);
       throw new Error(`Tool ${toolName} not supported`);
     }
+  }
+
+  // Match a TOOL content end to its tool use by content ID, falling back to the oldest pending one
+  private findPendingToolUse(session: SessionData, contentId?: string): string | null {
+    for (const [toolUseId, toolUse] of session.pendingToolUses) {
+      if (contentId && toolUse.contentId === contentId) return toolUseId;
+    }
+    const oldest = session.pendingToolUses.keys().next();
+    return oldest.done ? null : oldest.value;
+  }
 
+  // Execute one tool call and send its result as soon as it completes; calls may finish out of order
+  private async runToolUse(
+    sessionId: string,
+    session: SessionData,
+    toolUseId: string,
+    toolUse: PendingToolUse,
+  ): Promise<void> {
+    console.log(`🔧 Running tool ${toolUse.toolName} (${toolUseId}) for session ${sessionId}`);
+    // Session renewal waits until every running tool has sent its result
+    session.runningToolCalls++;
+    const controller = new AbortController();
+    session.toolAbortControllers.set(toolUseId, controller);
+    try {
+      const toolResult = await this.processToolUse(
+        sessionId,
+        toolUse.toolName,
+        toolUse.toolUseContent,
+        controller.signal,
+        toolUseId,
+      );
+
+      this.sendToolResult(sessionId, session, toolUseId, toolResult);
 
-    switch (toolName_lc) {
-      case "getdateandtimetool": {
-        
+      // Also dispatch event about tool result
+      this.dispatchEvent(sessionId, "toolResult", {
+        toolUseId,
+        result: toolResult,
+      });
+    } catch (error) {
+      // Cancelled calls belong to a closed or renewed stream, which no longer waits for their result
+      if (controller.signal.aborted) {
+        console.log(`🛑 Tool ${toolUse.toolName} (${toolUseId}) stopped after cancellation`);
+        return;
       }
+      console.error(`❌ Tool ${toolUse.toolName} (${toolUseId}) failed for session ${sessionId}:`, error);
+      // The model waits for a result of every tool use, so a failure is answered with an error result
+      const message = error instanceof Error ? error.message : String(error);
+      const errorResult = { error: message };
+      this.sendToolResult(sessionId, session, toolUseId, errorResult);
+      this.dispatchEvent(sessionId, "toolResult", {
+        toolUseId,
+        result: errorResult,
+      });
+      this.dispatchEvent(sessionId, "error", {
+        type: "toolError",
+        message: `Tool ${toolUse.toolName} failed: ${message}`,
+        toolName: toolUse.toolName,
+        toolUseId,
+      });
+    } finally {
+      session.runningToolCalls--;
+      session.toolAbortControllers.delete(toolUseId);
+    }
+  }
 
-      default:
-        console.log(`Tool ${tool} not supported`);
-        throw new Error(`Tool ${tool} not supported`);
+  // Abort the tool calls still running for a stream
+  private cancelToolCalls(session: SessionData): void {
+    for (const [toolUseId, controller] of session.toolAbortControllers) {
+      console.log(`🛑 Cancelling tool call ${toolUseId}`);
+      controller.abort();
     }
+    session.toolAbortControllers.clear();
   }
 
   // TODO: These functions are currently unused but may be needed for future tool integration
@@ -353,42 +561,340 @@ export class NovaSonicBidirectionalStreamClient {
       throw new Error(`Stream session ${sessionId} not found`);
     }
 
-    try {
-      // Set up initial events for this session
-      this.setupSessionStartEvent(sessionId);
+    // Set up initial events for this session
+    this.setupSessionStartEvent(sessionId);
+
+    await this.openStream(sessionId, session);
+  }
 
+  // Open a bidirectional stream for the session's queue and process responses until it ends
+  private async openStream(sessionId: string, session: SessionData): Promise<void> {
+    try {
       // Create the bidirectional stream with session-specific async iterator
       const asyncIterable = this.createSessionAsyncIterable(sessionId);
 
-      console.log(`Starting bidirectional stream for session ${sessionId}...`);
-
-      const response = await this.bedrockRuntimeClient.send(
-        new InvokeModelWithBidirectionalStreamCommand({
-          modelId: "amazon.nova-sonic-v1:0",
-          body: asyncIterable,
-        }),
+      console.log(
+        `Starting bidirectional stream for session ${sessionId} with model ${session.modelId} over ${this.transport.name} transport...`,
       );
 
+      const response = await this.transport.open({
+        modelId: session.modelId,
+        body: asyncIterable,
+      });
+
       console.log(
         `Stream established for session ${sessionId}, processing responses...`,
       );
 
+      session.streamStartedAt = Date.now();
+      this.scheduleRenewal(sessionId, session);
+
+      if (session.isRestoring) {
+        session.isRestoring = false;
+        console.log(`✅ Session ${sessionId} reconnected`);
+        this.dispatchEvent(sessionId, "reconnected", {
+          timestamp: new Date().toISOString(),
+          attempt: session.reconnectAttempts,
+        });
+      }
+
       // Process responses for this session
       await this.processResponseStream(sessionId, response);
     } catch (error) {
       console.error(`Error in session ${sessionId}: `, error);
+      if (this.activeSessions.get(sessionId) !== session) return;
+      if (this.handleStreamFailure(sessionId, session, error)) return;
+
       this.dispatchEventForSession(sessionId, "error", {
         source: "bidirectionalStream",
         error,
       });
 
       // Make sure to clean up if there's an error
-      if (session.isActive) {
+      if (session.isActive && this.activeSessions.get(sessionId) === session) {
         this.closeSession(sessionId);
       }
     }
   }
 
+  /**
+   * Override the retry budget and backoff used to restore sessions after stream errors
+   */
+  public setReconnectPolicy(policy: Partial<ReconnectPolicy>): void {
+    this.reconnectPolicy = { ...this.reconnectPolicy, ...policy };
+  }
+
+  /**
+   * Set the callback used to refresh expired credentials before reconnecting.
+   * Without one, credential errors end the session like any other fatal error.
+   */
+  public setCredentialsRefresher(refresher: (() => Promise<void>) | null): void {
+    this.credentialsRefresher = refresher;
+  }
+
+  // Schedule a reconnect for a failed stream; returns false when the error has to be surfaced instead
+  private handleStreamFailure(sessionId: string, session: SessionData, error: unknown): boolean {
+    if (this.activeSessions.get(sessionId) !== session || session.isClosing || session.isReconnecting) {
+      return false;
+    }
+
+    const { kind, reason } = classifyStreamError(error);
+    if (kind === "fatal") {
+      console.error(`❌ Session ${sessionId} failed with a non-retryable error: ${reason}`);
+      return false;
+    }
+    if (kind === "credentials" && (!this.credentialsRefresher || session.hasRefreshedCredentials)) {
+      console.error(`❌ Session ${sessionId} credentials could not be refreshed: ${reason}`);
+      return false;
+    }
+
+    const { maxRetries } = this.reconnectPolicy;
+    if (session.reconnectAttempts >= maxRetries) {
+      console.error(`❌ Session ${sessionId} gave up after ${maxRetries} reconnect attempts: ${reason}`);
+      return false;
+    }
+
+    session.reconnectAttempts++;
+    session.isReconnecting = true;
+    this.clearRenewalTimer(session);
+
+    const attempt = session.reconnectAttempts;
+    const delayMs = getReconnectDelay(attempt, this.reconnectPolicy);
+    console.warn(`🔁 Reconnecting session ${sessionId} in ${delayMs}ms (attempt ${attempt}/${maxRetries}): ${reason}`);
+    this.dispatchEvent(sessionId, "reconnecting", {
+      timestamp: new Date().toISOString(),
+      attempt,
+      maxRetries,
+      delayMs,
+      kind,
+      reason,
+    });
+
+    this.reconnectSession(sessionId, session, kind === "credentials", delayMs).catch(reconnectError => {
+      console.error(`❌ Failed to reconnect session ${sessionId}:`, reconnectError);
+      if (this.activeSessions.get(sessionId) !== session) return;
+
+      session.isReconnecting = false;
+      this.dispatchEvent(sessionId, "error", {
+        source: "reconnect",
+        message: "Failed to reconnect the session",
+        details: reconnectError instanceof Error ? reconnectError.message : String(reconnectError),
+      });
+      this.closeSession(sessionId);
+    });
+    return true;
+  }
+
+  private async reconnectSession(
+    sessionId: string,
+    session: SessionData,
+    refreshCredentials: boolean,
+    delayMs: number,
+  ): Promise<void> {
+    if (refreshCredentials && this.credentialsRefresher) {
+      session.hasRefreshedCredentials = true;
+      await this.credentialsRefresher();
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    // The session may have been closed while waiting
+    if (this.activeSessions.get(sessionId) !== session || session.isClosing) return;
+
+    await this.renewSession(sessionId, "reconnect");
+  }
+
+  /**
+   * Enable automatic renewal for a session. Nova Sonic ends a bidirectional stream after
+   * a fixed maximum duration, so shortly before that the session is moved to a new stream.
+   * @param sessionId - The session to renew
+   * @param options - When to renew and where to read the chat history to carry over
+   */
+  public enableSessionRenewal(sessionId: string, options: SessionRenewalOptions = {}): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Stream session ${sessionId} not found`);
+    }
+
+    session.renewal = options;
+    if (session.streamStartedAt) {
+      this.scheduleRenewal(sessionId, session);
+    }
+  }
+
+  private scheduleRenewal(sessionId: string, session: SessionData): void {
+    if (!session.renewal) return;
+
+    const renewAfterMs =
+      session.renewal.renewAfterMs ?? MaxConnectionDurationMs - DefaultRenewalLeadTimeMs;
+    const delay = Math.max(0, session.streamStartedAt + renewAfterMs - Date.now());
+
+    this.clearRenewalTimer(session);
+    session.renewalTimer = setTimeout(() => this.tryRenewSession(sessionId, session), delay);
+    console.log(`🔄 Session ${sessionId} will renew in ${Math.round(delay / 1000)}s`);
+  }
+
+  private clearRenewalTimer(session: SessionData): void {
+    if (session.renewalTimer) {
+      clearTimeout(session.renewalTimer);
+      session.renewalTimer = null;
+    }
+  }
+
+  // Renew once the model is quiet and no tool is running, or unconditionally close to the limit
+  private tryRenewSession(sessionId: string, session: SessionData): void {
+    session.renewalTimer = null;
+    if (!session.isActive || this.activeSessions.get(sessionId) !== session) return;
+
+    const now = Date.now();
+    const isToolInProgress = session.runningToolCalls > 0 || session.pendingToolUses.size > 0;
+    const isIdle = !isToolInProgress && now - session.lastResponseAt >= RenewalIdleWindowMs;
+    const isNearLimit = now - session.streamStartedAt >= MaxConnectionDurationMs - RenewalForceLeadTimeMs;
+
+    if (!isIdle && !isNearLimit) {
+      session.renewalTimer = setTimeout(() => this.tryRenewSession(sessionId, session), 500);
+      return;
+    }
+
+    this.renewSession(sessionId).catch(error => {
+      console.error(`❌ Failed to renew session ${sessionId}:`, error);
+    });
+  }
+
+  /**
+   * Move a session onto a new stream. The system prompt, a condensed chat history,
+   * the registered tools and the microphone audio content are carried over; the
+   * session ID and event handlers stay the same, so callers do not notice the switch.
+   * Tool calls still running on the old stream are cancelled, since their results
+   * cannot be sent to the new one, and the question that triggered them is asked again.
+   * @param reason - "reconnect" restores a session whose stream failed
+   */
+  public async renewSession(
+    sessionId: string,
+    reason: "renewal" | "reconnect" = "renewal",
+  ): Promise<void> {
+    const previous = this.activeSessions.get(sessionId);
+    if (!previous || previous.isRenewing || previous.isClosing) return;
+    // A failed stream is already inactive, but its session can still be restored
+    if (reason === "renewal" && !previous.isActive) return;
+
+    previous.isRenewing = true;
+    this.clearRenewalTimer(previous);
+    const isToolInterrupted = previous.runningToolCalls > 0 || previous.pendingToolUses.size > 0;
+    if (reason === "renewal") {
+      console.log(`🔄 Renewing session ${sessionId} on a new stream`);
+      this.dispatchEvent(sessionId, "sessionRenewing", {
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      console.log(`🔁 Restoring session ${sessionId} on a new stream`);
+    }
+
+    const next: SessionData = {
+      ...previous,
+      queue: [],
+      queueSignal: new Subject<void>(),
+      closeSignal: new Subject<void>(),
+      responseSubject: new Subject<unknown>(),
+      pendingToolUses: new Map(),
+      runningToolCalls: 0,
+      toolAbortControllers: new Map(),
+      promptName: crypto.randomUUID(),
+      isActive: true,
+      isPromptStartSent: false,
+      isAudioContentStartSent: false,
+      audioContentId: crypto.randomUUID(),
+      renewalTimer: null,
+      isRenewing: false,
+      streamStartedAt: 0,
+      lastResponseAt: 0,
+      isReconnecting: false,
+      isRestoring: reason === "reconnect",
+    };
+    this.activeSessions.set(sessionId, next);
+
+    // Queue the whole setup before the stream opens so audio chunks follow the audio content start
+    let historyCount = 0;
+    let question: HistoryMessage | null = null;
+    this.setupSessionStartEvent(sessionId);
+    if (previous.isPromptStartSent) {
+      // Prompt start carries the registered tools
+      this.setupPromptStartEvent(sessionId);
+      if (previous.systemPrompt !== null) {
+        this.setupSystemPromptEvent(sessionId, previous.textConfig, previous.systemPrompt);
+      }
+
+      let history = condenseHistory(previous.renewal?.getHistory?.() ?? []);
+      if (isToolInterrupted) {
+        ({ history, question } = splitLastQuestion(history));
+      }
+      historyCount = history.length;
+      console.log(`🔄 Carrying over ${historyCount} history messages to session ${sessionId}`);
+      for (const message of history) {
+        this.addTextContent(sessionId, message.role, message.content, previous.textConfig, false);
+      }
+
+      if (previous.isAudioContentStartSent) {
+        this.setupStartAudioEvent(sessionId, previous.audioConfig);
+      }
+
+      if (question) {
+        console.log(`🔄 Asking the question of the cancelled tool calls again in session ${sessionId}`);
+        this.addTextContent(sessionId, "USER", question.content, previous.textConfig);
+      } else if (isToolInterrupted) {
+        console.warn(`⚠️ Tool calls of session ${sessionId} were cancelled and no question was found to ask again`);
+      }
+    }
+
+    this.openStream(sessionId, next);
+    await this.retireStream(previous);
+
+    if (reason === "reconnect") return;
+
+    console.log(`✅ Session ${sessionId} renewed`);
+    this.dispatchEvent(sessionId, "sessionRenewed", {
+      timestamp: new Date().toISOString(),
+      historyMessages: historyCount,
+      replayedQuestion: question !== null,
+    });
+  }
+
+  // Close the stream a session was renewed from, without touching the session itself
+  private async retireStream(session: SessionData): Promise<void> {
+    this.cancelToolCalls(session);
+    if (session.isAudioContentStartSent) {
+      this.enqueueEvent(session, {
+        event: {
+          contentEnd: {
+            promptName: session.promptName,
+            contentName: session.audioContentId,
+          },
+        },
+      });
+    }
+    if (session.isPromptStartSent) {
+      this.enqueueEvent(session, {
+        event: {
+          promptEnd: {
+            promptName: session.promptName,
+          },
+        },
+      });
+    }
+    this.enqueueEvent(session, {
+      event: {
+        sessionEnd: {},
+      },
+    });
+
+    // Wait to ensure it's processed
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    session.isActive = false;
+    session.closeSignal.next();
+    session.closeSignal.complete();
+  }
+
   // Dispatch events to handlers for a specific session
   private dispatchEventForSession(
     sessionId: string,
@@ -548,7 +1054,7 @@ export class NovaSonicBidirectionalStreamClient {
   // Process the response stream from AWS Bedrock
   private async processResponseStream(
     sessionId: string,
-    response: any,
+    response: StreamTransportResponse,
   ): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
@@ -564,6 +1070,12 @@ export class NovaSonicBidirectionalStreamClient {
         if (event.chunk?.bytes) {
           try {
             this.updateSessionActivity(sessionId);
+            session.lastResponseAt = Date.now();
+            // The stream is healthy again, so the retry budget starts over
+            if (session.reconnectAttempts > 0) {
+              session.reconnectAttempts = 0;
+              session.hasRefreshedCredentials = false;
+            }
             const textResponse = new TextDecoder().decode(event.chunk.bytes);
 
             try {
@@ -593,39 +1105,42 @@ export class NovaSonicBidirectionalStreamClient {
                   jsonResponse.event.toolUse,
                 );
 
-                // Store tool use information for later
-                session.toolUseContent = jsonResponse.event.toolUse;
-                session.toolUseId = jsonResponse.event.toolUse.toolUseId;
-                session.toolName = jsonResponse.event.toolUse.toolName;
+                // Store tool use information until its content ends; the model may announce several
+                const toolUse = jsonResponse.event.toolUse;
+                session.pendingToolUses.set(toolUse.toolUseId, {
+                  toolUseContent: toolUse,
+                  toolName: toolUse.toolName,
+                  contentId: toolUse.contentId,
+                });
               } else if (
                 jsonResponse.event?.contentEnd &&
                 jsonResponse.event?.contentEnd?.type === "TOOL"
               ) {
                 // Process tool use
                 console.log(`Processing tool use for session ${sessionId}`);
+                const contentEnd = jsonResponse.event.contentEnd;
+                const toolUseId = this.findPendingToolUse(session, contentEnd.contentId);
+                if (!toolUseId) {
+                  console.warn(`No pending tool use for TOOL content end in session ${sessionId}`);
+                  continue;
+                }
+                const toolUse = session.pendingToolUses.get(toolUseId) as PendingToolUse;
+                session.pendingToolUses.delete(toolUseId);
+                // The stream is being retired and its question was asked again on the new one
+                if (this.activeSessions.get(sessionId) !== session) {
+                  console.log(`Skipping tool use ${toolUseId} of a retired stream of session ${sessionId}`);
+                  continue;
+                }
+
                 this.dispatchEvent(sessionId, "toolEnd", {
-                  toolUseContent: session.toolUseContent,
-                  toolUseId: session.toolUseId,
-                  toolName: session.toolName,
+                  toolUseContent: toolUse.toolUseContent,
+                  toolUseId,
+                  toolName: toolUse.toolName,
+                  contentEnd,
                 });
 
-                console.log("calling tooluse");
-                console.log("tool use content : ", session.toolUseContent);
-                // function calling
-                const toolResult = await this.processToolUse(
-                  sessionId,
-                  session.toolName,
-                  session.toolUseContent,
-                );
-
-                // Send tool result
-                this.sendToolResult(sessionId, session.toolUseId, toolResult);
-
-                // Also dispatch event about tool result
-                this.dispatchEvent(sessionId, "toolResult", {
-                  toolUseId: session.toolUseId,
-                  result: toolResult,
-                });
+                // Run the tool off the read loop so audio keeps flowing during slow calls
+                this.runToolUse(sessionId, session, toolUseId, toolUse);
               } else if (jsonResponse.event?.contentEnd) {
                 this.dispatchEvent(
                   sessionId,
@@ -664,6 +1179,10 @@ export class NovaSonicBidirectionalStreamClient {
             `Model stream error for session ${sessionId}: `,
             event.modelStreamErrorException,
           );
+          // The stream is abandoned and the session restored on a new one
+          if (this.handleStreamFailure(sessionId, session, { type: "modelStreamErrorException", ...event.modelStreamErrorException })) {
+            break;
+          }
           this.dispatchEvent(sessionId, "error", {
             type: "modelStreamErrorException",
             details: event.modelStreamErrorException,
@@ -673,6 +1192,9 @@ export class NovaSonicBidirectionalStreamClient {
             `Internal server error for session ${sessionId}: `,
             event.internalServerException,
           );
+          if (this.handleStreamFailure(sessionId, session, { type: "internalServerException", ...event.internalServerException })) {
+            break;
+          }
           this.dispatchEvent(sessionId, "error", {
             type: "internalServerException",
             details: event.internalServerException,
@@ -682,6 +1204,12 @@ export class NovaSonicBidirectionalStreamClient {
         }
       }
 
+      // A stream retired by session renewal ends quietly; the session lives on in the new stream
+      if (this.activeSessions.get(sessionId) !== session || session.isReconnecting) {
+        console.log(`Retired stream finished for renewed session ${sessionId}`);
+        return;
+      }
+
       console.log(
         `Response stream processing complete for session ${sessionId}`,
       );
@@ -689,10 +1217,16 @@ export class NovaSonicBidirectionalStreamClient {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (this.activeSessions.get(sessionId) !== session) {
+        console.log(`Retired stream for renewed session ${sessionId} ended with an error:`, error);
+        return;
+      }
       console.error(
         `Error processing response stream for session ${sessionId}: `,
         error,
       );
+      if (this.handleStreamFailure(sessionId, session, error)) return;
+
       this.dispatchEvent(sessionId, "error", {
         source: "responseStream",
         message: "Error processing response stream",
@@ -707,6 +1241,12 @@ export class NovaSonicBidirectionalStreamClient {
     if (!session || !session.isActive) return;
 
     this.updateSessionActivity(sessionId);
+    this.enqueueEvent(session, event);
+  }
+
+  // Push an event onto a specific stream's queue, even one retired by session renewal
+  private enqueueEvent(session: SessionData, event: unknown): void {
+    session.recorder?.recordOutbound(event);
     session.queue.push(event);
     session.queueSignal.next();
   }
@@ -745,7 +1285,10 @@ export class NovaSonicBidirectionalStreamClient {
           textOutputConfiguration: {
             mediaType: "text/plain",
           },
-          audioOutputConfiguration: DefaultAudioOutputConfiguration,
+          audioOutputConfiguration: {
+            ...DefaultAudioOutputConfiguration,
+            voiceId: session.voiceId,
+          },
           toolUseOutputConfiguration: {
             mediaType: "application/json",
           },
@@ -766,16 +1309,48 @@ export class NovaSonicBidirectionalStreamClient {
     console.log(`Setting up systemPrompt events for session ${sessionId}...`);
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
+
+    // Kept so a renewed session can replay it
+    session.systemPrompt = systemPromptContent;
+    session.textConfig = textConfig;
+    this.addTextContent(sessionId, "SYSTEM", systemPromptContent, textConfig);
+  }
+
+  // Send a typed user message; the model replies with audio and tools as in voice mode
+  public sendTextInput(
+    sessionId: string,
+    text: string,
+    textConfig: typeof DefaultTextConfiguration = DefaultTextConfiguration,
+  ): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || !session.isActive || !session.isPromptStartSent) {
+      throw new Error(`Invalid session ${sessionId} for text input`);
+    }
+    console.log(`Sending text input for session ${sessionId}`);
+    this.addTextContent(sessionId, "USER", text, textConfig);
+  }
+
+  // Queue a complete TEXT content block (start, input, end) for the given role.
+  // Non-interactive blocks are prior-turn history rather than new input.
+  private addTextContent(
+    sessionId: string,
+    role: "SYSTEM" | "USER" | "ASSISTANT",
+    content: string,
+    textConfig: typeof DefaultTextConfiguration = DefaultTextConfiguration,
+    interactive = true,
+  ): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
     // Text content start
-    const textPromptID = crypto.randomUUID();
+    const textContentId = crypto.randomUUID();
     this.addEventToSessionQueue(sessionId, {
       event: {
         contentStart: {
           promptName: session.promptName,
-          contentName: textPromptID,
+          contentName: textContentId,
           type: "TEXT",
-          interactive: true,
-          role: "SYSTEM",
+          interactive,
+          role,
           textInputConfiguration: textConfig,
         },
       },
@@ -786,8 +1361,8 @@ export class NovaSonicBidirectionalStreamClient {
       event: {
         textInput: {
           promptName: session.promptName,
-          contentName: textPromptID,
-          content: systemPromptContent,
+          contentName: textContentId,
+          content,
         },
       },
     });
@@ -797,7 +1372,7 @@ export class NovaSonicBidirectionalStreamClient {
       event: {
         contentEnd: {
           promptName: session.promptName,
-          contentName: textPromptID,
+          contentName: textContentId,
         },
       },
     });
@@ -813,6 +1388,7 @@ export class NovaSonicBidirectionalStreamClient {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
+    session.audioConfig = audioConfig;
     console.log(`Using audio content ID: ${session.audioContentId}`);
     // Audio content start
     this.addEventToSessionQueue(sessionId, {
@@ -837,6 +1413,8 @@ export class NovaSonicBidirectionalStreamClient {
     audioData: Uint8Array,
   ): Promise<void> {
     const session = this.activeSessions.get(sessionId);
+    // Audio spoken while the stream is being restored is dropped
+    if (session?.isReconnecting) return;
     if (!session || !session.isActive || !session.audioContentId) {
       throw new Error(`Invalid session ${sessionId} for audio streaming`);
     }
@@ -857,12 +1435,17 @@ export class NovaSonicBidirectionalStreamClient {
   // Send tool result back to the model
   private async sendToolResult(
     sessionId: string,
+    session: SessionData,
     toolUseId: string,
     result: any,
   ): Promise<void> {
-    const session = this.activeSessions.get(sessionId);
     console.log("inside tool result");
-    if (!session || !session.isActive) return;
+    if (!session.isActive) return;
+    // The tool use belongs to a stream that has since been replaced
+    if (this.activeSessions.get(sessionId) !== session) {
+      console.warn(`Dropping tool result ${toolUseId} for a retired stream of session ${sessionId}`);
+      return;
+    }
 
     console.log(
       `Sending tool result for session ${sessionId}, tool use ID: ${toolUseId}`,
@@ -936,6 +1519,11 @@ export class NovaSonicBidirectionalStreamClient {
     const session = this.activeSessions.get(sessionId);
     if (!session || !session.isPromptStartSent) return;
 
+    // The conversation is ending, so there is nothing left to renew or reconnect
+    session.renewal = null;
+    session.isClosing = true;
+    this.clearRenewalTimer(session);
+
     await this.addEventToSessionQueue(sessionId, {
       event: {
         promptEnd: {
@@ -952,6 +1540,11 @@ export class NovaSonicBidirectionalStreamClient {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
+    session.renewal = null;
+    session.isClosing = true;
+    this.clearRenewalTimer(session);
+    this.cancelToolCalls(session);
+
     await this.addEventToSessionQueue(sessionId, {
       event: {
         sessionEnd: {},
@@ -988,6 +1581,8 @@ export class NovaSonicBidirectionalStreamClient {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
+    session.recorder?.recordInbound(eventType, data);
+
     const handler = session.responseHandlers.get(eventType);
     if (handler) {
       try {
@@ -1034,6 +1629,8 @@ export class NovaSonicBidirectionalStreamClient {
       // Ensure cleanup happens even if there's an error
       const session = this.activeSessions.get(sessionId);
       if (session) {
+        this.clearRenewalTimer(session);
+        this.cancelToolCalls(session);
         session.isActive = false;
         this.activeSessions.delete(sessionId);
         this.sessionLastActivity.delete(sessionId);
@@ -1064,6 +1661,9 @@ export class NovaSonicBidirectionalStreamClient {
       console.log(`Force closing session ${sessionId}`);
 
       // Immediately mark as inactive and clean up resources
+      this.clearRenewalTimer(session);
+      this.cancelToolCalls(session);
+      session.isClosing = true;
       session.isActive = false;
       session.closeSignal.next();
       session.closeSignal.complete();
@@ -3,6 +3,49 @@ import type { AudioMediaType, AudioType, TextMediaType } from "./types";
 // Branding constants
 export const POWERED_BY_TEXT = "Powered by Amazon Nova Foundation Models";
 
+// Model and endpoint defaults, overridable per agent configuration
+export const DefaultModelId = "amazon.nova-sonic-v1:0";
+export const DefaultRegion = "us-east-1";
+export const DefaultVoiceId = "tiffany";
+
+export const SupportedRegions = [
+  { id: "us-east-1", label: "US East (N. Virginia) - us-east-1" },
+  { id: "eu-north-1", label: "Europe (Stockholm) - eu-north-1" },
+  { id: "ap-northeast-1", label: "Asia Pacific (Tokyo) - ap-northeast-1" },
+];
+
+export const SupportedVoices = [
+  { id: "tiffany", label: "Tiffany (English US, feminine)" },
+  { id: "matthew", label: "Matthew (English US, masculine)" },
+  { id: "amy", label: "Amy (English GB, feminine)" },
+  { id: "ambre", label: "Ambre (French, feminine)" },
+  { id: "florian", label: "Florian (French, masculine)" },
+  { id: "beatrice", label: "Beatrice (Italian, feminine)" },
+  { id: "lorenzo", label: "Lorenzo (Italian, masculine)" },
+  { id: "greta", label: "Greta (German, feminine)" },
+  { id: "lennart", label: "Lennart (German, masculine)" },
+  { id: "lupe", label: "Lupe (Spanish, feminine)" },
+  { id: "carlos", label: "Carlos (Spanish, masculine)" },
+];
+
+// Session renewal: Nova Sonic closes a bidirectional stream after 8 minutes,
+// so sessions roll over to a new stream a minute before the limit
+export const MaxConnectionDurationMs = 8 * 60 * 1000;
+export const DefaultRenewalLeadTimeMs = 60 * 1000;
+export const RenewalIdleWindowMs = 1500; // Quiet period without model output before renewing
+export const RenewalForceLeadTimeMs = 10 * 1000; // Renew even if busy this close to the limit
+export const MaxHistoryMessages = 20;
+export const MaxHistoryMessageLength = 1000;
+
+// Reconnect with exponential backoff after retryable stream errors
+export const DefaultReconnectPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.3,
+};
+export const CredentialRefreshTimeoutMs = 15 * 1000;
+
 export const DefaultInferenceConfiguration = {
   maxTokens: 1024,
   topP: 0.9,
@@ -51,5 +94,5 @@ export const DefaultSystemPrompt =
 export const DefaultAudioOutputConfiguration = {
   ...DefaultAudioInputConfiguration,
   sampleRateHertz: 24000,
-  voiceId: "tiffany",
+  voiceId: DefaultVoiceId,
 };
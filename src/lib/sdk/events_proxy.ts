@@ -1,10 +1,23 @@
 import { NovaSonicBidirectionalStreamClient } from "./client";
-import { toolDefinition } from "./types";
+import type { HistoryMessage, toolDefinition } from "./types";
 import { SettingsManager } from "../util/SettingsManager";
+import { ChatHistoryManager } from "../util/ChatHistoryManager";
+import type { StreamTransport } from "./transport";
+import {
+  createReplayTransport,
+  type ReplayOptions,
+  type SessionRecorder,
+  type SessionRecording,
+} from "./session_recorder";
+import { CredentialRefreshTimeoutMs } from "./consts";
 
 let sessionId: string;
 let session: any; // Store session reference globally
 let bedrockClient: NovaSonicBidirectionalStreamClient | null = null; // Lazy initialization
+let transportFactory: (() => StreamTransport) | null = null; // Custom transport for tests and offline demos
+let recordingEnabled = false;
+let activeRecorder: SessionRecorder | null = null; // Recorder of the current or last session
+let replayRecording: SessionRecording | null = null;
 
 // Create Event Target
 const target = new EventTarget();
@@ -20,6 +33,9 @@ const getCredentials = () => {
       accessKeyId: cognitoCredentials.accessKeyId,
       secretAccessKey: cognitoCredentials.secretAccessKey,
       sessionToken: cognitoCredentials.sessionToken,
+      expiration: cognitoCredentials.expiration
+        ? new Date(cognitoCredentials.expiration)
+        : undefined,
     };
   }
   
@@ -33,8 +49,68 @@ const getCredentials = () => {
   };
 };
 
+// Chat history carried over when a session is renewed onto a new stream
+const getHistoryForRenewal = (): HistoryMessage[] => {
+  const history = ChatHistoryManager.getInstance()?.getHistory() || [];
+  return history
+    .filter((item) => item.role && item.message && !item.endOfConversation)
+    .map((item) => ({
+      role: item.role.toUpperCase() as HistoryMessage["role"],
+      content: item.message,
+    }));
+};
+
+// Credentials provider read on every stream open, so credentials refreshed by AuthComponent are picked up
+const provideCredentials = async () => {
+  const credentials = getCredentials();
+  if (!credentials.accessKeyId || !credentials.secretAccessKey) {
+    const error = new Error("AWS credentials are missing or expired");
+    error.name = "CredentialsProviderError";
+    throw error;
+  }
+  return credentials;
+};
+
+// Ask AuthComponent to refresh the Cognito credentials and wait until it is done
+const refreshCredentials = (): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      target.removeEventListener("credentialsRefreshed", handleRefreshed);
+      target.removeEventListener("credentialsRefreshFailed", handleFailed);
+    };
+    const handleRefreshed = () => {
+      cleanup();
+      resolve();
+    };
+    const handleFailed = (event: Event) => {
+      cleanup();
+      const detail = (event as CustomEvent).detail;
+      reject(new Error(detail?.message || "Credential refresh failed"));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Timed out waiting for refreshed credentials"));
+    }, CredentialRefreshTimeoutMs);
+
+    target.addEventListener("credentialsRefreshed", handleRefreshed);
+    target.addEventListener("credentialsRefreshFailed", handleFailed);
+    console.log("🔑 Requesting refreshed credentials");
+    target.dispatchEvent(new Event("credentialsExpired"));
+  });
+
 // Lazy client initialization - create client only when needed with fresh credentials
 const getOrCreateClient = () => {
+  const { region, inferenceConfig } = SettingsManager.getModelSettings();
+
+  // A custom transport does not talk to AWS, so no credentials are needed
+  if (transportFactory) {
+    const transport = transportFactory();
+    console.log(`Creating new client with ${transport.name} transport`);
+    bedrockClient = new NovaSonicBidirectionalStreamClient({ region }, inferenceConfig, transport);
+    return bedrockClient;
+  }
+
   const credentials = getCredentials();
   
   // Check if we have valid credentials
@@ -43,11 +119,12 @@ const getOrCreateClient = () => {
   }
   
   // Create new client with fresh credentials (always recreate to ensure fresh credentials)
-  console.log("Creating new Bedrock client with fresh credentials");
+  console.log(`Creating new Bedrock client with fresh credentials in ${region}`);
   bedrockClient = new NovaSonicBidirectionalStreamClient({
-    credentials,
-    region: "us-east-1",
-  });
+    credentials: provideCredentials,
+    region,
+  }, inferenceConfig);
+  bedrockClient.setCredentialsRefresher(refreshCredentials);
   
   return bedrockClient;
 };
@@ -91,10 +168,19 @@ try {
       // Get or create client with fresh credentials
       const client = getOrCreateClient();
       
-      // Create session with the new API
-      session = client.createStreamSession();
+      // Create session with the model and voice from the saved agent configuration
+      const { modelId, voiceId, inferenceConfig } = SettingsManager.getModelSettings();
+      session = client.createStreamSession(undefined, { modelId, voiceId, inferenceConfig });
       sessionId = session.getSessionId();
 
+      // Start recording before any event is queued so the recording covers the whole session
+      if (recordingEnabled) {
+        activeRecorder = client.startRecording(sessionId);
+      }
+
+      // Roll over to a new stream before the connection time limit instead of ending the conversation
+      session.enableAutoRenewal({ getHistory: getHistoryForRenewal });
+
       target.dispatchEvent(new CustomEvent("sessionCreated", {detail: sessionId}));
     
     // Set up event handlers for session events
@@ -133,6 +219,26 @@ try {
       target.dispatchEvent(new CustomEvent("contentEnd", { detail: data }));
     });
 
+    session.onEvent("sessionRenewing", (data: unknown) => {
+      console.log("Session renewal started:", data);
+      target.dispatchEvent(new CustomEvent("sessionRenewing", { detail: data }));
+    });
+
+    session.onEvent("sessionRenewed", (data: unknown) => {
+      console.log("Session renewed:", data);
+      target.dispatchEvent(new CustomEvent("sessionRenewed", { detail: data }));
+    });
+
+    session.onEvent("reconnecting", (data: unknown) => {
+      console.log("Reconnecting session:", data);
+      target.dispatchEvent(new CustomEvent("reconnecting", { detail: data }));
+    });
+
+    session.onEvent("reconnected", (data: unknown) => {
+      console.log("Session reconnected:", data);
+      target.dispatchEvent(new CustomEvent("reconnected", { detail: data }));
+    });
+
     session.onEvent("streamComplete", () => {
       console.log("Stream completed for client:", session.getSessionId());
       target.dispatchEvent(new Event("streamComplete"));
@@ -291,6 +397,31 @@ try {
     }
   });
 
+  // Typed user message, sent into the same prompt as the microphone audio
+  target.addEventListener("textInput", async (e) => {
+    if (!session) {
+      console.error("No active session for textInput");
+      return;
+    }
+
+    // @ts-ignore
+    const text = e.detail;
+    try {
+      console.log("Text input received", text);
+      await session.sendText(text);
+    } catch (error) {
+      console.error("Error processing text input:", error);
+      target.dispatchEvent(
+        new CustomEvent("error", {
+          detail: {
+            message: "Error processing text input",
+            details: error instanceof Error ? error.message : String(error),
+          },
+        }),
+      );
+    }
+  });
+
   target.addEventListener("audioStart", async (e) => {
     if (!session) {
       console.error("No active session for audioStart");
@@ -409,17 +540,65 @@ try {
   );
 }
 
-export { target };
+// Route new sessions through a custom transport (pass null to go back to Bedrock).
+// The factory is called once per session.
+const setTransportFactory = (factory: (() => StreamTransport) | null) => {
+  transportFactory = factory;
+  console.log(factory ? "Custom stream transport enabled" : "Using Bedrock stream transport");
+};
+
+// Record every session created from now on
+const setRecordingEnabled = (enabled: boolean) => {
+  recordingEnabled = enabled;
+  console.log(`Session recording ${enabled ? "enabled" : "disabled"}`);
+};
+
+// Recording of the current or most recent session, if recording was enabled
+const getLastRecording = (): SessionRecording | null => {
+  return activeRecorder ? activeRecorder.getRecording() : null;
+};
+
+// Replay a recording in place of the model for new sessions; tools still run against the live components
+const startReplay = (recording: SessionRecording, options: ReplayOptions = {}) => {
+  replayRecording = recording;
+  setTransportFactory(() => createReplayTransport(recording, options));
+};
+
+const stopReplay = () => {
+  replayRecording = null;
+  setTransportFactory(null);
+};
+
+const isReplayActive = () => replayRecording !== null;
+
+export {
+  target,
+  setTransportFactory,
+  setRecordingEnabled,
+  getLastRecording,
+  startReplay,
+  stopReplay,
+  isReplayActive,
+};
 
 // Export eventsProxy object with methods
 export const eventsProxy = {
   getEventTarget: () => target,
+  setTransportFactory,
+  setRecordingEnabled,
+  getLastRecording,
+  startReplay,
+  stopReplay,
+  isReplayActive,
   createSession: () => {
     target.dispatchEvent(new CustomEvent("createSession"));
   },
   stopStreaming: () => {
     target.dispatchEvent(new CustomEvent("stopStreaming"));
   },
+  sendTextInput: (text: string) => {
+    target.dispatchEvent(new CustomEvent("textInput", { detail: text }));
+  },
   sendAudioData: (audioData: Float32Array) => {
     target.dispatchEvent(new CustomEvent("audioData", { detail: audioData }));
   }
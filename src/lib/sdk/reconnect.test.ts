@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { classifyStreamError, getReconnectDelay } from "./reconnect";
+
+const policy = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.3,
+};
+
+describe("classifyStreamError", () => {
+  it("classifies AWS errors by name", () => {
+    expect(
+      classifyStreamError({
+        name: "ThrottlingException",
+        message: "Slow down",
+      }),
+    ).toEqual({ kind: "retryable", reason: "ThrottlingException: Slow down" });
+    expect(
+      classifyStreamError({ name: "ExpiredTokenException", message: "Expired" })
+        .kind,
+    ).toBe("credentials");
+    expect(
+      classifyStreamError({ name: "AccessDeniedException", message: "Denied" })
+        .kind,
+    ).toBe("fatal");
+  });
+
+  it("reads stream exception events by their type", () => {
+    expect(
+      classifyStreamError({
+        type: "modelStreamErrorException",
+        message: "Stream broke",
+      }),
+    ).toEqual({
+      kind: "retryable",
+      reason: "ModelStreamErrorException: Stream broke",
+    });
+  });
+
+  it("falls back to the HTTP status, then to the message", () => {
+    const withStatus = (httpStatusCode: number, message = "Failed") =>
+      classifyStreamError({ message, $metadata: { httpStatusCode } }).kind;
+    expect(withStatus(429)).toBe("retryable");
+    expect(withStatus(503)).toBe("retryable");
+    expect(withStatus(401)).toBe("credentials");
+    expect(withStatus(403, "The security token included is invalid")).toBe(
+      "credentials",
+    );
+    expect(withStatus(403)).toBe("fatal");
+    expect(withStatus(400)).toBe("fatal");
+
+    expect(classifyStreamError(new Error("Token has expired")).kind).toBe(
+      "credentials",
+    );
+    expect(classifyStreamError(new Error("Access denied")).kind).toBe("fatal");
+    expect(classifyStreamError(new Error("socket hang up"))).toEqual({
+      kind: "retryable",
+      reason: "socket hang up",
+    });
+    expect(classifyStreamError("connection reset")).toEqual({
+      kind: "retryable",
+      reason: "connection reset",
+    });
+  });
+});
+
+describe("getReconnectDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("doubles the delay per attempt up to the cap", () => {
+    const noJitter = { ...policy, jitter: 0 };
+    expect(
+      [1, 2, 3, 4, 5, 6].map((attempt) => getReconnectDelay(attempt, noJitter)),
+    ).toEqual([500, 1000, 2000, 4000, 8000, 8000]);
+  });
+
+  it("spreads the delay by the jitter fraction in both directions", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(getReconnectDelay(2, policy)).toBe(700);
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(getReconnectDelay(2, policy)).toBe(1300);
+  });
+});
@@ -0,0 +1,116 @@
+import type { ReconnectPolicy } from "./types";
+
+export type StreamErrorKind = "retryable" | "credentials" | "fatal";
+
+export interface StreamErrorClassification {
+  kind: StreamErrorKind;
+  reason: string;
+}
+
+// Transient service and network failures; the session is restored on a new stream
+const RETRYABLE_ERRORS = new Set([
+  "ThrottlingException",
+  "TooManyRequestsException",
+  "ServiceUnavailableException",
+  "InternalServerException",
+  "ModelStreamErrorException",
+  "ModelTimeoutException",
+  "ModelNotReadyException",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "TimeoutError",
+  "NetworkingError",
+]);
+
+// Expired or missing temporary credentials; recoverable after a Cognito refresh
+const CREDENTIAL_ERRORS = new Set([
+  "ExpiredToken",
+  "ExpiredTokenException",
+  "CredentialsProviderError",
+  "UnrecognizedClientException",
+  "InvalidSignatureException",
+  "NotAuthorizedException",
+]);
+
+// Configuration or permission problems that a retry cannot fix
+const FATAL_ERRORS = new Set([
+  "AccessDeniedException",
+  "ValidationException",
+  "ResourceNotFoundException",
+  "ServiceQuotaExceededException",
+]);
+
+// Fields of AWS SDK errors and stream exception events that identify the failure
+interface StreamErrorFields {
+  name?: unknown;
+  code?: unknown;
+  __type?: unknown;
+  type?: unknown;
+  message?: unknown;
+  details?: { message?: unknown };
+  $metadata?: { httpStatusCode?: unknown };
+}
+
+// Stream exception events arrive as { type: "modelStreamErrorException", ... }
+const normalizeName = (name: string): string =>
+  name.charAt(0).toUpperCase() + name.slice(1);
+
+/**
+ * Decide whether a stream error can be retried, needs fresh credentials, or is fatal.
+ * Looks at the AWS error name first, then the HTTP status, then the message.
+ */
+export const classifyStreamError = (
+  error: unknown,
+): StreamErrorClassification => {
+  const fields: StreamErrorFields =
+    typeof error === "object" && error !== null ? error : {};
+  const name = normalizeName(
+    String(fields.name || fields.code || fields.__type || fields.type || ""),
+  );
+  const message = String(
+    fields.message || fields.details?.message || error || "",
+  );
+  const reason = name && name !== "Error" ? `${name}: ${message}` : message;
+
+  if (CREDENTIAL_ERRORS.has(name)) return { kind: "credentials", reason };
+  if (FATAL_ERRORS.has(name)) return { kind: "fatal", reason };
+  if (RETRYABLE_ERRORS.has(name)) return { kind: "retryable", reason };
+
+  const status = fields.$metadata?.httpStatusCode;
+  if (typeof status === "number") {
+    if (status === 429 || status >= 500) return { kind: "retryable", reason };
+    if (status === 401) return { kind: "credentials", reason };
+    if (status === 403) {
+      return /expired|security token/i.test(message)
+        ? { kind: "credentials", reason }
+        : { kind: "fatal", reason };
+    }
+    if (status >= 400) return { kind: "fatal", reason };
+  }
+
+  if (/expired|security token|credentials/i.test(message)) {
+    return { kind: "credentials", reason };
+  }
+  if (/access denied|not authorized|validation/i.test(message)) {
+    return { kind: "fatal", reason };
+  }
+
+  // Dropped connections surface as generic errors; let the retry budget bound them
+  return { kind: "retryable", reason };
+};
+
+// Exponential backoff for the given 1-based attempt, capped and randomized by the jitter fraction
+export const getReconnectDelay = (
+  attempt: number,
+  policy: ReconnectPolicy,
+): number => {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 1),
+  );
+  const spread = exponential * policy.jitter;
+  return Math.max(
+    0,
+    Math.round(exponential - spread + Math.random() * spread * 2),
+  );
+};
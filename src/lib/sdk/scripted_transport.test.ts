@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NovaSonicBidirectionalStreamClient } from "./client";
+import { ScriptedStreamTransport } from "./scripted_transport";
+
+const menuToolUse = {
+  toolUseId: "tool-1",
+  toolName: "getMenu",
+  contentId: "content-1",
+  content: JSON.stringify({ category: "drinks" }),
+};
+
+describe("ScriptedStreamTransport", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("runs a tool use round trip through the client", async () => {
+    const transport = new ScriptedStreamTransport(
+      [
+        {
+          waitFor: "textInput",
+          events: [
+            { toolUse: menuToolUse },
+            { contentEnd: { type: "TOOL", contentId: "content-1" } },
+          ],
+        },
+        {
+          waitFor: "toolResult",
+          events: [
+            {
+              textOutput: { role: "ASSISTANT", content: "We have lemonade." },
+            },
+          ],
+        },
+      ],
+      { endWhenScriptCompletes: true },
+    );
+    const client = new NovaSonicBidirectionalStreamClient(
+      {},
+      undefined,
+      transport,
+    );
+    const action = vi.fn(async () => JSON.stringify({ items: ["lemonade"] }));
+    client.setTool(
+      "getMenu",
+      { name: "getMenu", description: "Menu", inputSchema: { json: "{}" } },
+      action,
+    );
+
+    const session = client.createStreamSession("session-1");
+    const toolResults: unknown[] = [];
+    const outputs: unknown[] = [];
+    session.onEvent("toolResult", (data) => toolResults.push(data));
+    session.onEvent("textOutput", (data) => outputs.push(data));
+
+    const streaming = client.initiateSession("session-1");
+    await session.setupPromptStart();
+    await session.sendText("What drinks do you have?");
+    await streaming;
+
+    expect(action).toHaveBeenCalledWith(
+      "session-1",
+      JSON.stringify(menuToolUse),
+      true,
+      expect.any(AbortSignal),
+      "tool-1",
+    );
+    expect(toolResults).toEqual([
+      { toolUseId: "tool-1", result: '{"items":["lemonade"]}' },
+    ]);
+    expect(
+      transport
+        .getReceivedEventsOfType("contentStart")
+        .map(({ payload }) => payload)
+        .find((payload) => JSON.stringify(payload).includes('"TOOL"')),
+    ).toMatchObject({
+      role: "TOOL",
+      toolResultInputConfiguration: { toolUseId: "tool-1" },
+    });
+    expect(transport.getReceivedEventsOfType("toolResult")).toMatchObject([
+      { payload: { content: '{"items":["lemonade"]}' } },
+    ]);
+    expect(outputs).toEqual([
+      { role: "ASSISTANT", content: "We have lemonade." },
+    ]);
+
+    client.forceCloseSession("session-1");
+  });
+});
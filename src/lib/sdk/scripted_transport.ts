@@ -0,0 +1,228 @@
+import type {
+  StreamTransport,
+  StreamTransportEvent,
+  StreamTransportRequest,
+  StreamTransportResponse,
+} from "./transport";
+
+// A response event body, e.g. { textOutput: { role: "ASSISTANT", content: "Hi!" } }
+export type ScriptedEvent = Record<string, unknown>;
+
+// One block of response events played back by the scripted transport
+export interface ScriptStep {
+  // Request event name (audioInput, textInput, toolResult, ...) that must arrive before this step plays
+  waitFor?: string;
+  // Delay applied before each event of the step, in milliseconds
+  delayMs?: number;
+  events?: ScriptedEvent[];
+  // Emitted after the step's events to exercise the client's error handling
+  streamError?: {
+    type: "modelStreamErrorException" | "internalServerException";
+    message: string;
+  };
+}
+
+export interface ScriptedTransportOptions {
+  // End the response stream once the script is exhausted instead of waiting for the session to close
+  endWhenScriptCompletes?: boolean;
+}
+
+// Request event captured by the scripted transport, exposed for assertions in tests
+export interface ReceivedEvent {
+  type: string;
+  payload: unknown;
+}
+
+const isEventBody = (value: unknown): value is ScriptedEvent =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * In-process transport that replays a scripted sequence of Nova Sonic response events.
+ * Each step can wait for a request event (e.g. the first audioInput, or the toolResult the
+ * client sends after running a tool) so the whole tool-calling loop runs without AWS.
+ * An instance plays one session at a time; create a new one per session. When the
+ * session is renewed onto a new stream, playback continues where it left off.
+ */
+export class ScriptedStreamTransport implements StreamTransport {
+  public readonly name = "scripted";
+  private receivedEvents: ReceivedEvent[] = [];
+  private nextStepIndex = 0;
+  private requestCursor = 0; // Request events before this index were already matched by a step
+  private waiters = new Set<() => void>();
+
+  constructor(
+    private steps: ScriptStep[],
+    private options: ScriptedTransportOptions = {},
+  ) {}
+
+  /**
+   * Build a script from a recorded response event sequence, as captured from Bedrock.
+   * Playback starts after the first request event of type `initialTrigger`, and every
+   * TOOL contentEnd makes the following events wait for the client's toolResult.
+   */
+  static fromRecording(
+    recording: ScriptedEvent[],
+    options: ScriptedTransportOptions & {
+      initialTrigger?: string;
+      delayMs?: number;
+    } = {},
+  ): ScriptedStreamTransport {
+    const {
+      initialTrigger = "audioInput",
+      delayMs,
+      ...transportOptions
+    } = options;
+    const steps: ScriptStep[] = [];
+    let current: ScriptStep = { waitFor: initialTrigger, delayMs, events: [] };
+
+    for (const item of recording) {
+      // Accept both raw stream payloads ({ event: {...} }) and bare event bodies
+      const event = isEventBody(item.event) ? item.event : item;
+      current.events?.push(event);
+
+      if (isEventBody(event.contentEnd) && event.contentEnd.type === "TOOL") {
+        steps.push(current);
+        current = { waitFor: "toolResult", delayMs, events: [] };
+      }
+    }
+
+    if (current.events && current.events.length > 0) {
+      steps.push(current);
+    }
+
+    return new ScriptedStreamTransport(steps, transportOptions);
+  }
+
+  public async open(
+    request: StreamTransportRequest,
+  ): Promise<StreamTransportResponse> {
+    console.log(
+      `🎬 Opening scripted stream for model ${request.modelId} (${this.steps.length} steps)`,
+    );
+    const stream = { inputClosed: false };
+
+    // Consume request events in the background, like the service would
+    this.consumeRequestBody(request.body, stream);
+
+    return { body: this.playScript(stream) };
+  }
+
+  // Request events received so far, in arrival order
+  public getReceivedEvents(): ReceivedEvent[] {
+    return [...this.receivedEvents];
+  }
+
+  public getReceivedEventsOfType(type: string): ReceivedEvent[] {
+    return this.receivedEvents.filter((event) => event.type === type);
+  }
+
+  private async consumeRequestBody(
+    body: StreamTransportRequest["body"],
+    stream: StreamState,
+  ): Promise<void> {
+    try {
+      for await (const input of body) {
+        const bytes = input.chunk?.bytes;
+        if (!bytes) continue;
+
+        try {
+          const json = JSON.parse(new TextDecoder().decode(bytes));
+          const type = Object.keys(json.event || {})[0];
+          if (type) {
+            this.receivedEvents.push({ type, payload: json.event[type] });
+          }
+        } catch (error) {
+          console.error(
+            "🎬 Scripted transport could not parse request event:",
+            error,
+          );
+        }
+        this.notifyWaiters();
+      }
+    } catch (error) {
+      console.error("🎬 Scripted transport request stream failed:", error);
+    } finally {
+      stream.inputClosed = true;
+      this.notifyWaiters();
+    }
+  }
+
+  private notifyWaiters(): void {
+    const waiters = Array.from(this.waiters);
+    this.waiters.clear();
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  // Resolve with the index of the next unmatched request event of `type`,
+  // or -1 if the stream's request body closes first
+  private async waitForRequestEvent(
+    type: string,
+    stream: StreamState,
+  ): Promise<number> {
+    while (true) {
+      const index = this.receivedEvents.findIndex(
+        (event, i) => i >= this.requestCursor && event.type === type,
+      );
+      if (index >= 0) return index;
+      if (stream.inputClosed) return -1;
+
+      await this.nextRequestEvent();
+    }
+  }
+
+  private nextRequestEvent(): Promise<void> {
+    return new Promise<void>((resolve) => this.waiters.add(resolve));
+  }
+
+  private async *playScript(
+    stream: StreamState,
+  ): AsyncGenerator<StreamTransportEvent> {
+    const encoder = new TextEncoder();
+
+    while (this.nextStepIndex < this.steps.length) {
+      const stepIndex = this.nextStepIndex;
+      const step = this.steps[stepIndex];
+
+      if (step.waitFor) {
+        const index = await this.waitForRequestEvent(step.waitFor, stream);
+        if (index < 0) {
+          console.log(
+            `🎬 Request stream closed before step ${stepIndex} received "${step.waitFor}"`,
+          );
+          return;
+        }
+        // Another stream of the same session played this step while we waited
+        if (this.nextStepIndex !== stepIndex) continue;
+        this.requestCursor = index + 1;
+      }
+      this.nextStepIndex++;
+
+      for (const event of step.events ?? []) {
+        if (step.delayMs) {
+          await new Promise((resolve) => setTimeout(resolve, step.delayMs));
+        }
+        yield { chunk: { bytes: encoder.encode(JSON.stringify({ event })) } };
+      }
+
+      if (step.streamError) {
+        yield {
+          [step.streamError.type]: { message: step.streamError.message },
+        };
+      }
+    }
+
+    console.log("🎬 Scripted stream finished playing all steps");
+
+    // Bedrock keeps the stream open until the session ends
+    while (!this.options.endWhenScriptCompletes && !stream.inputClosed) {
+      await this.nextRequestEvent();
+    }
+  }
+}
+
+// Per-stream state; a renewed session opens a second stream on the same transport
+interface StreamState {
+  inputClosed: boolean;
+}
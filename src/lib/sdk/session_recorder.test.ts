@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NovaSonicBidirectionalStreamClient } from "./client";
+import { ScriptedStreamTransport } from "./scripted_transport";
+import {
+  createReplayTransport,
+  RecordingVersion,
+  SessionRecorder,
+  type SessionRecording,
+} from "./session_recorder";
+
+const menuToolUse = {
+  toolUseId: "tool-1",
+  toolName: "getMenu",
+  contentId: "content-1",
+  content: JSON.stringify({ category: "drinks" }),
+};
+
+// Ask for the drinks over the given transport and record the session until the answer arrives
+const recordConversation = async (
+  transport: ScriptedStreamTransport,
+): Promise<{ recording: SessionRecording; toolCalls: number }> => {
+  const client = new NovaSonicBidirectionalStreamClient(
+    {},
+    undefined,
+    transport,
+  );
+  let toolCalls = 0;
+  client.setTool(
+    "getMenu",
+    { name: "getMenu", description: "Menu", inputSchema: { json: "{}" } },
+    async () => {
+      toolCalls++;
+      return JSON.stringify({ items: ["lemonade"] });
+    },
+  );
+
+  const session = client.createStreamSession("session-1");
+  const recorder = client.startRecording("session-1");
+  const answered = new Promise((resolve) =>
+    session.onEvent("textOutput", resolve),
+  );
+
+  const streaming = client.initiateSession("session-1");
+  await session.setupPromptStart();
+  await session.sendText("What drinks do you have?");
+  await answered;
+  client.forceCloseSession("session-1");
+  await streaming;
+
+  return { recording: recorder.getRecording(), toolCalls };
+};
+
+const inboundEvents = (recording: SessionRecording) =>
+  recording.events
+    .filter((event) => event.direction === "inbound")
+    .map(({ type, data }) => ({ type, data }));
+
+describe("SessionRecorder", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("replays a recorded conversation with the tool running again", async () => {
+    const original = await recordConversation(
+      new ScriptedStreamTransport([
+        {
+          waitFor: "textInput",
+          events: [
+            { toolUse: menuToolUse },
+            { contentEnd: { type: "TOOL", contentId: "content-1" } },
+          ],
+        },
+        {
+          waitFor: "toolResult",
+          events: [
+            {
+              textOutput: { role: "ASSISTANT", content: "We have lemonade." },
+            },
+          ],
+        },
+      ]),
+    );
+    expect(inboundEvents(original.recording).map(({ type }) => type)).toEqual([
+      "toolUse",
+      "toolEnd",
+      "toolResult",
+      "textOutput",
+    ]);
+
+    const parsed = SessionRecorder.parseRecording(
+      JSON.stringify(original.recording),
+    );
+    const replay = await recordConversation(
+      createReplayTransport(parsed, { speed: 0 }),
+    );
+
+    expect(replay.toolCalls).toBe(1);
+    // Outbound events carry fresh prompt and content names, so only their order is compared
+    expect(replay.recording.events.map(({ type }) => type)).toEqual(
+      original.recording.events.map(({ type }) => type),
+    );
+    expect(inboundEvents(replay.recording)).toEqual(
+      inboundEvents(original.recording),
+    );
+  });
+
+  it("leaves the events the client raised itself out of the script", () => {
+    const recording: SessionRecording = {
+      recordingVersion: RecordingVersion,
+      recordedAt: new Date(0).toISOString(),
+      sessionId: "session-1",
+      modelId: "amazon.nova-sonic-v1:0",
+      voiceId: "tiffany",
+      includesAudio: false,
+      durationMs: 300,
+      events: [
+        {
+          direction: "outbound",
+          type: "audioInput",
+          timestamp: 0,
+          offsetMs: 0,
+          data: {},
+        },
+        {
+          direction: "inbound",
+          type: "textOutput",
+          timestamp: 100,
+          offsetMs: 100,
+          data: { role: "ASSISTANT", content: "Hello" },
+        },
+        {
+          direction: "inbound",
+          type: "reconnecting",
+          timestamp: 150,
+          offsetMs: 150,
+          data: { attempt: 1 },
+        },
+        {
+          direction: "inbound",
+          type: "reconnected",
+          timestamp: 200,
+          offsetMs: 200,
+          data: { attempt: 1 },
+        },
+        {
+          direction: "inbound",
+          type: "textOutput",
+          timestamp: 300,
+          offsetMs: 300,
+          data: { role: "ASSISTANT", content: "Still here" },
+        },
+      ],
+    };
+
+    expect(SessionRecorder.toScriptSteps(recording, { speed: 2 })).toEqual([
+      {
+        waitFor: "audioInput",
+        events: [{ textOutput: { role: "ASSISTANT", content: "Hello" } }],
+      },
+      {
+        delayMs: 100,
+        events: [{ textOutput: { role: "ASSISTANT", content: "Still here" } }],
+      },
+    ]);
+  });
+
+  it("rejects recordings it cannot replay", () => {
+    expect(() => SessionRecorder.parseRecording("{")).toThrow(
+      "Recording is not valid JSON",
+    );
+    expect(() =>
+      SessionRecorder.parseRecording(
+        JSON.stringify({ recordingVersion: "0.1", events: [] }),
+      ),
+    ).toThrow("Unsupported recording version: 0.1");
+    expect(() =>
+      SessionRecorder.parseRecording(
+        JSON.stringify({
+          recordingVersion: RecordingVersion,
+          events: [{ direction: "sideways", type: "textOutput", offsetMs: 0 }],
+        }),
+      ),
+    ).toThrow("Recording event 1 is malformed");
+  });
+});
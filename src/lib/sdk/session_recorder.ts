@@ -0,0 +1,281 @@
+import { ScriptedStreamTransport, type ScriptStep } from "./scripted_transport";
+
+export const RecordingVersion = "1.0";
+
+export type RecordedDirection = "inbound" | "outbound";
+
+// One event seen by the client: outbound events are queued for the model,
+// inbound events are dispatched to the session's handlers
+export interface RecordedEvent {
+  direction: RecordedDirection;
+  type: string;
+  timestamp: number; // Epoch milliseconds
+  offsetMs: number; // Milliseconds since the recording started
+  data: unknown;
+}
+
+// Portable recording of a whole conversation
+export interface SessionRecording {
+  recordingVersion: string;
+  recordedAt: string;
+  sessionId: string;
+  modelId: string;
+  voiceId: string;
+  includesAudio: boolean;
+  durationMs: number;
+  events: RecordedEvent[];
+}
+
+export interface SessionRecorderOptions {
+  // Keep base64 audio payloads; recordings grow by several MB per minute when enabled
+  includeAudio?: boolean;
+}
+
+export interface ReplayOptions {
+  // Playback speed multiplier for the recorded gaps between events; 0 plays without delays
+  speed?: number;
+}
+
+// Events the client synthesizes itself; they are regenerated during replay
+const CLIENT_EVENT_TYPES = new Set([
+  "toolResult",
+  "streamComplete",
+  "unknown",
+  "sessionRenewing",
+  "sessionRenewed",
+  "reconnecting",
+  "reconnected",
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Captures every inbound and outbound event of one session with timestamps.
+ * Attach it with NovaSonicBidirectionalStreamClient.startRecording().
+ */
+export class SessionRecorder {
+  private events: RecordedEvent[] = [];
+  private startedAt = Date.now();
+  private includeAudio: boolean;
+
+  constructor(
+    private sessionId: string,
+    private modelId: string,
+    private voiceId: string,
+    options: SessionRecorderOptions = {},
+  ) {
+    this.includeAudio = options.includeAudio ?? false;
+  }
+
+  // Record a request event as queued by addEventToSessionQueue ({ event: { <type>: data } })
+  public recordOutbound(event: unknown): void {
+    if (!isRecord(event) || !isRecord(event.event)) return;
+    const type = Object.keys(event.event)[0];
+    if (!type) return;
+    this.record("outbound", type, event.event[type]);
+  }
+
+  // Record a response event as dispatched by dispatchEvent
+  public recordInbound(type: string, data: unknown): void {
+    this.record("inbound", type, data);
+  }
+
+  public getEventCount(): number {
+    return this.events.length;
+  }
+
+  public getRecording(): SessionRecording {
+    const last = this.events[this.events.length - 1];
+    return {
+      recordingVersion: RecordingVersion,
+      recordedAt: new Date(this.startedAt).toISOString(),
+      sessionId: this.sessionId,
+      modelId: this.modelId,
+      voiceId: this.voiceId,
+      includesAudio: this.includeAudio,
+      durationMs: last ? last.offsetMs : 0,
+      events: [...this.events],
+    };
+  }
+
+  public serialize(): string {
+    return JSON.stringify(this.getRecording(), null, 2);
+  }
+
+  private record(
+    direction: RecordedDirection,
+    type: string,
+    data: unknown,
+  ): void {
+    const timestamp = Date.now();
+    this.events.push({
+      direction,
+      type,
+      timestamp,
+      offsetMs: timestamp - this.startedAt,
+      data: this.stripAudio(type, data),
+    });
+  }
+
+  private stripAudio(type: string, data: unknown): unknown {
+    if (
+      this.includeAudio ||
+      (type !== "audioInput" && type !== "audioOutput")
+    ) {
+      return data;
+    }
+    const { content, ...rest } = isRecord(data) ? data : {};
+    return {
+      ...rest,
+      contentLength: typeof content === "string" ? content.length : 0,
+    };
+  }
+
+  /**
+   * Parse and validate a recording file
+   */
+  static parseRecording(json: string): SessionRecording {
+    let recording: unknown;
+    try {
+      recording = JSON.parse(json);
+    } catch {
+      throw new Error("Recording is not valid JSON");
+    }
+
+    if (!isRecord(recording)) {
+      throw new Error("Recording must be an object");
+    }
+    if (recording.recordingVersion !== RecordingVersion) {
+      throw new Error(
+        `Unsupported recording version: ${recording.recordingVersion}`,
+      );
+    }
+    if (!Array.isArray(recording.events)) {
+      throw new Error("Recording has no events");
+    }
+    recording.events.forEach((event: unknown, index: number) => {
+      if (
+        !isRecord(event) ||
+        (event.direction !== "inbound" && event.direction !== "outbound") ||
+        typeof event.type !== "string" ||
+        typeof event.offsetMs !== "number"
+      ) {
+        throw new Error(`Recording event ${index + 1} is malformed`);
+      }
+    });
+
+    return recording as unknown as SessionRecording;
+  }
+
+  /**
+   * Convert a recording into script steps that reproduce the model's side of the
+   * conversation. Playback starts on the request event that preceded the first
+   * response, and after every tool call it waits for the client's new toolResult,
+   * so tools run again against the live components.
+   */
+  static toScriptSteps(
+    recording: SessionRecording,
+    options: ReplayOptions = {},
+  ): ScriptStep[] {
+    const speed = options.speed ?? 1;
+    const steps: ScriptStep[] = [];
+    let lastOutboundType: string | undefined;
+    let lastInboundOffset: number | undefined;
+    let waitForToolResult = false;
+
+    for (const recorded of recording.events) {
+      if (recorded.direction === "outbound") {
+        lastOutboundType = recorded.type;
+        continue;
+      }
+
+      const step = SessionRecorder.toScriptStep(recorded);
+      if (!step) continue;
+
+      if (lastInboundOffset === undefined) {
+        step.waitFor = lastOutboundType;
+      } else if (waitForToolResult) {
+        step.waitFor = "toolResult";
+      }
+      // The first response and post-tool responses are paced by the client, not the clock
+      if (lastInboundOffset !== undefined && !step.waitFor && speed > 0) {
+        step.delayMs = Math.max(
+          0,
+          (recorded.offsetMs - lastInboundOffset) / speed,
+        );
+      }
+
+      waitForToolResult = recorded.type === "toolEnd";
+      lastInboundOffset = recorded.offsetMs;
+      steps.push(step);
+    }
+
+    return steps;
+  }
+
+  // Rebuild the raw stream event for a dispatched inbound event
+  private static toScriptStep(recorded: RecordedEvent): ScriptStep | null {
+    const { type, data } = recorded;
+    const body = isRecord(data) ? data : {};
+
+    if (CLIENT_EVENT_TYPES.has(type)) return null;
+
+    if (type === "error") {
+      // Only errors reported by the stream itself can be replayed
+      if (
+        body.type === "modelStreamErrorException" ||
+        body.type === "internalServerException"
+      ) {
+        const details = isRecord(body.details) ? body.details : {};
+        return {
+          streamError: {
+            type: body.type,
+            message:
+              typeof details.message === "string"
+                ? details.message
+                : "Replayed stream error",
+          },
+        };
+      }
+      return null;
+    }
+
+    if (type === "toolEnd") {
+      return { events: [{ contentEnd: body.contentEnd ?? { type: "TOOL" } }] };
+    }
+
+    // Audio payloads are dropped unless the recording included them
+    if (type === "audioOutput" && typeof body.content !== "string") {
+      return null;
+    }
+
+    if (
+      [
+        "contentStart",
+        "textOutput",
+        "audioOutput",
+        "toolUse",
+        "contentEnd",
+      ].includes(type)
+    ) {
+      return { events: [{ [type]: data }] };
+    }
+
+    // Other events are dispatched with the whole event body
+    return { events: [body[type] !== undefined ? body : { [type]: data }] };
+  }
+}
+
+// Transport that feeds a recording back through the client's response processing
+export const createReplayTransport = (
+  recording: SessionRecording,
+  options: ReplayOptions = {},
+): ScriptedStreamTransport => {
+  console.log(
+    `⏯️ Creating replay transport for session ${recording.sessionId} (${recording.events.length} recorded events)`,
+  );
+  return new ScriptedStreamTransport(
+    SessionRecorder.toScriptSteps(recording, options),
+  );
+};
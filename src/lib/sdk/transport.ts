@@ -0,0 +1,59 @@
+import {
+  BedrockRuntimeClient,
+  type BedrockRuntimeClientConfig,
+  InvokeModelWithBidirectionalStreamCommand,
+  type InvokeModelWithBidirectionalStreamInput,
+} from "@aws-sdk/client-bedrock-runtime";
+
+// Request handed to a transport when a session opens its bidirectional stream
+export interface StreamTransportRequest {
+  readonly modelId: string;
+  readonly body: AsyncIterable<InvokeModelWithBidirectionalStreamInput>;
+}
+
+// Shape of the events read by NovaSonicBidirectionalStreamClient.processResponseStream
+export interface StreamTransportEvent {
+  chunk?: { bytes?: Uint8Array };
+  modelStreamErrorException?: { message?: string };
+  internalServerException?: { message?: string };
+}
+
+export interface StreamTransportResponse {
+  readonly body: AsyncIterable<StreamTransportEvent>;
+}
+
+// Opens a bidirectional stream for one session. The client writes request events
+// to `body` and reads response events from the returned `body`.
+export interface StreamTransport {
+  readonly name: string;
+  open(request: StreamTransportRequest): Promise<StreamTransportResponse>;
+}
+
+// Default transport: Amazon Bedrock InvokeModelWithBidirectionalStream
+export class BedrockStreamTransport implements StreamTransport {
+  public readonly name = "bedrock";
+  private bedrockRuntimeClient: BedrockRuntimeClient;
+
+  constructor(config: BedrockRuntimeClientConfig) {
+    this.bedrockRuntimeClient = new BedrockRuntimeClient({
+      ...config,
+    });
+  }
+
+  public async open(
+    request: StreamTransportRequest,
+  ): Promise<StreamTransportResponse> {
+    const response = await this.bedrockRuntimeClient.send(
+      new InvokeModelWithBidirectionalStreamCommand({
+        modelId: request.modelId,
+        body: request.body,
+      }),
+    );
+
+    if (!response.body) {
+      throw new Error("Bedrock returned a response without a stream body");
+    }
+
+    return { body: response.body as AsyncIterable<StreamTransportEvent> };
+  }
+}
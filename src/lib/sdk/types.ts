@@ -4,6 +4,34 @@ export interface InferenceConfig {
   readonly temperature: number;
 }
 
+// Per-session settings resolved from the agent configuration
+export interface SessionConfig {
+  readonly modelId: string;
+  readonly voiceId: string;
+  readonly inferenceConfig: InferenceConfig;
+}
+
+// Prior-turn text replayed into a renewed session
+export interface HistoryMessage {
+  readonly role: "USER" | "ASSISTANT";
+  readonly content: string;
+}
+
+export interface SessionRenewalOptions {
+  // Renew this long after the stream opened (defaults to just before the connection limit)
+  readonly renewAfterMs?: number;
+  // Chat history to carry over into the new stream
+  readonly getHistory?: () => HistoryMessage[];
+}
+
+// Retry budget and backoff used to restore a session after a stream error
+export interface ReconnectPolicy {
+  readonly maxRetries: number;
+  readonly baseDelayMs: number;
+  readonly maxDelayMs: number;
+  readonly jitter: number; // Fraction of the delay randomized in both directions (0-1)
+}
+
 export type ContentType = "AUDIO" | "TEXT" | "TOOL";
 export type AudioType = "SPEECH";
 export type AudioMediaType = "audio/lpcm";
@@ -0,0 +1,362 @@
+import {
+  type AxiosAdapter,
+  AxiosError,
+  type AxiosResponse,
+  CanceledError,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import type { MockHttpConfig, MockHttpRoute } from "../util/SettingsManager";
+
+// Request as seen by templates and route scripts
+export interface MockHttpRequest {
+  method: string;
+  url: string; // Full URL including the query string
+  path: string; // URL without the query string
+  query: Record<string, string>;
+  params: Record<string, string>; // Captured ":name" segments of the URL pattern
+  headers: Record<string, string>;
+  body: unknown; // Parsed JSON body, or the raw text
+}
+
+// Response of a route; scripts may change status and headers before returning the data
+export interface MockHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+const STATUS_TEXTS: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Match a URL against a pattern where "*" matches any characters and ":name" one path segment.
+ * Patterns without a "?" ignore the query string. Returns the captured segments, or null.
+ */
+export const matchUrlPattern = (
+  pattern: string,
+  url: string,
+): Record<string, string> | null => {
+  const trimmed = pattern.trim();
+  const target = trimmed.includes("?") ? url : url.split("?")[0];
+  const names: string[] = [];
+  const source = trimmed
+    .split(/(\*|:[A-Za-z_]\w*)/)
+    .map((part) => {
+      if (part === "*") return ".*";
+      if (/^:[A-Za-z_]\w*$/.test(part)) {
+        names.push(part.slice(1));
+        return "([^/?#]+)";
+      }
+      return escapeRegExp(part);
+    })
+    .join("");
+
+  const match = new RegExp(`^${source}$`).exec(target);
+  if (!match) return null;
+  return names.reduce<Record<string, string>>((params, name, index) => {
+    params[name] = decodeURIComponent(match[index + 1]);
+    return params;
+  }, {});
+};
+
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== "string") return data ?? null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const readPath = (source: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value === null || value === undefined
+          ? undefined
+          : (value as Record<string, unknown>)[key],
+      source,
+    );
+
+const createId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Replace {{path}} placeholders; a placeholder that is a whole JSON string keeps the value's type
+const renderTemplate = (
+  template: string,
+  request: MockHttpRequest,
+): unknown => {
+  const scope = {
+    request,
+    query: request.query,
+    params: request.params,
+    body: request.body,
+    headers: request.headers,
+    now: new Date().toISOString(),
+    timestamp: Date.now(),
+    uuid: createId(),
+  };
+  const resolve = (path: string) => readPath(scope, path.trim());
+
+  const rendered = template
+    .replace(/"\{\{([^}]+)\}\}"/g, (_, path: string) =>
+      JSON.stringify(resolve(path) ?? null),
+    )
+    .replace(/\{\{([^}]+)\}\}/g, (_, path: string) => {
+      const value = resolve(path);
+      const text =
+        value === undefined || value === null
+          ? ""
+          : typeof value === "string"
+            ? value
+            : JSON.stringify(value);
+      // Inline values usually sit inside a JSON string, so they are escaped for one
+      return JSON.stringify(text).slice(1, -1);
+    });
+  return parseBody(rendered);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+/**
+ * Describe an axios request the way routes see it: full URL with the base URL and params merged, parsed body
+ */
+export const createHttpRequest = (
+  config: InternalAxiosRequestConfig,
+  method: string,
+): MockHttpRequest => {
+  const rawUrl = config.url || "";
+  const base =
+    config.baseURL && !/^[a-z][a-z\d+\-.]*:\/\//i.test(rawUrl)
+      ? `${config.baseURL.replace(/\/+$/, "")}/${rawUrl.replace(/^\/+/, "")}`
+      : rawUrl;
+
+  const [path, queryString = ""] = base.split("?");
+  const query: Record<string, string> = Object.fromEntries(
+    new URLSearchParams(queryString),
+  );
+  Object.entries(config.params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      query[key] = String(value);
+    }
+  });
+  const search = new URLSearchParams(query).toString();
+
+  const headers: Record<string, string> = {};
+  const rawHeaders =
+    typeof config.headers?.toJSON === "function"
+      ? config.headers.toJSON()
+      : { ...config.headers };
+  Object.entries(rawHeaders).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      headers[key] = String(value);
+    }
+  });
+  return {
+    method,
+    url: search ? `${path}?${search}` : path,
+    path,
+    query,
+    params: {},
+    headers,
+    body: parseBody(config.data),
+  };
+};
+
+/**
+ * Resolve or reject like the built-in adapters, honouring validateStatus
+ */
+export const settleHttpResponse = (
+  config: InternalAxiosRequestConfig,
+  response: MockHttpResponse,
+): AxiosResponse => {
+  const axiosResponse: AxiosResponse = {
+    data: response.data,
+    status: response.status,
+    statusText: STATUS_TEXTS[response.status] || String(response.status),
+    headers: response.headers,
+    config,
+    request: { mocked: true },
+  };
+
+  if (config.validateStatus && !config.validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      axiosResponse.request,
+      axiosResponse,
+    );
+  }
+  return axiosResponse;
+};
+
+/**
+ * MockHttpAdapter - axios adapter that answers tool requests from the mock routes in settings,
+ * so tools can be demoed and tested without their backend.
+ */
+export class MockHttpAdapter {
+  // Values kept by route scripts between requests, by route id
+  private static routeState = new Map<string, Record<string, unknown>>();
+
+  private constructor() {}
+
+  /**
+   * Find the first route matching a request
+   */
+  static findRoute(
+    routes: MockHttpRoute[],
+    method: string,
+    url: string,
+  ): { route: MockHttpRoute; params: Record<string, string> } | null {
+    for (const route of routes) {
+      const routeMethod = route.method.toUpperCase();
+      if (routeMethod !== "ANY" && routeMethod !== method.toUpperCase())
+        continue;
+      const params = matchUrlPattern(route.urlPattern, url);
+      if (params) return { route, params };
+    }
+    return null;
+  }
+
+  /**
+   * Build the response of a route for a request
+   */
+  static async respond(
+    route: MockHttpRoute,
+    request: MockHttpRequest,
+  ): Promise<MockHttpResponse> {
+    const response: MockHttpResponse = {
+      status: route.status,
+      headers: { "content-type": "application/json" },
+      data: null,
+    };
+
+    switch (route.responseType) {
+      case "json":
+        response.data = JSON.parse(route.body);
+        break;
+      case "template":
+        response.data = renderTemplate(route.body, request);
+        break;
+      case "script": {
+        let state = MockHttpAdapter.routeState.get(route.id);
+        if (!state) {
+          state = {};
+          MockHttpAdapter.routeState.set(route.id, state);
+        }
+        const script = new Function(
+          "request",
+          "response",
+          "state",
+          `"use strict"; return (async () => { ${route.body} })();`,
+        );
+        response.data = (await script(request, response, state)) ?? null;
+        break;
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Create an adapter that answers from the mock routes while mocking is enabled.
+   * The config is read on every request, so changes in settings apply immediately;
+   * other requests go to the fallback adapter.
+   */
+  static createAdapter(
+    getConfig: () => MockHttpConfig | undefined,
+    fallback: AxiosAdapter,
+  ): AxiosAdapter {
+    return async (
+      config: InternalAxiosRequestConfig,
+    ): Promise<AxiosResponse> => {
+      const mockHttp = getConfig();
+      if (!mockHttp?.enabled) {
+        return fallback(config);
+      }
+
+      const method = (config.method || "get").toUpperCase();
+      const request = createHttpRequest(config, method);
+      const match = MockHttpAdapter.findRoute(
+        mockHttp.routes,
+        method,
+        request.url,
+      );
+
+      if (!match) {
+        if (mockHttp.passthrough) {
+          console.log(
+            `🎭 Mock HTTP: no route for ${method} ${request.url}, sending it to the network`,
+          );
+          return fallback(config);
+        }
+        console.warn(`🎭 Mock HTTP: no route for ${method} ${request.url}`);
+        return settleHttpResponse(config, {
+          status: 404,
+          headers: {},
+          data: { error: `No mock route for ${method} ${request.url}` },
+        });
+      }
+
+      const { route, params } = match;
+      if (route.delayMs) {
+        await wait(route.delayMs, config.signal as AbortSignal | undefined);
+      }
+
+      let response: MockHttpResponse;
+      try {
+        response = await MockHttpAdapter.respond(route, { ...request, params });
+      } catch (error) {
+        console.error(
+          `🎭 Mock HTTP: route ${route.method} ${route.urlPattern} failed:`,
+          error,
+        );
+        response = {
+          status: 500,
+          headers: {},
+          data: {
+            error: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+
+      console.log(
+        `🎭 Mock HTTP: ${method} ${request.url} → ${response.status} (${route.urlPattern})`,
+      );
+      return settleHttpResponse(config, response);
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import type { ToolExecutionStatus } from "./ToolExecutor";
+
+// One tool call as recorded for post-mortems
+export interface ToolAuditEntry {
+  id: string;
+  toolUseId: string | null; // Set for calls from the model; null for init, test and hook runs
+  toolName: string;
+  sessionId: string;
+  agentTriggered: boolean;
+  status: ToolExecutionStatus;
+  input: unknown; // Parsed input as passed to the script
+  result: string | null; // String returned to the model
+  error: string | null;
+  startedAt: string;
+  durationMs: number;
+}
+
+// Audit entries of one session
+export interface ToolAuditSession {
+  sessionId: string;
+  startedAt: string;
+  entries: ToolAuditEntry[];
+}
+
+type ToolAuditListener = (entry: ToolAuditEntry) => void;
+
+// Oldest sessions and entries are dropped beyond these limits
+const MAX_AUDIT_SESSIONS = 20;
+const MAX_ENTRIES_PER_SESSION = 500;
+
+const CSV_COLUMNS: (keyof ToolAuditEntry)[] = [
+  "startedAt",
+  "sessionId",
+  "toolUseId",
+  "toolName",
+  "agentTriggered",
+  "status",
+  "durationMs",
+  "input",
+  "result",
+  "error",
+];
+
+const toCSVCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * ToolAuditLog - structured record of every tool call, kept per session in memory.
+ * Exported as JSON or CSV from the Tool Calls panel or by tools through the `audit` component.
+ */
+export class ToolAuditLog {
+  private static sessions = new Map<string, ToolAuditSession>();
+  private static listeners = new Set<ToolAuditListener>();
+
+  private constructor() {}
+
+  /**
+   * Add an entry to the log of its session
+   */
+  static record(entry: Omit<ToolAuditEntry, "id">): ToolAuditEntry {
+    const recorded: ToolAuditEntry = {
+      id: `${entry.toolUseId || entry.toolName}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      ...entry,
+    };
+
+    let session = ToolAuditLog.sessions.get(entry.sessionId);
+    if (!session) {
+      session = {
+        sessionId: entry.sessionId,
+        startedAt: entry.startedAt,
+        entries: [],
+      };
+      ToolAuditLog.sessions.set(entry.sessionId, session);
+      if (ToolAuditLog.sessions.size > MAX_AUDIT_SESSIONS) {
+        const oldest = ToolAuditLog.sessions.keys().next().value as string;
+        ToolAuditLog.sessions.delete(oldest);
+      }
+    }
+    session.entries.push(recorded);
+    if (session.entries.length > MAX_ENTRIES_PER_SESSION) {
+      session.entries.splice(
+        0,
+        session.entries.length - MAX_ENTRIES_PER_SESSION,
+      );
+    }
+
+    ToolAuditLog.listeners.forEach((listener) => {
+      try {
+        listener(recorded);
+      } catch (error) {
+        console.error("Error in tool audit listener:", error);
+      }
+    });
+    return recorded;
+  }
+
+  /**
+   * Sessions with audit entries, most recent first
+   */
+  static getSessions(): ToolAuditSession[] {
+    return Array.from(ToolAuditLog.sessions.values()).reverse();
+  }
+
+  /**
+   * Entries of one session in call order, or of every session when no id is given
+   */
+  static getEntries(sessionId?: string): ToolAuditEntry[] {
+    if (sessionId) {
+      return [...(ToolAuditLog.sessions.get(sessionId)?.entries || [])];
+    }
+    return Array.from(ToolAuditLog.sessions.values()).flatMap(
+      (session) => session.entries,
+    );
+  }
+
+  /**
+   * Forget the entries of one session, or of every session when no id is given
+   */
+  static clear(sessionId?: string): void {
+    if (sessionId) {
+      ToolAuditLog.sessions.delete(sessionId);
+    } else {
+      ToolAuditLog.sessions.clear();
+    }
+    console.log(
+      `📋 Tool audit log cleared${sessionId ? ` for session ${sessionId}` : ""}`,
+    );
+  }
+
+  /**
+   * Listen for new entries. Returns a function that removes the listener.
+   */
+  static subscribe(listener: ToolAuditListener): () => void {
+    ToolAuditLog.listeners.add(listener);
+    return () => {
+      ToolAuditLog.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Entries as a pretty-printed JSON array
+   */
+  static exportJSON(sessionId?: string): string {
+    return JSON.stringify(ToolAuditLog.getEntries(sessionId), null, 2);
+  }
+
+  /**
+   * Entries as CSV with a header row; input is written as JSON
+   */
+  static exportCSV(sessionId?: string): string {
+    const rows = ToolAuditLog.getEntries(sessionId).map((entry) =>
+      CSV_COLUMNS.map((column) => toCSVCell(entry[column])).join(","),
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+  }
+}
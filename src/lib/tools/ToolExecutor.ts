@@ -1,4 +1,15 @@
-import { SettingsManager } from '../util/SettingsManager';
+import type { AxiosRequestConfig, AxiosStatic } from 'axios';
+import {
+  SettingsManager,
+  type ToolComparisonOperator,
+  type ToolExecutionMode,
+  type ToolPermissions,
+  type ToolPostHook,
+  type ToolPrecondition
+} from '../util/SettingsManager';
+import { ToolAuditLog } from './ToolAuditLog';
+import { type ToolInputIssue, ToolInputValidator } from './ToolInputValidator';
+import { ToolSandbox } from './ToolSandbox';
 
 // Interface for tool configuration from settings
 interface ToolConfig {
@@ -10,10 +21,16 @@ interface ToolConfig {
   script: string;
   run_after_app_init: boolean;
   order: number;
+  timeoutMs?: number;
+  timeoutFallback?: string;
+  executionMode?: ToolExecutionMode;
+  permissions?: ToolPermissions;
+  preconditions?: ToolPrecondition[];
+  postHooks?: ToolPostHook[];
 }
 
 // Interface for tool execution context
-interface ToolExecutionContext {
+export interface ToolExecutionContext {
   axios: any;
   components: Record<string, any>;
   utils: Record<string, any>;
@@ -29,15 +46,191 @@ export interface ProcessedTool {
     description: string;
     inputSchema: any;
   };
-  action: (sessionId: string, inputFromNovaSonic: string, agentTriggered?: boolean) => Promise<string>;
+  action: ToolAction;
 }
 
+// Executes a tool; the optional signal cancels the call, e.g. when the voice session closes
+export type ToolAction = (
+  sessionId: string,
+  inputFromNovaSonic: string,
+  agentTriggered?: boolean,
+  signal?: AbortSignal,
+  toolUseId?: string
+) => Promise<string>;
+
+// 'failure': the script completed but reported a failure in its result
+export type ToolExecutionStatus = 'success' | 'failure' | 'error' | 'timeout' | 'cancelled' | 'invalid' | 'blocked';
+
+// One entry of the tool execution log
+export interface ToolExecutionRecord {
+  id: string;
+  toolName: string;
+  sessionId: string;
+  agentTriggered: boolean;
+  status: ToolExecutionStatus;
+  startedAt: string;
+  durationMs: number;
+  timeoutMs: number;
+  message?: string;
+}
+
+type ToolExecutionListener = (record: ToolExecutionRecord) => void;
+
+export type ToolConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// Receives console output of a tool script
+export type ToolConsoleListener = (level: ToolConsoleLevel, args: unknown[]) => void;
+
+// Options of a single tool run
+interface ToolRunOptions {
+  sessionId: string;
+  inputFromNovaSonic: string;
+  agentTriggered: boolean;
+  signal?: AbortSignal;
+  toolUseId?: string; // Id of the model's tool use, kept in the audit log
+  context?: ToolExecutionContext; // Replaces the live execution context, e.g. with mocks in tests
+  onConsole?: ToolConsoleListener;
+  validateInput?: boolean; // Check the input against the tool's schema; defaults to agentTriggered
+  enforceRules?: boolean; // Check preconditions and run post-hooks; defaults to agentTriggered
+}
+
+// Result returned to the model together with the logged execution
+export interface ToolRunOutcome {
+  result: string;
+  record: ToolExecutionRecord;
+}
+
+const MAX_EXECUTION_LOG_ENTRIES = 200;
+
+// Sessions whose tool history is kept for precondition checks
+const MAX_TRACKED_SESSIONS = 50;
+
+const CONSOLE_LEVELS: ToolConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+// Sandboxed tools get no capabilities unless their manifest grants them
+const NO_PERMISSIONS: ToolPermissions = { allowedHosts: [], allowedComponents: [] };
+
+// Wrap a tool script so the function body defines `execute` and calls it with the named parameters
+const wrapToolScript = (script: string): string => `
+        ${script} 
+        // Call the execute function that should be defined in the script
+        if (typeof execute === 'function') {
+          globalThis.console.log('🔧 ToolExecutor::executeScript::Calling execute function with input:', arguments.length);
+          const params = {};
+          for(let i = 0; i < paramNames.length; i++) {
+            params[paramNames[i]] = arguments[i];
+          }
+          return execute(params);
+        } else {
+          throw new Error('Tool script must define an async function named "execute"');
+        }
+      `;
+
+const OPERATOR_LABELS: Record<ToolComparisonOperator, string> = {
+  truthy: 'must return a value',
+  falsy: 'must return nothing',
+  '==': 'must equal',
+  '!=': 'must not equal',
+  '>': 'must be greater than',
+  '>=': 'must be at least',
+  '<': 'must be less than',
+  '<=': 'must be at most'
+};
+
+// Requirement of a precondition in words, used for the model and the settings UI
+export const describePrecondition = (condition: ToolPrecondition): string => {
+  switch (condition.type) {
+    case 'toolSucceeded':
+      return `${condition.tool} must succeed first`;
+    case 'toolNotSucceeded':
+      return `not available after ${condition.tool} succeeded`;
+    case 'cartNotEmpty':
+      return 'the cart must not be empty';
+    case 'componentState': {
+      const label = OPERATOR_LABELS[condition.operator];
+      const call = `${condition.component}.${condition.method}()`;
+      return condition.operator === 'truthy' || condition.operator === 'falsy'
+        ? `${call} ${label}`
+        : `${call} ${label} ${JSON.stringify(condition.value)}`;
+    }
+  }
+};
+
+const compareValues = (actual: unknown, operator: ToolComparisonOperator, expected: unknown): boolean => {
+  switch (operator) {
+    case 'truthy':
+      return Array.isArray(actual) ? actual.length > 0 : Boolean(actual);
+    case 'falsy':
+      return Array.isArray(actual) ? actual.length === 0 : !actual;
+    case '==':
+      return actual === expected || String(actual) === String(expected);
+    case '!=':
+      return actual !== expected && String(actual) !== String(expected);
+    case '>':
+      return Number(actual) > Number(expected);
+    case '>=':
+      return Number(actual) >= Number(expected);
+    case '<':
+      return Number(actual) < Number(expected);
+    case '<=':
+      return Number(actual) <= Number(expected);
+  }
+};
+
+// Scripts report failures in their result as well, e.g. { "success": false } or { "error": true }
+const isSuccessfulResult = (result: string): boolean => {
+  try {
+    const parsed = JSON.parse(result);
+    return !(parsed && typeof parsed === 'object' && (parsed.error === true || parsed.success === false));
+  } catch {
+    return true;
+  }
+};
+
+// Console passed to a script as `console`; output still reaches the browser console
+const createScriptConsole = (listener: ToolConsoleListener): Record<ToolConsoleLevel, (...args: unknown[]) => void> => {
+  const scriptConsole = {} as Record<ToolConsoleLevel, (...args: unknown[]) => void>;
+  for (const level of CONSOLE_LEVELS) {
+    scriptConsole[level] = (...args: unknown[]) => {
+      console[level](...args);
+      listener(level, args);
+    };
+  }
+  return scriptConsole;
+};
+
+// Axios wrapper that attaches the call's AbortSignal to every request made by a tool script
+const withAbortSignal = (axios: AxiosStatic, signal: AbortSignal): AxiosStatic => {
+  const withSignal = <D>(config: AxiosRequestConfig<D> = {}): AxiosRequestConfig<D> => ({ signal, ...config });
+  const bound = Object.assign(
+    (urlOrConfig: string | AxiosRequestConfig, config?: AxiosRequestConfig) =>
+      typeof urlOrConfig === 'string'
+        ? axios(urlOrConfig, withSignal(config))
+        : axios(withSignal(urlOrConfig)),
+    axios
+  );
+
+  bound.request = <T, R, D>(config: AxiosRequestConfig<D>) => axios.request<T, R, D>(withSignal(config));
+  for (const method of ['get', 'delete', 'head', 'options'] as const) {
+    bound[method] = <T, R, D>(url: string, config?: AxiosRequestConfig<D>) =>
+      axios[method]<T, R, D>(url, withSignal(config));
+  }
+  for (const method of ['post', 'put', 'patch'] as const) {
+    bound[method] = <T, R, D>(url: string, data?: D, config?: AxiosRequestConfig<D>) =>
+      axios[method]<T, R, D>(url, data, withSignal(config));
+  }
+  return bound;
+};
+
 /**
  * ToolExecutor class that processes user-defined tools and creates executable functions
  * Integrates with existing client.ts tool registration system
  */
 export class ToolExecutor {
   private executionContext: ToolExecutionContext | null = null;
+  private executionLog: ToolExecutionRecord[] = [];
+  private executionListeners = new Set<ToolExecutionListener>();
+  private toolHistory = new Map<string, Set<string>>(); // Tools that succeeded, by session
   
   constructor() {
     console.log('🔧 ToolExecutor initialized');
@@ -52,6 +245,59 @@ export class ToolExecutor {
     console.log('🔧 ToolExecutor context updated with components:', Object.keys(context.components));
   }
   
+  /**
+   * Get logged tool executions, newest first, optionally for one tool
+   */
+  public getExecutionLog(toolName?: string): ToolExecutionRecord[] {
+    const records = toolName
+      ? this.executionLog.filter(record => record.toolName === toolName)
+      : this.executionLog;
+    return [...records].reverse();
+  }
+
+  /**
+   * Listen for completed tool executions. Returns a function that removes the listener.
+   */
+  public onExecution(listener: ToolExecutionListener): () => void {
+    this.executionListeners.add(listener);
+    return () => {
+      this.executionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a tool once outside a voice session, e.g. from the Test panel of the tool editor.
+   * The context defaults to the live one; the script's console output goes to onConsole.
+   */
+  public async testTool(
+    toolConfig: ToolConfig,
+    input: unknown,
+    options: { context?: ToolExecutionContext; onConsole?: ToolConsoleListener; signal?: AbortSignal } = {}
+  ): Promise<ToolRunOutcome> {
+    return this.runTool(toolConfig, {
+      sessionId: 'test',
+      inputFromNovaSonic: JSON.stringify({ content: JSON.stringify(input) }),
+      agentTriggered: false,
+      validateInput: true,
+      ...options
+    });
+  }
+
+  private recordExecution(record: ToolExecutionRecord): void {
+    this.executionLog.push(record);
+    if (this.executionLog.length > MAX_EXECUTION_LOG_ENTRIES) {
+      this.executionLog.splice(0, this.executionLog.length - MAX_EXECUTION_LOG_ENTRIES);
+    }
+
+    this.executionListeners.forEach(listener => {
+      try {
+        listener(record);
+      } catch (error) {
+        console.error('Error in tool execution listener:', error);
+      }
+    });
+  }
+
   /**
    * Load tools from configuration and process them for registration
    * Returns an array of ProcessedTool objects ready for client.ts registration
@@ -121,7 +367,7 @@ export class ToolExecutor {
     };
     
     // Create the action function that will be executed when the tool is called
-    const action = this.createToolAction(toolConfig.script, toolConfig.tool_name);
+    const action = this.createToolAction(toolConfig);
     
     const processedTool = {
       toolname: toolConfig.tool_name,
@@ -140,73 +386,352 @@ export class ToolExecutor {
   
   /**
    * Create an executable action function from tool script
-   * This function will be called by client.ts when the AI invokes the tool
+   * This function will be called by client.ts when the AI invokes the tool.
    */
-  private createToolAction(script: string, toolName: string): (sessionId: string, inputFromNovaSonic: string, agentTriggered?: boolean) => Promise<string> {
-    return async (sessionId: string, inputFromNovaSonic: string, agentTriggered: boolean = true): Promise<string> => {
-      if (!this.executionContext) {
-        throw new Error('Tool execution context not set. Make sure ToolExecutor.setExecutionContext() is called.');
-      }
+  private createToolAction(toolConfig: ToolConfig): ToolAction {
+    return async (
+      sessionId: string,
+      inputFromNovaSonic: string,
+      agentTriggered: boolean = true,
+      signal?: AbortSignal,
+      toolUseId?: string
+    ): Promise<string> => {
+      const { result } = await this.runTool(toolConfig, { sessionId, inputFromNovaSonic, agentTriggered, signal, toolUseId });
+      return result;
+    };
+  }
+
+  /**
+   * Run a tool script once and log the execution.
+   * Each run gets a deadline; on timeout the script is aborted and the tool's fallback result is returned.
+   */
+  private async runTool(toolConfig: ToolConfig, options: ToolRunOptions): Promise<ToolRunOutcome> {
+    const { script, tool_name: toolName } = toolConfig;
+    const { sessionId, inputFromNovaSonic, agentTriggered, signal, onConsole } = options;
+    const executionContext = options.context ?? this.executionContext;
+    const enforceRules = options.enforceRules ?? agentTriggered;
+
+    if (!executionContext) {
+      throw new Error('Tool execution context not set. Make sure ToolExecutor.setExecutionContext() is called.');
+    }
+
+    const timeoutMs = SettingsManager.getToolTimeout(toolConfig, SettingsManager.getAgentConfig());
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let handleCancel: (() => void) | undefined;
+    let parsedInput: unknown = {};
+
+    const record = (status: ToolExecutionStatus, result: string, message?: string): ToolExecutionRecord => {
+      const entry: ToolExecutionRecord = {
+        id: `${toolName}-${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+        toolName,
+        sessionId,
+        agentTriggered,
+        status,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        timeoutMs,
+        message
+      };
+      this.recordExecution(entry);
+      ToolAuditLog.record({
+        toolUseId: options.toolUseId ?? null,
+        toolName,
+        sessionId,
+        agentTriggered,
+        status,
+        input: parsedInput,
+        result,
+        error: status === 'success' ? null : message ?? null,
+        startedAt: entry.startedAt,
+        durationMs: entry.durationMs
+      });
+      return entry;
+    };
+    
+    try {
+      console.log(`🔧 Executing tool: ${toolName} for session: ${sessionId} (agentTriggered: ${agentTriggered}, timeout: ${timeoutMs}ms)`);
       
+      // Parse input from Nova Sonic
       try {
-        console.log(`🔧 Executing tool: ${toolName} for session: ${sessionId} (agentTriggered: ${agentTriggered})`);
-        
-        // Parse input from Nova Sonic
-        let parsedInput: any = {};
-        try {
-          parsedInput = JSON.parse(JSON.parse(inputFromNovaSonic).content);
-        } catch (error) {
-          console.warn(`Failed to parse tool input as JSON: ${inputFromNovaSonic}`);
-          parsedInput = { rawInput: inputFromNovaSonic };
+        parsedInput = JSON.parse(JSON.parse(inputFromNovaSonic).content);
+      } catch {
+        console.warn(`Failed to parse tool input as JSON: ${inputFromNovaSonic}`);
+        parsedInput = { rawInput: inputFromNovaSonic };
+      }
+
+      if (enforceRules) {
+        const unmet = await this.checkPreconditions(toolConfig, sessionId, executionContext);
+        if (unmet.length > 0) {
+          console.warn(`🚧 Preconditions not met for tool ${toolName}:`, unmet);
+          const result = JSON.stringify({
+            error: true,
+            preconditionFailed: true,
+            message: `${toolName} cannot run yet: ${unmet.join('; ')}.`,
+            unmetPreconditions: unmet,
+            toolName,
+            sessionId
+          });
+          return { result, record: record('blocked', result, `Precondition not met: ${unmet.join('; ')}`) };
         }
-        
-        // Get global parameters from settings
-        const agentConfig = SettingsManager.getAgentConfig();
-        const globalParameters = agentConfig?.globalParameters || [];
-        
-        // Convert global parameters to key-value object
-        const globals: Record<string, string> = {};
-        globalParameters.forEach(param => {
-          if (param.key && param.value !== undefined) {
-            globals[param.key] = param.value;
-          }
+      }
+
+      // Model-supplied input is checked against the schema so the model can re-ask instead of the script failing
+      if (options.validateInput ?? agentTriggered) {
+        const check = ToolInputValidator.check(ToolInputValidator.parseSchema(toolConfig.inputSchema.json), parsedInput);
+        check.coercions.forEach(coercion => {
+          console.log(`🔧 Coerced ${toolName} input ${coercion.path || 'input'}: ${JSON.stringify(coercion.from)} → ${JSON.stringify(coercion.to)}`);
         });
-        
-        // Prepare execution context with tool-specific parameters
-        const toolContext = {
-          ...this.executionContext,
-          // Tool-specific parameters
-          sessionId,
-          input: parsedInput,
-          toolName,
-          agentTriggered, // NEW PARAMETER
-          globals, // NEW: Global parameters
-        };
-        
-        // Execute the tool script
-        console.log(`🔧 ToolExecutor::Executing tool ${toolName} with input:`, toolContext);
-        const result = await this.executeScript(script, toolContext);
-        
-        // Ensure result is a string (as expected by client.ts)
-        const stringResult = typeof result === 'string' ? result : JSON.stringify(result);
-        
-        console.log(`✅ Tool ${toolName} executed successfully with result:`, stringResult);
-        return stringResult;
-        
-      } catch (error) {
-        console.error(`❌ Tool ${toolName} execution failed:`, error);
-        
-        // Return error as JSON string
-        const errorResult = {
+        if (check.issues.length > 0) {
+          const problems = ToolInputValidator.formatIssues(check.issues);
+          console.warn(`⚠️ Invalid input for tool ${toolName}:`, problems);
+          const result = this.getValidationErrorResult(toolConfig, check.issues, sessionId);
+          return { result, record: record('invalid', result, `Invalid input: ${problems.join('; ')}`) };
+        }
+        parsedInput = check.value;
+      }
+      
+      // Get the global parameters of the active environment as a key-value object, with secrets decrypted
+      const globals = await SettingsManager.resolveGlobals();
+      
+      // Prepare execution context with tool-specific parameters
+      const toolContext = {
+        ...executionContext,
+        // Requests made through axios are cancelled on timeout or cancellation
+        axios: withAbortSignal(executionContext.axios, controller.signal),
+        // Tool-specific parameters
+        sessionId,
+        input: parsedInput,
+        toolName,
+        agentTriggered, // Whether the model called the tool rather than the app
+        globals, // Global parameters of the active environment
+        signal: controller.signal,
+        ...(onConsole ? { console: createScriptConsole(onConsole) } : {}),
+      };
+
+      const deadline = new Promise<'timeout'>(resolve => {
+        timer = setTimeout(() => resolve('timeout'), timeoutMs);
+      });
+      const cancelled = new Promise<'cancelled'>(resolve => {
+        handleCancel = () => resolve('cancelled');
+        if (signal?.aborted) {
+          handleCancel();
+        } else {
+          signal?.addEventListener('abort', handleCancel, { once: true });
+        }
+      });
+      
+      // Execute the tool script
+      console.log(`🔧 ToolExecutor::Executing tool ${toolName} with input:`, toolContext);
+      // Only tools explicitly set to the main thread get the page; all others run in the sandbox
+      const execution = toolConfig.executionMode === 'main'
+        ? this.executeScript(script, toolContext)
+        : this.executeSandboxedScript(toolConfig, {
+            sessionId,
+            input: parsedInput,
+            toolName,
+            agentTriggered,
+            globals
+          }, executionContext, controller.signal, onConsole);
+      const outcome = await Promise.race([
+        execution.then(result => ({ result })),
+        deadline,
+        cancelled
+      ]);
+
+      if (outcome === 'timeout') {
+        controller.abort();
+        console.warn(`⏱️ Tool ${toolName} timed out after ${timeoutMs}ms, returning fallback result`);
+        const result = this.getTimeoutFallback(toolConfig, timeoutMs, sessionId);
+        return { result, record: record('timeout', result, `No result within ${timeoutMs}ms; fallback result returned`) };
+      }
+
+      if (outcome === 'cancelled') {
+        controller.abort();
+        console.warn(`🛑 Tool ${toolName} was cancelled`);
+        const result = JSON.stringify({
           error: true,
-          message: error instanceof Error ? error.message : 'Unknown error',
+          cancelled: true,
+          message: 'Tool execution was cancelled',
           toolName,
           sessionId
-        };
-        
-        return JSON.stringify(errorResult);
+        });
+        return { result, record: record('cancelled', result, 'Cancelled before completing') };
       }
-    };
+      
+      // Ensure result is a string (as expected by client.ts)
+      const { result } = outcome;
+      const stringResult = typeof result === 'string' ? result : JSON.stringify(result);
+      
+      if (!isSuccessfulResult(stringResult)) {
+        console.warn(`⚠️ Tool ${toolName} reported a failure in its result:`, stringResult);
+        return { result: stringResult, record: record('failure', stringResult, 'The tool reported a failure in its result') };
+      }
+
+      console.log(`✅ Tool ${toolName} executed successfully with result:`, stringResult);
+      const entry = record('success', stringResult);
+      this.markSucceeded(sessionId, toolName);
+      if (enforceRules && toolConfig.postHooks?.length) {
+        // Hooks do not delay the result sent to the model
+        void this.runPostHooks(toolConfig, sessionId, executionContext);
+      }
+      return { result: stringResult, record: entry };
+      
+    } catch (error) {
+      console.error(`❌ Tool ${toolName} execution failed:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      
+      // Return error as JSON string
+      const errorResult = JSON.stringify({
+        error: true,
+        message,
+        toolName,
+        sessionId
+      });
+      
+      return { result: errorResult, record: record('error', errorResult, message) };
+    } finally {
+      clearTimeout(timer);
+      if (handleCancel) {
+        signal?.removeEventListener('abort', handleCancel);
+      }
+    }
+  }
+
+  /**
+   * Names of the tools that succeeded in a session
+   */
+  public getSucceededTools(sessionId: string): string[] {
+    return Array.from(this.toolHistory.get(sessionId) || []);
+  }
+
+  private markSucceeded(sessionId: string, toolName: string): void {
+    const history = this.toolHistory.get(sessionId) || new Set<string>();
+    history.add(toolName);
+    // Re-insert so the most recently active sessions are kept
+    this.toolHistory.delete(sessionId);
+    this.toolHistory.set(sessionId, history);
+    if (this.toolHistory.size > MAX_TRACKED_SESSIONS) {
+      const oldest = this.toolHistory.keys().next().value;
+      if (oldest !== undefined) this.toolHistory.delete(oldest);
+    }
+  }
+
+  /**
+   * Check the preconditions of a tool and describe the ones that are not met
+   */
+  private async checkPreconditions(
+    toolConfig: ToolConfig,
+    sessionId: string,
+    context: ToolExecutionContext
+  ): Promise<string[]> {
+    const history = this.toolHistory.get(sessionId);
+    const unmet: string[] = [];
+
+    for (const condition of toolConfig.preconditions || []) {
+      const describe = () => condition.message?.trim() || describePrecondition(condition);
+      try {
+        let met: boolean;
+        switch (condition.type) {
+          case 'toolSucceeded':
+            met = history?.has(condition.tool) ?? false;
+            break;
+          case 'toolNotSucceeded':
+            met = !history?.has(condition.tool);
+            break;
+          case 'cartNotEmpty':
+            met = Number(await context.components.cart?.getCartCount?.()) > 0;
+            break;
+          case 'componentState': {
+            const method = context.components[condition.component]?.[condition.method];
+            if (typeof method !== 'function') {
+              throw new Error(`${condition.component}.${condition.method} is not available`);
+            }
+            met = compareValues(await method(...(condition.args || [])), condition.operator, condition.value);
+            break;
+          }
+          default:
+            met = true;
+        }
+        if (!met) unmet.push(describe());
+      } catch (error) {
+        console.error(`❌ Precondition check of tool ${toolConfig.tool_name} failed:`, error);
+        unmet.push(`${describe()} (check failed: ${error instanceof Error ? error.message : 'Unknown error'})`);
+      }
+    }
+
+    return unmet;
+  }
+
+  /**
+   * Run the post-hooks of a tool in order; a failing hook is logged and the next one still runs
+   */
+  private async runPostHooks(toolConfig: ToolConfig, sessionId: string, context: ToolExecutionContext): Promise<void> {
+    for (const hook of toolConfig.postHooks || []) {
+      try {
+        switch (hook.type) {
+          case 'callComponent': {
+            const method = context.components[hook.component]?.[hook.method];
+            if (typeof method !== 'function') {
+              throw new Error(`${hook.component}.${hook.method} is not available`);
+            }
+            await method(...(hook.args || []));
+            break;
+          }
+          case 'runTool': {
+            const target = SettingsManager.getAgentConfig().tools.find(tool => tool.tool_name === hook.tool);
+            if (!target) {
+              throw new Error(`Unknown tool ${hook.tool}`);
+            }
+            // Chained tools run without their own rules, so hooks cannot loop
+            await this.runTool(target, {
+              sessionId,
+              inputFromNovaSonic: JSON.stringify({ content: hook.input?.trim() || '{}' }),
+              agentTriggered: false,
+              context
+            });
+            break;
+          }
+          case 'resetToolHistory':
+            this.toolHistory.delete(sessionId);
+            break;
+        }
+        console.log(`🪝 Post-hook ${hook.type} of tool ${toolConfig.tool_name} completed`);
+      } catch (error) {
+        console.error(`❌ Post-hook ${hook.type} of tool ${toolConfig.tool_name} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Result returned to the model when its input does not match the tool's schema
+   */
+  private getValidationErrorResult(toolConfig: ToolConfig, issues: ToolInputIssue[], sessionId: string): string {
+    return JSON.stringify({
+      error: true,
+      validationError: true,
+      message: `The input for ${toolConfig.tool_name} is invalid: ${ToolInputValidator.formatIssues(issues).join('; ')}. Ask the user for the missing or unclear details, then call the tool again.`,
+      issues,
+      toolName: toolConfig.tool_name,
+      sessionId
+    });
+  }
+
+  /**
+   * Result returned to the model when a tool misses its deadline
+   */
+  private getTimeoutFallback(toolConfig: ToolConfig, timeoutMs: number, sessionId: string): string {
+    if (toolConfig.timeoutFallback?.trim()) {
+      return toolConfig.timeoutFallback;
+    }
+    return JSON.stringify({
+      error: true,
+      timedOut: true,
+      message: `${toolConfig.tool_name} did not respond within ${timeoutMs / 1000} seconds. Tell the user the information is temporarily unavailable.`,
+      toolName: toolConfig.tool_name,
+      sessionId
+    });
   }
   
   /**
@@ -221,20 +746,7 @@ export class ToolExecutor {
       console.log(`🔧 ToolExecutor::executeScript::Executing script with input:`, context);
       
       // Wrap the script to define the execute function and then call it
-      const asyncScript = `
-        ${script} 
-        // Call the execute function that should be defined in the script
-        if (typeof execute === 'function') {
-          console.log('🔧 ToolExecutor::executeScript::Calling execute function with input:', arguments.length);
-          const params = {};
-          for(let i = 0; i < paramNames.length; i++) {
-            params[paramNames[i]] = arguments[i];
-          }
-          return execute(params);
-        } else {
-          throw new Error('Tool script must define an async function named "execute"');
-        }
-      `;
+      const asyncScript = wrapToolScript(script);
       
       // Create and execute the function, passing input as the last parameter
       const func = new Function(...paramNames, 'paramNames', asyncScript);
@@ -249,6 +761,32 @@ export class ToolExecutor {
     }
   }
   
+  /**
+   * Execute a tool script in the sandbox worker with only the capabilities its manifest grants
+   */
+  private async executeSandboxedScript(
+    toolConfig: ToolConfig,
+    params: Record<string, unknown>,
+    host: ToolExecutionContext,
+    signal: AbortSignal,
+    onConsole?: ToolConsoleListener
+  ): Promise<unknown> {
+    try {
+      return await ToolSandbox.run({
+        label: toolConfig.tool_name,
+        body: wrapToolScript(toolConfig.script),
+        params,
+        permissions: toolConfig.permissions ?? NO_PERMISSIONS,
+        host,
+        signal,
+        onConsole
+      });
+    } catch (error) {
+      console.error('Sandboxed script execution error:', error);
+      throw new Error(`Script execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
   /**
    * Get tools that should run after app initialization
    */
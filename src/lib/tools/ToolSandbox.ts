@@ -0,0 +1,548 @@
+import {
+  type AxiosRequestConfig,
+  type AxiosResponse,
+  isAxiosError,
+} from "axios";
+import type { ToolPermissions } from "../util/SettingsManager";
+
+// Host capabilities a sandboxed script can reach through message passing
+export interface SandboxHost {
+  axios: {
+    request(
+      config: AxiosRequestConfig,
+    ): Promise<
+      Pick<AxiosResponse, "data" | "status" | "statusText" | "headers">
+    >;
+  };
+  components: Record<string, Record<string, unknown>>;
+  utils: Record<string, unknown>;
+}
+
+// Capability call posted by the worker; its fields are checked again before use
+type SandboxCall =
+  | { kind: "component"; component: string; method: string; args: unknown }
+  | { kind: "http"; request: AxiosRequestConfig; raw?: boolean }
+  | { kind: "storage"; method: string; args: unknown }
+  | { kind: "deviceId" };
+
+export interface SandboxRunOptions {
+  label: string; // Tool name, used in logs
+  body: string; // Function body; receives the params as named arguments followed by `paramNames`
+  params: Record<string, unknown>; // Plain data passed to the script (input, sessionId, globals, ...)
+  permissions: ToolPermissions;
+  host: SandboxHost;
+  signal?: AbortSignal; // Terminates the worker when aborted
+  onConsole?: (
+    level: "log" | "info" | "warn" | "error" | "debug",
+    args: unknown[],
+  ) => void; // Receives the script's console output
+}
+
+// Sandboxed scripts share one storage namespace that cannot reach the app's own keys
+const SANDBOX_STORAGE_PREFIX = "sandbox:";
+
+const STORAGE_METHODS = [
+  "setData",
+  "getData",
+  "removeData",
+  "hasValidData",
+  "getRemainingTTL",
+  "clearExpired",
+  "getStorageStats",
+];
+
+// Network, storage and worker APIs removed from the worker before a script runs
+const BLOCKED_GLOBALS = [
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "WebSocketStream",
+  "WebTransport",
+  "EventSource",
+  "importScripts",
+  "indexedDB",
+  "caches",
+  "Worker",
+  "SharedWorker",
+  "BroadcastChannel",
+];
+
+// import() loads modules from any URL past the host allowlist and cannot be removed like importScripts, so scripts
+// calling it are refused; comments between the keyword and the parenthesis do not hide it
+const DYNAMIC_IMPORT = /\bimport\s*(?:\/\*[\s\S]*?\*\/\s*|\/\/[^\n]*\n\s*)*\(/;
+
+// Worker bootstrap: strips ambient network and storage APIs, then exposes only the capability API.
+// Once the script is compiled, code generation (Function, eval, string timers) is refused, so import() cannot be
+// built from a string either, and the isolation is checked before the script runs.
+const WORKER_SOURCE = `
+'use strict';
+const post = self.postMessage.bind(self);
+const pending = new Map();
+let nextCallId = 1;
+const abortController = new AbortController();
+const blockedGlobals = ${JSON.stringify(BLOCKED_GLOBALS)};
+
+for (const name of blockedGlobals) {
+  let scope = self;
+  while (scope) {
+    if (Object.prototype.hasOwnProperty.call(scope, name)) {
+      try { delete scope[name]; } catch (e) { /* not configurable */ }
+    }
+    scope = Object.getPrototypeOf(scope);
+  }
+  try { Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false }); } catch (e) { /* ignore */ }
+}
+
+const call = (kind, payload) => new Promise((resolve, reject) => {
+  const callId = nextCallId++;
+  pending.set(callId, { resolve, reject });
+  post({ type: 'call', callId, kind, ...payload });
+});
+
+const request = (config) => call('http', { request: config });
+const axios = Object.assign(
+  (urlOrConfig, config) => typeof urlOrConfig === 'string' ? request({ ...config, url: urlOrConfig }) : request(urlOrConfig),
+  {
+    request,
+    get: (url, config) => request({ ...config, method: 'get', url }),
+    delete: (url, config) => request({ ...config, method: 'delete', url }),
+    head: (url, config) => request({ ...config, method: 'head', url }),
+    options: (url, config) => request({ ...config, method: 'options', url }),
+    post: (url, data, config) => request({ ...config, method: 'post', url, data }),
+    put: (url, data, config) => request({ ...config, method: 'put', url, data }),
+    patch: (url, data, config) => request({ ...config, method: 'patch', url, data }),
+  }
+);
+
+const scopedFetch = async (url, init = {}) => {
+  const headers = init.headers instanceof Headers ? Object.fromEntries(init.headers.entries()) : init.headers;
+  const response = await call('http', {
+    raw: true,
+    request: { url: String(url), method: init.method || 'get', headers, data: init.body },
+  });
+  return new Response(response.status === 204 || response.status === 304 ? null : response.data, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+const buildComponents = (manifest) => {
+  const components = {};
+  for (const [name, methods] of Object.entries(manifest)) {
+    components[name] = {};
+    for (const method of methods) {
+      components[name][method] = (...args) => call('component', { component: name, method, args });
+    }
+  }
+  return components;
+};
+
+const storage = {};
+for (const method of ${JSON.stringify(STORAGE_METHODS)}) {
+  storage[method] = (...args) => call('storage', { method, args });
+}
+
+const utils = {
+  generateId: () => Math.random().toString(36).slice(2, 11),
+  formatDate: (date, options) => (typeof date === 'string' ? new Date(date) : date).toLocaleDateString('en-US', options),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  parseJSON: (str) => {
+    try {
+      return JSON.parse(str);
+    } catch (error) {
+      throw new Error('Invalid JSON: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  },
+  stringifyJSON: (obj) => JSON.stringify(obj, null, 2),
+  getDeviceId: () => call('deviceId', {}),
+  storage,
+};
+
+const toMessage = (value) => {
+  try {
+    return structuredClone(value);
+  } catch (e) {
+    try {
+      return JSON.parse(JSON.stringify(value));
+    } catch (e) {
+      return String(value);
+    }
+  }
+};
+
+const forwardingConsole = {};
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+  forwardingConsole[level] = (...args) => post({ type: 'console', level, args: args.map(toMessage) });
+}
+
+function refuseCodeGeneration() {
+  throw new EvalError('Sandboxed tools cannot compile code at run time');
+}
+
+const lockCodeGeneration = () => {
+  for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: refuseCodeGeneration, writable: false, configurable: false });
+  }
+  for (const name of ['Function', 'eval']) {
+    Object.defineProperty(self, name, { value: refuseCodeGeneration, writable: false, configurable: false });
+  }
+  for (const name of ['setTimeout', 'setInterval']) {
+    const schedule = self[name].bind(self);
+    const guarded = (handler, ...args) => (typeof handler === 'function' ? schedule(handler, ...args) : refuseCodeGeneration());
+    Object.defineProperty(self, name, { value: guarded, writable: false, configurable: false });
+  }
+};
+
+// Ways out of the sandbox that are still open; empty when the isolation holds
+const findEscapes = () => {
+  const escapes = blockedGlobals.filter(name => self[name] !== undefined);
+  const generators = {
+    Function: () => new Function('return 1'),
+    eval: () => (0, eval)('1'),
+    'function constructor': () => (function () {}).constructor('return 1'),
+    'async function constructor': () => (async function () {}).constructor('return 1'),
+    'generator constructor': () => (function* () {}).constructor('yield 1'),
+    'async generator constructor': () => (async function* () {}).constructor('yield 1'),
+    'string timers': () => clearTimeout(setTimeout('1', 0)),
+  };
+  for (const [name, generate] of Object.entries(generators)) {
+    try {
+      generate();
+      escapes.push(name);
+    } catch (e) {
+      // Refused, as it should be
+    }
+  }
+  return escapes;
+};
+
+const run = async ({ body, params, components, captureConsole }) => {
+  const context = {
+    ...params,
+    axios,
+    fetch: scopedFetch,
+    components: buildComponents(components),
+    utils,
+    signal: abortController.signal,
+    ...(captureConsole ? { console: forwardingConsole } : {}),
+  };
+  const paramNames = Object.keys(context);
+  try {
+    const func = new Function(...paramNames, 'paramNames', body);
+    lockCodeGeneration();
+    const escapes = findEscapes();
+    if (escapes.length > 0) {
+      throw new Error('Sandbox isolation failed, still reachable: ' + escapes.join(', '));
+    }
+    const value = await func(...Object.values(context), paramNames);
+    post({ type: 'result', value: toMessage(value) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  if (message.type === 'run') {
+    run(message);
+  } else if (message.type === 'abort') {
+    abortController.abort();
+  } else if (message.type === 'callResult') {
+    const entry = pending.get(message.callId);
+    if (!entry) return;
+    pending.delete(message.callId);
+    if (message.ok) {
+      entry.resolve(message.value);
+    } else {
+      const error = new Error(message.error);
+      if (message.response) error.response = message.response;
+      entry.reject(error);
+    }
+  }
+});
+`;
+
+// Structured-clone friendly copy of a host value
+const toTransferable = (value: unknown): unknown => {
+  if (value === undefined) return undefined;
+  try {
+    return structuredClone(value);
+  } catch {
+    try {
+      return JSON.parse(JSON.stringify(value));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+/**
+ * ToolSandbox - runs tool scripts in a dedicated Web Worker.
+ * Scripts have no access to window, the DOM, localStorage or credentials; they only see
+ * the capability API (components, axios/fetch, utils, globals) filtered by the tool's permissions.
+ */
+export class ToolSandbox {
+  private constructor() {}
+
+  /**
+   * Check whether a URL may be requested under the given host allowlist.
+   * Entries match the hostname ("api.example.com"), host with port ("localhost:3000"),
+   * any subdomain ("*.example.com"), the app's own origin ("self", which relative URLs resolve to)
+   * or everything ("*").
+   */
+  static isHostAllowed(url: string, allowedHosts: string[]): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url, globalThis.location?.origin);
+    } catch {
+      return false;
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:")
+      return false;
+
+    return allowedHosts.some((entry) => {
+      const allowed = entry.trim().toLowerCase();
+      if (!allowed) return false;
+      if (allowed === "*") return true;
+      if (allowed === "self") {
+        return parsed.origin === globalThis.location?.origin;
+      }
+      if (allowed.startsWith("*.")) {
+        const domain = allowed.slice(2);
+        return (
+          parsed.hostname === domain || parsed.hostname.endsWith(`.${domain}`)
+        );
+      }
+      return allowed.includes(":")
+        ? parsed.host === allowed
+        : parsed.hostname === allowed;
+    });
+  }
+
+  /**
+   * Check whether a component method may be called. Entries name a whole component ("cart")
+   * or a single method ("cart.addItem").
+   */
+  static isComponentMethodAllowed(
+    component: string,
+    method: string,
+    allowedComponents: string[],
+  ): boolean {
+    return allowedComponents.some((entry) => {
+      const allowed = entry.trim();
+      return (
+        allowed === "*" ||
+        allowed === component ||
+        allowed === `${component}.${method}`
+      );
+    });
+  }
+
+  /**
+   * Run a script body in a new worker and resolve with its return value
+   */
+  static run(options: SandboxRunOptions): Promise<unknown> {
+    const { label, body, params, permissions, host, signal, onConsole } =
+      options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`Sandboxed tool ${label} was aborted`));
+        return;
+      }
+      if (DYNAMIC_IMPORT.test(body)) {
+        reject(
+          new Error(
+            `Sandboxed tool ${label} cannot use import(); request data with axios or fetch instead`,
+          ),
+        );
+        return;
+      }
+
+      const url = URL.createObjectURL(
+        new Blob([WORKER_SOURCE], { type: "text/javascript" }),
+      );
+      const worker = new Worker(url);
+      URL.revokeObjectURL(url);
+      console.log(`🧱 Running tool ${label} in sandbox`);
+
+      const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener("abort", handleAbort);
+      };
+      const handleAbort = () => {
+        console.warn(`🧱 Terminating sandboxed tool ${label}`);
+        finish();
+        reject(new Error(`Sandboxed tool ${label} was aborted`));
+      };
+      signal?.addEventListener("abort", handleAbort, { once: true });
+
+      worker.onmessage = async (event: MessageEvent) => {
+        const message = event.data || {};
+        if (message.type === "result") {
+          finish();
+          resolve(message.value);
+        } else if (message.type === "error") {
+          finish();
+          reject(new Error(message.message));
+        } else if (message.type === "console") {
+          onConsole?.(
+            message.level,
+            Array.isArray(message.args) ? message.args : [],
+          );
+        } else if (message.type === "call") {
+          try {
+            const value = await ToolSandbox.handleCall(
+              label,
+              message,
+              permissions,
+              host,
+              signal,
+            );
+            worker.postMessage({
+              type: "callResult",
+              callId: message.callId,
+              ok: true,
+              value: toTransferable(value),
+            });
+          } catch (error) {
+            const response = isAxiosError(error) ? error.response : undefined;
+            worker.postMessage({
+              type: "callResult",
+              callId: message.callId,
+              ok: false,
+              error: error instanceof Error ? error.message : String(error),
+              response: response
+                ? toTransferable({
+                    status: response.status,
+                    statusText: response.statusText,
+                    data: response.data,
+                  })
+                : undefined,
+            });
+          }
+        }
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        finish();
+        reject(new Error(`Sandboxed tool ${label} crashed: ${event.message}`));
+      };
+
+      // Only method names cross the boundary; calls are checked again when they arrive
+      const components: Record<string, string[]> = {};
+      Object.entries(host.components).forEach(([name, methods]) => {
+        const allowedMethods = Object.keys(methods || {}).filter(
+          (method) =>
+            typeof methods[method] === "function" &&
+            ToolSandbox.isComponentMethodAllowed(
+              name,
+              method,
+              permissions.allowedComponents,
+            ),
+        );
+        if (allowedMethods.length > 0) {
+          components[name] = allowedMethods;
+        }
+      });
+
+      worker.postMessage({
+        type: "run",
+        body,
+        params: toTransferable(params),
+        components,
+        captureConsole: Boolean(onConsole),
+      });
+    });
+  }
+
+  // Serve one capability call from the worker after checking the tool's permissions
+  private static async handleCall(
+    label: string,
+    message: SandboxCall,
+    permissions: ToolPermissions,
+    host: SandboxHost,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    const { kind } = message;
+    switch (message.kind) {
+      case "component": {
+        const { component, method, args } = message;
+        const target = host.components[component];
+        const handler = target?.[method];
+        if (
+          !ToolSandbox.isComponentMethodAllowed(
+            component,
+            method,
+            permissions.allowedComponents,
+          ) ||
+          typeof handler !== "function"
+        ) {
+          throw new Error(
+            `Tool ${label} is not allowed to call ${component}.${method}`,
+          );
+        }
+        return await handler.apply(target, Array.isArray(args) ? args : []);
+      }
+
+      case "http": {
+        const { request, raw } = message;
+        const url = String(request?.url ?? "");
+        if (!ToolSandbox.isHostAllowed(url, permissions.allowedHosts)) {
+          throw new Error(`Tool ${label} is not allowed to request ${url}`);
+        }
+        const response = await host.axios.request({
+          method: request.method,
+          url,
+          data: request.data,
+          headers: request.headers,
+          params: request.params,
+          signal,
+          // fetch() callers read the body themselves and handle every status
+          ...(raw ? { responseType: "text", validateStatus: () => true } : {}),
+        });
+        return {
+          data: response.data,
+          status: response.status,
+          statusText: response.statusText,
+          headers: toTransferable(response.headers),
+        };
+      }
+
+      case "storage": {
+        const { method, args } = message;
+        if (!STORAGE_METHODS.includes(method)) {
+          throw new Error(`Unknown storage method: ${method}`);
+        }
+        const scopedArgs = Array.isArray(args) ? [...args] : [];
+        if (method === "clearExpired" || method === "getStorageStats") {
+          scopedArgs[0] = `${SANDBOX_STORAGE_PREFIX}${scopedArgs[0] ?? ""}`;
+        } else {
+          scopedArgs[0] = `${SANDBOX_STORAGE_PREFIX}${scopedArgs[0]}`;
+        }
+        const { storage } = host.utils;
+        const handler =
+          typeof storage === "object" && storage !== null
+            ? Reflect.get(storage, method)
+            : undefined;
+        if (typeof handler !== "function") {
+          throw new Error(`Storage method ${method} is not available`);
+        }
+        return handler.apply(storage, scopedArgs);
+      }
+
+      case "deviceId": {
+        const { getDeviceId } = host.utils;
+        if (typeof getDeviceId !== "function") {
+          throw new Error("Device ID is not available");
+        }
+        return getDeviceId();
+      }
+
+      default:
+        throw new Error(`Unknown sandbox call: ${kind}`);
+    }
+  }
+}
@@ -0,0 +1,368 @@
+import type { AxiosRequestConfig } from "axios";
+import type { Tool, ToolTestCase } from "../util/SettingsManager";
+import { matchUrlPattern } from "./MockHttpAdapter";
+import {
+  type ToolConsoleLevel,
+  type ToolExecutionContext,
+  type ToolExecutionStatus,
+  toolExecutor,
+} from "./ToolExecutor";
+import {
+  type ToolInputCoercion,
+  ToolInputValidator,
+} from "./ToolInputValidator";
+
+// Mocked capabilities of a test case, stored as JSON in ToolTestCase.mocks
+export interface ToolTestMocks {
+  components?: Record<string, Record<string, unknown>>; // component -> method -> value returned by the call
+  axios?: Record<
+    string,
+    { status?: number; data?: unknown; headers?: Record<string, string> }
+  >; // "GET https://api/items*" -> response
+  auth?: Record<string, unknown>; // auth method -> value returned by the call
+}
+
+export interface ToolTestLogEntry {
+  level: ToolConsoleLevel | "mock";
+  message: string;
+}
+
+export interface ToolTestResult {
+  status: ToolExecutionStatus;
+  result?: string; // String returned to the model
+  error?: string; // Thrown error, input problems or the reason of a timeout
+  validationErrors: string[];
+  logs: ToolTestLogEntry[];
+  durationMs: number;
+  passed?: boolean; // Only set when the test case has an expected result
+}
+
+type ToolTestRun = Pick<
+  ToolTestCase,
+  "input" | "useMocks" | "mocks" | "expectedResult"
+>;
+
+const HTTP_METHODS = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+];
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.stack || value.message;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+// Stable JSON form with sorted keys, so expected results can be written in any key order
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+};
+
+const parseJSON = (
+  text: string,
+): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+// Route keys are "METHOD url" or just "url", with the URL patterns of the mock HTTP layer
+const matchRoute = (key: string, method: string, url: string): boolean => {
+  const [first, ...rest] = key.trim().split(/\s+/);
+  const hasMethod =
+    rest.length > 0 && HTTP_METHODS.includes(first.toUpperCase());
+  if (hasMethod && first.toUpperCase() !== method) return false;
+
+  return matchUrlPattern(hasMethod ? rest.join(" ") : key.trim(), url) !== null;
+};
+
+/**
+ * ToolTestRunner - runs tool test cases from the tool editor through the ToolExecutor,
+ * against the live components or against mocked components, axios and auth.
+ */
+export class ToolTestRunner {
+  private constructor() {}
+
+  /**
+   * Build a sample input with a placeholder for every required property of the schema
+   */
+  static getSampleInput(tool: Pick<Tool, "inputSchema">): string {
+    const schema = ToolInputValidator.parseSchema(tool.inputSchema?.json);
+    const placeholders: Record<string, unknown> = {
+      string: "",
+      number: 0,
+      integer: 0,
+      boolean: false,
+      array: [],
+      object: {},
+    };
+    const sample: Record<string, unknown> = {};
+    (Array.isArray(schema.required) ? schema.required : []).forEach(
+      (key: string) => {
+        const property = ToolInputValidator.getPropertySchema(schema, key);
+        sample[key] = Array.isArray(property.enum)
+          ? property.enum[0]
+          : typeof property.type === "string"
+            ? (placeholders[property.type] ?? null)
+            : null;
+      },
+    );
+    return JSON.stringify(sample, null, 2);
+  }
+
+  /**
+   * Parse the sample input of a test case and check it against the tool's input schema,
+   * the same way the ToolExecutor checks input from the model
+   */
+  static validateInput(
+    tool: Pick<Tool, "inputSchema">,
+    inputJSON: string,
+  ): { input?: unknown; errors: string[]; coercions: ToolInputCoercion[] } {
+    const parsed = parseJSON(inputJSON);
+    if (!parsed.ok) {
+      return { errors: ["Input must be valid JSON"], coercions: [] };
+    }
+    const check = ToolInputValidator.check(
+      ToolInputValidator.parseSchema(tool.inputSchema?.json),
+      parsed.value,
+    );
+    return {
+      input: parsed.value,
+      errors: ToolInputValidator.formatIssues(check.issues),
+      coercions: check.coercions,
+    };
+  }
+
+  /**
+   * Check a result against the expected result of a test case.
+   * JSON values are compared structurally, anything else as trimmed text.
+   */
+  static matchesExpected(
+    result: string | undefined,
+    expected: string,
+  ): boolean {
+    if (result === undefined) return false;
+    const actualJSON = parseJSON(result);
+    const expectedJSON = parseJSON(expected);
+    if (actualJSON.ok && expectedJSON.ok) {
+      return (
+        JSON.stringify(canonicalize(actualJSON.value)) ===
+        JSON.stringify(canonicalize(expectedJSON.value))
+      );
+    }
+    return result.trim() === expected.trim();
+  }
+
+  /**
+   * Run one test case. The live context comes from the ToolProvider and is used as is
+   * unless the test case asks for mocks.
+   */
+  static async run(
+    tool: Tool,
+    testCase: ToolTestRun,
+    liveContext: ToolExecutionContext,
+  ): Promise<ToolTestResult> {
+    const startedAt = Date.now();
+    const logs: ToolTestLogEntry[] = [];
+    const {
+      input,
+      errors: validationErrors,
+      coercions,
+    } = ToolTestRunner.validateInput(tool, testCase.input);
+
+    const invalid = (error: string): ToolTestResult => ({
+      status: "invalid",
+      error,
+      validationErrors,
+      logs,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (input === undefined) {
+      return invalid("Sample input is not valid JSON");
+    }
+    coercions.forEach((coercion) => {
+      logs.push({
+        level: "info",
+        message: `Input ${coercion.path || "value"} coerced from ${formatValue(coercion.from)} to ${formatValue(coercion.to)}`,
+      });
+    });
+
+    let context = liveContext;
+    if (testCase.useMocks) {
+      const mocks = parseJSON(testCase.mocks?.trim() || "{}");
+      if (!mocks.ok || !mocks.value || typeof mocks.value !== "object") {
+        return invalid("Mocks must be a JSON object");
+      }
+      context = ToolTestRunner.createMockContext(
+        liveContext,
+        mocks.value as ToolTestMocks,
+        logs,
+      );
+    }
+
+    console.log(
+      `🧪 Testing tool ${tool.tool_name} (${testCase.useMocks ? "mocked" : "live"} context)`,
+    );
+    const { result, record } = await toolExecutor.testTool(tool, input, {
+      context,
+      onConsole: (level, args) => {
+        logs.push({ level, message: args.map(formatValue).join(" ") });
+      },
+    });
+
+    const expected = testCase.expectedResult?.trim();
+    return {
+      status: record.status,
+      result,
+      error: record.status === "success" ? undefined : record.message,
+      validationErrors,
+      logs,
+      durationMs: record.durationMs,
+      // A reported failure can be the expected result, e.g. for an unknown menu item
+      passed: expected
+        ? (record.status === "success" || record.status === "failure") &&
+          ToolTestRunner.matchesExpected(result, expected)
+        : undefined,
+    };
+  }
+
+  // Replace components, axios and auth with mocks that log every call
+  private static createMockContext(
+    liveContext: ToolExecutionContext,
+    mocks: ToolTestMocks,
+    logs: ToolTestLogEntry[],
+  ): ToolExecutionContext {
+    const mockMethods = (
+      prefix: string,
+      methods: Record<string, unknown> = {},
+    ) => {
+      const mocked: Record<string, (...args: unknown[]) => Promise<unknown>> =
+        {};
+      Object.entries(methods).forEach(([method, value]) => {
+        mocked[method] = async (...args: unknown[]) => {
+          logs.push({
+            level: "mock",
+            message: `${prefix}.${method}(${args.map(formatValue).join(", ")}) → ${formatValue(value)}`,
+          });
+          return structuredClone(value);
+        };
+      });
+      return mocked;
+    };
+
+    const components: Record<string, ReturnType<typeof mockMethods>> = {};
+    Object.entries(mocks.components || {}).forEach(([name, methods]) => {
+      components[name] = mockMethods(name, methods);
+    });
+
+    const auth = {
+      getCredentials: () => null,
+      getTokens: async () => ({
+        idToken: null,
+        accessToken: null,
+        refreshToken: null,
+      }),
+      getJWT: async () => null,
+      getUserInfo: () => null,
+      ...mockMethods("auth", mocks.auth),
+    };
+
+    return {
+      ...liveContext,
+      components,
+      auth,
+      axios: ToolTestRunner.createMockAxios(mocks.axios || {}, logs),
+    };
+  }
+
+  // Axios-like client that answers from the mocked routes and rejects unmatched requests
+  private static createMockAxios(
+    routes: NonNullable<ToolTestMocks["axios"]>,
+    logs: ToolTestLogEntry[],
+  ) {
+    const request = async (config: AxiosRequestConfig = {}) => {
+      const method = String(config.method || "get").toUpperCase();
+      const url = String(config.url || "");
+      const route = Object.keys(routes).find((key) =>
+        matchRoute(key, method, url),
+      );
+
+      if (!route) {
+        logs.push({
+          level: "mock",
+          message: `${method} ${url} → no mock route`,
+        });
+        throw new Error(`No mock response for ${method} ${url}`);
+      }
+
+      const { status = 200, data = null, headers = {} } = routes[route] || {};
+      const response = {
+        data: structuredClone(data),
+        status,
+        statusText: String(status),
+        headers,
+        config,
+      };
+      logs.push({
+        level: "mock",
+        message: `${method} ${url} → ${status} ${formatValue(data)}`,
+      });
+
+      if (status >= 400) {
+        throw Object.assign(
+          new Error(`Request failed with status code ${status}`),
+          { response, config },
+        );
+      }
+      return response;
+    };
+
+    return Object.assign(
+      (
+        urlOrConfig: string | AxiosRequestConfig,
+        config?: AxiosRequestConfig,
+      ) =>
+        typeof urlOrConfig === "string"
+          ? request({ ...config, url: urlOrConfig })
+          : request(urlOrConfig),
+      {
+        request,
+        get: (url: string, config?: AxiosRequestConfig) =>
+          request({ ...config, method: "get", url }),
+        delete: (url: string, config?: AxiosRequestConfig) =>
+          request({ ...config, method: "delete", url }),
+        head: (url: string, config?: AxiosRequestConfig) =>
+          request({ ...config, method: "head", url }),
+        options: (url: string, config?: AxiosRequestConfig) =>
+          request({ ...config, method: "options", url }),
+        post: (url: string, data?: unknown, config?: AxiosRequestConfig) =>
+          request({ ...config, method: "post", url, data }),
+        put: (url: string, data?: unknown, config?: AxiosRequestConfig) =>
+          request({ ...config, method: "put", url, data }),
+        patch: (url: string, data?: unknown, config?: AxiosRequestConfig) =>
+          request({ ...config, method: "patch", url, data }),
+      },
+    );
+  }
+}
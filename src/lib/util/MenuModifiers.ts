@@ -0,0 +1,512 @@
+// Option of a modifier group, e.g. "Large" in "Size" or "Ranch" in "Sauces"
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price: number;
+  available?: boolean; // Defaults to true
+  isDefault?: boolean; // Selected when the item is added without a choice for the group
+  maxQuantity?: number; // How often the option can be chosen, defaults to 1
+  modifierGroups?: ModifierGroup[]; // Nested choices, e.g. the doneness of an added patty
+}
+
+// Group of options with selection rules, e.g. "choose a size: exactly 1" or "sauce: 0-2, first free"
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  minSelections: number; // 0 makes the group optional
+  maxSelections?: number; // Unlimited when left out
+  freeQuantity?: number; // The first selections of the group are not charged
+  options: ModifierOption[];
+}
+
+// Choice sent by the agent; groups and options may be referenced by id or name
+export interface ModifierSelection {
+  groupId: string;
+  optionId: string;
+  quantity?: number; // Defaults to 1
+  modifiers?: ModifierSelection[]; // Choices of the nested groups of the option
+}
+
+// Choice applied to a cart item, priced per unit of the item
+export interface AppliedModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  price: number; // Charged for this choice after the free quantity of the group, including nested choices
+  modifiers?: AppliedModifier[];
+}
+
+// Required group that does not have enough selections yet
+export interface MissingChoice {
+  groupId: string;
+  groupName: string;
+  path: string[]; // Names of the options the group is nested in, empty for top-level groups
+  rule: string;
+  selected: number;
+  remaining: number;
+  options: { id: string; name: string; price: number }[];
+}
+
+/**
+ * MenuModifiers - selection rules and pricing of menu item modifier groups, shared by the menu and the cart
+ */
+export class MenuModifiers {
+  private constructor() {}
+
+  private static matches(
+    ref: string,
+    item: { id: string; name: string },
+  ): boolean {
+    return (
+      item.id === ref || item.name.toLowerCase() === ref.trim().toLowerCase()
+    );
+  }
+
+  private static isAvailable(option: ModifierOption): boolean {
+    return option.available !== false;
+  }
+
+  private static countSelected(
+    applied: AppliedModifier[],
+    groupId: string,
+  ): number {
+    return applied
+      .filter((modifier) => modifier.groupId === groupId)
+      .reduce((sum, modifier) => sum + modifier.quantity, 0);
+  }
+
+  private static toSelections(applied: AppliedModifier[]): ModifierSelection[] {
+    return applied.map((modifier) => ({
+      groupId: modifier.groupId,
+      optionId: modifier.optionId,
+      quantity: modifier.quantity,
+      ...(modifier.modifiers?.length && {
+        modifiers: MenuModifiers.toSelections(modifier.modifiers),
+      }),
+    }));
+  }
+
+  // Add the default options of the groups the selections leave out, down to the nested groups
+  private static withDefaults(
+    groups: ModifierGroup[],
+    selections: ModifierSelection[],
+  ): ModifierSelection[] {
+    const result = selections.map((selection) => {
+      const option = groups
+        .find((group) => MenuModifiers.matches(selection.groupId, group))
+        ?.options.find((option) =>
+          MenuModifiers.matches(selection.optionId, option),
+        );
+      return option?.modifierGroups
+        ? {
+            ...selection,
+            modifiers: MenuModifiers.withDefaults(
+              option.modifierGroups,
+              selection.modifiers || [],
+            ),
+          }
+        : selection;
+    });
+
+    for (const group of groups) {
+      if (
+        selections.some((selection) =>
+          MenuModifiers.matches(selection.groupId, group),
+        )
+      )
+        continue;
+      group.options
+        .filter(
+          (option) => option.isDefault && MenuModifiers.isAvailable(option),
+        )
+        .forEach((option) => {
+          result.push({
+            groupId: group.id,
+            optionId: option.id,
+            ...(option.modifierGroups && {
+              modifiers: MenuModifiers.withDefaults(option.modifierGroups, []),
+            }),
+          });
+        });
+    }
+    return result;
+  }
+
+  // Check the selections against the groups and price them; selections of the same option are merged
+  private static resolve(
+    groups: ModifierGroup[],
+    selections: ModifierSelection[],
+    path: string[] = [],
+  ): { modifiers: AppliedModifier[]; errors: string[] } {
+    const errors: string[] = [];
+    const where = path.length > 0 ? ` (with ${path.join(" > ")})` : "";
+    const merged = new Map<
+      string,
+      {
+        group: ModifierGroup;
+        option: ModifierOption;
+        quantity: number;
+        nested: ModifierSelection[];
+      }
+    >();
+
+    for (const selection of selections) {
+      const group = groups.find((group) =>
+        MenuModifiers.matches(selection.groupId, group),
+      );
+      if (!group) {
+        errors.push(`Unknown modifier group "${selection.groupId}"${where}`);
+        continue;
+      }
+      const option = group.options.find((option) =>
+        MenuModifiers.matches(selection.optionId, option),
+      );
+      if (!option) {
+        errors.push(
+          `"${selection.optionId}" is not an option of ${group.name}${where}`,
+        );
+        continue;
+      }
+      if (!MenuModifiers.isAvailable(option)) {
+        errors.push(`${option.name} is currently unavailable`);
+        continue;
+      }
+      const quantity = selection.quantity ?? 1;
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        errors.push(
+          `Quantity of ${option.name} must be a whole number of at least 1`,
+        );
+        continue;
+      }
+
+      const key = `${group.id}/${option.id}`;
+      const entry = merged.get(key) || {
+        group,
+        option,
+        quantity: 0,
+        nested: [],
+      };
+      entry.quantity += quantity;
+      entry.nested.push(...(selection.modifiers || []));
+      merged.set(key, entry);
+    }
+
+    const modifiers: AppliedModifier[] = [];
+    const freeLeft = new Map(
+      groups.map((group) => [group.id, group.freeQuantity || 0]),
+    );
+    for (const { group, option, quantity, nested } of merged.values()) {
+      const maxQuantity = option.maxQuantity ?? 1;
+      if (quantity > maxQuantity) {
+        errors.push(
+          `${option.name} can be chosen at most ${maxQuantity} time${maxQuantity === 1 ? "" : "s"}`,
+        );
+        continue;
+      }
+
+      if (nested.length > 0 && !option.modifierGroups?.length) {
+        errors.push(`${option.name} has no further choices`);
+        continue;
+      }
+      const inner = MenuModifiers.resolve(option.modifierGroups || [], nested, [
+        ...path,
+        option.name,
+      ]);
+      errors.push(...inner.errors);
+
+      // The first units of the group, in the order they were chosen, are free
+      const free = Math.min(quantity, freeLeft.get(group.id) || 0);
+      freeLeft.set(group.id, (freeLeft.get(group.id) || 0) - free);
+      const nestedTotal = MenuModifiers.total(inner.modifiers);
+      modifiers.push({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        name: option.name,
+        quantity,
+        unitPrice: option.price,
+        price: (quantity - free) * option.price + quantity * nestedTotal,
+        ...(inner.modifiers.length > 0 && { modifiers: inner.modifiers }),
+      });
+    }
+
+    for (const group of groups) {
+      const selected = MenuModifiers.countSelected(modifiers, group.id);
+      if (group.maxSelections !== undefined && selected > group.maxSelections) {
+        errors.push(
+          `${group.name}${where} allows at most ${group.maxSelections} choice${group.maxSelections === 1 ? "" : "s"}, got ${selected}`,
+        );
+      }
+    }
+
+    return { modifiers, errors };
+  }
+
+  /**
+   * Check modifier group definitions of a menu item, including nested groups
+   */
+  static validateGroups(
+    groups: ModifierGroup[],
+    path: string[] = [],
+  ): string[] {
+    const errors: string[] = [];
+    const where = path.length > 0 ? ` (with ${path.join(" > ")})` : "";
+    const groupIds = new Set<string>();
+
+    for (const group of groups) {
+      if (!group.id || !group.name) {
+        errors.push(`Modifier group${where} needs an id and a name`);
+        continue;
+      }
+      if (groupIds.has(group.id)) {
+        errors.push(`Duplicate modifier group "${group.id}"${where}`);
+      }
+      groupIds.add(group.id);
+
+      const options = group.options || [];
+      const capacity = options.reduce(
+        (sum, option) => sum + (option.maxQuantity ?? 1),
+        0,
+      );
+      if (!Number.isInteger(group.minSelections) || group.minSelections < 0) {
+        errors.push(
+          `${group.name}${where}: minSelections must be a whole number of at least 0`,
+        );
+      }
+      if (
+        group.maxSelections !== undefined &&
+        group.maxSelections < group.minSelections
+      ) {
+        errors.push(
+          `${group.name}${where}: maxSelections is lower than minSelections`,
+        );
+      }
+      if (group.minSelections > capacity) {
+        errors.push(
+          `${group.name}${where}: requires ${group.minSelections} choices but its options allow only ${capacity}`,
+        );
+      }
+      if (group.freeQuantity !== undefined && group.freeQuantity < 0) {
+        errors.push(`${group.name}${where}: freeQuantity cannot be negative`);
+      }
+
+      const optionIds = new Set<string>();
+      for (const option of options) {
+        if (optionIds.has(option.id)) {
+          errors.push(
+            `Duplicate option "${option.id}" in ${group.name}${where}`,
+          );
+        }
+        optionIds.add(option.id);
+        if (typeof option.price !== "number" || option.price < 0) {
+          errors.push(
+            `${option.name} in ${group.name}${where}: price must be a number of at least 0`,
+          );
+        }
+        if (option.modifierGroups) {
+          errors.push(
+            ...MenuModifiers.validateGroups(option.modifierGroups, [
+              ...path,
+              option.name,
+            ]),
+          );
+        }
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Short description of the selection rules, e.g. "Choose 1" or "Up to 2, first free"
+   */
+  static describeRule(group: ModifierGroup): string {
+    const { minSelections: min, maxSelections: max } = group;
+    let rule: string;
+    if (min > 0 && max === min) {
+      rule = `Choose ${min}`;
+    } else if (min > 0 && max !== undefined) {
+      rule = `Choose ${min}–${max}`;
+    } else if (min > 0) {
+      rule = `Choose at least ${min}`;
+    } else if (max !== undefined) {
+      rule = `Up to ${max}`;
+    } else {
+      rule = "Optional";
+    }
+
+    if (group.freeQuantity) {
+      rule +=
+        group.freeQuantity === 1
+          ? ", first free"
+          : `, first ${group.freeQuantity} free`;
+    }
+    return rule;
+  }
+
+  /**
+   * Apply the choices made when adding an item; groups without a choice get their default options
+   */
+  static select(
+    groups: ModifierGroup[],
+    selections: ModifierSelection[],
+  ): { modifiers: AppliedModifier[]; errors: string[] } {
+    return MenuModifiers.resolve(
+      groups,
+      MenuModifiers.withDefaults(groups, selections),
+    );
+  }
+
+  /**
+   * Add a choice to the modifiers of a cart item, nested under an applied option when parentOptionId is given.
+   * Choosing another option of a single-choice group, e.g. another size, replaces the current one.
+   */
+  static add(
+    groups: ModifierGroup[],
+    applied: AppliedModifier[],
+    selection: ModifierSelection,
+    parentOptionId?: string,
+  ): { modifiers: AppliedModifier[]; errors: string[] } {
+    const selections = MenuModifiers.toSelections(applied);
+
+    // The choices under the parent option, with the groups that apply to them
+    const findParent = (
+      list: ModifierSelection[],
+      listGroups: ModifierGroup[],
+    ): { list: ModifierSelection[]; groups: ModifierGroup[] } | undefined => {
+      for (const item of list) {
+        const option = listGroups
+          .find((group) => group.id === item.groupId)
+          ?.options.find((option) => option.id === item.optionId);
+        if (item.optionId === parentOptionId) {
+          item.modifiers = item.modifiers || [];
+          return { list: item.modifiers, groups: option?.modifierGroups || [] };
+        }
+        const nested = findParent(
+          item.modifiers || [],
+          option?.modifierGroups || [],
+        );
+        if (nested) return nested;
+      }
+      return undefined;
+    };
+    const target = parentOptionId
+      ? findParent(selections, groups)
+      : { list: selections, groups };
+    if (!target) {
+      return {
+        modifiers: applied,
+        errors: [`The item has no chosen option "${parentOptionId}"`],
+      };
+    }
+
+    const group = target.groups.find((group) =>
+      MenuModifiers.matches(selection.groupId, group),
+    );
+    const option = group?.options.find((option) =>
+      MenuModifiers.matches(selection.optionId, option),
+    );
+    if (group?.maxSelections === 1 && option) {
+      const kept = target.list.filter(
+        (item) => item.groupId !== group.id || item.optionId === option.id,
+      );
+      target.list.splice(0, target.list.length, ...kept);
+    }
+    target.list.push(MenuModifiers.withDefaults(target.groups, [selection])[0]);
+    return MenuModifiers.resolve(groups, selections);
+  }
+
+  /**
+   * Remove a choice (or some of its quantity) from the modifiers of a cart item, wherever it is nested
+   */
+  static remove(
+    groups: ModifierGroup[],
+    applied: AppliedModifier[],
+    optionId: string,
+    quantity?: number,
+  ): { modifiers: AppliedModifier[]; errors: string[] } {
+    let found = false;
+    const strip = (list: ModifierSelection[]): ModifierSelection[] =>
+      list.flatMap((item) => {
+        if (!found && item.optionId === optionId) {
+          found = true;
+          const left =
+            quantity === undefined ? 0 : (item.quantity ?? 1) - quantity;
+          return left > 0 ? [{ ...item, quantity: left }] : [];
+        }
+        return [
+          {
+            ...item,
+            ...(item.modifiers && { modifiers: strip(item.modifiers) }),
+          },
+        ];
+      });
+
+    const selections = strip(MenuModifiers.toSelections(applied));
+    if (!found) {
+      return {
+        modifiers: applied,
+        errors: [`The item has no chosen option "${optionId}"`],
+      };
+    }
+    return MenuModifiers.resolve(groups, selections);
+  }
+
+  /**
+   * Required groups that still need choices, including the nested groups of chosen options
+   */
+  static getMissingChoices(
+    groups: ModifierGroup[],
+    applied: AppliedModifier[],
+    path: string[] = [],
+  ): MissingChoice[] {
+    const missing: MissingChoice[] = [];
+    for (const group of groups) {
+      const selected = MenuModifiers.countSelected(applied, group.id);
+      if (selected < group.minSelections) {
+        missing.push({
+          groupId: group.id,
+          groupName: group.name,
+          path,
+          rule: MenuModifiers.describeRule(group),
+          selected,
+          remaining: group.minSelections - selected,
+          options: group.options
+            .filter((option) => MenuModifiers.isAvailable(option))
+            .map((option) => ({
+              id: option.id,
+              name: option.name,
+              price: option.price,
+            })),
+        });
+      }
+
+      for (const modifier of applied.filter(
+        (modifier) => modifier.groupId === group.id,
+      )) {
+        const option = group.options.find(
+          (option) => option.id === modifier.optionId,
+        );
+        if (option?.modifierGroups) {
+          missing.push(
+            ...MenuModifiers.getMissingChoices(
+              option.modifierGroups,
+              modifier.modifiers || [],
+              [...path, option.name],
+            ),
+          );
+        }
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Price of the modifiers for one unit of the item
+   */
+  static total(applied: AppliedModifier[]): number {
+    return applied.reduce((sum, modifier) => sum + modifier.price, 0);
+  }
+}
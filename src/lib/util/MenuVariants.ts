@@ -0,0 +1,216 @@
+export interface NutritionalInfo {
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+}
+
+// Variant of a menu item, e.g. a large iced latte; its price replaces the price of the item
+export interface MenuVariant {
+  id: string;
+  name: string; // e.g. "Large, Iced"
+  attributes: Record<string, string>; // Value per dimension, e.g. { size: 'Large', temperature: 'Iced' }
+  price: number;
+  available?: boolean; // Defaults to true
+  isDefault?: boolean; // Used when an item is added without a variant
+  nutritionalInfo?: NutritionalInfo;
+}
+
+// Variant chosen by the agent: a variant id or name, or the values of some dimensions, e.g. { size: 'Large' }
+export type VariantSelection = string | Record<string, string>;
+
+// Variant stored on a cart line
+export interface SelectedVariant {
+  id: string;
+  name: string;
+  attributes: Record<string, string>;
+}
+
+/**
+ * MenuVariants - lookup and checks of menu item variants (size, temperature, crust, ...), shared by the menu and the cart
+ */
+export class MenuVariants {
+  private constructor() {}
+
+  private static same(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  private static isAvailable(variant: MenuVariant): boolean {
+    return variant.available !== false;
+  }
+
+  private static combinationKey(attributes: Record<string, string>): string {
+    return Object.keys(attributes)
+      .sort()
+      .map((key) => `${key}=${attributes[key].toLowerCase()}`)
+      .join("&");
+  }
+
+  /**
+   * Check the variant definitions of a menu item
+   */
+  static validateVariants(variants: MenuVariant[]): string[] {
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    const combinations = new Set<string>();
+    const dimensions = Object.keys(variants[0]?.attributes || {})
+      .sort()
+      .join(", ");
+
+    for (const variant of variants) {
+      if (!variant.id || !variant.name) {
+        errors.push("Variants need an id and a name");
+        continue;
+      }
+      if (ids.has(variant.id)) {
+        errors.push(`Duplicate variant "${variant.id}"`);
+      }
+      ids.add(variant.id);
+
+      if (typeof variant.price !== "number" || variant.price < 0) {
+        errors.push(`${variant.name}: price must be a number of at least 0`);
+      }
+      const attributes = variant.attributes || {};
+      if (Object.keys(attributes).sort().join(", ") !== dimensions) {
+        errors.push(
+          `${variant.name}: every variant must set the same attributes (${dimensions})`,
+        );
+      }
+      const combination = MenuVariants.combinationKey(attributes);
+      if (combinations.has(combination)) {
+        errors.push(`${variant.name}: another variant has the same attributes`);
+      }
+      combinations.add(combination);
+    }
+
+    if (variants.filter((variant) => variant.isDefault).length > 1) {
+      errors.push("Only one variant can be the default");
+    }
+    return errors;
+  }
+
+  /**
+   * Values of each dimension in the order they first appear, e.g. { size: ['Small', 'Large'] }
+   */
+  static getDimensions(variants: MenuVariant[]): Record<string, string[]> {
+    const dimensions: Record<string, string[]> = {};
+    for (const variant of variants) {
+      for (const [dimension, value] of Object.entries(
+        variant.attributes || {},
+      )) {
+        dimensions[dimension] = dimensions[dimension] || [];
+        if (!dimensions[dimension].includes(value)) {
+          dimensions[dimension].push(value);
+        }
+      }
+    }
+    return dimensions;
+  }
+
+  /**
+   * Variant used when none is chosen: the available default, otherwise the first available variant
+   */
+  static getDefault(variants: MenuVariant[]): MenuVariant | undefined {
+    return (
+      variants.find(
+        (variant) => variant.isDefault && MenuVariants.isAvailable(variant),
+      ) || variants.find((variant) => MenuVariants.isAvailable(variant))
+    );
+  }
+
+  /**
+   * Lowest and highest price of the variants
+   */
+  static getPriceRange(variants: MenuVariant[]): { min: number; max: number } {
+    const prices = variants.map((variant) => variant.price);
+    return { min: Math.min(...prices), max: Math.max(...prices) };
+  }
+
+  /**
+   * Find the variant the agent asked for. Dimensions the selection leaves out keep the values of the
+   * current variant (when changing a cart line) or of the default variant.
+   */
+  static find(
+    variants: MenuVariant[],
+    selection: VariantSelection | undefined,
+    current?: SelectedVariant,
+  ): { variant?: MenuVariant; errors: string[] } {
+    if (variants.length === 0) {
+      return { errors: selection ? ["This item has no variants"] : [] };
+    }
+
+    let variant: MenuVariant | undefined;
+    if (selection === undefined || selection === null) {
+      variant = current
+        ? variants.find((item) => item.id === current.id)
+        : MenuVariants.getDefault(variants);
+      if (!variant) {
+        return { errors: ["No variant of this item is available"] };
+      }
+    } else if (typeof selection === "string") {
+      variant = variants.find(
+        (item) =>
+          item.id === selection || MenuVariants.same(item.name, selection),
+      );
+      if (!variant) {
+        return {
+          errors: [
+            `Unknown variant "${selection}", choose one of ${variants.map((item) => item.name).join("; ")}`,
+          ],
+        };
+      }
+    } else {
+      const dimensions = MenuVariants.getDimensions(variants);
+      const unknown = Object.keys(selection).filter(
+        (dimension) => !dimensions[dimension],
+      );
+      if (unknown.length > 0) {
+        return {
+          errors: [
+            `Unknown variant attribute ${unknown.join(", ")}, use ${Object.keys(dimensions).join(", ")}`,
+          ],
+        };
+      }
+      const base =
+        current?.attributes ||
+        MenuVariants.getDefault(variants)?.attributes ||
+        {};
+      const matching = (wanted: Record<string, string>) =>
+        variants.filter((item) =>
+          Object.entries(wanted).every(([dimension, value]) =>
+            MenuVariants.same(item.attributes[dimension] || "", value),
+          ),
+        );
+      // Without a variant that keeps the other values, any variant with the asked values will do, preferably an available one
+      const candidates = matching({ ...base, ...selection });
+      const fallback = candidates.length > 0 ? [] : matching(selection);
+      variant =
+        candidates[0] ||
+        fallback.find((item) => MenuVariants.isAvailable(item)) ||
+        fallback[0];
+      if (!variant) {
+        const description = Object.entries(selection)
+          .map(([dimension, value]) => `${dimension} ${value}`)
+          .join(", ");
+        return { errors: [`There is no variant with ${description}`] };
+      }
+    }
+
+    if (!MenuVariants.isAvailable(variant)) {
+      return { variant, errors: [`${variant.name} is currently unavailable`] };
+    }
+    return { variant, errors: [] };
+  }
+
+  /**
+   * Variant fields stored on a cart line
+   */
+  static toSelected(variant: MenuVariant): SelectedVariant {
+    return {
+      id: variant.id,
+      name: variant.name,
+      attributes: { ...variant.attributes },
+    };
+  }
+}
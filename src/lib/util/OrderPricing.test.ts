@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { OrderPricing, type PricedLine } from "./OrderPricing";
+import type { PricingConfig } from "./SettingsManager";
+
+const pricing = (changes: Partial<PricingConfig> = {}): PricingConfig => ({
+  taxRate: 8,
+  taxInclusive: false,
+  minorUnits: 2,
+  rounding: "halfUp",
+  ...changes,
+});
+
+const line = (
+  unitPrice: number,
+  quantity = 1,
+  categories: string[] = [],
+): PricedLine => ({ unitPrice, quantity, categories });
+
+describe("OrderPricing", () => {
+  it("sums in minor units without floating point error", () => {
+    const breakdown = OrderPricing.calculate(
+      [line(0.1, 3), line(0.2)],
+      pricing({ taxRate: 0 }),
+    );
+    expect(breakdown.subtotal).toBe(0.5);
+    expect(breakdown.total).toBe(0.5);
+  });
+
+  it("taxes each category at its own rate and rounds each rate once", () => {
+    const breakdown = OrderPricing.calculate(
+      [line(10, 1, ["food"]), line(3.33, 3, ["Beverages"])],
+      pricing({ categoryTaxRates: { beverages: 5 } }),
+    );
+    expect(breakdown.taxLines).toEqual([
+      { label: "Tax 8%", rate: 8, taxableAmount: 10, amount: 0.8 },
+      { label: "Tax 5%", rate: 5, taxableAmount: 9.99, amount: 0.5 },
+    ]);
+    expect(breakdown.total).toBe(21.29);
+  });
+
+  it("shows the tax contained in tax-inclusive prices without adding it", () => {
+    const breakdown = OrderPricing.calculate(
+      [line(10.8)],
+      pricing({ taxInclusive: true }),
+    );
+    expect(breakdown.tax).toBe(0.8);
+    expect(breakdown.total).toBe(10.8);
+    expect(breakdown.taxLines[0].label).toBe("Tax 8% (included)");
+  });
+
+  it("charges the service charge and percentage tips on the subtotal after discounts", () => {
+    const breakdown = OrderPricing.calculate(
+      [line(100)],
+      pricing({ taxRate: 0, serviceChargeRate: 10, deliveryFee: 5 }),
+      { percent: 10 },
+      [{ label: "Promo", amount: 20 }],
+    );
+    expect(breakdown.discount).toBe(20);
+    expect(breakdown.serviceCharge).toBe(8);
+    expect(breakdown.tip).toBe(8);
+    expect(breakdown.total).toBe(101);
+    expect(breakdown.lines.map((summary) => summary.kind)).toEqual([
+      "subtotal",
+      "discount",
+      "serviceCharge",
+      "deliveryFee",
+      "tax",
+      "tip",
+      "total",
+    ]);
+  });
+
+  it("offers the tip presets on the subtotal after discounts", () => {
+    expect(
+      OrderPricing.getTipOptions(80, pricing({ tipPresets: [15, 20] })),
+    ).toEqual([
+      { percent: 15, amount: 12 },
+      { percent: 20, amount: 16 },
+    ]);
+  });
+
+  it("lowers the tax of discounted lines and never discounts a line below zero", () => {
+    const breakdown = OrderPricing.calculate(
+      [line(5), line(10)],
+      pricing({ taxRate: 10 }),
+      undefined,
+      [{ label: "Free drink", amount: 8, lineAmounts: [8, 0] }],
+    );
+    expect(breakdown.discount).toBe(5);
+    expect(breakdown.tax).toBe(1);
+    expect(breakdown.total).toBe(11);
+  });
+
+  it("adds no fees or tip to an empty order", () => {
+    const breakdown = OrderPricing.calculate(
+      [],
+      pricing({ deliveryFee: 5, serviceChargeRate: 10 }),
+      { amount: 3 },
+    );
+    expect(breakdown.total).toBe(0);
+    expect(breakdown.lines.map((summary) => summary.kind)).toEqual([
+      "subtotal",
+      "total",
+    ]);
+  });
+
+  it("rounds half to even when configured and to whole units for currencies without a minor unit", () => {
+    expect(OrderPricing.roundAmount(0.125, pricing())).toBe(0.13);
+    expect(
+      OrderPricing.roundAmount(0.125, pricing({ rounding: "halfEven" })),
+    ).toBe(0.12);
+    expect(OrderPricing.roundAmount(4.35, pricing())).toBe(4.35);
+    expect(OrderPricing.roundAmount(1250.5, pricing({ minorUnits: 0 }))).toBe(
+      1251,
+    );
+  });
+});
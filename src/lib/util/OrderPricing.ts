@@ -0,0 +1,321 @@
+import type { PricingConfig } from "./SettingsManager";
+
+// Cart line as priced by the order summary
+export interface PricedLine {
+  unitPrice: number;
+  quantity: number;
+  categories: string[]; // Menu categories of the item, used to find its tax rate
+}
+
+// Discount taken off the subtotal before fees and tax, e.g. a promotion
+export interface OrderDiscount {
+  label: string;
+  amount: number;
+  lineAmounts?: number[]; // Part of the amount on each line (same order as the lines); spread over the order when left out
+}
+
+// Tip chosen by the customer: a percentage of the subtotal after discounts (as the service charge) or a fixed amount
+export type TipSelection = { percent: number } | { amount: number };
+
+export interface TipOption {
+  percent: number;
+  amount: number;
+}
+
+// Tax of all amounts taxed at one rate
+export interface TaxLine {
+  label: string; // e.g. "Tax 8%" or "Tax 5% (included)"
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+export type SummaryLineKind =
+  | "subtotal"
+  | "discount"
+  | "serviceCharge"
+  | "deliveryFee"
+  | "tax"
+  | "tip"
+  | "total";
+
+// One row of the order summary, in the order it is shown and read to the customer
+export interface SummaryLine {
+  kind: SummaryLineKind;
+  label: string;
+  amount: number; // Negative for discounts
+}
+
+export interface PricingBreakdown {
+  subtotal: number; // Before discounts
+  discount: number;
+  serviceCharge: number;
+  deliveryFee: number;
+  tax: number; // Included in the subtotal when taxInclusive, otherwise added to the total
+  tip: number;
+  total: number;
+  taxInclusive: boolean;
+  taxLines: TaxLine[];
+  lines: SummaryLine[];
+}
+
+/**
+ * OrderPricing - prices an order with the configured pricing rules. Amounts are summed and rounded
+ * in whole minor units (cents), so totals carry no floating point error.
+ */
+export class OrderPricing {
+  private constructor() {}
+
+  private static factor(pricing: PricingConfig): number {
+    return 10 ** pricing.minorUnits;
+  }
+
+  // Round a (fractional) number of minor units to a whole one
+  private static round(value: number, pricing: PricingConfig): number {
+    // Drop the noise of float multiplication first, e.g. 4.35 * 100 = 434.99999999999994
+    const exact = Number(value.toFixed(6));
+    const floor = Math.floor(exact);
+    const fraction = exact - floor;
+    if (fraction > 0.5) return floor + 1;
+    if (fraction < 0.5) return floor;
+    return pricing.rounding === "halfEven" && floor % 2 === 0
+      ? floor
+      : floor + 1;
+  }
+
+  private static toMinor(amount: number, pricing: PricingConfig): number {
+    return OrderPricing.round(amount * OrderPricing.factor(pricing), pricing);
+  }
+
+  private static fromMinor(minor: number, pricing: PricingConfig): number {
+    return minor / OrderPricing.factor(pricing);
+  }
+
+  private static percentOf(
+    minor: number,
+    percent: number,
+    pricing: PricingConfig,
+  ): number {
+    return OrderPricing.round((minor * percent) / 100, pricing);
+  }
+
+  /**
+   * Tax rate of an item: the rate of its first category that has one, otherwise the default rate
+   */
+  static getTaxRate(categories: string[], pricing: PricingConfig): number {
+    const rates = Object.entries(pricing.categoryTaxRates || {});
+    for (const category of categories) {
+      const match = rates.find(
+        ([name]) => name.toLowerCase() === category.toLowerCase(),
+      );
+      if (match) return match[1];
+    }
+    return pricing.taxRate;
+  }
+
+  /**
+   * Round an amount to the currency's minor unit
+   */
+  static roundAmount(amount: number, pricing: PricingConfig): number {
+    return OrderPricing.fromMinor(
+      OrderPricing.toMinor(amount, pricing),
+      pricing,
+    );
+  }
+
+  /**
+   * Tip amounts of the configured presets for a subtotal after discounts
+   */
+  static getTipOptions(
+    discountedSubtotal: number,
+    pricing: PricingConfig,
+  ): TipOption[] {
+    const minor = OrderPricing.toMinor(discountedSubtotal, pricing);
+    return (pricing.tipPresets || []).map((percent) => ({
+      percent,
+      amount: OrderPricing.fromMinor(
+        OrderPricing.percentOf(minor, percent, pricing),
+        pricing,
+      ),
+    }));
+  }
+
+  /**
+   * Price an order: subtotal, discounts, service charge, delivery fee, tax per rate, tip and total
+   */
+  static calculate(
+    lines: PricedLine[],
+    pricing: PricingConfig,
+    tip?: TipSelection,
+    discounts: OrderDiscount[] = [],
+  ): PricingBreakdown {
+    const taxableByRate = new Map<number, number>();
+    const addTaxable = (rate: number, minor: number) =>
+      taxableByRate.set(rate, (taxableByRate.get(rate) || 0) + minor);
+
+    // Line discounts lower the taxable amount of their line, a line never goes below zero
+    let subtotal = 0;
+    const netLines = lines.map((line, index) => {
+      const gross =
+        OrderPricing.toMinor(line.unitPrice, pricing) * line.quantity;
+      const discount = discounts.reduce(
+        (sum, item) =>
+          sum + OrderPricing.toMinor(item.lineAmounts?.[index] || 0, pricing),
+        0,
+      );
+      subtotal += gross;
+      return {
+        rate: OrderPricing.getTaxRate(line.categories, pricing),
+        net: Math.max(0, gross - discount),
+      };
+    });
+    const lineDiscount =
+      subtotal - netLines.reduce((sum, line) => sum + line.net, 0);
+
+    // Order discounts are spread over the tax rates in proportion to their amounts
+    const netSubtotal = subtotal - lineDiscount;
+    const orderDiscount = Math.min(
+      netSubtotal,
+      discounts
+        .filter((item) => !item.lineAmounts)
+        .reduce(
+          (sum, item) => sum + OrderPricing.toMinor(item.amount, pricing),
+          0,
+        ),
+    );
+    const netByRate = new Map<number, number>();
+    for (const line of netLines) {
+      netByRate.set(line.rate, (netByRate.get(line.rate) || 0) + line.net);
+    }
+    let unallocated = orderDiscount;
+    Array.from(netByRate.entries()).forEach(([rate, net], index, entries) => {
+      const share =
+        index === entries.length - 1
+          ? unallocated
+          : OrderPricing.round(
+              (orderDiscount * net) / (netSubtotal || 1),
+              pricing,
+            );
+      unallocated -= share;
+      addTaxable(rate, net - share);
+    });
+    const discount = lineDiscount + orderDiscount;
+    const discountedSubtotal = subtotal - discount;
+
+    const hasItems = lines.some((line) => line.quantity > 0);
+    const serviceCharge = hasItems
+      ? OrderPricing.percentOf(
+          discountedSubtotal,
+          pricing.serviceChargeRate || 0,
+          pricing,
+        )
+      : 0;
+    const deliveryFee = hasItems
+      ? OrderPricing.toMinor(pricing.deliveryFee || 0, pricing)
+      : 0;
+    if (pricing.feesTaxable && serviceCharge + deliveryFee > 0) {
+      addTaxable(pricing.taxRate, serviceCharge + deliveryFee);
+    }
+
+    // Tax per rate, so each rate is rounded once; included tax is the part of the amount above its net price
+    const taxLines: TaxLine[] = [];
+    let tax = 0;
+    for (const [rate, taxable] of Array.from(taxableByRate.entries()).sort(
+      (a, b) => b[0] - a[0],
+    )) {
+      if (taxable === 0) continue;
+      const amount = pricing.taxInclusive
+        ? taxable - OrderPricing.round(taxable / (1 + rate / 100), pricing)
+        : OrderPricing.percentOf(taxable, rate, pricing);
+      tax += amount;
+      taxLines.push({
+        label: `Tax ${rate}%${pricing.taxInclusive ? " (included)" : ""}`,
+        rate,
+        taxableAmount: OrderPricing.fromMinor(taxable, pricing),
+        amount: OrderPricing.fromMinor(amount, pricing),
+      });
+    }
+
+    let tipAmount = 0;
+    if (tip && hasItems) {
+      tipAmount =
+        "percent" in tip
+          ? OrderPricing.percentOf(discountedSubtotal, tip.percent, pricing)
+          : OrderPricing.toMinor(tip.amount, pricing);
+    }
+
+    const total =
+      discountedSubtotal +
+      serviceCharge +
+      deliveryFee +
+      (pricing.taxInclusive ? 0 : tax) +
+      tipAmount;
+
+    const summaryLines: SummaryLine[] = [
+      {
+        kind: "subtotal",
+        label: "Subtotal",
+        amount: OrderPricing.fromMinor(subtotal, pricing),
+      },
+    ];
+    for (const item of discounts) {
+      if (item.amount > 0) {
+        summaryLines.push({
+          kind: "discount",
+          label: item.label,
+          amount: -OrderPricing.fromMinor(
+            OrderPricing.toMinor(item.amount, pricing),
+            pricing,
+          ),
+        });
+      }
+    }
+    if (serviceCharge > 0) {
+      summaryLines.push({
+        kind: "serviceCharge",
+        label: `Service charge ${pricing.serviceChargeRate}%`,
+        amount: OrderPricing.fromMinor(serviceCharge, pricing),
+      });
+    }
+    if (deliveryFee > 0) {
+      summaryLines.push({
+        kind: "deliveryFee",
+        label: "Delivery fee",
+        amount: OrderPricing.fromMinor(deliveryFee, pricing),
+      });
+    }
+    summaryLines.push(
+      ...taxLines.map((line) => ({
+        kind: "tax" as const,
+        label: line.label,
+        amount: line.amount,
+      })),
+    );
+    if (tipAmount > 0) {
+      const label = tip && "percent" in tip ? `Tip ${tip.percent}%` : "Tip";
+      summaryLines.push({
+        kind: "tip",
+        label,
+        amount: OrderPricing.fromMinor(tipAmount, pricing),
+      });
+    }
+    summaryLines.push({
+      kind: "total",
+      label: "Total",
+      amount: OrderPricing.fromMinor(total, pricing),
+    });
+
+    return {
+      subtotal: OrderPricing.fromMinor(subtotal, pricing),
+      discount: OrderPricing.fromMinor(discount, pricing),
+      serviceCharge: OrderPricing.fromMinor(serviceCharge, pricing),
+      deliveryFee: OrderPricing.fromMinor(deliveryFee, pricing),
+      tax: OrderPricing.fromMinor(tax, pricing),
+      tip: OrderPricing.fromMinor(tipAmount, pricing),
+      total: OrderPricing.fromMinor(total, pricing),
+      taxInclusive: pricing.taxInclusive,
+      taxLines,
+      lines: summaryLines,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { PriceFormatter } from "./PriceFormatter";
+
+describe("PriceFormatter", () => {
+  it("formats prices for the store locale and currency", () => {
+    expect(
+      PriceFormatter.format(4.5, { locale: "en-US", currency: "USD" }),
+    ).toBe("$4.50");
+    expect(
+      PriceFormatter.format(1500, { locale: "ja-JP", currency: "JPY" }),
+    ).toBe("￥1,500");
+  });
+
+  it("knows the digits of the minor unit of each currency", () => {
+    expect(
+      PriceFormatter.getMinorDigits({ locale: "en-CA", currency: "CAD" }),
+    ).toBe(2);
+    expect(
+      PriceFormatter.getMinorDigits({ locale: "en-US", currency: "JPY" }),
+    ).toBe(0);
+  });
+
+  it("spells out English prices", () => {
+    const store = { locale: "en-US", currency: "USD" };
+    expect(PriceFormatter.toWords(4.5, store)).toBe(
+      "four dollars and fifty cents",
+    );
+    expect(PriceFormatter.toWords(1, store)).toBe("one dollar");
+    expect(PriceFormatter.toWords(0.01, store)).toBe("one cent");
+    expect(PriceFormatter.toWords(-21.99, store)).toBe(
+      "minus twenty-one dollars and ninety-nine cents",
+    );
+    expect(
+      PriceFormatter.toWords(1250, { locale: "en-US", currency: "JPY" }),
+    ).toBe("one thousand two hundred fifty yen");
+  });
+
+  it("spells out Spanish prices", () => {
+    const store = { locale: "es-MX", currency: "MXN" };
+    expect(PriceFormatter.toWords(4.5, store)).toBe(
+      "cuatro pesos con cincuenta centavos",
+    );
+    expect(PriceFormatter.toWords(21, store)).toBe("veintiún pesos");
+    expect(PriceFormatter.toWords(100, store)).toBe("cien pesos");
+    expect(PriceFormatter.toWords(1000000, store)).toBe("un millón de pesos");
+  });
+
+  it("spells out French prices", () => {
+    const store = { locale: "fr-CA", currency: "CAD" };
+    expect(PriceFormatter.toWords(4.5, store)).toBe(
+      "quatre dollars et cinquante cents",
+    );
+    expect(PriceFormatter.toWords(71, store)).toBe("soixante et onze dollars");
+    expect(PriceFormatter.toWords(80, store)).toBe("quatre-vingts dollars");
+    expect(PriceFormatter.toWords(99.81, store)).toBe(
+      "quatre-vingt-dix-neuf dollars et quatre-vingt-un cents",
+    );
+    expect(PriceFormatter.toWords(200000, store)).toBe(
+      "deux cent mille dollars",
+    );
+    expect(PriceFormatter.toWords(0, store)).toBe("zéro dollar");
+  });
+
+  it("falls back to the currency name Intl knows for other currencies", () => {
+    expect(
+      PriceFormatter.toWords(4.5, { locale: "en-US", currency: "CHF" }),
+    ).toBe("4.50 Swiss francs");
+  });
+});
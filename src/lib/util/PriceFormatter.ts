@@ -0,0 +1,414 @@
+import type { StoreLocale } from "./SettingsManager";
+
+// Names of a currency's major and minor unit, singular and plural
+interface CurrencyWords {
+  major: [string, string];
+  minor?: [string, string];
+}
+
+// Price as shown on screen and as the agent reads it out
+export interface PriceText {
+  amount: number;
+  formatted: string; // e.g. "$4.50" or "4,50 $"
+  spoken: string; // e.g. "four dollars and fifty cents"
+}
+
+// Languages prices are spelled out in
+type SpokenLanguage = "en" | "es" | "fr";
+
+// Spoken unit names per language; other currencies and languages fall back to the names Intl knows
+const CURRENCY_WORDS: Record<SpokenLanguage, Record<string, CurrencyWords>> = {
+  en: {
+    USD: { major: ["dollar", "dollars"], minor: ["cent", "cents"] },
+    CAD: { major: ["dollar", "dollars"], minor: ["cent", "cents"] },
+    AUD: { major: ["dollar", "dollars"], minor: ["cent", "cents"] },
+    MXN: { major: ["peso", "pesos"], minor: ["centavo", "centavos"] },
+    EUR: { major: ["euro", "euros"], minor: ["cent", "cents"] },
+    GBP: { major: ["pound", "pounds"], minor: ["penny", "pence"] },
+    JPY: { major: ["yen", "yen"] },
+  },
+  es: {
+    USD: { major: ["dólar", "dólares"], minor: ["centavo", "centavos"] },
+    CAD: {
+      major: ["dólar canadiense", "dólares canadienses"],
+      minor: ["centavo", "centavos"],
+    },
+    MXN: { major: ["peso", "pesos"], minor: ["centavo", "centavos"] },
+    EUR: { major: ["euro", "euros"], minor: ["céntimo", "céntimos"] },
+    JPY: { major: ["yen", "yenes"] },
+  },
+  // Masculine names only, as "un" is not turned into "une"
+  fr: {
+    USD: {
+      major: ["dollar américain", "dollars américains"],
+      minor: ["cent", "cents"],
+    },
+    CAD: { major: ["dollar", "dollars"], minor: ["cent", "cents"] },
+    MXN: { major: ["peso", "pesos"], minor: ["centavo", "centavos"] },
+    EUR: { major: ["euro", "euros"], minor: ["centime", "centimes"] },
+    JPY: { major: ["yen", "yens"] },
+  },
+};
+
+// Words joining the major and minor amounts, and the sign of negative amounts
+const SPOKEN_JOINERS: Record<SpokenLanguage, { and: string; minus: string }> = {
+  en: { and: "and", minus: "minus" },
+  es: { and: "con", minus: "menos" },
+  fr: { and: "et", minus: "moins" },
+};
+
+const EN_ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const EN_TENS = [
+  "",
+  "",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+];
+const EN_SCALES: [number, string][] = [
+  [1e9, "billion"],
+  [1e6, "million"],
+  [1e3, "thousand"],
+];
+
+const ES_ONES = [
+  "cero",
+  "uno",
+  "dos",
+  "tres",
+  "cuatro",
+  "cinco",
+  "seis",
+  "siete",
+  "ocho",
+  "nueve",
+  "diez",
+  "once",
+  "doce",
+  "trece",
+  "catorce",
+  "quince",
+  "dieciséis",
+  "diecisiete",
+  "dieciocho",
+  "diecinueve",
+  "veinte",
+  "veintiuno",
+  "veintidós",
+  "veintitrés",
+  "veinticuatro",
+  "veinticinco",
+  "veintiséis",
+  "veintisiete",
+  "veintiocho",
+  "veintinueve",
+];
+const ES_TENS = [
+  "",
+  "",
+  "",
+  "treinta",
+  "cuarenta",
+  "cincuenta",
+  "sesenta",
+  "setenta",
+  "ochenta",
+  "noventa",
+];
+const ES_HUNDREDS = [
+  "",
+  "ciento",
+  "doscientos",
+  "trescientos",
+  "cuatrocientos",
+  "quinientos",
+  "seiscientos",
+  "setecientos",
+  "ochocientos",
+  "novecientos",
+];
+
+const FR_ONES = [
+  "zéro",
+  "un",
+  "deux",
+  "trois",
+  "quatre",
+  "cinq",
+  "six",
+  "sept",
+  "huit",
+  "neuf",
+  "dix",
+  "onze",
+  "douze",
+  "treize",
+  "quatorze",
+  "quinze",
+  "seize",
+];
+const FR_TENS = [
+  "",
+  "",
+  "vingt",
+  "trente",
+  "quarante",
+  "cinquante",
+  "soixante",
+];
+const FR_SCALES: [number, string][] = [
+  [1e9, "milliard"],
+  [1e6, "million"],
+];
+
+/**
+ * PriceFormatter - formats prices for the store's locale and currency with Intl.NumberFormat,
+ * and spells them out for the agent to read back, e.g. "four dollars and fifty cents"
+ */
+export class PriceFormatter {
+  private static formatters = new Map<string, Intl.NumberFormat>();
+
+  private constructor() {}
+
+  private static getFormatter(
+    store: StoreLocale,
+    currencyDisplay: "symbol" | "name" = "symbol",
+  ): Intl.NumberFormat {
+    const key = `${store.locale}|${store.currency}|${currencyDisplay}`;
+    let formatter = PriceFormatter.formatters.get(key);
+    if (!formatter) {
+      try {
+        formatter = new Intl.NumberFormat(store.locale, {
+          style: "currency",
+          currency: store.currency,
+          currencyDisplay,
+        });
+      } catch (error) {
+        console.warn(
+          `⚠️ PriceFormatter: Invalid locale ${store.locale} or currency ${store.currency}, using en-US and USD:`,
+          error,
+        );
+        formatter = new Intl.NumberFormat("en-US", {
+          style: "currency",
+          currency: "USD",
+          currencyDisplay,
+        });
+      }
+      PriceFormatter.formatters.set(key, formatter);
+    }
+    return formatter;
+  }
+
+  private static englishWords(value: number): string {
+    for (const [scale, name] of EN_SCALES) {
+      if (value >= scale) {
+        const rest = value % scale;
+        return `${PriceFormatter.englishWords(Math.floor(value / scale))} ${name}${rest ? ` ${PriceFormatter.englishWords(rest)}` : ""}`;
+      }
+    }
+    if (value >= 100) {
+      const rest = value % 100;
+      return `${EN_ONES[Math.floor(value / 100)]} hundred${rest ? ` ${PriceFormatter.englishWords(rest)}` : ""}`;
+    }
+    if (value >= 20) {
+      const ones = value % 10;
+      return `${EN_TENS[Math.floor(value / 10)]}${ones ? `-${EN_ONES[ones]}` : ""}`;
+    }
+    return EN_ONES[value];
+  }
+
+  // "uno" shortens to "un" (and "veintiuno" to "veintiún") before a noun: "un peso", "veintiún mil"
+  private static spanishBeforeNoun(words: string): string {
+    return words.replace(/veintiuno$/, "veintiún").replace(/uno$/, "un");
+  }
+
+  private static spanishWords(value: number): string {
+    if (value >= 1e6) {
+      const millions = Math.floor(value / 1e6);
+      const rest = value % 1e6;
+      const head =
+        millions === 1
+          ? "un millón"
+          : `${PriceFormatter.spanishBeforeNoun(PriceFormatter.spanishWords(millions))} millones`;
+      return `${head}${rest ? ` ${PriceFormatter.spanishWords(rest)}` : ""}`;
+    }
+    if (value >= 1000) {
+      const thousands = Math.floor(value / 1000);
+      const rest = value % 1000;
+      const head =
+        thousands === 1
+          ? "mil"
+          : `${PriceFormatter.spanishBeforeNoun(PriceFormatter.spanishWords(thousands))} mil`;
+      return `${head}${rest ? ` ${PriceFormatter.spanishWords(rest)}` : ""}`;
+    }
+    if (value === 100) return "cien";
+    if (value > 100) {
+      const rest = value % 100;
+      return `${ES_HUNDREDS[Math.floor(value / 100)]}${rest ? ` ${PriceFormatter.spanishWords(rest)}` : ""}`;
+    }
+    if (value >= 30) {
+      const ones = value % 10;
+      return `${ES_TENS[Math.floor(value / 10)]}${ones ? ` y ${ES_ONES[ones]}` : ""}`;
+    }
+    return ES_ONES[value];
+  }
+
+  // Below 100: 70 to 79 count on from "soixante" and 80 to 99 from "quatre-vingt", e.g. "soixante-douze", "quatre-vingt-onze"
+  private static frenchTens(value: number): string {
+    if (value < 17) return FR_ONES[value];
+    if (value < 20) return `dix-${FR_ONES[value - 10]}`;
+    if (value >= 80)
+      return value === 80
+        ? "quatre-vingts"
+        : `quatre-vingt-${PriceFormatter.frenchTens(value - 80)}`;
+    if (value >= 70)
+      return value === 71
+        ? "soixante et onze"
+        : `soixante-${PriceFormatter.frenchTens(value - 60)}`;
+    const ones = value % 10;
+    const tens = FR_TENS[Math.floor(value / 10)];
+    return ones === 0
+      ? tens
+      : ones === 1
+        ? `${tens} et un`
+        : `${tens}-${FR_ONES[ones]}`;
+  }
+
+  // "cents" and "quatre-vingts" drop their s before "mille": "deux cent mille"
+  private static frenchBeforeMille(words: string): string {
+    return words.replace(/(cent|vingt)s$/, "$1");
+  }
+
+  private static frenchWords(value: number): string {
+    for (const [scale, name] of FR_SCALES) {
+      if (value >= scale) {
+        const count = Math.floor(value / scale);
+        const rest = value % scale;
+        return `${PriceFormatter.frenchWords(count)} ${name}${count > 1 ? "s" : ""}${rest ? ` ${PriceFormatter.frenchWords(rest)}` : ""}`;
+      }
+    }
+    if (value >= 1000) {
+      const thousands = Math.floor(value / 1000);
+      const rest = value % 1000;
+      const head =
+        thousands === 1
+          ? "mille"
+          : `${PriceFormatter.frenchBeforeMille(PriceFormatter.frenchWords(thousands))} mille`;
+      return `${head}${rest ? ` ${PriceFormatter.frenchWords(rest)}` : ""}`;
+    }
+    if (value >= 100) {
+      const hundreds = Math.floor(value / 100);
+      const rest = value % 100;
+      const head =
+        hundreds === 1 ? "cent" : `${FR_ONES[hundreds]} cent${rest ? "" : "s"}`;
+      return `${head}${rest ? ` ${PriceFormatter.frenchTens(rest)}` : ""}`;
+    }
+    return PriceFormatter.frenchTens(value);
+  }
+
+  private static spellUnits(
+    value: number,
+    names: [string, string],
+    language: SpokenLanguage,
+  ): string {
+    // French counts zero in the singular: "zéro dollar"
+    const name =
+      names[value === 1 || (language === "fr" && value === 0) ? 0 : 1];
+    if (language === "en") {
+      return `${PriceFormatter.englishWords(value)} ${name}`;
+    }
+    // Whole millions take "de": "un millón de pesos", "un million de dollars"
+    const of = value >= 1e6 && value % 1e6 === 0 ? "de " : "";
+    if (language === "fr") {
+      return `${PriceFormatter.frenchWords(value)} ${of}${name}`;
+    }
+    return `${PriceFormatter.spanishBeforeNoun(PriceFormatter.spanishWords(value))} ${of}${name}`;
+  }
+
+  /**
+   * Digits of the currency's minor unit, e.g. 2 for CAD and 0 for JPY
+   */
+  static getMinorDigits(store: StoreLocale): number {
+    return (
+      PriceFormatter.getFormatter(store).resolvedOptions()
+        .maximumFractionDigits ?? 2
+    );
+  }
+
+  /**
+   * Format a price for display, e.g. "$4.50" in en-CA or "4,50 $" in fr-CA
+   */
+  static format(amount: number, store: StoreLocale): string {
+    return PriceFormatter.getFormatter(store).format(amount);
+  }
+
+  /**
+   * Spell a price out for speech, e.g. "four dollars and fifty cents", "cuatro pesos con cincuenta centavos" or
+   * "quatre dollars et cinquante cents"
+   */
+  static toWords(amount: number, store: StoreLocale): string {
+    const language = store.locale.toLowerCase().split("-")[0];
+    const words =
+      language in CURRENCY_WORDS
+        ? CURRENCY_WORDS[language as SpokenLanguage][store.currency]
+        : undefined;
+    const digits = PriceFormatter.getMinorDigits(store);
+    if (!words || (digits > 0 && !words.minor) || Math.abs(amount) >= 1e12) {
+      // Intl spells the currency name but keeps the digits, e.g. "4.50 Swiss francs" or "4,50 francs suisses"
+      return PriceFormatter.getFormatter(store, "name").format(amount);
+    }
+
+    const lang = language as SpokenLanguage;
+    const minorTotal = Math.round(Math.abs(amount) * 10 ** digits);
+    const major = Math.floor(minorTotal / 10 ** digits);
+    const minor = minorTotal % 10 ** digits;
+
+    const parts: string[] = [];
+    if (major > 0 || minor === 0 || !words.minor) {
+      parts.push(PriceFormatter.spellUnits(major, words.major, lang));
+    }
+    if (minor > 0 && words.minor) {
+      parts.push(PriceFormatter.spellUnits(minor, words.minor, lang));
+    }
+    const joiners = SPOKEN_JOINERS[lang];
+    const spoken = parts.join(` ${joiners.and} `);
+    return amount < 0 ? `${joiners.minus} ${spoken}` : spoken;
+  }
+
+  /**
+   * Price as shown and as spoken, for results returned to tools
+   */
+  static describe(amount: number, store: StoreLocale): PriceText {
+    return {
+      amount,
+      formatted: PriceFormatter.format(amount, store),
+      spoken: PriceFormatter.toWords(amount, store),
+    };
+  }
+}
@@ -0,0 +1,380 @@
+import {
+  type AgentConfig,
+  type AppSettings,
+  SettingsManager,
+} from "./SettingsManager";
+import {
+  CURRENT_SETTINGS_VERSION,
+  SettingsMigrator,
+} from "./SettingsMigrations";
+import { DEFAULT_SYSTEM_PROMPT } from "./SettingsSchema";
+
+// Named agent configuration; Cognito settings are shared by all profiles
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProfileIndex {
+  activeProfileId: string | null;
+  profiles: SettingsProfile[];
+}
+
+// Agent configuration of a profile as stored while another profile is active
+interface StoredProfile {
+  schemaVersion: number;
+  agent: AgentConfig;
+}
+
+type ProfileResult = {
+  success: boolean;
+  errors: string[];
+  profile: SettingsProfile | null;
+};
+
+/**
+ * ProfileManager - named configuration profiles with quick switching.
+ * The active profile lives in the regular settings; switching stores its agent configuration
+ * under its own key and loads the agent configuration of the other profile in its place.
+ */
+export class ProfileManager {
+  private static readonly INDEX_KEY = "novaSonicProfiles";
+  private static readonly PROFILE_KEY_PREFIX = "novaSonicProfile_";
+  private static readonly DEFAULT_PROFILE_NAME = "Default";
+
+  private constructor() {}
+
+  private static generateId(): string {
+    return `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private static profileKey(id: string): string {
+    return `${ProfileManager.PROFILE_KEY_PREFIX}${id}`;
+  }
+
+  private static notify(): void {
+    window.dispatchEvent(new CustomEvent("profilesUpdated"));
+  }
+
+  private static writeIndex(index: ProfileIndex): void {
+    localStorage.setItem(ProfileManager.INDEX_KEY, JSON.stringify(index));
+  }
+
+  // Read the profile index; settings saved before profiles existed become the Default profile
+  private static readIndex(): ProfileIndex {
+    try {
+      const stored = localStorage.getItem(ProfileManager.INDEX_KEY);
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error("Error reading profiles:", error);
+    }
+
+    const index: ProfileIndex = { activeProfileId: null, profiles: [] };
+    if (SettingsManager.getSettings()) {
+      const now = new Date().toISOString();
+      const profile: SettingsProfile = {
+        id: ProfileManager.generateId(),
+        name: ProfileManager.DEFAULT_PROFILE_NAME,
+        createdAt: now,
+        updatedAt: now,
+      };
+      index.profiles.push(profile);
+      index.activeProfileId = profile.id;
+      ProfileManager.writeIndex(index);
+      console.log("👤 Created the Default profile from the current settings");
+    }
+    return index;
+  }
+
+  private static saveProfileAgent(id: string, agent: AgentConfig): void {
+    const stored: StoredProfile = {
+      schemaVersion: CURRENT_SETTINGS_VERSION,
+      agent,
+    };
+    localStorage.setItem(ProfileManager.profileKey(id), JSON.stringify(stored));
+  }
+
+  // Agent configuration of a profile, migrated when it was stored by an older version
+  private static readProfileAgent(
+    id: string,
+    settings: AppSettings,
+  ): AgentConfig | null {
+    const stored = localStorage.getItem(ProfileManager.profileKey(id));
+    if (!stored) return null;
+
+    const profile: StoredProfile = JSON.parse(stored);
+    if (profile.schemaVersion === CURRENT_SETTINGS_VERSION) {
+      return profile.agent;
+    }
+    const migration = SettingsMigrator.migrate(
+      { cognito: settings.cognito, agent: profile.agent },
+      profile.schemaVersion,
+      "profile",
+    );
+    return migration.settings.agent;
+  }
+
+  // Agent configuration of any profile; the active one is read from the current settings
+  private static getProfileAgent(
+    index: ProfileIndex,
+    id: string,
+  ): AgentConfig | null {
+    const settings = SettingsManager.getSettings();
+    if (!settings) return null;
+    return id === index.activeProfileId
+      ? settings.agent
+      : ProfileManager.readProfileAgent(id, settings);
+  }
+
+  // Store the agent configuration of the active profile before another one replaces it
+  private static storeActiveProfile(index: ProfileIndex): void {
+    const settings = SettingsManager.getSettings();
+    const active = index.profiles.find(
+      (profile) => profile.id === index.activeProfileId,
+    );
+    if (settings && active) {
+      ProfileManager.saveProfileAgent(active.id, settings.agent);
+      active.updatedAt = new Date().toISOString();
+    }
+  }
+
+  // Add a profile to the index; its agent configuration is stored unless it becomes the active one
+  private static addProfile(
+    index: ProfileIndex,
+    name: string,
+    agent: AgentConfig | null,
+  ): SettingsProfile {
+    const now = new Date().toISOString();
+    const profile: SettingsProfile = {
+      id: ProfileManager.generateId(),
+      name: name.trim(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (agent) {
+      ProfileManager.saveProfileAgent(profile.id, agent);
+    }
+    index.profiles.push(profile);
+    return profile;
+  }
+
+  /**
+   * All profiles in creation order
+   */
+  static listProfiles(): SettingsProfile[] {
+    return [...ProfileManager.readIndex().profiles];
+  }
+
+  /**
+   * The profile whose agent configuration is currently in use
+   */
+  static getActiveProfile(): SettingsProfile | null {
+    const index = ProfileManager.readIndex();
+    return (
+      index.profiles.find((profile) => profile.id === index.activeProfileId) ||
+      null
+    );
+  }
+
+  /**
+   * Validate a profile name; names must be unique regardless of case
+   */
+  static validateProfileName(name: string, profileId?: string): string[] {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return ["Profile name is required"];
+    }
+    if (trimmed.length > 60) {
+      return ["Profile name must be at most 60 characters"];
+    }
+    const taken = ProfileManager.readIndex().profiles.some(
+      (profile) =>
+        profile.id !== profileId &&
+        profile.name.toLowerCase() === trimmed.toLowerCase(),
+    );
+    return taken ? [`A profile named "${trimmed}" already exists`] : [];
+  }
+
+  /**
+   * A name based on the given one that no profile uses yet, e.g. "Coffee Shop (2)"
+   */
+  static getUniqueName(baseName: string): string {
+    const base = baseName.trim() || ProfileManager.DEFAULT_PROFILE_NAME;
+    let name = base;
+    for (
+      let suffix = 2;
+      ProfileManager.validateProfileName(name).length > 0;
+      suffix++
+    ) {
+      name = `${base} (${suffix})`;
+    }
+    return name;
+  }
+
+  /**
+   * Create a profile with an empty agent configuration, or the given one
+   */
+  static createProfile(name: string, agent?: AgentConfig): ProfileResult {
+    const errors = ProfileManager.validateProfileName(name);
+    if (errors.length > 0) {
+      return { success: false, errors, profile: null };
+    }
+
+    const index = ProfileManager.readIndex();
+    const profile = ProfileManager.addProfile(
+      index,
+      name,
+      agent || {
+        system_prompt: DEFAULT_SYSTEM_PROMPT,
+        globalParameters: [],
+        tools: [],
+      },
+    );
+    ProfileManager.writeIndex(index);
+    ProfileManager.notify();
+    console.log(`👤 Created profile "${profile.name}"`);
+    return { success: true, errors: [], profile };
+  }
+
+  /**
+   * Create a profile with a copy of another profile's agent configuration
+   */
+  static cloneProfile(id: string, name: string): ProfileResult {
+    const index = ProfileManager.readIndex();
+    const source = index.profiles.find((profile) => profile.id === id);
+    const agent = source ? ProfileManager.getProfileAgent(index, id) : null;
+    if (!source || !agent) {
+      return { success: false, errors: ["Profile not found"], profile: null };
+    }
+    return ProfileManager.createProfile(name, structuredClone(agent));
+  }
+
+  /**
+   * Rename a profile
+   */
+  static renameProfile(id: string, name: string): ProfileResult {
+    const index = ProfileManager.readIndex();
+    const profile = index.profiles.find((item) => item.id === id);
+    if (!profile) {
+      return { success: false, errors: ["Profile not found"], profile: null };
+    }
+    const errors = ProfileManager.validateProfileName(name, id);
+    if (errors.length > 0) {
+      return { success: false, errors, profile: null };
+    }
+
+    profile.name = name.trim();
+    profile.updatedAt = new Date().toISOString();
+    ProfileManager.writeIndex(index);
+    ProfileManager.notify();
+    return { success: true, errors: [], profile };
+  }
+
+  /**
+   * Delete an inactive profile. Its settings are kept as a backup, so it can be restored.
+   */
+  static deleteProfile(id: string): { success: boolean; errors: string[] } {
+    const index = ProfileManager.readIndex();
+    const profile = index.profiles.find((item) => item.id === id);
+    if (!profile) {
+      return { success: false, errors: ["Profile not found"] };
+    }
+    if (id === index.activeProfileId) {
+      return {
+        success: false,
+        errors: ["Switch to another profile before deleting this one"],
+      };
+    }
+
+    const settings = SettingsManager.getSettings();
+    const agent = ProfileManager.getProfileAgent(index, id);
+    if (settings && agent) {
+      SettingsManager.createBackup(`Profile "${profile.name}" deleted`, {
+        ...settings,
+        agent,
+      });
+    }
+    localStorage.removeItem(ProfileManager.profileKey(id));
+    index.profiles = index.profiles.filter((item) => item.id !== id);
+    ProfileManager.writeIndex(index);
+    ProfileManager.notify();
+    console.log(`👤 Deleted profile "${profile.name}"`);
+    return { success: true, errors: [] };
+  }
+
+  /**
+   * Make another profile active, keeping the shared Cognito settings
+   */
+  static switchProfile(id: string): { success: boolean; errors: string[] } {
+    try {
+      const index = ProfileManager.readIndex();
+      const target = index.profiles.find((profile) => profile.id === id);
+      const settings = SettingsManager.getSettings();
+      if (!target || !settings) {
+        return { success: false, errors: ["Profile not found"] };
+      }
+      if (id === index.activeProfileId) {
+        return { success: true, errors: [] };
+      }
+
+      const agent = ProfileManager.readProfileAgent(id, settings);
+      if (!agent) {
+        return {
+          success: false,
+          errors: [`The settings of profile "${target.name}" are missing`],
+        };
+      }
+
+      ProfileManager.storeActiveProfile(index);
+      SettingsManager.saveSettings({ cognito: settings.cognito, agent });
+      localStorage.removeItem(ProfileManager.profileKey(id));
+      index.activeProfileId = id;
+      ProfileManager.writeIndex(index);
+      ProfileManager.notify();
+      window.dispatchEvent(new CustomEvent("settingsUpdated"));
+      console.log(`👤 Switched to profile "${target.name}"`);
+      return { success: true, errors: [] };
+    } catch (error) {
+      console.error("Error switching profile:", error);
+      return {
+        success: false,
+        errors: [
+          `Failed to switch profile: ${error instanceof Error ? error.message : "Unknown error"}`,
+        ],
+      };
+    }
+  }
+
+  /**
+   * Load sample settings into a new profile and make it active, instead of replacing the current profile.
+   * Existing Cognito settings are preserved as in SettingsManager.initializeWithSettings.
+   */
+  static async loadIntoNewProfile(
+    name: string,
+    sampleSettings: AppSettings,
+  ): Promise<{
+    loaded: boolean;
+    hadExistingSettings: boolean;
+    profile: SettingsProfile | null;
+  }> {
+    const index = ProfileManager.readIndex();
+    const profileName = ProfileManager.getUniqueName(name);
+    ProfileManager.storeActiveProfile(index);
+
+    const result = await SettingsManager.initializeWithSettings(sampleSettings);
+    if (!result.loaded) {
+      return { ...result, profile: null };
+    }
+
+    const profile = ProfileManager.addProfile(index, profileName, null);
+    index.activeProfileId = profile.id;
+    ProfileManager.writeIndex(index);
+    ProfileManager.notify();
+    console.log(`👤 Loaded sample into new profile "${profile.name}"`);
+    return { ...result, profile };
+  }
+}
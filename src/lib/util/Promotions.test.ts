@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  type PromotionContext,
+  type PromotionLine,
+  Promotions,
+} from "./Promotions";
+import type { PricingConfig, Promotion } from "./SettingsManager";
+
+const pricing: PricingConfig = {
+  taxRate: 0,
+  taxInclusive: false,
+  minorUnits: 2,
+  rounding: "halfUp",
+};
+
+const context = (
+  changes: Partial<PromotionContext> = {},
+): PromotionContext => ({
+  now: new Date(2026, 0, 14, 12, 0), // Wednesday noon
+  couponCodes: [],
+  loyaltyMember: false,
+  formatPrice: (amount) => `$${amount.toFixed(2)}`,
+  ...changes,
+});
+
+const line = (
+  menuItemId: string,
+  unitPrice: number,
+  quantity = 1,
+  categories: string[] = [],
+): PromotionLine => ({
+  menuItemId,
+  unitPrice,
+  quantity,
+  categories,
+});
+
+const promotion = (
+  changes: Partial<Promotion> & Pick<Promotion, "type">,
+): Promotion => ({
+  id: "promo",
+  name: "Promo",
+  enabled: true,
+  ...changes,
+});
+
+describe("Promotions", () => {
+  it("discounts the cheapest unit of each buy-one-get-one group", () => {
+    const bogo = promotion({ type: "bogo", categories: ["pizza"] });
+    const result = Promotions.evaluate(
+      [
+        line("large", 15, 1, ["pizza"]),
+        line("small", 9, 2, ["pizza"]),
+        line("cola", 2),
+      ],
+      [bogo],
+      context(),
+      pricing,
+    );
+    expect(result.discount).toBe(9);
+    expect(result.applied).toEqual([
+      {
+        promotionId: "promo",
+        label: "Promo",
+        amount: 9,
+        lineAmounts: [0, 9, 0],
+      },
+    ]);
+    expect(result.statuses[0].requirements).toEqual([
+      "Add 1 more qualifying item",
+    ]);
+  });
+
+  it("tells how much more the order needs for a spend threshold", () => {
+    const threshold = promotion({
+      type: "orderDiscount",
+      amountOff: 5,
+      minSubtotal: 25,
+    });
+    const result = Promotions.evaluate(
+      [line("burger", 20.5)],
+      [threshold],
+      context(),
+      pricing,
+    );
+    expect(result.discount).toBe(0);
+    expect(result.statuses[0]).toMatchObject({
+      applied: false,
+      requirements: ["Spend $4.50 more"],
+    });
+  });
+
+  it("applies item discounts before order discounts", () => {
+    const result = Promotions.evaluate(
+      [line("burger", 10), line("fries", 5)],
+      [
+        promotion({ id: "order", type: "orderDiscount", percentOff: 10 }),
+        promotion({
+          id: "item",
+          type: "amountOff",
+          amountOff: 2,
+          itemIds: ["burger"],
+        }),
+      ],
+      context(),
+      pricing,
+    );
+    expect(
+      result.applied.map((applied) => [applied.promotionId, applied.amount]),
+    ).toEqual([
+      ["item", 2],
+      ["order", 1.3],
+    ]);
+    expect(result.discount).toBe(3.3);
+  });
+
+  it("runs happy hours only inside their schedule, including windows past midnight", () => {
+    const happyHour = promotion({
+      type: "percentOff",
+      percentOff: 50,
+      schedule: { days: [2], startTime: "22:00", endTime: "02:00" },
+    });
+    const lines = [line("beer", 6)];
+    expect(
+      Promotions.evaluate(
+        lines,
+        [happyHour],
+        context({ now: new Date(2026, 0, 14, 1, 0) }),
+        pricing,
+      ).discount,
+    ).toBe(3);
+    expect(
+      Promotions.evaluate(
+        lines,
+        [happyHour],
+        context({ now: new Date(2026, 0, 14, 22, 0) }),
+        pricing,
+      ).discount,
+    ).toBe(0);
+  });
+
+  it("keeps coupon and loyalty deals for the customers who qualify", () => {
+    const coupon = promotion({
+      id: "coupon",
+      type: "orderDiscount",
+      amountOff: 3,
+      couponCode: "SAVE-25",
+    });
+    const loyalty = promotion({
+      id: "loyalty",
+      type: "percentOff",
+      percentOff: 10,
+      loyaltyOnly: true,
+    });
+    const lines = [line("burger", 20)];
+
+    const guest = Promotions.evaluate(
+      lines,
+      [coupon, loyalty],
+      context(),
+      pricing,
+    );
+    expect(guest.statuses.map((status) => status.id)).toEqual(["loyalty"]);
+    expect(guest.discount).toBe(0);
+
+    const member = Promotions.evaluate(
+      lines,
+      [coupon, loyalty],
+      context({ couponCodes: ["save twenty five"], loyaltyMember: true }),
+      pricing,
+    );
+    expect(member.discount).toBe(5);
+  });
+
+  it("finds coupons by their code as typed or spoken", () => {
+    const coupons = [
+      promotion({ type: "orderDiscount", couponCode: "SAVE25" }),
+      promotion({
+        id: "off",
+        type: "orderDiscount",
+        couponCode: "OFF",
+        enabled: false,
+      }),
+    ];
+    expect(Promotions.normalizeCode("save twenty five")).toBe("SAVE25");
+    expect(Promotions.findByCode(coupons, "save-25")?.id).toBe("promo");
+    expect(Promotions.findByCode(coupons, "off")).toBeUndefined();
+  });
+});
@@ -0,0 +1,392 @@
+import {
+  type OrderDiscount,
+  OrderPricing,
+  type PricedLine,
+} from "./OrderPricing";
+import type {
+  PricingConfig,
+  Promotion,
+  PromotionSchedule,
+} from "./SettingsManager";
+
+// Cart line as seen by the promotions
+export interface PromotionLine extends PricedLine {
+  menuItemId: string;
+}
+
+// What the cart knows about the order when promotions are evaluated
+export interface PromotionContext {
+  now: Date;
+  couponCodes: string[]; // Codes the customer gave, as entered
+  loyaltyMember: boolean;
+  formatPrice: (amount: number) => string;
+}
+
+// Promotion applied to the order, with the part of its discount on each line
+export interface AppliedPromotion extends OrderDiscount {
+  promotionId: string;
+}
+
+// Promotion as offered to the customer: applied, or what the order still needs
+export interface PromotionStatus {
+  id: string;
+  name: string;
+  description?: string;
+  applied: boolean;
+  discount: number;
+  loyaltyOnly: boolean;
+  viaCoupon: boolean;
+  requirements: string[]; // e.g. "Spend $4.50 more" or "Add 1 more qualifying item"
+}
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];
+  statuses: PromotionStatus[];
+  discount: number;
+}
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Spoken numbers in coupon codes, so "save twenty five" matches SAVE25
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+/**
+ * Promotions - evaluates BOGO deals, item and category discounts, spend thresholds, happy hours,
+ * loyalty-only deals and coupon codes against the cart
+ */
+export class Promotions {
+  private constructor() {}
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private static isInSchedule(schedule: PromotionSchedule, now: Date): boolean {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = Promotions.toMinutes(schedule.startTime);
+    const end = Promotions.toMinutes(schedule.endTime);
+    // A window past midnight belongs to the day it starts on
+    const afterMidnight = end <= start && minutes < end;
+    const day = afterMidnight ? (now.getDay() + 6) % 7 : now.getDay();
+    if (
+      schedule.days &&
+      schedule.days.length > 0 &&
+      !schedule.days.includes(day)
+    ) {
+      return false;
+    }
+    return end > start
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  private static describeSchedule(schedule: PromotionSchedule): string {
+    const days =
+      schedule.days && schedule.days.length > 0 && schedule.days.length < 7
+        ? `${[...schedule.days]
+            .sort()
+            .map((day) => DAY_NAMES[day])
+            .join(", ")} `
+        : "";
+    return `${days}${schedule.startTime}–${schedule.endTime}`;
+  }
+
+  // Local date as YYYY-MM-DD, to compare with validFrom and validUntil
+  private static toDateString(now: Date): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  }
+
+  private static isCurrent(promotion: Promotion, now: Date): boolean {
+    const today = Promotions.toDateString(now);
+    return (
+      (!promotion.validFrom || promotion.validFrom <= today) &&
+      (!promotion.validUntil || today <= promotion.validUntil)
+    );
+  }
+
+  private static appliesTo(promotion: Promotion, line: PromotionLine): boolean {
+    const itemIds = promotion.itemIds || [];
+    const categories = (promotion.categories || []).map((category) =>
+      category.toLowerCase(),
+    );
+    if (itemIds.length === 0 && categories.length === 0) return true;
+    return (
+      itemIds.includes(line.menuItemId) ||
+      line.categories.some((category) =>
+        categories.includes(category.toLowerCase()),
+      )
+    );
+  }
+
+  // Conditions of the order rather than of its items
+  private static getOrderRequirements(
+    promotion: Promotion,
+    context: PromotionContext,
+    subtotal: number,
+  ): string[] {
+    const requirements: string[] = [];
+    if (promotion.loyaltyOnly && !context.loyaltyMember) {
+      requirements.push("Only for loyalty members");
+    }
+    if (
+      promotion.schedule &&
+      !Promotions.isInSchedule(promotion.schedule, context.now)
+    ) {
+      requirements.push(
+        `Only ${Promotions.describeSchedule(promotion.schedule)}`,
+      );
+    }
+    if (promotion.minSubtotal && subtotal < promotion.minSubtotal) {
+      requirements.push(
+        `Spend ${context.formatPrice(promotion.minSubtotal - subtotal)} more`,
+      );
+    }
+    return requirements;
+  }
+
+  // Discount of a BOGO deal: of each group of buy + get qualifying units, the cheapest get units are discounted
+  private static getBogoDiscounts(
+    promotion: Promotion,
+    units: { index: number; price: number }[],
+    remaining: number[],
+    pricing: PricingConfig,
+  ): { lineAmounts: number[]; requirement?: string } {
+    const lineAmounts = remaining.map(() => 0);
+    const buy = promotion.buyQuantity || 1;
+    const get = promotion.getQuantity || 1;
+    const group = buy + get;
+    const sorted = [...units].sort((a, b) => b.price - a.price);
+    const groups = Math.floor(sorted.length / group);
+
+    for (let g = 0; g < groups; g++) {
+      for (const unit of sorted.slice(g * group + buy, (g + 1) * group)) {
+        const amount = Math.min(
+          remaining[unit.index] - lineAmounts[unit.index],
+          OrderPricing.roundAmount(
+            (unit.price * (promotion.percentOff ?? 100)) / 100,
+            pricing,
+          ),
+        );
+        lineAmounts[unit.index] += Math.max(0, amount);
+      }
+    }
+
+    const left = sorted.length - groups * group;
+    const missing =
+      groups === 0 ? group - left : left >= buy ? group - left : 0;
+    return {
+      lineAmounts,
+      requirement:
+        missing > 0
+          ? `Add ${missing} more qualifying item${missing === 1 ? "" : "s"}`
+          : undefined,
+    };
+  }
+
+  /**
+   * Coupon code in a comparable form: upper case without spaces or dashes, spoken numbers as digits
+   */
+  static normalizeCode(code: string): string {
+    const words = code
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+    const parts: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+      const value = NUMBER_WORDS[words[i]];
+      const next = NUMBER_WORDS[words[i + 1]];
+      if (value >= 20 && next !== undefined && next > 0 && next < 10) {
+        parts.push(String(value + next));
+        i++;
+      } else {
+        parts.push(value !== undefined ? String(value) : words[i]);
+      }
+    }
+    return parts.join("").toUpperCase();
+  }
+
+  /**
+   * Enabled promotion with this coupon code, as typed or as spoken
+   */
+  static findByCode(
+    promotions: Promotion[],
+    code: string,
+  ): Promotion | undefined {
+    const given = Promotions.normalizeCode(code);
+    const plain = code.replace(/[^a-z0-9]/gi, "").toUpperCase();
+    return promotions.find((promotion) => {
+      if (!promotion.enabled || !promotion.couponCode) return false;
+      const own = promotion.couponCode.replace(/[^a-z0-9]/gi, "").toUpperCase();
+      return (
+        own === plain ||
+        Promotions.normalizeCode(promotion.couponCode) === given
+      );
+    });
+  }
+
+  /**
+   * Apply the promotions to the cart lines. Item discounts come before order discounts, otherwise the
+   * configured order is kept, and no line is discounted below zero.
+   */
+  static evaluate(
+    lines: PromotionLine[],
+    promotions: Promotion[],
+    context: PromotionContext,
+    pricing: PricingConfig,
+  ): PromotionResult {
+    const grossLines = lines.map(
+      (line) =>
+        OrderPricing.roundAmount(line.unitPrice, pricing) * line.quantity,
+    );
+    const subtotal = grossLines.reduce((sum, amount) => sum + amount, 0);
+    const remaining = [...grossLines];
+    let orderRemaining = subtotal;
+
+    const applied: AppliedPromotion[] = [];
+    const statuses: PromotionStatus[] = [];
+    const ordered = [
+      ...promotions.filter((promotion) => promotion.type !== "orderDiscount"),
+      ...promotions.filter((promotion) => promotion.type === "orderDiscount"),
+    ];
+
+    for (const promotion of ordered) {
+      if (!promotion.enabled || !Promotions.isCurrent(promotion, context.now))
+        continue;
+      // Coupon deals stay hidden until the customer gives their code
+      if (
+        promotion.couponCode &&
+        !context.couponCodes.some((code) =>
+          Promotions.findByCode([promotion], code),
+        )
+      )
+        continue;
+
+      const requirements = Promotions.getOrderRequirements(
+        promotion,
+        context,
+        subtotal,
+      );
+      const qualifying = lines
+        .map((line, index) => ({ line, index }))
+        .filter(
+          ({ line }) =>
+            line.quantity > 0 && Promotions.appliesTo(promotion, line),
+        );
+      if (promotion.type !== "orderDiscount" && qualifying.length === 0) {
+        requirements.push("Add a qualifying item");
+      }
+
+      let discount = 0;
+      let lineAmounts: number[] | undefined;
+      if (requirements.length === 0) {
+        if (promotion.type === "orderDiscount") {
+          const amount =
+            promotion.percentOff !== undefined
+              ? OrderPricing.roundAmount(
+                  (orderRemaining * promotion.percentOff) / 100,
+                  pricing,
+                )
+              : promotion.amountOff || 0;
+          discount = Math.min(orderRemaining, amount);
+          orderRemaining -= discount;
+        } else if (promotion.type === "bogo") {
+          const units = qualifying.flatMap(({ line, index }) =>
+            Array.from({ length: line.quantity }, () => ({
+              index,
+              price: OrderPricing.roundAmount(line.unitPrice, pricing),
+            })),
+          );
+          const bogo = Promotions.getBogoDiscounts(
+            promotion,
+            units,
+            remaining,
+            pricing,
+          );
+          lineAmounts = bogo.lineAmounts;
+          if (bogo.requirement) requirements.push(bogo.requirement);
+        } else {
+          lineAmounts = lines.map(() => 0);
+          for (const { line, index } of qualifying) {
+            const amount =
+              promotion.type === "percentOff"
+                ? OrderPricing.roundAmount(
+                    (grossLines[index] * (promotion.percentOff || 0)) / 100,
+                    pricing,
+                  )
+                : OrderPricing.roundAmount(
+                    Math.min(promotion.amountOff || 0, line.unitPrice) *
+                      line.quantity,
+                    pricing,
+                  );
+            lineAmounts[index] = Math.min(remaining[index], amount);
+          }
+        }
+
+        if (lineAmounts) {
+          lineAmounts.forEach((amount, index) => {
+            remaining[index] -= amount;
+          });
+          discount = lineAmounts.reduce((sum, amount) => sum + amount, 0);
+          orderRemaining -= discount;
+        }
+      }
+
+      discount = OrderPricing.roundAmount(discount, pricing);
+      if (discount > 0) {
+        applied.push({
+          promotionId: promotion.id,
+          label: promotion.name,
+          amount: discount,
+          ...(lineAmounts && { lineAmounts }),
+        });
+      }
+      statuses.push({
+        id: promotion.id,
+        name: promotion.name,
+        description: promotion.description,
+        applied: discount > 0,
+        discount,
+        loyaltyOnly: promotion.loyaltyOnly === true,
+        viaCoupon: Boolean(promotion.couponCode),
+        requirements,
+      });
+    }
+
+    return {
+      applied,
+      statuses,
+      discount: OrderPricing.roundAmount(subtotal - orderRemaining, pricing),
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { SecretVault } from "./SecretVault";
+
+// The vault keeps its settings in localStorage and announces changes on window
+const storage = new Map<string, string>();
+vi.stubGlobal("localStorage", {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+});
+vi.stubGlobal("window", new EventTarget());
+
+describe("SecretVault", () => {
+  beforeEach(() => {
+    SecretVault.reset();
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("decrypts what it encrypted after locking and unlocking with the passphrase", async () => {
+    expect(
+      (await SecretVault.setup("passphrase", "correct horse")).success,
+    ).toBe(true);
+    const encrypted = await SecretVault.encrypt("sk-live-123");
+    expect(encrypted).not.toContain("sk-live-123");
+
+    SecretVault.lock();
+    expect(SecretVault.reveal(encrypted)).toBeUndefined();
+    await expect(SecretVault.decrypt(encrypted)).rejects.toThrow(
+      "Unlock the secret vault first",
+    );
+
+    expect(await SecretVault.unlock("correct horse")).toEqual({
+      success: true,
+      errors: [],
+    });
+    expect(await SecretVault.decrypt(encrypted)).toBe("sk-live-123");
+    expect(SecretVault.reveal(encrypted)).toBe("sk-live-123");
+  });
+
+  it("refuses a wrong passphrase and a short one", async () => {
+    expect(await SecretVault.setup("passphrase", "short")).toEqual({
+      success: false,
+      errors: ["Passphrase must be at least 8 characters"],
+    });
+
+    await SecretVault.setup("passphrase", "correct horse");
+    SecretVault.lock();
+    expect(await SecretVault.unlock("wrong horse")).toEqual({
+      success: false,
+      errors: ["Wrong passphrase"],
+    });
+    expect(SecretVault.isUnlocked()).toBe(false);
+  });
+
+  it("unlocks an identity vault for the same Cognito identity only", async () => {
+    await SecretVault.setIdentity("us-east-1:alice");
+    await SecretVault.setup("identity");
+    const encrypted = await SecretVault.encrypt("token");
+
+    await SecretVault.setIdentity(undefined);
+    expect(SecretVault.isUnlocked()).toBe(false);
+
+    await SecretVault.setIdentity("us-east-1:bob");
+    expect(SecretVault.isUnlocked()).toBe(false);
+
+    SecretVault.lock();
+    await SecretVault.setIdentity("us-east-1:alice");
+    expect(await SecretVault.decrypt(encrypted)).toBe("token");
+  });
+
+  it("seals secret parameters and decrypts them again after unlocking", async () => {
+    await SecretVault.setup("passphrase", "correct horse");
+    const [sealed, plain] = await SecretVault.sealParameters([
+      {
+        id: "1",
+        key: "apiKey",
+        value: "dev-key",
+        order: 1,
+        secret: true,
+        environmentValues: { prod: "prod-key" },
+      },
+      {
+        id: "2",
+        key: "region",
+        value: "us-east-1",
+        order: 2,
+        encryptedValue: "left over",
+      },
+    ]);
+    expect(sealed).toMatchObject({
+      value: "",
+      environmentValues: { prod: "" },
+    });
+    expect(plain).toEqual({
+      id: "2",
+      key: "region",
+      value: "us-east-1",
+      order: 2,
+    });
+
+    SecretVault.lock();
+    await SecretVault.unlock("correct horse");
+    expect(await SecretVault.decryptParameters([sealed])).toEqual([]);
+    expect(SecretVault.reveal(sealed.encryptedValue)).toBe("dev-key");
+    expect(SecretVault.reveal(sealed.encryptedEnvironmentValues?.prod)).toBe(
+      "prod-key",
+    );
+  });
+
+  it("reports the secret parameters it cannot decrypt", async () => {
+    await SecretVault.setup("passphrase", "correct horse");
+    const encrypted = await SecretVault.encrypt("value");
+    const failed = await SecretVault.decryptParameters([
+      {
+        id: "1",
+        key: "apiKey",
+        value: "",
+        order: 1,
+        secret: true,
+        encryptedValue: encrypted,
+        encryptedEnvironmentValues: { prod: "AAAA:BBBB" },
+      },
+    ]);
+    expect(failed).toEqual(["apiKey (prod)"]);
+  });
+
+  it("turns the encrypted values back into plaintext when a parameter is no longer secret", async () => {
+    await SecretVault.setup("passphrase", "correct horse");
+    const [sealed] = await SecretVault.sealParameters([
+      {
+        id: "1",
+        key: "apiKey",
+        value: "dev-key",
+        order: 1,
+        secret: true,
+        environmentValues: { prod: "prod-key", test: "test-key" },
+      },
+    ]);
+    const unmarked = {
+      ...sealed,
+      secret: false,
+      environmentValues: { prod: "", test: "new-test-key" },
+    };
+    expect(SecretVault.hasUnsealedValues([unmarked])).toBe(true);
+
+    SecretVault.lock();
+    await expect(SecretVault.sealParameters([unmarked])).rejects.toThrow(
+      "Unlock the secret vault to keep the values of apiKey, which is no longer secret",
+    );
+
+    await SecretVault.unlock("correct horse");
+    expect(await SecretVault.sealParameters([unmarked])).toEqual([
+      {
+        id: "1",
+        key: "apiKey",
+        value: "dev-key",
+        order: 1,
+        secret: false,
+        environmentValues: { prod: "prod-key", test: "new-test-key" },
+      },
+    ]);
+  });
+});
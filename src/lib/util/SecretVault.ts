@@ -0,0 +1,425 @@
+import type { GlobalParameter } from "./SettingsManager";
+
+// How the vault key is derived: from a passphrase the user enters, or from the Cognito identity id
+export type SecretVaultMode = "passphrase" | "identity";
+
+// Stored vault configuration; the key itself is never stored
+interface SecretVaultConfig {
+  mode: SecretVaultMode;
+  salt: string;
+  iterations: number;
+  check: string; // Known text encrypted with the key, to verify the passphrase or identity on unlock
+}
+
+// Value exported in place of a secret global parameter
+export const SECRET_PLACEHOLDER = "<secret: enter on import>";
+
+/**
+ * SecretVault - encrypts the values of secret global parameters with AES-GCM (WebCrypto).
+ * The key is derived with PBKDF2 from a passphrase or the Cognito identity id and only kept in memory,
+ * so secrets stay encrypted in localStorage, profiles and backups.
+ */
+export class SecretVault {
+  private static readonly CONFIG_KEY = "novaSonicSecretVault";
+  private static readonly CHECK_TEXT = "nova-sonic-secret-vault";
+  private static readonly ITERATIONS = 210000;
+
+  private static key: CryptoKey | null = null;
+  private static identityId: string | null = null;
+  private static decrypted = new Map<string, string>(); // Ciphertext -> plaintext of values decrypted so far
+
+  private constructor() {}
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach((byte) => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+
+  private static fromBase64(text: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private static notify(): void {
+    window.dispatchEvent(new CustomEvent("secretVaultUpdated"));
+  }
+
+  private static readConfig(): SecretVaultConfig | null {
+    try {
+      const stored = localStorage.getItem(SecretVault.CONFIG_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("Error reading secret vault:", error);
+      return null;
+    }
+  }
+
+  private static async deriveKey(
+    secret: string,
+    salt: Uint8Array<ArrayBuffer>,
+    iterations: number,
+  ): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret),
+      "PBKDF2",
+      false,
+      ["deriveKey"],
+    );
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+      material,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+
+  // Encrypted text is stored as "<iv>:<ciphertext>", both base64
+  private static async encryptWith(
+    key: CryptoKey,
+    plaintext: string,
+  ): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cipher = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(plaintext),
+    );
+    return `${SecretVault.toBase64(iv)}:${SecretVault.toBase64(new Uint8Array(cipher))}`;
+  }
+
+  private static async decryptWith(
+    key: CryptoKey,
+    encrypted: string,
+  ): Promise<string> {
+    const [iv, cipher] = encrypted.split(":");
+    if (!iv || !cipher) {
+      throw new Error("Invalid encrypted value");
+    }
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: SecretVault.fromBase64(iv) },
+      key,
+      SecretVault.fromBase64(cipher),
+    );
+    return new TextDecoder().decode(plain);
+  }
+
+  private static getSecret(mode: SecretVaultMode, passphrase?: string): string {
+    const secret = mode === "identity" ? SecretVault.identityId : passphrase;
+    if (!secret) {
+      throw new Error(
+        mode === "identity"
+          ? "Sign in to use the Cognito identity as the vault key"
+          : "Passphrase is required",
+      );
+    }
+    return secret;
+  }
+
+  /**
+   * How the vault key is derived, or null when the vault has not been set up
+   */
+  static getMode(): SecretVaultMode | null {
+    return SecretVault.readConfig()?.mode || null;
+  }
+
+  /**
+   * Whether secrets can be encrypted and decrypted right now
+   */
+  static isUnlocked(): boolean {
+    return SecretVault.key !== null;
+  }
+
+  /**
+   * Whether a Cognito identity is known, so the vault can use it as its key
+   */
+  static hasIdentity(): boolean {
+    return SecretVault.identityId !== null;
+  }
+
+  /**
+   * Set up the vault with a new key. Values encrypted with a previous key can no longer be decrypted.
+   */
+  static async setup(
+    mode: SecretVaultMode,
+    passphrase?: string,
+  ): Promise<{ success: boolean; errors: string[] }> {
+    try {
+      const secret = SecretVault.getSecret(mode, passphrase);
+      if (mode === "passphrase" && secret.length < 8) {
+        return {
+          success: false,
+          errors: ["Passphrase must be at least 8 characters"],
+        };
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const key = await SecretVault.deriveKey(
+        secret,
+        salt,
+        SecretVault.ITERATIONS,
+      );
+      const config: SecretVaultConfig = {
+        mode,
+        salt: SecretVault.toBase64(salt),
+        iterations: SecretVault.ITERATIONS,
+        check: await SecretVault.encryptWith(key, SecretVault.CHECK_TEXT),
+      };
+      localStorage.setItem(SecretVault.CONFIG_KEY, JSON.stringify(config));
+      SecretVault.key = key;
+      SecretVault.decrypted.clear();
+      SecretVault.notify();
+      console.log(
+        `🔐 Secret vault set up with a ${mode === "identity" ? "Cognito identity" : "passphrase"} key`,
+      );
+      return { success: true, errors: [] };
+    } catch (error) {
+      console.error("Error setting up secret vault:", error);
+      return {
+        success: false,
+        errors: [error instanceof Error ? error.message : "Unknown error"],
+      };
+    }
+  }
+
+  /**
+   * Derive the key from the passphrase (or the known Cognito identity) and check it against the vault
+   */
+  static async unlock(
+    passphrase?: string,
+  ): Promise<{ success: boolean; errors: string[] }> {
+    const config = SecretVault.readConfig();
+    if (!config) {
+      return {
+        success: false,
+        errors: ["The secret vault has not been set up"],
+      };
+    }
+
+    try {
+      const key = await SecretVault.deriveKey(
+        SecretVault.getSecret(config.mode, passphrase),
+        SecretVault.fromBase64(config.salt),
+        config.iterations,
+      );
+      if (
+        (await SecretVault.decryptWith(key, config.check)) !==
+        SecretVault.CHECK_TEXT
+      ) {
+        throw new Error("Check value mismatch");
+      }
+      SecretVault.key = key;
+      SecretVault.notify();
+      console.log("🔐 Secret vault unlocked");
+      return { success: true, errors: [] };
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Sign in")) {
+        return { success: false, errors: [error.message] };
+      }
+      console.warn("🔐 Secret vault unlock failed:", error);
+      return {
+        success: false,
+        errors: [
+          config.mode === "identity"
+            ? "The vault was set up by another Cognito identity"
+            : "Wrong passphrase",
+        ],
+      };
+    }
+  }
+
+  /**
+   * Remember the Cognito identity of the signed-in user and unlock an identity vault with it;
+   * without an identity (signed out) an identity vault is locked again
+   */
+  static async setIdentity(identityId: string | undefined): Promise<void> {
+    SecretVault.identityId = identityId || null;
+    if (SecretVault.getMode() !== "identity") {
+      SecretVault.notify();
+    } else if (!SecretVault.identityId) {
+      SecretVault.lock();
+    } else if (!SecretVault.key) {
+      await SecretVault.unlock();
+    }
+  }
+
+  /**
+   * Forget the key and the decrypted values
+   */
+  static lock(): void {
+    SecretVault.key = null;
+    SecretVault.decrypted.clear();
+    SecretVault.notify();
+    console.log("🔐 Secret vault locked");
+  }
+
+  /**
+   * Remove the vault, e.g. after a forgotten passphrase. Existing secret values have to be entered again.
+   */
+  static reset(): void {
+    localStorage.removeItem(SecretVault.CONFIG_KEY);
+    SecretVault.lock();
+  }
+
+  /**
+   * Encrypt a value with the vault key
+   */
+  static async encrypt(plaintext: string): Promise<string> {
+    if (!SecretVault.key) {
+      throw new Error("Unlock the secret vault first");
+    }
+    const encrypted = await SecretVault.encryptWith(SecretVault.key, plaintext);
+    SecretVault.decrypted.set(encrypted, plaintext);
+    return encrypted;
+  }
+
+  /**
+   * Decrypt a value encrypted with the vault key
+   */
+  static async decrypt(encrypted: string): Promise<string> {
+    const cached = SecretVault.decrypted.get(encrypted);
+    if (cached !== undefined) return cached;
+    if (!SecretVault.key) {
+      throw new Error("Unlock the secret vault first");
+    }
+    const plaintext = await SecretVault.decryptWith(SecretVault.key, encrypted);
+    SecretVault.decrypted.set(encrypted, plaintext);
+    return plaintext;
+  }
+
+  /**
+   * Plaintext of a value decrypted before, for synchronous callers such as SettingsManager.getGlobals
+   */
+  static reveal(encrypted: string | undefined): string | undefined {
+    return encrypted ? SecretVault.decrypted.get(encrypted) : undefined;
+  }
+
+  /**
+   * Decrypt the secret parameters that are not decrypted yet, including their environment values;
+   * returns the parameters that could not be decrypted
+   */
+  static async decryptParameters(params: GlobalParameter[]): Promise<string[]> {
+    const failed: string[] = [];
+    for (const param of params) {
+      if (!param.secret) continue;
+      const values: [string, string | undefined][] = [
+        [param.key, param.encryptedValue],
+        ...Object.entries(param.encryptedEnvironmentValues || {}).map(
+          ([environment, value]): [string, string] => [
+            `${param.key} (${environment})`,
+            value,
+          ],
+        ),
+      ];
+      for (const [label, encrypted] of values) {
+        if (!encrypted) continue;
+        try {
+          await SecretVault.decrypt(encrypted);
+        } catch {
+          failed.push(label);
+        }
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Whether the parameters need sealParameters before saving: secret parameters with plaintext values,
+   * or parameters that are no longer secret but still hold encrypted values
+   */
+  static hasUnsealedValues(params: GlobalParameter[]): boolean {
+    return params.some((param) =>
+      param.secret
+        ? param.value ||
+          Object.values(param.environmentValues || {}).some(Boolean)
+        : param.encryptedValue ||
+          Object.values(param.encryptedEnvironmentValues || {}).some(Boolean),
+    );
+  }
+
+  /**
+   * Encrypt the plaintext values entered for secret parameters, so they can be saved.
+   * Secret parameters keep empty values and carry the encrypted ones in encryptedValue and encryptedEnvironmentValues.
+   * Parameters that are no longer secret get their encrypted values back as plaintext, which needs the vault unlocked.
+   */
+  static async sealParameters(
+    params: GlobalParameter[],
+  ): Promise<GlobalParameter[]> {
+    const sealed: GlobalParameter[] = [];
+    for (const param of params) {
+      if (!param.secret) {
+        sealed.push(await SecretVault.unsealParameter(param));
+        continue;
+      }
+
+      const next: GlobalParameter = { ...param };
+      if (param.value) {
+        next.value = "";
+        next.encryptedValue = await SecretVault.encrypt(param.value);
+      }
+      if (param.environmentValues) {
+        // Environments without an own value any more lose their encrypted value too
+        const encrypted: Record<string, string> = {};
+        for (const [environment, value] of Object.entries(
+          param.environmentValues,
+        )) {
+          const stored = value
+            ? await SecretVault.encrypt(value)
+            : param.encryptedEnvironmentValues?.[environment];
+          if (stored) encrypted[environment] = stored;
+        }
+        next.environmentValues = Object.fromEntries(
+          Object.keys(param.environmentValues).map((environment) => [
+            environment,
+            "",
+          ]),
+        );
+        next.encryptedEnvironmentValues = encrypted;
+      }
+      sealed.push(next);
+    }
+    return sealed;
+  }
+
+  // Plaintext copy of a parameter that is no longer secret; a plaintext value entered since wins over the encrypted one
+  private static async unsealParameter(
+    param: GlobalParameter,
+  ): Promise<GlobalParameter> {
+    const { encryptedValue, encryptedEnvironmentValues, ...plain } = param;
+    const reveal = async (encrypted: string) => {
+      try {
+        return await SecretVault.decrypt(encrypted);
+      } catch (error) {
+        throw new Error(
+          SecretVault.isUnlocked()
+            ? `Could not decrypt the values of ${param.key}: ${error instanceof Error ? error.message : String(error)}`
+            : `Unlock the secret vault to keep the values of ${param.key}, which is no longer secret`,
+        );
+      }
+    };
+
+    if (!plain.value && encryptedValue) {
+      plain.value = await reveal(encryptedValue);
+    }
+    if (encryptedEnvironmentValues) {
+      const environmentValues = { ...plain.environmentValues };
+      for (const [environment, encrypted] of Object.entries(
+        encryptedEnvironmentValues,
+      )) {
+        if (!environmentValues[environment] && encrypted) {
+          environmentValues[environment] = await reveal(encrypted);
+        }
+      }
+      plain.environmentValues = environmentValues;
+    }
+    return plain;
+  }
+}
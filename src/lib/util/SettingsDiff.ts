@@ -0,0 +1,387 @@
+import type {
+  AgentConfig,
+  AppSettings,
+  CognitoConfig,
+  GlobalParameter,
+  Tool,
+} from "./SettingsManager";
+
+// How an incoming tool or global parameter relates to the current settings
+export type ImportItemStatus = "new" | "changed" | "unchanged";
+
+// What to do with an incoming tool; 'copy' adds it under another name next to the current one
+export type ToolImportAction = "add" | "replace" | "copy" | "skip";
+export type GlobalParameterImportAction = "add" | "replace" | "skip";
+
+export interface ToolDiff {
+  name: string;
+  status: ImportItemStatus;
+  changedFields: string[]; // Fields that differ from the current tool of the same name
+  incoming: Tool;
+}
+
+export interface GlobalParameterDiff {
+  key: string;
+  status: ImportItemStatus;
+  currentValue?: string;
+  incoming: GlobalParameter;
+}
+
+// Differences between the current settings and an import file, per section
+export interface SettingsDiffResult {
+  cognitoChangedFields: (keyof CognitoConfig)[];
+  systemPromptChanged: boolean;
+  agentChangedFields: string[]; // Other agent settings, e.g. voiceId or mockHttp
+  tools: ToolDiff[];
+  globalParameters: GlobalParameterDiff[];
+  keptTools: string[]; // Current tools the file does not contain; they are never removed
+  keptGlobalParameters: string[];
+}
+
+// Choices of the user in the import preview
+export interface SettingsImportPlan {
+  cognito: boolean;
+  systemPrompt: boolean;
+  agentSettings: boolean;
+  tools: Record<string, { action: ToolImportAction; copyName?: string }>;
+  globalParameters: Record<string, GlobalParameterImportAction>;
+}
+
+// Tool and parameter fields that only reflect their position, so they are not compared.
+// Secret values are not compared either: imports never carry them, they are entered again.
+const IGNORED_TOOL_FIELDS = ["order"];
+const IGNORED_PARAMETER_FIELDS = [
+  "id",
+  "order",
+  "encryptedValue",
+  "encryptedEnvironmentValues",
+];
+const IGNORED_SECRET_PARAMETER_FIELDS = [...IGNORED_PARAMETER_FIELDS, "value"];
+const SECTION_AGENT_FIELDS = ["system_prompt", "tools", "globalParameters"];
+
+// JSON with sorted keys, so objects compare equal regardless of key order
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]]),
+        )
+      : item,
+  );
+
+const changedFields = (
+  current: object,
+  incoming: object,
+  ignored: string[] = [],
+): string[] => {
+  const a = current as Record<string, unknown>;
+  const b = incoming as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .filter(
+      (key) =>
+        !ignored.includes(key) && canonical(a[key]) !== canonical(b[key]),
+    )
+    .sort();
+};
+
+/**
+ * SettingsDiff - compares an import file with the current settings and applies the parts the user picked,
+ * so a single tool can be shared between configurations without replacing everything else.
+ */
+export class SettingsDiff {
+  private constructor() {}
+
+  /**
+   * Differences between the current settings and the (migrated and validated) settings of an import file
+   */
+  static diff(current: AppSettings, incoming: AppSettings): SettingsDiffResult {
+    const currentTools = new Map(
+      current.agent.tools.map((tool) => [tool.tool_name, tool]),
+    );
+    const currentParams = new Map(
+      current.agent.globalParameters.map((param) => [param.key, param]),
+    );
+    const incomingToolNames = new Set(
+      incoming.agent.tools.map((tool) => tool.tool_name),
+    );
+    const incomingParamKeys = new Set(
+      incoming.agent.globalParameters.map((param) => param.key),
+    );
+
+    const tools = incoming.agent.tools.map((tool): ToolDiff => {
+      const existing = currentTools.get(tool.tool_name);
+      const fields = existing
+        ? changedFields(existing, tool, IGNORED_TOOL_FIELDS)
+        : [];
+      return {
+        name: tool.tool_name,
+        status: !existing ? "new" : fields.length > 0 ? "changed" : "unchanged",
+        changedFields: fields,
+        incoming: tool,
+      };
+    });
+
+    const globalParameters = incoming.agent.globalParameters.map(
+      (param): GlobalParameterDiff => {
+        const existing = currentParams.get(param.key);
+        const ignored =
+          param.secret && existing?.secret
+            ? IGNORED_SECRET_PARAMETER_FIELDS
+            : IGNORED_PARAMETER_FIELDS;
+        const fields = existing ? changedFields(existing, param, ignored) : [];
+        return {
+          key: param.key,
+          status: !existing
+            ? "new"
+            : fields.length > 0
+              ? "changed"
+              : "unchanged",
+          currentValue: existing?.value,
+          incoming: param,
+        };
+      },
+    );
+
+    return {
+      cognitoChangedFields: changedFields(
+        current.cognito,
+        incoming.cognito,
+      ) as (keyof CognitoConfig)[],
+      systemPromptChanged:
+        current.agent.system_prompt !== incoming.agent.system_prompt,
+      agentChangedFields: changedFields(
+        current.agent,
+        incoming.agent,
+        SECTION_AGENT_FIELDS,
+      ),
+      tools,
+      globalParameters,
+      keptTools: current.agent.tools
+        .map((tool) => tool.tool_name)
+        .filter((name) => !incomingToolNames.has(name)),
+      keptGlobalParameters: current.agent.globalParameters
+        .map((param) => param.key)
+        .filter((key) => !incomingParamKeys.has(key)),
+    };
+  }
+
+  /**
+   * Plan that adds everything new and skips what already exists; the preview starts from it
+   */
+  static createDefaultPlan(diff: SettingsDiffResult): SettingsImportPlan {
+    return {
+      cognito: false,
+      systemPrompt: false,
+      agentSettings: false,
+      tools: Object.fromEntries(
+        diff.tools.map((tool) => [
+          tool.name,
+          { action: tool.status === "new" ? "add" : "skip" },
+        ]),
+      ),
+      globalParameters: Object.fromEntries(
+        diff.globalParameters.map((param) => [
+          param.key,
+          param.status === "new" ? "add" : "skip",
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Plan that takes every section and replaces changed tools and parameters, keeping the ones the file lacks
+   */
+  static createMergePlan(diff: SettingsDiffResult): SettingsImportPlan {
+    return {
+      cognito: true,
+      systemPrompt: true,
+      agentSettings: true,
+      tools: Object.fromEntries(
+        diff.tools.map((tool) => [
+          tool.name,
+          { action: tool.status === "new" ? "add" : "replace" },
+        ]),
+      ),
+      globalParameters: Object.fromEntries(
+        diff.globalParameters.map((param) => [
+          param.key,
+          param.status === "new" ? "add" : "replace",
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * A tool name based on the given one that neither the current tools nor the other imports use
+   */
+  static suggestCopyName(name: string, takenNames: Iterable<string>): string {
+    const taken = new Set(takenNames);
+    let suffix = 2;
+    while (taken.has(`${name}_${suffix}`)) suffix++;
+    return `${name}_${suffix}`;
+  }
+
+  /**
+   * Check a plan for name collisions of copied tools
+   */
+  static validatePlan(
+    current: AppSettings,
+    diff: SettingsDiffResult,
+    plan: SettingsImportPlan,
+  ): string[] {
+    const errors: string[] = [];
+    const names = new Set(current.agent.tools.map((tool) => tool.tool_name));
+    diff.tools
+      .filter((tool) => plan.tools[tool.name]?.action === "add")
+      .forEach((tool) => names.add(tool.name));
+
+    diff.tools
+      .filter((tool) => plan.tools[tool.name]?.action === "copy")
+      .forEach((tool) => {
+        const copyName = plan.tools[tool.name].copyName?.trim() || "";
+        if (!copyName) {
+          errors.push(`Tool ${tool.name}: Enter a name for the copy`);
+        } else if (names.has(copyName)) {
+          errors.push(
+            `Tool ${tool.name}: A tool named ${copyName} already exists`,
+          );
+        } else {
+          names.add(copyName);
+        }
+      });
+
+    return errors;
+  }
+
+  /**
+   * Current settings with the picked parts of the import applied. Tools and parameters that are not
+   * in the plan, or skipped, stay as they are; added ones go after the current ones.
+   */
+  static apply(
+    current: AppSettings,
+    incoming: AppSettings,
+    plan: SettingsImportPlan,
+  ): AppSettings {
+    let tools: Tool[] = [...current.agent.tools];
+    incoming.agent.tools.forEach((tool) => {
+      const choice = plan.tools[tool.tool_name];
+      const nextOrder =
+        tools.reduce((max, item) => Math.max(max, item.order), 0) + 1;
+      switch (choice?.action) {
+        case "add":
+          tools.push({ ...tool, order: nextOrder });
+          break;
+        case "replace":
+          tools = tools.map((item) =>
+            item.tool_name === tool.tool_name
+              ? { ...tool, order: item.order }
+              : item,
+          );
+          break;
+        case "copy":
+          tools.push({
+            ...tool,
+            tool_name: choice.copyName?.trim() || tool.tool_name,
+            order: nextOrder,
+          });
+          break;
+      }
+    });
+
+    let globalParameters: GlobalParameter[] = [
+      ...current.agent.globalParameters,
+    ];
+    incoming.agent.globalParameters.forEach((param) => {
+      const nextOrder =
+        globalParameters.reduce((max, item) => Math.max(max, item.order), 0) +
+        1;
+      switch (plan.globalParameters[param.key]) {
+        case "add":
+          globalParameters.push({ ...param, order: nextOrder });
+          break;
+        case "replace":
+          globalParameters = globalParameters.map((item) =>
+            item.key === param.key
+              ? {
+                  ...SettingsDiff.keepCurrentSecret(param, item),
+                  id: item.id,
+                  order: item.order,
+                }
+              : item,
+          );
+          break;
+      }
+    });
+
+    let agent: AgentConfig = { ...current.agent };
+    if (plan.agentSettings) {
+      const incomingAgent = incoming.agent as unknown as Record<
+        string,
+        unknown
+      >;
+      const merged = { ...current.agent } as unknown as Record<string, unknown>;
+      Object.keys({ ...merged, ...incomingAgent })
+        .filter((key) => !SECTION_AGENT_FIELDS.includes(key))
+        .forEach((key) => {
+          if (incomingAgent[key] === undefined) {
+            delete merged[key];
+          } else {
+            merged[key] = incomingAgent[key];
+          }
+        });
+      agent = merged as unknown as AgentConfig;
+    }
+
+    // Environments the imported parameters have values for are added, so the values stay usable
+    const environments = Array.from(
+      new Set([
+        ...(agent.environments || []),
+        ...globalParameters.flatMap((param) =>
+          Object.keys(param.environmentValues || {}),
+        ),
+      ]),
+    );
+
+    return {
+      cognito: plan.cognito ? { ...incoming.cognito } : current.cognito,
+      agent: {
+        ...agent,
+        ...(environments.length > 0 && { environments }),
+        system_prompt: plan.systemPrompt
+          ? incoming.agent.system_prompt
+          : current.agent.system_prompt,
+        tools,
+        globalParameters,
+      },
+    };
+  }
+
+  /**
+   * An imported secret parameter with the encrypted values of the current one wherever no value was entered,
+   * so replacing a parameter does not lose its secrets
+   */
+  static keepCurrentSecret(
+    incoming: GlobalParameter,
+    current: GlobalParameter | undefined,
+  ): GlobalParameter {
+    if (!incoming.secret || !current?.secret) {
+      return incoming;
+    }
+    const encryptedEnvironmentValues = {
+      ...incoming.encryptedEnvironmentValues,
+    };
+    Object.keys(incoming.environmentValues || {}).forEach((environment) => {
+      const currentValue = current.encryptedEnvironmentValues?.[environment];
+      if (!encryptedEnvironmentValues[environment] && currentValue) {
+        encryptedEnvironmentValues[environment] = currentValue;
+      }
+    });
+    return {
+      ...incoming,
+      encryptedValue: incoming.encryptedValue || current.encryptedValue,
+      ...(incoming.environmentValues && { encryptedEnvironmentValues }),
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { SettingsManager } from "./SettingsManager";
+import { CURRENT_SETTINGS_VERSION } from "./SettingsMigrations";
+
+// No settings are stored, so exports fall back to the defaults
+vi.stubGlobal("localStorage", {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+});
+
+const exportFile = (tools: object[]) => ({
+  exportVersion: "1.0",
+  schemaVersion: 3,
+  settings: {
+    cognito: {
+      userPoolId: "",
+      userPoolClientId: "",
+      region: "",
+      identityPoolId: "",
+    },
+    agent: {
+      system_prompt: "Take orders",
+      globalParameters: [],
+      tools: tools.map((tool, index) => ({
+        description: "Test tool",
+        inputSchema: { json: "{}" },
+        script: "async function execute() {}",
+        run_after_app_init: false,
+        order: index + 1,
+        ...tool,
+      })),
+    },
+  },
+});
+
+describe("SettingsManager", () => {
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists the imported tools that run on the main thread, but not the stored ones", () => {
+    const file = exportFile([
+      { tool_name: "getMenu" },
+      { tool_name: "readCookies", executionMode: "main" },
+    ]);
+
+    const imported = SettingsManager.prepareImport(file);
+    expect(imported.errors).toEqual([]);
+    expect(imported.mainThreadTools).toEqual(["readCookies"]);
+    expect(imported.warnings).toEqual([
+      expect.stringContaining("Tool readCookies runs on the main thread"),
+    ]);
+
+    expect(
+      SettingsManager.prepareImport(file, "stored").mainThreadTools,
+    ).toEqual([]);
+  });
+
+  it("refuses to import main-thread tools the user has not confirmed", () => {
+    const json = JSON.stringify(
+      exportFile([{ tool_name: "readCookies", executionMode: "main" }]),
+    );
+
+    const result = SettingsManager.importSettings(json);
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      "Confirm that you trust the tools that run on the main thread: readCookies",
+    ]);
+    expect(result.imported).toBeNull();
+  });
+
+  it("validates pricing and the store locale with the settings schema", () => {
+    const pricing = {
+      taxRate: 13,
+      taxInclusive: false,
+      tipPresets: [15, 18, 15],
+      minorUnits: 2,
+      rounding: "halfUp",
+    };
+    const storeLocale = { locale: "en_CA!", currency: "CAD" };
+
+    expect(SettingsManager.validatePricing(pricing)).toEqual([
+      "pricing.tipPresets has duplicate values: 15",
+    ]);
+    expect(SettingsManager.validateStoreLocale(storeLocale)).toEqual([
+      "storeLocale.locale must be a language tag such as en-CA or es-MX",
+    ]);
+    expect(
+      SettingsManager.validateStoreLocale({ locale: "fr-CA", currency: "CAD" }),
+    ).toEqual([]);
+
+    const file = exportFile([]);
+    Object.assign(file.settings.agent, { pricing, storeLocale });
+    expect(SettingsManager.prepareImport(file).errors).toEqual([
+      "agent.pricing.tipPresets has duplicate values: 15",
+      "agent.storeLocale.locale must be a language tag such as en-CA or es-MX",
+    ]);
+  });
+
+  it("exports files older builds accept and reads their schema version back", () => {
+    const exported = JSON.parse(SettingsManager.exportSettings());
+    expect(exported).toMatchObject({
+      exportVersion: "1.0",
+      schemaVersion: CURRENT_SETTINGS_VERSION,
+    });
+
+    const imported = SettingsManager.prepareImport(exported);
+    expect(imported.errors).toEqual([]);
+    expect(imported.migrations).toEqual([]);
+  });
+});
@@ -1,6 +1,19 @@
 // Settings management utility for storing and retrieving application configuration
 // Uses localStorage for persistent storage
 
+import {
+  DefaultInferenceConfiguration,
+  DefaultModelId,
+  DefaultRegion,
+  DefaultVoiceId,
+} from '../sdk/consts';
+import type { InferenceConfig } from '../sdk/types';
+import { PriceFormatter } from './PriceFormatter';
+import { SECRET_PLACEHOLDER, SecretVault } from './SecretVault';
+import { SettingsDiff, type SettingsImportPlan } from './SettingsDiff';
+import { type AppliedSettingsMigration, CURRENT_SETTINGS_VERSION, SettingsMigrator, type SettingsSource } from './SettingsMigrations';
+import { DEFAULT_SYSTEM_PROMPT, ENVIRONMENT_NAME_PATTERN, MAX_TOOL_TIMEOUT_MS, MIN_TOOL_TIMEOUT_MS, MOCK_HTTP_METHODS, pricingSchema, settingsSchema, storeLocaleSchema, validateSchema } from './SettingsSchema';
+
 export interface CognitoConfig {
   userPoolId: string;
   userPoolClientId: string;
@@ -8,6 +21,47 @@ export interface CognitoConfig {
   identityPoolId: string;
 }
 
+// Capabilities granted to a tool that runs in the sandbox
+export interface ToolPermissions {
+  allowedHosts: string[]; // e.g. "api.example.com", "*.example.com", "localhost:3000", "self"
+  allowedComponents: string[]; // Component names ("cart") or single methods ("cart.addItem")
+}
+
+export type ToolExecutionMode = 'main' | 'sandbox';
+
+export type ToolComparisonOperator = 'truthy' | 'falsy' | '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+// Condition the ToolExecutor checks before a model-triggered call; `message` overrides the text sent to the model
+export type ToolPrecondition =
+  | { type: 'toolSucceeded'; tool: string; message?: string } // The tool succeeded earlier in this session
+  | { type: 'toolNotSucceeded'; tool: string; message?: string } // The tool has not succeeded yet in this session
+  | { type: 'cartNotEmpty'; message?: string }
+  | {
+      type: 'componentState'; // Result of a component method, e.g. menu.getItemCount > 0
+      component: string;
+      method: string;
+      args?: unknown[];
+      operator: ToolComparisonOperator;
+      value?: string | number | boolean;
+      message?: string;
+    };
+
+// Action run after a model-triggered call succeeds
+export type ToolPostHook =
+  | { type: 'callComponent'; component: string; method: string; args?: unknown[] }
+  | { type: 'runTool'; tool: string; input?: string } // input is a JSON object
+  | { type: 'resetToolHistory' }; // Forget which tools succeeded this session, e.g. after finishing an order
+
+// Saved sample run of a tool, replayed from the Test panel of the tool editor
+export interface ToolTestCase {
+  id: string;
+  name: string;
+  input: string; // JSON object passed to the script as `input`
+  useMocks: boolean; // Run against mocked components, axios and auth instead of the live app
+  mocks?: string; // JSON: { components: { cart: { addItem: <result> } }, axios: { "GET <url>": <response> }, auth: { getJWT: <result> } }
+  expectedResult?: string; // JSON (compared structurally) or text the result must equal
+}
+
 export interface Tool {
   tool_name: string;
   description: string;
@@ -17,14 +71,105 @@ export interface Tool {
   script: string; // JavaScript code
   run_after_app_init: boolean;
   order: number;
+  timeoutMs?: number; // Overrides the agent's default tool timeout
+  timeoutFallback?: string; // Result returned to the model when the tool times out
+  executionMode?: ToolExecutionMode; // Defaults to 'sandbox', an isolated worker; 'main' gives the script the whole page
+  permissions?: ToolPermissions; // Only used in sandbox mode
+  testCases?: ToolTestCase[];
+  preconditions?: ToolPrecondition[];
+  postHooks?: ToolPostHook[];
 }
 
 export interface GlobalParameter {
   id: string;
   key: string;
-  value: string;
+  value: string; // Empty for secret parameters once saved
   description?: string;
   order: number;
+  secret?: boolean; // Stored encrypted, masked in the editor and left out of exports
+  encryptedValue?: string; // Value of a secret parameter, encrypted by SecretVault
+  environmentValues?: Record<string, string>; // Values for specific environments; the others use value
+  encryptedEnvironmentValues?: Record<string, string>; // Environment values of a secret parameter, encrypted
+}
+
+// Secret value an import asks for: the default value of a parameter, or its value in one environment
+export interface SecretInput {
+  id: string; // "<key>" or "<key>@<environment>"
+  key: string;
+  environment?: string;
+  suggestedValue: string; // Value in the file unless it is the export placeholder
+}
+
+export type MockHttpResponseType = 'json' | 'template' | 'script';
+
+// Canned response of the mock HTTP layer for requests matching a method and URL pattern
+export interface MockHttpRoute {
+  id: string;
+  method: string; // GET, POST, ... or ANY
+  urlPattern: string; // "*" matches anything and ":name" one path segment, e.g. "*/menu" or "*/orders/:orderId"
+  responseType: MockHttpResponseType;
+  status: number;
+  body: string; // JSON; JSON or text with {{query.phone}}-style placeholders; or a script returning the response data
+  delayMs?: number;
+  description?: string;
+}
+
+// Mock HTTP layer of the tools' axios instance, for demos and tests without a backend
+export interface MockHttpConfig {
+  enabled: boolean;
+  passthrough: boolean; // Send unmatched requests to the network instead of answering 404
+  routes: MockHttpRoute[];
+}
+
+// Locale and currency prices are formatted and spoken in
+export interface StoreLocale {
+  locale: string; // BCP 47 language tag, e.g. en-CA, fr-CA or es-MX
+  currency: string; // ISO 4217 currency code, e.g. CAD or MXN
+}
+
+export type PricingRoundingMode = 'halfUp' | 'halfEven';
+
+// How the order summary is priced: tax, fees, tips and currency rounding. Rates are percentages.
+export interface PricingConfig {
+  taxRate: number; // Tax of items without a category rate, e.g. 8
+  categoryTaxRates?: Record<string, number>; // Tax per menu category id, e.g. { beverages: 5 }
+  taxInclusive: boolean; // Menu prices already include tax; the summary shows the tax they contain
+  serviceChargeRate?: number; // Percentage of the subtotal, e.g. room service
+  deliveryFee?: number; // Flat fee added to non-empty orders
+  feesTaxable?: boolean; // Service charge and delivery fee are taxed at taxRate
+  tipPresets?: number[]; // Tip percentages offered to the customer, e.g. [15, 18, 20]
+  minorUnits: number; // Digits of the currency's minor unit: 2 for cents, 0 for yen; getPricing takes it from the store currency
+  rounding: PricingRoundingMode; // How amounts are rounded to whole minor units
+}
+
+export type PromotionType = 'percentOff' | 'amountOff' | 'bogo' | 'orderDiscount';
+
+// Weekly time window of a promotion, e.g. a happy hour, in the local time of the browser
+export interface PromotionSchedule {
+  days?: number[]; // 0 is Sunday and 6 Saturday; every day when left out
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM", before startTime for windows past midnight
+}
+
+// Discount the cart applies by itself once the order meets its conditions
+export interface Promotion {
+  id: string;
+  name: string; // Label of the discount line, e.g. "Happy hour drinks"
+  description?: string;
+  type: PromotionType;
+  enabled: boolean;
+  itemIds?: string[]; // Menu items it applies to; with categories, items matching either. All items when both are left out
+  categories?: string[]; // Menu category ids it applies to
+  percentOff?: number; // percentOff and orderDiscount; for bogo the discount of the "get" items (defaults to 100)
+  amountOff?: number; // amountOff: per item; orderDiscount: off the order
+  buyQuantity?: number; // bogo: buy this many...
+  getQuantity?: number; // ...and get this many of the cheaper ones discounted
+  minSubtotal?: number; // Spend threshold: subtotal the order needs first
+  couponCode?: string; // Only after the customer gives this code
+  loyaltyOnly?: boolean; // Only for customers identified as loyalty members
+  schedule?: PromotionSchedule;
+  validFrom?: string; // YYYY-MM-DD, inclusive
+  validUntil?: string; // YYYY-MM-DD, inclusive
 }
 
 export interface AgentConfig {
@@ -34,6 +179,25 @@ export interface AgentConfig {
   autoInitiateConversation?: boolean;
   initiationAudio?: string; // base64 encoded audio
   companyName?: string;
+  modelId?: string; // Bedrock model ID used for the bidirectional stream
+  region?: string; // AWS region of the Bedrock runtime endpoint
+  voiceId?: string; // Nova Sonic output voice
+  inferenceConfig?: InferenceConfig;
+  toolTimeoutMs?: number; // Default execution deadline for tools, in milliseconds
+  mockHttp?: MockHttpConfig;
+  pricing?: PricingConfig; // Defaults to 8% tax on top of the menu prices, rounded to cents
+  storeLocale?: StoreLocale; // Defaults to en-US and USD
+  promotions?: Promotion[]; // Applied in order, item discounts before order discounts
+  environments?: string[]; // Names of the environments global parameters can have own values for, e.g. dev, prod
+  activeEnvironment?: string; // Environment tools run against; none means the default values
+}
+
+// Fully resolved model settings for a session (defaults applied)
+export interface ModelSettings {
+  modelId: string;
+  region: string;
+  voiceId: string;
+  inferenceConfig: InferenceConfig;
 }
 
 export interface AppSettings {
@@ -42,47 +206,68 @@ export interface AppSettings {
 }
 
 export interface AppConfig {
+  schemaVersion?: number; // Missing in settings stored before versioning (version 1)
   config: {
     cognito: CognitoConfig;
     agent: AgentConfig;
   };
 }
 
+// Automatic copy of the settings taken before they were replaced
+export interface SettingsBackup {
+  key: string;
+  createdAt: string;
+  reason: string;
+  companyName?: string;
+  toolCount: number;
+}
+
+// Backup as stored; backups from before versioning hold the plain settings
+interface StoredBackup {
+  schemaVersion: number;
+  createdAt: string;
+  reason: string;
+  settings: AppSettings;
+}
+
+// Settings of an export file after migration and validation
+export interface PreparedImport {
+  settings: AppSettings | null; // Null when the file is invalid
+  errors: string[];
+  warnings: string[];
+  migrations: AppliedSettingsMigration[];
+  mainThreadTools: string[]; // Tools that run on the main thread; loading them needs the user's confirmation
+}
+
 // Default values
-const DEFAULT_SYSTEM_PROMPT = "You are a friend. The user and you will engage in a spoken dialog exchanging the transcripts of a natural real-time conversation. Keep your responses short, generally two or three sentences for chatty scenarios.";
 const DEFAULT_GLOBAL_PARAMETERS: GlobalParameter[] = [];
 const DEFAULT_TOOLS: Tool[] = [];
+const DEFAULT_TOOL_TIMEOUT_MS = 15000;
+const DEFAULT_PRICING: PricingConfig = {
+  taxRate: 8,
+  taxInclusive: false,
+  minorUnits: 2,
+  rounding: 'halfUp'
+};
+const DEFAULT_STORE_LOCALE: StoreLocale = { locale: 'en-US', currency: 'USD' };
+const MAX_BACKUPS = 20;
 
 export class SettingsManager {
   private static readonly SETTINGS_KEY = 'novaSonicChatConfig';
   private static readonly CREDENTIALS_KEY = 'novaSonicCredentials';
+  private static readonly BACKUP_KEY_PREFIX = 'novaSonicChatConfig_backup_';
+  private static readonly ENVIRONMENT_QUERY_PARAM = 'env';
+  private static loadMigrations: AppliedSettingsMigration[] = [];
+
+  private constructor() {}
 
   /**
    * Get stored settings from localStorage
    */
   static getSettings(): AppSettings | null {
     try {
-      const stored = localStorage.getItem(this.SETTINGS_KEY);
-      if (!stored) return null;
-      
-      const config: AppConfig = JSON.parse(stored);
-      
-      // Ensure agent section exists with defaults
-      if (!config.config.agent) {
-        config.config.agent = {
-          system_prompt: DEFAULT_SYSTEM_PROMPT,
-          globalParameters: DEFAULT_GLOBAL_PARAMETERS,
-          tools: DEFAULT_TOOLS
-        };
-        // Save the updated config back
-        this.saveConfig(config);
-      }
-      
-      // Ensure globalParameters exists (for backward compatibility)
-      if (!config.config.agent.globalParameters) {
-        config.config.agent.globalParameters = DEFAULT_GLOBAL_PARAMETERS;
-        this.saveConfig(config);
-      }
+      const config = SettingsManager.getConfig();
+      if (!config) return null;
       
       // Return the settings in the expected format
       return {
@@ -101,12 +286,13 @@ export class SettingsManager {
   static saveSettings(settings: AppSettings): void {
     try {
       const config: AppConfig = {
+        schemaVersion: CURRENT_SETTINGS_VERSION,
         config: {
           cognito: settings.cognito,
-          agent: settings.agent
+          agent: { ...settings.agent, globalParameters: SettingsManager.withoutSecretValues(settings.agent.globalParameters) }
         }
       };
-      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(config));
+      localStorage.setItem(SettingsManager.SETTINGS_KEY, JSON.stringify(config));
     } catch (error) {
       console.error('Error saving settings:', error);
     }
@@ -117,41 +303,47 @@ export class SettingsManager {
    */
   static getConfig(): AppConfig | null {
     try {
-      const stored = localStorage.getItem(this.SETTINGS_KEY);
+      const stored = localStorage.getItem(SettingsManager.SETTINGS_KEY);
       if (!stored) return null;
       
       const config: AppConfig = JSON.parse(stored);
-      
-      // Ensure agent section exists with defaults
-      if (!config.config.agent) {
-        config.config.agent = {
-          system_prompt: DEFAULT_SYSTEM_PROMPT,
-          globalParameters: DEFAULT_GLOBAL_PARAMETERS,
-          tools: DEFAULT_TOOLS
-        };
-        // Save the updated config back
-        this.saveConfig(config);
+      const version = config.schemaVersion ?? 1;
+      if (version === CURRENT_SETTINGS_VERSION) {
+        return config;
       }
       
-      // Ensure globalParameters exists (for backward compatibility)
-      if (!config.config.agent.globalParameters) {
-        config.config.agent.globalParameters = DEFAULT_GLOBAL_PARAMETERS;
-        this.saveConfig(config);
+      // Bring settings stored by an older version up to date and save them back
+      const migration = SettingsMigrator.migrate(config.config, version, 'stored');
+      const migrated: AppConfig = {
+        schemaVersion: migration.toVersion,
+        config: migration.settings
+      };
+      const { errors } = validateSchema(settingsSchema, migrated.config);
+      if (errors.length > 0) {
+        console.warn('⚠️ Migrated settings have validation errors:', errors);
       }
-      
-      return config;
+      SettingsManager.saveConfig(migrated);
+      SettingsManager.loadMigrations.push(...migration.applied);
+      return migrated;
     } catch (error) {
       console.error('Error retrieving config:', error);
       return null;
     }
   }
 
+  /**
+   * Migrations run on the stored settings since the last call, so the app can report them once
+   */
+  static takeLoadMigrations(): AppliedSettingsMigration[] {
+    return SettingsManager.loadMigrations.splice(0);
+  }
+
   /**
    * Save full configuration object
    */
   static saveConfig(config: AppConfig): void {
     try {
-      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(config));
+      localStorage.setItem(SettingsManager.SETTINGS_KEY, JSON.stringify({ ...config, schemaVersion: CURRENT_SETTINGS_VERSION }));
     } catch (error) {
       console.error('Error saving config:', error);
     }
@@ -161,7 +353,7 @@ export class SettingsManager {
    * Get Agent configuration
    */
   static getAgentConfig(): AgentConfig {
-    const settings = this.getSettings();
+    const settings = SettingsManager.getSettings();
     return settings?.agent || {
       system_prompt: DEFAULT_SYSTEM_PROMPT,
       globalParameters: DEFAULT_GLOBAL_PARAMETERS,
@@ -169,17 +361,146 @@ export class SettingsManager {
     };
   }
 
+  /**
+   * Environment whose global parameter values tools receive: the `env` URL query parameter when it names
+   * a configured environment, otherwise the one selected in Settings. Null means the default values.
+   */
+  static getActiveEnvironment(agent: Partial<AgentConfig> = SettingsManager.getAgentConfig()): string | null {
+    const environments = agent.environments || [];
+    const requested = SettingsManager.getUrlEnvironment();
+    if (requested && environments.includes(requested)) {
+      return requested;
+    }
+    return agent.activeEnvironment && environments.includes(agent.activeEnvironment) ? agent.activeEnvironment : null;
+  }
+
+  /**
+   * Environment requested in the URL, e.g. ?env=staging, whether or not it is configured
+   */
+  static getUrlEnvironment(): string | null {
+    if (typeof window === 'undefined' || !window.location) return null;
+    return new URLSearchParams(window.location.search).get(SettingsManager.ENVIRONMENT_QUERY_PARAM);
+  }
+
+  /**
+   * Value of a global parameter in an environment; without an own value for it the default value applies.
+   * Secret values are only available once SecretVault has decrypted them.
+   */
+  static getParameterValue(param: GlobalParameter, environment: string | null): string | undefined {
+    const hasOwnValue = !!environment && param.environmentValues?.[environment] !== undefined;
+    if (param.secret) {
+      return SecretVault.reveal(hasOwnValue ? param.encryptedEnvironmentValues?.[environment] : param.encryptedValue);
+    }
+    return hasOwnValue ? param.environmentValues?.[environment] : param.value;
+  }
+
+  /**
+   * Global parameters of the active environment as a key-value object, as tools receive them in `globals`
+   */
+  static getGlobals(): Record<string, string> {
+    const globals: Record<string, string> = {};
+    const agent = SettingsManager.getAgentConfig();
+    const environment = SettingsManager.getActiveEnvironment(agent);
+    (agent.globalParameters || []).forEach(param => {
+      const value = SettingsManager.getParameterValue(param, environment);
+      if (param.key && value !== undefined) {
+        globals[param.key] = value;
+      }
+    });
+    return globals;
+  }
+
+  /**
+   * Global parameters with secret values decrypted first; secrets are missing while the vault is locked
+   */
+  static async resolveGlobals(): Promise<Record<string, string>> {
+    const params = SettingsManager.getAgentConfig().globalParameters || [];
+    if (params.some(param => param.secret)) {
+      if (!SecretVault.isUnlocked()) {
+        console.warn('🔐 Secret vault is locked; secret global parameters are not passed to tools');
+      } else {
+        const failed = await SecretVault.decryptParameters(params);
+        if (failed.length > 0) {
+          console.warn('🔐 Could not decrypt secret global parameters:', failed);
+        }
+      }
+    }
+    return SettingsManager.getGlobals();
+  }
+
+  /**
+   * Validate the name of a new environment
+   */
+  static validateEnvironmentName(name: string, environments: string[] = []): string[] {
+    if (!ENVIRONMENT_NAME_PATTERN.test(name)) {
+      return ['Environment names use lowercase letters, digits, - and _ (at most 30 characters)'];
+    }
+    return environments.includes(name) ? [`Environment ${name} already exists`] : [];
+  }
+
+  // Secret values are only stored encrypted; plaintext that was not sealed by SecretVault is dropped
+  private static withoutSecretValues(params: GlobalParameter[] = []): GlobalParameter[] {
+    return params.map(param => {
+      if (!param.secret || !SecretVault.hasUnsealedValues([param])) return param;
+      console.warn(`🔐 Not storing the unencrypted value of secret parameter ${param.key}`);
+      return { ...param, value: '', environmentValues: SettingsManager.mapValues(param.environmentValues, () => '') };
+    });
+  }
+
+  private static mapValues(values: Record<string, string> | undefined, map: (value: string) => string): Record<string, string> | undefined {
+    return values && Object.fromEntries(Object.entries(values).map(([key, value]) => [key, map(value)]));
+  }
+
+  /**
+   * Secret values of import settings that have to be entered, e.g. after a redacted export: the default value
+   * and each environment value. The id combines key and environment, as fillSecrets expects it.
+   */
+  static getSecretsToEnter(settings: AppSettings): SecretInput[] {
+    return settings.agent.globalParameters
+      .filter(param => param.secret)
+      .flatMap(param => [
+        ...(param.encryptedValue ? [] : [{ id: param.key, key: param.key, suggestedValue: param.value }]),
+        ...Object.entries(param.environmentValues || {})
+          .filter(([environment]) => !param.encryptedEnvironmentValues?.[environment])
+          .map(([environment, value]) => ({ id: `${param.key}@${environment}`, key: param.key, environment, suggestedValue: value }))
+      ]);
+  }
+
+  /**
+   * Encrypt the values entered for the secret parameters of import settings.
+   * Values that were not entered stay empty, so they can be filled in later in the editor.
+   */
+  static async fillSecrets(settings: AppSettings, values: Record<string, string>): Promise<AppSettings> {
+    const globalParameters = await SecretVault.sealParameters(
+      settings.agent.globalParameters.map(param =>
+        param.secret
+          ? {
+              ...param,
+              value: param.encryptedValue ? param.value : values[param.key] || '',
+              environmentValues: param.environmentValues && Object.fromEntries(
+                Object.keys(param.environmentValues).map(environment => [
+                  environment,
+                  param.encryptedEnvironmentValues?.[environment] ? '' : values[`${param.key}@${environment}`] || ''
+                ])
+              )
+            }
+          : param
+      )
+    );
+    return { ...settings, agent: { ...settings.agent, globalParameters } };
+  }
+
   /**
    * Save Agent configuration
    */
   static saveAgentConfig(agentConfig: AgentConfig): void {
-    const settings = this.getSettings() || {
+    const settings = SettingsManager.getSettings() || {
       cognito: { userPoolId: '', userPoolClientId: '', identityPoolId: '', region: '' },
       agent: agentConfig
     };
     
     settings.agent = agentConfig;
-    this.saveSettings(settings);
+    SettingsManager.saveSettings(settings);
   }
 
   /**
@@ -191,7 +512,447 @@ export class SettingsManager {
       globalParameters: DEFAULT_GLOBAL_PARAMETERS,
       tools: DEFAULT_TOOLS
     };
-    this.saveAgentConfig(agentConfig);
+    SettingsManager.saveAgentConfig(agentConfig);
+  }
+
+  /**
+   * Get model, region, voice and inference settings with defaults applied
+   */
+  static getModelSettings(agentConfig: AgentConfig = SettingsManager.getAgentConfig()): ModelSettings {
+    return {
+      modelId: agentConfig.modelId?.trim() || DefaultModelId,
+      region: agentConfig.region?.trim() || DefaultRegion,
+      voiceId: agentConfig.voiceId?.trim() || DefaultVoiceId,
+      inferenceConfig: {
+        ...DefaultInferenceConfiguration,
+        ...agentConfig.inferenceConfig
+      }
+    };
+  }
+
+  /**
+   * Validate model, region, voice and inference settings
+   */
+  static validateModelSettings(agent: Partial<AgentConfig>): string[] {
+    const errors: string[] = [];
+
+    if (agent.modelId !== undefined && typeof agent.modelId !== 'string') {
+      errors.push('Model ID must be a string');
+    }
+    if (agent.region !== undefined && (typeof agent.region !== 'string' || !/^[a-z]{2}(-[a-z]+)+-\d$/.test(agent.region))) {
+      errors.push('Region must be a valid AWS region (e.g. us-east-1)');
+    }
+    if (agent.voiceId !== undefined && typeof agent.voiceId !== 'string') {
+      errors.push('Voice ID must be a string');
+    }
+
+    const inference = agent.inferenceConfig;
+    if (inference !== undefined) {
+      if (!inference || typeof inference !== 'object') {
+        errors.push('Inference configuration must be an object');
+      } else {
+        if (!Number.isInteger(inference.maxTokens) || inference.maxTokens <= 0) {
+          errors.push('Max tokens must be a positive integer');
+        }
+        if (!Number.isFinite(inference.topP) || inference.topP < 0 || inference.topP > 1) {
+          errors.push('Top P must be a number between 0 and 1');
+        }
+        if (!Number.isFinite(inference.temperature) || inference.temperature < 0 || inference.temperature > 1) {
+          errors.push('Temperature must be a number between 0 and 1');
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Get the default tool timeout of an agent configuration
+   */
+  static getDefaultToolTimeout(agent?: Partial<AgentConfig> | null): number {
+    return agent?.toolTimeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  }
+
+  /**
+   * Pricing rules of the agent, or the default rules when none are configured, rounded to the minor unit of the
+   * store currency (a stored minorUnits of 2 would price a yen store in hundredths)
+   */
+  static getPricing(agent: Partial<AgentConfig> | null = SettingsManager.getAgentConfig()): PricingConfig {
+    return { ...(agent?.pricing ?? DEFAULT_PRICING), minorUnits: PriceFormatter.getMinorDigits(SettingsManager.getStoreLocale(agent)) };
+  }
+
+  /**
+   * Locale and currency of the store, or en-US and USD when none are configured
+   */
+  static getStoreLocale(agent: Partial<AgentConfig> | null = SettingsManager.getAgentConfig()): StoreLocale {
+    return agent?.storeLocale ?? { ...DEFAULT_STORE_LOCALE };
+  }
+
+  /**
+   * Resolve the timeout of a tool: its own setting first, then the agent default
+   */
+  static getToolTimeout(tool: Partial<Tool>, agent?: Partial<AgentConfig> | null): number {
+    return tool.timeoutMs ?? SettingsManager.getDefaultToolTimeout(agent);
+  }
+
+  /**
+   * Validate an optional tool timeout in milliseconds
+   */
+  static validateToolTimeout(timeoutMs: unknown, label = 'Tool timeout'): string[] {
+    if (timeoutMs === undefined) return [];
+    if (
+      typeof timeoutMs !== 'number' ||
+      !Number.isInteger(timeoutMs) ||
+      timeoutMs < MIN_TOOL_TIMEOUT_MS ||
+      timeoutMs > MAX_TOOL_TIMEOUT_MS
+    ) {
+      return [`${label} must be a whole number of milliseconds between ${MIN_TOOL_TIMEOUT_MS} and ${MAX_TOOL_TIMEOUT_MS}`];
+    }
+    return [];
+  }
+
+  /**
+   * Validate the execution mode and permission manifest of a tool
+   */
+  static validateToolSandbox(tool: Partial<Tool>): string[] {
+    const errors: string[] = [];
+
+    if (tool.executionMode !== undefined && tool.executionMode !== 'main' && tool.executionMode !== 'sandbox') {
+      errors.push('Tool execution mode must be "main" or "sandbox"');
+    }
+
+    const permissions = tool.permissions;
+    if (permissions !== undefined) {
+      const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+      if (!permissions || typeof permissions !== 'object') {
+        errors.push('Tool permissions must be an object');
+      } else {
+        if (!isStringArray(permissions.allowedHosts)) {
+          errors.push('Tool permissions: allowed hosts must be a list of host names');
+        }
+        if (!isStringArray(permissions.allowedComponents)) {
+          errors.push('Tool permissions: allowed components must be a list of component names');
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the preconditions and post-hooks of a tool
+   */
+  static validateToolRules(tool: Partial<Tool>): string[] {
+    const errors: string[] = [];
+    const isName = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+    const operators: ToolComparisonOperator[] = ['truthy', 'falsy', '==', '!=', '>', '>=', '<', '<='];
+
+    if (tool.preconditions !== undefined) {
+      if (!Array.isArray(tool.preconditions)) {
+        errors.push('Tool preconditions must be a list');
+      } else {
+        tool.preconditions.forEach((value: unknown, index) => {
+          const label = `Precondition ${index + 1}`;
+          const condition: Record<string, unknown> = value && typeof value === 'object' ? { ...value } : {};
+          switch (condition.type) {
+            case 'toolSucceeded':
+            case 'toolNotSucceeded':
+              if (!isName(condition.tool)) errors.push(`${label}: Select a tool`);
+              break;
+            case 'cartNotEmpty':
+              break;
+            case 'componentState':
+              if (!isName(condition.component) || !isName(condition.method)) {
+                errors.push(`${label}: Component and method are required`);
+              }
+              if (!operators.some(operator => operator === condition.operator)) {
+                errors.push(`${label}: Unknown operator ${condition.operator}`);
+              }
+              if (condition.args !== undefined && !Array.isArray(condition.args)) {
+                errors.push(`${label}: Arguments must be a list`);
+              }
+              break;
+            default:
+              errors.push(`${label}: Unknown type ${condition.type}`);
+          }
+        });
+      }
+    }
+
+    if (tool.postHooks !== undefined) {
+      if (!Array.isArray(tool.postHooks)) {
+        errors.push('Tool post-hooks must be a list');
+      } else {
+        tool.postHooks.forEach((value: unknown, index) => {
+          const label = `Post-hook ${index + 1}`;
+          const hook: Record<string, unknown> = value && typeof value === 'object' ? { ...value } : {};
+          switch (hook.type) {
+            case 'callComponent':
+              if (!isName(hook.component) || !isName(hook.method)) {
+                errors.push(`${label}: Component and method are required`);
+              }
+              if (hook.args !== undefined && !Array.isArray(hook.args)) {
+                errors.push(`${label}: Arguments must be a list`);
+              }
+              break;
+            case 'runTool':
+              if (!isName(hook.tool)) errors.push(`${label}: Select a tool`);
+              if (hook.input !== undefined && typeof hook.input !== 'string') {
+                errors.push(`${label}: Input must be valid JSON`);
+              } else if (hook.input?.trim()) {
+                try {
+                  JSON.parse(hook.input);
+                } catch {
+                  errors.push(`${label}: Input must be valid JSON`);
+                }
+              }
+              break;
+            case 'resetToolHistory':
+              break;
+            default:
+              errors.push(`${label}: Unknown type ${hook.type}`);
+          }
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the saved test cases of a tool
+   */
+  static validateToolTestCases(tool: Partial<Tool>): string[] {
+    if (tool.testCases === undefined) return [];
+    if (!Array.isArray(tool.testCases)) {
+      return ['Tool test cases must be a list'];
+    }
+
+    const errors: string[] = [];
+    const isJSON = (value: string) => {
+      try {
+        JSON.parse(value);
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    tool.testCases.forEach((value: unknown, index) => {
+      const label = `Test case ${index + 1}`;
+      if (!value || typeof value !== 'object') {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      const testCase: Partial<Record<keyof ToolTestCase, unknown>> = value;
+      if (typeof testCase.id !== 'string' || typeof testCase.name !== 'string') {
+        errors.push(`${label}: Missing id or name`);
+      }
+      if (typeof testCase.input !== 'string' || !isJSON(testCase.input)) {
+        errors.push(`${label}: Input must be valid JSON`);
+      }
+      if (typeof testCase.useMocks !== 'boolean') {
+        errors.push(`${label}: Invalid mock setting (must be boolean)`);
+      }
+      if (testCase.mocks !== undefined && (typeof testCase.mocks !== 'string' || (testCase.mocks.trim() && !isJSON(testCase.mocks)))) {
+        errors.push(`${label}: Mocks must be valid JSON`);
+      }
+      if (testCase.expectedResult !== undefined && typeof testCase.expectedResult !== 'string') {
+        errors.push(`${label}: Invalid expected result (must be string)`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate the mock HTTP layer and its routes
+   */
+  static validateMockHttp(mockHttp: unknown): string[] {
+    if (mockHttp === undefined) return [];
+    if (!mockHttp || typeof mockHttp !== 'object') {
+      return ['Mock HTTP settings must be an object'];
+    }
+
+    const config = mockHttp as Partial<MockHttpConfig>;
+    const errors: string[] = [];
+    if (typeof config.enabled !== 'boolean') {
+      errors.push('Mock HTTP: Invalid enabled setting (must be boolean)');
+    }
+    if (typeof config.passthrough !== 'boolean') {
+      errors.push('Mock HTTP: Invalid passthrough setting (must be boolean)');
+    }
+    if (!Array.isArray(config.routes)) {
+      errors.push('Mock HTTP: Routes must be a list');
+      return errors;
+    }
+
+    config.routes.forEach((value: unknown, index) => {
+      const label = `Mock route ${index + 1}`;
+      if (!value || typeof value !== 'object') {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      const route: Record<string, unknown> = { ...value };
+      if (typeof route.id !== 'string') {
+        errors.push(`${label}: Missing id`);
+      }
+      if (typeof route.method !== 'string' || !MOCK_HTTP_METHODS.includes(route.method.toUpperCase())) {
+        errors.push(`${label}: Method must be one of ${MOCK_HTTP_METHODS.join(', ')}`);
+      }
+      if (typeof route.urlPattern !== 'string' || !route.urlPattern.trim()) {
+        errors.push(`${label}: URL pattern is required`);
+      }
+      if (typeof route.responseType !== 'string' || !['json', 'template', 'script'].includes(route.responseType)) {
+        errors.push(`${label}: Response type must be "json", "template" or "script"`);
+      }
+      if (typeof route.status !== 'number' || !Number.isInteger(route.status) || route.status < 100 || route.status > 599) {
+        errors.push(`${label}: Status must be an HTTP status code between 100 and 599`);
+      }
+      if (typeof route.body !== 'string') {
+        errors.push(`${label}: Response body must be a string`);
+      } else if (route.responseType === 'json') {
+        try {
+          JSON.parse(route.body);
+        } catch {
+          errors.push(`${label}: Response body must be valid JSON`);
+        }
+      }
+      if (route.delayMs !== undefined && (typeof route.delayMs !== 'number' || route.delayMs < 0 || route.delayMs > MAX_TOOL_TIMEOUT_MS)) {
+        errors.push(`${label}: Delay must be between 0 and ${MAX_TOOL_TIMEOUT_MS} ms`);
+      }
+      if (route.description !== undefined && typeof route.description !== 'string') {
+        errors.push(`${label}: Invalid description`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate the store locale and currency against the settings schema, which checks the locale with Intl
+   */
+  static validateStoreLocale(storeLocale: unknown): string[] {
+    return storeLocale === undefined ? [] : validateSchema(storeLocaleSchema, storeLocale, 'storeLocale').errors;
+  }
+
+  /**
+   * Validate the promotions and their coupon codes
+   */
+  static validatePromotions(promotions: unknown): string[] {
+    if (promotions === undefined) return [];
+    if (!Array.isArray(promotions)) {
+      return ['Promotions must be a list'];
+    }
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    const codes = new Set<string>();
+    const isTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+    const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+    const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+    promotions.forEach((value: unknown, index) => {
+      if (!value || typeof value !== 'object') {
+        errors.push(`Promotion ${index + 1} must be an object`);
+        return;
+      }
+      const promotion: Record<string, unknown> = { ...value };
+      const label = `Promotion ${promotion.name || index + 1}`;
+      if (typeof promotion.id !== 'string' || !promotion.id) {
+        errors.push(`${label}: Missing id`);
+      } else if (ids.has(promotion.id)) {
+        errors.push(`${label}: Duplicate id "${promotion.id}"`);
+      } else {
+        ids.add(promotion.id);
+      }
+      if (typeof promotion.name !== 'string' || !promotion.name.trim()) {
+        errors.push(`Promotion ${index + 1}: Name is required`);
+      }
+      if (typeof promotion.enabled !== 'boolean') {
+        errors.push(`${label}: Invalid enabled setting (must be boolean)`);
+      }
+
+      const percentOff = promotion.percentOff;
+      if (percentOff !== undefined && (!isAmount(percentOff) || percentOff > 100)) {
+        errors.push(`${label}: Percent off must be between 0 and 100`);
+      }
+      if (promotion.amountOff !== undefined && !isAmount(promotion.amountOff)) {
+        errors.push(`${label}: Amount off must be more than 0`);
+      }
+      switch (promotion.type) {
+        case 'percentOff':
+          if (percentOff === undefined) errors.push(`${label}: Percent off is required`);
+          break;
+        case 'amountOff':
+          if (promotion.amountOff === undefined) errors.push(`${label}: Amount off is required`);
+          break;
+        case 'bogo':
+          for (const field of ['buyQuantity', 'getQuantity']) {
+            const quantity = promotion[field];
+            if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1) {
+              errors.push(`${label}: ${field === 'buyQuantity' ? 'Buy' : 'Get'} quantity must be a whole number of at least 1`);
+            }
+          }
+          break;
+        case 'orderDiscount':
+          if ((percentOff === undefined) === (promotion.amountOff === undefined)) {
+            errors.push(`${label}: Set either percent off or amount off`);
+          }
+          break;
+        default:
+          errors.push(`${label}: Type must be "percentOff", "amountOff", "bogo" or "orderDiscount"`);
+      }
+
+      for (const field of ['itemIds', 'categories']) {
+        const values = promotion[field];
+        if (values !== undefined && (!Array.isArray(values) || !values.every((value: unknown) => typeof value === 'string' && value))) {
+          errors.push(`${label}: ${field === 'itemIds' ? 'Items' : 'Categories'} must be a list of ids`);
+        }
+      }
+      if (promotion.minSubtotal !== undefined && !isAmount(promotion.minSubtotal)) {
+        errors.push(`${label}: Minimum subtotal must be more than 0`);
+      }
+      if (promotion.couponCode !== undefined) {
+        const code = typeof promotion.couponCode === 'string' ? promotion.couponCode.trim().toUpperCase() : '';
+        if (!/^[A-Z0-9 -]+$/.test(code)) {
+          errors.push(`${label}: Coupon codes use letters, digits, spaces and dashes`);
+        } else if (codes.has(code)) {
+          errors.push(`${label}: Another promotion uses coupon code ${code}`);
+        }
+        codes.add(code);
+      }
+      if (promotion.loyaltyOnly !== undefined && typeof promotion.loyaltyOnly !== 'boolean') {
+        errors.push(`${label}: Invalid loyalty-only setting (must be boolean)`);
+      }
+
+      if (promotion.schedule !== undefined) {
+        const schedule: Record<string, unknown> =
+          promotion.schedule && typeof promotion.schedule === 'object' ? { ...promotion.schedule } : {};
+        if (!isTime(schedule.startTime) || !isTime(schedule.endTime)) {
+          errors.push(`${label}: Schedule needs a start and end time as HH:MM`);
+        } else if (schedule.days !== undefined && (!Array.isArray(schedule.days) || !schedule.days.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6))) {
+          errors.push(`${label}: Schedule days must be numbers from 0 (Sunday) to 6 (Saturday)`);
+        }
+      }
+      for (const field of ['validFrom', 'validUntil']) {
+        if (promotion[field] !== undefined && !isDate(promotion[field])) {
+          errors.push(`${label}: ${field === 'validFrom' ? 'Start' : 'End'} date must be YYYY-MM-DD`);
+        }
+      }
+      if (isDate(promotion.validFrom) && isDate(promotion.validUntil) && promotion.validFrom > promotion.validUntil) {
+        errors.push(`${label}: Start date is after the end date`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate the pricing rules (tax, fees, tips and rounding) against the settings schema
+   */
+  static validatePricing(pricing: unknown): string[] {
+    return pricing === undefined ? [] : validateSchema(pricingSchema, pricing, 'pricing').errors;
   }
 
   /**
@@ -220,6 +981,14 @@ export class SettingsManager {
         errors.push('Input schema must be valid JSON');
       }
     }
+
+    errors.push(...SettingsManager.validateToolTimeout(tool.timeoutMs));
+    errors.push(...SettingsManager.validateToolSandbox(tool));
+    errors.push(...SettingsManager.validateToolTestCases(tool));
+    errors.push(...SettingsManager.validateToolRules(tool));
+    if (tool.timeoutFallback !== undefined && typeof tool.timeoutFallback !== 'string') {
+      errors.push('Tool timeout fallback must be a string');
+    }
     
     return errors;
   }
@@ -240,11 +1009,24 @@ export class SettingsManager {
       }
       
       // Validate individual tool
-      const toolErrors = this.validateTool(tool);
+      const toolErrors = SettingsManager.validateTool(tool);
       toolErrors.forEach(error => {
         errors.push(`Tool ${index + 1}: ${error}`);
       });
     });
+
+    // Rules may only refer to tools that exist
+    tools.forEach((tool, index) => {
+      const references = [
+        ...(Array.isArray(tool.preconditions) ? tool.preconditions : []),
+        ...(Array.isArray(tool.postHooks) ? tool.postHooks : [])
+      ];
+      references.forEach(rule => {
+        if ('tool' in rule && rule.tool && !names.has(rule.tool)) {
+          errors.push(`Tool ${index + 1}: Rule refers to unknown tool ${rule.tool}`);
+        }
+      });
+    });
     
     return errors;
   }
@@ -275,6 +1057,16 @@ export class SettingsManager {
       errors.push('Parameter value is required');
     }
     
+    if (param.secret && !param.value && !param.encryptedValue) {
+      errors.push('Secret value is required');
+    }
+    
+    Object.entries(param.environmentValues || {}).forEach(([environment, value]) => {
+      if (param.secret && !value && !param.encryptedEnvironmentValues?.[environment]) {
+        errors.push(`Secret value for ${environment} is required`);
+      }
+    });
+    
     return errors;
   }
 
@@ -295,7 +1087,7 @@ export class SettingsManager {
       }
       
       // Validate individual parameter
-      const paramErrors = this.validateGlobalParameter(param);
+      const paramErrors = SettingsManager.validateGlobalParameter(param);
       paramErrors.forEach(error => {
         errors.push(`Parameter ${index + 1}: ${error}`);
       });
@@ -328,8 +1120,8 @@ export class SettingsManager {
    */
   static clearSettings(): void {
     try {
-      localStorage.removeItem(this.SETTINGS_KEY);
-      sessionStorage.removeItem(this.CREDENTIALS_KEY);
+      localStorage.removeItem(SettingsManager.SETTINGS_KEY);
+      sessionStorage.removeItem(SettingsManager.CREDENTIALS_KEY);
     } catch (error) {
       console.error('Error clearing settings:', error);
     }
@@ -354,7 +1146,7 @@ export class SettingsManager {
         }
       }
 
-      sessionStorage.setItem(this.CREDENTIALS_KEY, JSON.stringify({
+      sessionStorage.setItem(SettingsManager.CREDENTIALS_KEY, JSON.stringify({
         accessKeyId: credentials.accessKeyId,
         secretAccessKey: credentials.secretAccessKey,
         sessionToken: credentials.sessionToken,
@@ -370,7 +1162,7 @@ export class SettingsManager {
    */
   static getCredentials(): any | null {
     try {
-      const stored = sessionStorage.getItem(this.CREDENTIALS_KEY);
+      const stored = sessionStorage.getItem(SettingsManager.CREDENTIALS_KEY);
       if (!stored) return null;
       
       const credentials = JSON.parse(stored);
@@ -378,7 +1170,7 @@ export class SettingsManager {
       // Check if credentials are expired
       if (credentials.expiration && new Date(credentials.expiration) <= new Date()) {
         console.log('Credentials expired, clearing...');
-        sessionStorage.removeItem(this.CREDENTIALS_KEY);
+        sessionStorage.removeItem(SettingsManager.CREDENTIALS_KEY);
         return null;
       }
       
@@ -393,7 +1185,7 @@ export class SettingsManager {
    * Check if settings are configured and complete
    */
   static isConfigured(): boolean {
-    const settings = this.getSettings();
+    const settings = SettingsManager.getSettings();
     return !!(settings?.cognito?.userPoolId && 
               settings?.cognito?.userPoolClientId && 
               settings?.cognito?.identityPoolId && 
@@ -426,14 +1218,14 @@ export class SettingsManager {
    * Get incomplete configuration sections
    */
   static getIncompleteSettings(): string[] {
-    const settings = this.getSettings();
+    const settings = SettingsManager.getSettings();
     const incomplete: string[] = [];
     
     if (!settings) {
       return ['cognito'];
     }
     
-    const cognitoErrors = this.validateCognitoConfig(settings.cognito);
+    const cognitoErrors = SettingsManager.validateCognitoConfig(settings.cognito);
     if (cognitoErrors.length > 0) {
       incomplete.push('cognito');
     }
@@ -448,7 +1240,7 @@ export class SettingsManager {
    */
   static clearCredentials(): void {
     try {
-      sessionStorage.removeItem(this.CREDENTIALS_KEY);
+      sessionStorage.removeItem(SettingsManager.CREDENTIALS_KEY);
       console.log('Credentials cleared from session storage');
     } catch (error) {
       console.error('Failed to clear credentials:', error);
@@ -460,9 +1252,22 @@ export class SettingsManager {
    */
   static exportSettings(): string {
     try {
-      const settings = this.getSettings();
+      const settings = SettingsManager.getSettings();
+      
+      // Secret values never leave the browser; the import asks for them again
+      if (settings) {
+        settings.agent.globalParameters = settings.agent.globalParameters.map(
+          ({ encryptedValue: _, encryptedEnvironmentValues: __, ...param }) =>
+            param.secret
+              ? { ...param, value: SECRET_PLACEHOLDER, environmentValues: SettingsManager.mapValues(param.environmentValues, () => SECRET_PLACEHOLDER) }
+              : param
+        );
+      }
+      
+      // Older builds only accept export version 1.0; newer builds read the schema version instead
       const exportData = {
         exportVersion: "1.0",
+        schemaVersion: CURRENT_SETTINGS_VERSION,
         exportDate: new Date().toISOString(),
         appVersion: "1.0.0",
         settings: settings || {
@@ -489,173 +1294,226 @@ export class SettingsManager {
   }
 
   /**
-   * Validate import data structure
+   * Migrate the settings of an export file to the current version and validate them against the schema.
+   * Fields the schema does not describe are kept and reported as warnings, and so are tools that run on the main thread.
    */
-  static validateImportData(data: any): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
+  static prepareImport(data: unknown, source: SettingsSource = 'import'): PreparedImport {
+    const result: PreparedImport = { settings: null, errors: [], warnings: [], migrations: [], mainThreadTools: [] };
+    
+    // Check if data is an object
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      result.errors.push('Invalid file format: not a valid JSON object');
+      return result;
+    }
+    
+    const version = SettingsMigrator.detectExportVersion(data);
+    if (version === null) {
+      const exportVersion = 'exportVersion' in data ? data.exportVersion : undefined;
+      result.errors.push(exportVersion ? `Unsupported export version: ${exportVersion}` : 'Missing export version');
+      return result;
+    }
+    const settings = 'settings' in data ? data.settings : undefined;
+    if (!settings) {
+      result.errors.push('Missing settings data');
+      return result;
+    }
     
     try {
-      // Check if data is an object
-      if (!data || typeof data !== 'object') {
-        errors.push('Invalid file format: not a valid JSON object');
-        return { valid: false, errors };
-      }
-      
-      // Check export version
-      if (!data.exportVersion) {
-        errors.push('Missing export version');
-      } else if (data.exportVersion !== "1.0") {
-        errors.push(`Unsupported export version: ${data.exportVersion}`);
-      }
-      
-      // Check settings structure
-      if (!data.settings) {
-        errors.push('Missing settings data');
-        return { valid: false, errors };
-      }
-      
-      // Validate cognito config
-      if (data.settings.cognito) {
-        const cognito = data.settings.cognito;
-        if (typeof cognito.userPoolId !== 'string') errors.push('Invalid Cognito userPoolId');
-        if (typeof cognito.userPoolClientId !== 'string') errors.push('Invalid Cognito userPoolClientId');
-        if (typeof cognito.region !== 'string') errors.push('Invalid Cognito region');
-      }
-      
-      // Validate agent config
-      if (data.settings.agent) {
-        const agent = data.settings.agent;
-        if (typeof agent.system_prompt !== 'string') errors.push('Invalid system prompt');
-        if (!Array.isArray(agent.tools)) {
-          errors.push('Invalid tools array');
-        } else {
-          // Validate each tool
-          agent.tools.forEach((tool: any, index: number) => {
-            if (!tool.tool_name || typeof tool.tool_name !== 'string') {
-              errors.push(`Tool ${index + 1}: Missing or invalid tool name`);
-            }
-            if (!tool.description || typeof tool.description !== 'string') {
-              errors.push(`Tool ${index + 1}: Missing or invalid description`);
-            }
-            if (!tool.script || typeof tool.script !== 'string') {
-              errors.push(`Tool ${index + 1}: Missing or invalid script`);
-            }
-            if (!tool.inputSchema || !tool.inputSchema.json) {
-              errors.push(`Tool ${index + 1}: Missing or invalid input schema`);
-            } else {
-              try {
-                JSON.parse(tool.inputSchema.json);
-              } catch {
-                errors.push(`Tool ${index + 1}: Invalid JSON in input schema`);
-              }
-            }
+      const migration = SettingsMigrator.migrate(settings, version, source);
+      result.migrations = migration.applied;
+      
+      const validation = validateSchema(settingsSchema, migration.settings);
+      result.errors = validation.errors;
+      result.warnings = validation.unknownFields.map(path => `Unknown field ${path} will be kept as is`);
+      if (source !== 'stored' && Array.isArray(migration.settings.agent?.tools)) {
+        migration.settings.agent.tools
+          .filter((tool: Partial<Tool>) => tool?.executionMode === 'main')
+          .forEach((tool: Partial<Tool>) => {
+            result.mainThreadTools.push(String(tool.tool_name));
+            result.warnings.push(`Tool ${tool.tool_name} runs on the main thread with full access to the page, browser storage and credentials; import it only from a source you trust`);
           });
-        }
-        
-        // Validate global parameters (optional for backward compatibility)
-        if (agent.globalParameters) {
-          if (!Array.isArray(agent.globalParameters)) {
-            errors.push('Invalid global parameters array');
-          } else {
-            agent.globalParameters.forEach((param: any, index: number) => {
-              if (!param.key || typeof param.key !== 'string') {
-                errors.push(`Global Parameter ${index + 1}: Missing or invalid key`);
-              }
-              if (typeof param.value !== 'string') {
-                errors.push(`Global Parameter ${index + 1}: Invalid value (must be string)`);
-              }
-              if (param.description && typeof param.description !== 'string') {
-                errors.push(`Global Parameter ${index + 1}: Invalid description`);
-              }
-              if (typeof param.order !== 'number') {
-                errors.push(`Global Parameter ${index + 1}: Invalid order`);
-              }
-            });
-          }
-        }
       }
-      
-      return { valid: errors.length === 0, errors };
+      if (result.errors.length === 0) {
+        result.settings = SettingsManager.prepareImportedSecrets(migration.settings);
+      }
     } catch (error) {
-      errors.push(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return { valid: false, errors };
+      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
     }
+    return result;
+  }
+
+  // Encrypted values only decrypt with the vault that wrote them, so imported secrets are entered again.
+  // A value other than the export placeholder is kept as the suggested input.
+  private static prepareImportedSecrets(settings: AppSettings): AppSettings {
+    const withoutPlaceholder = (value: string) => (value === SECRET_PLACEHOLDER ? '' : value);
+    settings.agent.globalParameters = settings.agent.globalParameters.map(
+      ({ encryptedValue: _, encryptedEnvironmentValues: __, ...param }) =>
+        param.secret
+          ? { ...param, value: withoutPlaceholder(param.value), environmentValues: SettingsManager.mapValues(param.environmentValues, withoutPlaceholder) }
+          : param
+    );
+    return settings;
+  }
+
+  /**
+   * Validate import data structure
+   */
+  static validateImportData(data: unknown): { valid: boolean; errors: string[]; warnings: string[]; migrations: AppliedSettingsMigration[] } {
+    const { settings, errors, warnings, migrations } = SettingsManager.prepareImport(data);
+    return { valid: settings !== null, errors, warnings, migrations };
   }
 
   /**
-   * Import settings from JSON string
+   * Parse, migrate and validate an import file without saving it, e.g. to preview it
    */
-  static importSettings(jsonData: string, options: { replaceAll?: boolean } = { replaceAll: true }): { success: boolean; errors: string[]; imported: any } {
+  static readImportFile(jsonData: string): PreparedImport {
+    try {
+      return SettingsManager.prepareImport(JSON.parse(jsonData));
+    } catch {
+      return { settings: null, errors: ['Invalid JSON file format'], warnings: [], migrations: [], mainThreadTools: [] };
+    }
+  }
+
+  /**
+   * Current settings, or empty ones when nothing is stored yet
+   */
+  static getSettingsOrDefaults(): AppSettings {
+    return SettingsManager.getSettings() || {
+      cognito: { userPoolId: '', userPoolClientId: '', region: '', identityPoolId: '' },
+      agent: {
+        system_prompt: DEFAULT_SYSTEM_PROMPT,
+        globalParameters: DEFAULT_GLOBAL_PARAMETERS,
+        tools: DEFAULT_TOOLS
+      }
+    };
+  }
+
+  /**
+   * Import the parts of prepared settings picked in the import preview
+   */
+  static applyImportPlan(incoming: AppSettings, plan: SettingsImportPlan): { success: boolean; errors: string[] } {
+    try {
+      const current = SettingsManager.getSettingsOrDefaults();
+      const diff = SettingsDiff.diff(current, incoming);
+      const errors = SettingsDiff.validatePlan(current, diff, plan);
+      if (errors.length > 0) {
+        return { success: false, errors };
+      }
+
+      const merged = SettingsDiff.apply(current, incoming, plan);
+      const validation = validateSchema(settingsSchema, merged);
+      if (validation.errors.length > 0) {
+        return { success: false, errors: validation.errors };
+      }
+
+      SettingsManager.createBackup('Before import');
+      SettingsManager.saveSettings(merged);
+      console.log('✅ Selected settings imported successfully');
+      return { success: true, errors: [] };
+    } catch (error) {
+      console.error('Error importing settings:', error);
+      return { success: false, errors: [`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+  }
+
+  /**
+   * Replace all current settings with prepared import settings, e.g. after secret values were entered
+   */
+  static replaceWithImport(incoming: AppSettings): { success: boolean; errors: string[] } {
+    try {
+      const validation = validateSchema(settingsSchema, incoming);
+      if (validation.errors.length > 0) {
+        return { success: false, errors: validation.errors };
+      }
+
+      // Secrets left empty keep the current value of the secret with the same key
+      const currentParams = SettingsManager.getSettings()?.agent.globalParameters || [];
+      const globalParameters = incoming.agent.globalParameters.map(param =>
+        SettingsDiff.keepCurrentSecret(param, currentParams.find(item => item.key === param.key))
+      );
+
+      SettingsManager.createBackup('Before import');
+      SettingsManager.saveSettings({ ...incoming, agent: { ...incoming.agent, globalParameters } });
+      console.log('✅ Settings imported successfully (replace all)');
+      return { success: true, errors: [] };
+    } catch (error) {
+      console.error('Error importing settings:', error);
+      return { success: false, errors: [`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+  }
+
+  /**
+   * Import settings from JSON string.
+   * Files with tools that run on the main thread are refused unless `trustMainThreadTools` confirms them.
+   */
+  static importSettings(
+    jsonData: string,
+    options: { replaceAll?: boolean; trustMainThreadTools?: boolean } = { replaceAll: true }
+  ): { success: boolean; errors: string[]; imported: AppSettings | null; warnings: string[]; migrations: AppliedSettingsMigration[] } {
     try {
       console.log('📥 Starting import process...');
       
       // Parse JSON
-      let importData: any;
+      let importData: unknown;
       try {
         importData = JSON.parse(jsonData);
       } catch (error) {
         return { 
           success: false, 
           errors: ['Invalid JSON file format'], 
-          imported: null 
+          imported: null,
+          warnings: [],
+          migrations: []
         };
       }
       
-      // Validate import data
-      const validation = this.validateImportData(importData);
-      if (!validation.valid) {
+      // Migrate and validate import data
+      const prepared = SettingsManager.prepareImport(importData);
+      if (!prepared.settings) {
         return { 
           success: false, 
-          errors: validation.errors, 
-          imported: null 
+          errors: prepared.errors, 
+          imported: null,
+          warnings: prepared.warnings,
+          migrations: prepared.migrations
+        };
+      }
+      if (prepared.mainThreadTools.length > 0 && !options.trustMainThreadTools) {
+        return {
+          success: false,
+          errors: [`Confirm that you trust the tools that run on the main thread: ${prepared.mainThreadTools.join(', ')}`],
+          imported: null,
+          warnings: prepared.warnings,
+          migrations: prepared.migrations
         };
       }
       
       // Create backup of current settings
-      const currentSettings = this.getSettings();
-      const backupKey = `${this.SETTINGS_KEY}_backup_${Date.now()}`;
-      if (currentSettings) {
-        localStorage.setItem(backupKey, JSON.stringify(currentSettings));
-        console.log('💾 Created backup:', backupKey);
-      }
+      SettingsManager.createBackup('Before import');
       
       // Import settings
-      const settingsToImport = importData.settings;
+      const settingsToImport = prepared.settings;
       
       if (options.replaceAll) {
         // Replace all settings
-        this.saveSettings(settingsToImport);
+        SettingsManager.saveSettings(settingsToImport);
         console.log('✅ Settings imported successfully (replace all)');
       } else {
-        // Merge with existing settings
-        const existingSettings = this.getSettings() || {
-          cognito: { userPoolId: '', userPoolClientId: '', region: '', identityPoolId: '' },
-          agent: { 
-            system_prompt: DEFAULT_SYSTEM_PROMPT, 
-            globalParameters: DEFAULT_GLOBAL_PARAMETERS,
-            tools: DEFAULT_TOOLS 
-          }
-        };
+        // Merge with existing settings: replace tools and parameters of the same name, keep the others
+        const existingSettings = SettingsManager.getSettingsOrDefaults();
+        const diff = SettingsDiff.diff(existingSettings, settingsToImport);
+        const mergedSettings = SettingsDiff.apply(existingSettings, settingsToImport, SettingsDiff.createMergePlan(diff));
         
-        const mergedSettings = {
-          ...existingSettings,
-          ...settingsToImport,
-          agent: {
-            ...existingSettings.agent,
-            ...settingsToImport.agent,
-            globalParameters: settingsToImport.agent?.globalParameters || existingSettings.agent.globalParameters,
-            tools: settingsToImport.agent?.tools || existingSettings.agent.tools
-          }
-        };
-        
-        this.saveSettings(mergedSettings);
+        SettingsManager.saveSettings(mergedSettings);
         console.log('✅ Settings imported successfully (merged)');
       }
       
       return { 
         success: true, 
         errors: [], 
-        imported: settingsToImport 
+        imported: settingsToImport,
+        warnings: prepared.warnings,
+        migrations: prepared.migrations
       };
       
     } catch (error) {
@@ -663,11 +1521,115 @@ export class SettingsManager {
       return { 
         success: false, 
         errors: [`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`], 
-        imported: null 
+        imported: null,
+        warnings: [],
+        migrations: []
       };
     }
   }
 
+  /**
+   * Keep a copy of the settings (the current ones by default) that can be restored from the Backup tab.
+   * Only the most recent backups are kept.
+   */
+  static createBackup(reason: string, settings: AppSettings | null = SettingsManager.getSettings()): string | null {
+    if (!settings) return null;
+    try {
+      const createdAt = new Date();
+      const key = `${SettingsManager.BACKUP_KEY_PREFIX}${createdAt.getTime()}`;
+      const backup: StoredBackup = { schemaVersion: CURRENT_SETTINGS_VERSION, createdAt: createdAt.toISOString(), reason, settings };
+      localStorage.setItem(key, JSON.stringify(backup));
+      console.log('💾 Created backup:', key);
+
+      SettingsManager.listBackups()
+        .slice(MAX_BACKUPS)
+        .forEach(old => localStorage.removeItem(old.key));
+      return key;
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      return null;
+    }
+  }
+
+  private static readBackup(key: string): StoredBackup | null {
+    const stored = localStorage.getItem(key);
+    if (!stored) return null;
+
+    const data = JSON.parse(stored);
+    if (typeof data.schemaVersion === 'number') {
+      return data;
+    }
+    const timestamp = Number(key.slice(SettingsManager.BACKUP_KEY_PREFIX.length));
+    return {
+      schemaVersion: 1,
+      createdAt: new Date(Number.isFinite(timestamp) ? timestamp : 0).toISOString(),
+      reason: 'Before import',
+      settings: data
+    };
+  }
+
+  /**
+   * Backups kept in localStorage, most recent first
+   */
+  static listBackups(): SettingsBackup[] {
+    const backups: SettingsBackup[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(SettingsManager.BACKUP_KEY_PREFIX)) continue;
+      try {
+        const backup = SettingsManager.readBackup(key);
+        if (backup) {
+          backups.push({
+            key,
+            createdAt: backup.createdAt,
+            reason: backup.reason,
+            companyName: backup.settings?.agent?.companyName,
+            toolCount: Array.isArray(backup.settings?.agent?.tools) ? backup.settings.agent.tools.length : 0
+          });
+        }
+      } catch (error) {
+        console.warn('Skipping unreadable backup:', key, error);
+      }
+    }
+    return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Replace the current settings with a backup, migrating it when needed.
+   * The current settings are backed up first, so a restore can be undone.
+   */
+  static restoreBackup(key: string): { success: boolean; errors: string[]; migrations: AppliedSettingsMigration[] } {
+    try {
+      const backup = SettingsManager.readBackup(key);
+      if (!backup) {
+        return { success: false, errors: ['Backup not found'], migrations: [] };
+      }
+
+      const prepared = SettingsManager.prepareImport({ schemaVersion: backup.schemaVersion, settings: backup.settings }, 'stored');
+      if (!prepared.settings) {
+        return { success: false, errors: prepared.errors, migrations: prepared.migrations };
+      }
+
+      SettingsManager.createBackup(`Before restoring the backup of ${new Date(backup.createdAt).toLocaleString()}`);
+      SettingsManager.saveSettings(prepared.settings);
+      console.log('✅ Restored backup:', key);
+      return { success: true, errors: [], migrations: prepared.migrations };
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      return { success: false, errors: [`Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`], migrations: [] };
+    }
+  }
+
+  /**
+   * Delete a backup
+   */
+  static deleteBackup(key: string): void {
+    if (key.startsWith(SettingsManager.BACKUP_KEY_PREFIX)) {
+      localStorage.removeItem(key);
+      console.log('🗑️ Deleted backup:', key);
+    }
+  }
+
   /**
    * Device ID management for unique device identification
    */
@@ -692,12 +1654,12 @@ export class SettingsManager {
   static getDeviceId(): string {
     try {
       // Try to get existing device ID from localStorage
-      let deviceId = localStorage.getItem(this.DEVICE_ID_KEY);
+      let deviceId = localStorage.getItem(SettingsManager.DEVICE_ID_KEY);
       
       if (!deviceId) {
         // Generate new UUID-style device ID
-        deviceId = this.generateDeviceId();
-        localStorage.setItem(this.DEVICE_ID_KEY, deviceId);
+        deviceId = SettingsManager.generateDeviceId();
+        localStorage.setItem(SettingsManager.DEVICE_ID_KEY, deviceId);
         console.log('🆔 Generated new device ID:', deviceId);
       }
       
@@ -705,7 +1667,7 @@ export class SettingsManager {
     } catch (error) {
       console.error('Error managing device ID:', error);
       // Fallback: generate temporary ID for this session
-      return this.generateDeviceId();
+      return SettingsManager.generateDeviceId();
     }
   }
 
@@ -715,13 +1677,13 @@ export class SettingsManager {
    */
   static resetDeviceId(): string {
     try {
-      localStorage.removeItem(this.DEVICE_ID_KEY);
-      const newDeviceId = this.getDeviceId(); // This will generate a new one
+      localStorage.removeItem(SettingsManager.DEVICE_ID_KEY);
+      const newDeviceId = SettingsManager.getDeviceId(); // This will generate a new one
       console.log('🔄 Device ID reset to:', newDeviceId);
       return newDeviceId;
     } catch (error) {
       console.error('Error resetting device ID:', error);
-      return this.generateDeviceId();
+      return SettingsManager.generateDeviceId();
     }
   }
 
@@ -740,19 +1702,15 @@ export class SettingsManager {
       
       const defaultConfig = await response.json();
       
-      // Validate the structure matches expected format
-      const validation = this.validateImportData(defaultConfig);
-      if (!validation.valid) {
-        console.error('Invalid default configuration:', validation.errors);
+      // Migrate and validate the structure against the settings schema
+      const prepared = SettingsManager.prepareImport(defaultConfig);
+      if (!prepared.settings) {
+        console.error('Invalid default configuration:', prepared.errors);
         return null;
       }
       
-      if (defaultConfig.settings) {
-        console.log('✅ Default configuration loaded successfully');
-        return defaultConfig.settings;
-      }
-      
-      return null;
+      console.log('✅ Default configuration loaded successfully');
+      return prepared.settings;
     } catch (error) {
       console.warn('Could not load default configuration:', error);
       return null;
@@ -765,14 +1723,14 @@ export class SettingsManager {
    */
   static async initializeWithDefaults(): Promise<{ loaded: boolean; hadExistingSettings: boolean }> {
     try {
-      const existingSettings = this.getSettings();
+      const existingSettings = SettingsManager.getSettings();
       
       if (existingSettings) {
         console.log('🔧 Existing settings found, skipping default initialization');
         return { loaded: false, hadExistingSettings: true };
       }
       
-      const defaultConfig = await this.loadDefaultConfiguration();
+      const defaultConfig = await SettingsManager.loadDefaultConfiguration();
       if (!defaultConfig) {
         console.log('⚠️ No default configuration available');
         return { loaded: false, hadExistingSettings: false };
@@ -789,7 +1747,7 @@ export class SettingsManager {
         }
       };
       
-      this.saveSettings(configToSave);
+      SettingsManager.saveSettings(configToSave);
       console.log('✅ Default configuration initialized successfully');
       return { loaded: true, hadExistingSettings: false };
       
@@ -805,7 +1763,7 @@ export class SettingsManager {
    */
   static async initializeWithSettings(sampleSettings: any): Promise<{ loaded: boolean; hadExistingSettings: boolean }> {
     try {
-      const existingSettings = this.getSettings();
+      const existingSettings = SettingsManager.getSettings();
       let existingCognito = null;
       
       // Preserve existing Cognito settings if they exist and are configured
@@ -828,7 +1786,7 @@ export class SettingsManager {
         }
       };
       
-      this.saveSettings(configToSave);
+      SettingsManager.saveSettings(configToSave);
       console.log('✅ Sample configuration initialized successfully');
       return { loaded: true, hadExistingSettings: !!existingSettings };
       
@@ -844,8 +1802,8 @@ export class SettingsManager {
    */
   static async loadDefaultsPreservingCognito(): Promise<{ success: boolean; errors: string[] }> {
     try {
-      const existingSettings = this.getSettings();
-      const defaultConfig = await this.loadDefaultConfiguration();
+      const existingSettings = SettingsManager.getSettings();
+      const defaultConfig = await SettingsManager.loadDefaultConfiguration();
       
       if (!defaultConfig) {
         return { 
@@ -865,7 +1823,7 @@ export class SettingsManager {
         }
       };
       
-      this.saveSettings(configToSave);
+      SettingsManager.saveSettings(configToSave);
       console.log('✅ Default configuration loaded, Cognito settings preserved');
       return { success: true, errors: [] };
       
@@ -883,7 +1841,7 @@ export class SettingsManager {
    */
   static isUsingDefaultConfiguration(): boolean {
     try {
-      const settings = this.getSettings();
+      const settings = SettingsManager.getSettings();
       if (!settings) return false;
       
       // Check if system prompt matches default drive-thru prompt
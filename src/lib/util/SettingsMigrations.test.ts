@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  CURRENT_SETTINGS_VERSION,
+  SettingsMigrator,
+} from "./SettingsMigrations";
+
+const versionOneSettings = () => ({
+  cognito: { userPoolId: "pool" },
+  agent: {
+    system_prompt: "Take orders",
+    enableSentimentAnalysis: true,
+    globalParameters: [{ key: "apiUrl", value: "https://example.com" }],
+    tools: [
+      { name: "getMenu" },
+      { name: "placeOrder", executionMode: "sandbox" },
+    ],
+  },
+});
+
+describe("SettingsMigrator", () => {
+  it("brings version 1 settings up to the current version on a copy", () => {
+    const settings = versionOneSettings();
+    const result = SettingsMigrator.migrate(settings, 1, "import");
+
+    expect(result.toVersion).toBe(CURRENT_SETTINGS_VERSION);
+    expect(result.applied.map((step) => step.to)).toEqual([2, 3]);
+    expect(result.settings.cognito).toEqual({
+      userPoolId: "pool",
+      userPoolClientId: "",
+      region: "",
+      identityPoolId: "",
+    });
+    expect(result.settings.agent).not.toHaveProperty("enableSentimentAnalysis");
+    expect(result.settings.agent.globalParameters[0]).toMatchObject({
+      id: expect.stringMatching(/^param_/),
+      order: 1,
+    });
+    expect(
+      result.settings.agent.tools.map((tool: { order: number }) => tool.order),
+    ).toEqual([1, 2]);
+    expect(settings.agent.enableSentimentAnalysis).toBe(true);
+  });
+
+  it("keeps the stored tools on the main thread and runs imported ones in the sandbox", () => {
+    const stored = SettingsMigrator.migrate(versionOneSettings(), 2, "stored");
+    expect(
+      stored.settings.agent.tools.map(
+        (tool: { executionMode?: string }) => tool.executionMode,
+      ),
+    ).toEqual(["main", "sandbox"]);
+
+    const imported = SettingsMigrator.migrate(
+      versionOneSettings(),
+      2,
+      "profile",
+    );
+    expect(
+      imported.settings.agent.tools.map(
+        (tool: { executionMode?: string }) => tool.executionMode,
+      ),
+    ).toEqual([undefined, "sandbox"]);
+  });
+
+  it("runs no migration on current settings", () => {
+    expect(
+      SettingsMigrator.migrate(
+        { agent: {} },
+        CURRENT_SETTINGS_VERSION,
+        "stored",
+      ).applied,
+    ).toEqual([]);
+  });
+
+  it("rejects settings newer than this build and invalid versions", () => {
+    expect(() =>
+      SettingsMigrator.migrate({}, CURRENT_SETTINGS_VERSION + 1, "import"),
+    ).toThrow(/newer than this app supports/);
+    expect(() => SettingsMigrator.migrate({}, 0, "import")).toThrow(
+      "Invalid settings version: 0",
+    );
+    expect(() => SettingsMigrator.migrate([], 1, "import")).toThrow(
+      "Settings must be an object",
+    );
+  });
+
+  it("detects the version of export files", () => {
+    expect(SettingsMigrator.detectExportVersion({ schemaVersion: 2 })).toBe(2);
+    expect(SettingsMigrator.detectExportVersion({ exportVersion: "1.0" })).toBe(
+      1,
+    );
+    expect(SettingsMigrator.detectExportVersion({})).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import type { AppSettings } from "./SettingsManager";
+import { DEFAULT_SYSTEM_PROMPT } from "./SettingsSchema";
+
+// Version of the settings written by this build; stored settings and exports carry it
+export const CURRENT_SETTINGS_VERSION = 3;
+
+// Where settings come from: the user's own stored settings and backups, or an import file or profile that anyone may have written
+export type SettingsSource = "stored" | "import" | "profile";
+
+// One step of the migration chain, turning settings of version `to - 1` into version `to`
+export interface SettingsMigration {
+  to: number;
+  description: string;
+  migrate(
+    settings: Record<string, unknown>,
+    source: SettingsSource,
+  ): Record<string, unknown>;
+}
+
+// Migration that ran on a settings object, for reporting
+export interface AppliedSettingsMigration {
+  from: number;
+  to: number;
+  description: string;
+}
+
+export interface SettingsMigrationResult {
+  settings: AppSettings; // Shaped like the current version, but not validated yet
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedSettingsMigration[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Migrations in version order; add a step here whenever the shape of the settings changes
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+  {
+    to: 2,
+    description:
+      "Fill in the Cognito fields, agent section, global parameters and tool order, and drop the unused sentiment analysis flag",
+    migrate: (settings) => {
+      const cognito = isObject(settings.cognito) ? settings.cognito : {};
+      ["userPoolId", "userPoolClientId", "region", "identityPoolId"].forEach(
+        (key) => {
+          if (typeof cognito[key] !== "string") cognito[key] = "";
+        },
+      );
+
+      const agent: Record<string, unknown> = isObject(settings.agent)
+        ? settings.agent
+        : { system_prompt: DEFAULT_SYSTEM_PROMPT };
+      const globalParameters: unknown[] = Array.isArray(agent.globalParameters)
+        ? agent.globalParameters
+        : [];
+      const tools: unknown[] = Array.isArray(agent.tools) ? agent.tools : [];
+
+      globalParameters.forEach((param, index) => {
+        if (!isObject(param)) return;
+        if (typeof param.id !== "string")
+          param.id = `param_${Date.now()}_${index}`;
+        if (typeof param.order !== "number") param.order = index + 1;
+      });
+      tools.forEach((tool, index) => {
+        if (!isObject(tool)) return;
+        if (typeof tool.run_after_app_init !== "boolean")
+          tool.run_after_app_init = false;
+        if (typeof tool.order !== "number") tool.order = index + 1;
+      });
+      delete agent.enableSentimentAnalysis;
+
+      return {
+        ...settings,
+        cognito,
+        agent: { ...agent, globalParameters, tools },
+      };
+    },
+  },
+  {
+    to: 3,
+    description:
+      "Run tools without an execution mode in the sandbox; the tools of the stored settings keep running on the main thread",
+    migrate: (settings, source) => {
+      if (
+        source !== "stored" ||
+        !isObject(settings.agent) ||
+        !Array.isArray(settings.agent.tools)
+      ) {
+        return settings;
+      }
+      const tools = settings.agent.tools.map((tool: unknown) =>
+        isObject(tool) && tool.executionMode === undefined
+          ? { ...tool, executionMode: "main" }
+          : tool,
+      );
+      return { ...settings, agent: { ...settings.agent, tools } };
+    },
+  },
+];
+
+/**
+ * SettingsMigrator - brings stored and imported settings up to the current schema version
+ * by running the migrations after their version in order.
+ */
+export class SettingsMigrator {
+  private constructor() {}
+
+  /**
+   * Version of an export file: its schemaVersion, or 1 for files written before versioning
+   */
+  static detectExportVersion(data: object): number | null {
+    const {
+      schemaVersion,
+      exportVersion,
+    }: { schemaVersion?: unknown; exportVersion?: unknown } = data;
+    if (typeof schemaVersion === "number") return schemaVersion;
+    if (exportVersion === "1.0") return 1;
+    return null;
+  }
+
+  /**
+   * Run the migrations after a version on a copy of the settings.
+   * Throws when the settings are newer than this build or a migration fails.
+   */
+  static migrate(
+    settings: unknown,
+    fromVersion: number,
+    source: SettingsSource,
+  ): SettingsMigrationResult {
+    if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+      throw new Error(`Invalid settings version: ${fromVersion}`);
+    }
+    if (fromVersion > CURRENT_SETTINGS_VERSION) {
+      throw new Error(
+        `Settings version ${fromVersion} is newer than this app supports (${CURRENT_SETTINGS_VERSION}); update the app to load them`,
+      );
+    }
+    if (!isObject(settings)) {
+      throw new Error("Settings must be an object");
+    }
+
+    let migrated: Record<string, unknown> = structuredClone(settings);
+    const applied: AppliedSettingsMigration[] = [];
+    SETTINGS_MIGRATIONS.filter(
+      (migration) => migration.to > fromVersion,
+    ).forEach((migration) => {
+      try {
+        migrated = migration.migrate(migrated, source);
+      } catch (error) {
+        throw new Error(
+          `Migration to settings version ${migration.to} failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+      applied.push({
+        from: migration.to - 1,
+        to: migration.to,
+        description: migration.description,
+      });
+      console.log(
+        `🔀 Migrated settings from version ${migration.to - 1} to ${migration.to}: ${migration.description}`,
+      );
+    });
+
+    // The last migration leaves the settings in the shape of the current version
+    return {
+      settings: migrated as unknown as AppSettings,
+      fromVersion,
+      toVersion: CURRENT_SETTINGS_VERSION,
+      applied,
+    };
+  }
+}
@@ -0,0 +1,569 @@
+// Declarative schema of the stored and exported settings, used to validate them after migration.
+// Each schema is typed against the settings interfaces, so a field added to an interface
+// does not compile until the schema describes it too.
+
+import type { InferenceConfig } from "../sdk/types";
+import type {
+  AgentConfig,
+  AppSettings,
+  CognitoConfig,
+  GlobalParameter,
+  MockHttpConfig,
+  MockHttpRoute,
+  PricingConfig,
+  Promotion,
+  PromotionSchedule,
+  StoreLocale,
+  Tool,
+  ToolPermissions,
+  ToolPostHook,
+  ToolPrecondition,
+  ToolTestCase,
+} from "./SettingsManager";
+
+export const MIN_TOOL_TIMEOUT_MS = 100;
+export const MAX_TOOL_TIMEOUT_MS = 5 * 60 * 1000;
+export const MOCK_HTTP_METHODS = [
+  "ANY",
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+];
+export const ENVIRONMENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,29}$/;
+export const DEFAULT_SYSTEM_PROMPT =
+  "You are a friend. The user and you will engage in a spoken dialog exchanging the transcripts of a natural real-time conversation. Keep your responses short, generally two or three sentences for chatty scenarios.";
+
+// Result of checking a value against a schema
+export interface SchemaValidationResult {
+  errors: string[];
+  unknownFields: string[]; // Paths of fields the schema does not describe; they are kept as is
+}
+
+export interface Schema<T> {
+  readonly description: string; // What the value must be, used in error messages
+  readonly optional: boolean;
+  check(value: unknown, path: string, context: SchemaValidationResult): void;
+  readonly __type?: (value: T) => T; // Keeps Schema<T> invariant, so optional fields need optional()
+}
+
+type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const fail = (
+  context: SchemaValidationResult,
+  path: string,
+  message: string,
+) => {
+  context.errors.push(`${path || "settings"} ${message}`);
+};
+
+const isJSON = (value: string) => {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const create = <T>(
+  description: string,
+  check: Schema<T>["check"],
+): Schema<T> => ({ description, optional: false, check });
+
+export const string = (
+  options: {
+    nonEmpty?: boolean;
+    pattern?: RegExp;
+    json?: boolean | "allowEmpty";
+  } = {},
+): Schema<string> => {
+  const description = options.json
+    ? "a JSON string"
+    : options.nonEmpty
+      ? "a non-empty string"
+      : "a string";
+  return create(description, (value, path, context) => {
+    if (typeof value !== "string") {
+      fail(context, path, `must be ${description}`);
+    } else if (options.nonEmpty && !value.trim()) {
+      fail(context, path, "must not be empty");
+    } else if (options.pattern && !options.pattern.test(value)) {
+      fail(context, path, `has an invalid format (${value})`);
+    } else if (
+      options.json &&
+      !(options.json === "allowEmpty" && !value.trim()) &&
+      !isJSON(value)
+    ) {
+      fail(context, path, "must be valid JSON");
+    }
+  });
+};
+
+export const number = (
+  options: { integer?: boolean; min?: number; max?: number } = {},
+): Schema<number> => {
+  const kind = options.integer ? "a whole number" : "a number";
+  const range =
+    options.min !== undefined && options.max !== undefined
+      ? ` between ${options.min} and ${options.max}`
+      : options.min !== undefined
+        ? ` of at least ${options.min}`
+        : options.max !== undefined
+          ? ` of at most ${options.max}`
+          : "";
+  const description = `${kind}${range}`;
+  return create(description, (value, path, context) => {
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      (options.integer && !Number.isInteger(value)) ||
+      (options.min !== undefined && value < options.min) ||
+      (options.max !== undefined && value > options.max)
+    ) {
+      fail(context, path, `must be ${description}`);
+    }
+  });
+};
+
+export const boolean = (): Schema<boolean> =>
+  create("a boolean", (value, path, context) => {
+    if (typeof value !== "boolean") fail(context, path, "must be a boolean");
+  });
+
+export const literal = <T extends string>(expected: T): Schema<T> =>
+  create(`"${expected}"`, (value, path, context) => {
+    if (value !== expected) fail(context, path, `must be "${expected}"`);
+  });
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => {
+  const description = `one of ${values.map((value) => `"${value}"`).join(", ")}`;
+  return create(description, (value, path, context) => {
+    if (!values.includes(value as T))
+      fail(context, path, `must be ${description}`);
+  });
+};
+
+// Any JSON value, e.g. method arguments
+export const json = (): Schema<unknown> => create("any value", () => {});
+
+export const primitive = (): Schema<string | number | boolean> =>
+  create("a string, number or boolean", (value, path, context) => {
+    if (!["string", "number", "boolean"].includes(typeof value))
+      fail(context, path, "must be a string, number or boolean");
+  });
+
+// Object used as a map with arbitrary keys, e.g. values per environment
+export const record = <T>(values: Schema<T>): Schema<Record<string, T>> =>
+  create(`a map of ${values.description}`, (value, path, context) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      fail(context, path, "must be an object");
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) =>
+      values.check(item, `${path}.${key}`, context),
+    );
+  });
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  description: schema.description,
+  optional: true,
+  check: (value, path, context) => {
+    if (value !== undefined) schema.check(value, path, context);
+  },
+});
+
+export const array = <T>(items: Schema<T>): Schema<T[]> =>
+  create(`a list of ${items.description}`, (value, path, context) => {
+    if (!Array.isArray(value)) {
+      fail(context, path, "must be a list");
+      return;
+    }
+    value.forEach((item, index) =>
+      items.check(item, `${path}[${index}]`, context),
+    );
+  });
+
+export const object = <T>(shape: ObjectShape<T>): Schema<T> =>
+  create("an object", (value, path, context) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      fail(context, path, "must be an object");
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    const fields = shape as Record<string, Schema<unknown>>;
+    Object.entries(fields).forEach(([key, schema]) => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (record[key] === undefined && !schema.optional) {
+        fail(context, fieldPath, "is required");
+      } else {
+        schema.check(record[key], fieldPath, context);
+      }
+    });
+    Object.keys(record)
+      .filter((key) => !(key in fields))
+      .forEach((key) =>
+        context.unknownFields.push(path ? `${path}.${key}` : key),
+      );
+  });
+
+// Union of objects told apart by their `type` field; each variant is given as an object shape
+export const tagged = <T extends { type: string }>(
+  variants: { [V in T["type"]]: ObjectShape<Extract<T, { type: V }>> },
+): Schema<T> => {
+  const types = Object.keys(variants);
+  const schemas = new Map(
+    Object.entries(variants).map(([type, shape]) => [
+      type,
+      object(shape as ObjectShape<T>),
+    ]),
+  );
+  return create(
+    `one of the ${types.join(", ")} types`,
+    (value, path, context) => {
+      const type = (value as { type?: unknown } | null)?.type;
+      const variant = typeof type === "string" ? schemas.get(type) : undefined;
+      if (!variant) {
+        fail(
+          context,
+          `${path}.type`,
+          `must be one of ${types.map((name) => `"${name}"`).join(", ")}`,
+        );
+        return;
+      }
+      variant.check(value, path, context);
+    },
+  );
+};
+
+// Extra check on a value that passed its schema; returns an error message or null
+export const refine = <T>(
+  schema: Schema<T>,
+  check: (value: T) => string | null,
+): Schema<T> => ({
+  ...schema,
+  check: (value, path, context) => {
+    const errorCount = context.errors.length;
+    schema.check(value, path, context);
+    if (context.errors.length === errorCount && value !== undefined) {
+      const message = check(value as T);
+      if (message) fail(context, path, message);
+    }
+  },
+});
+
+/**
+ * Check a value against a schema. Error messages start with the path of the invalid field.
+ */
+export const validateSchema = <T>(
+  schema: Schema<T>,
+  value: unknown,
+  path = "",
+): SchemaValidationResult => {
+  const context: SchemaValidationResult = { errors: [], unknownFields: [] };
+  schema.check(value, path, context);
+  return context;
+};
+
+const toolTimeoutSchema = number({
+  integer: true,
+  min: MIN_TOOL_TIMEOUT_MS,
+  max: MAX_TOOL_TIMEOUT_MS,
+});
+
+const cognitoSchema = object<CognitoConfig>({
+  userPoolId: string(),
+  userPoolClientId: string(),
+  region: string(),
+  identityPoolId: string(),
+});
+
+const permissionsSchema = object<ToolPermissions>({
+  allowedHosts: array(string()),
+  allowedComponents: array(string()),
+});
+
+const testCaseSchema = object<ToolTestCase>({
+  id: string(),
+  name: string(),
+  input: string({ json: true }),
+  useMocks: boolean(),
+  mocks: optional(string({ json: "allowEmpty" })),
+  expectedResult: optional(string()),
+});
+
+const preconditionSchema = tagged<ToolPrecondition>({
+  toolSucceeded: {
+    type: literal("toolSucceeded"),
+    tool: string({ nonEmpty: true }),
+    message: optional(string()),
+  },
+  toolNotSucceeded: {
+    type: literal("toolNotSucceeded"),
+    tool: string({ nonEmpty: true }),
+    message: optional(string()),
+  },
+  cartNotEmpty: { type: literal("cartNotEmpty"), message: optional(string()) },
+  componentState: {
+    type: literal("componentState"),
+    component: string({ nonEmpty: true }),
+    method: string({ nonEmpty: true }),
+    args: optional(array(json())),
+    operator: oneOf([
+      "truthy",
+      "falsy",
+      "==",
+      "!=",
+      ">",
+      ">=",
+      "<",
+      "<=",
+    ] as const),
+    value: optional(primitive()),
+    message: optional(string()),
+  },
+});
+
+const postHookSchema = tagged<ToolPostHook>({
+  callComponent: {
+    type: literal("callComponent"),
+    component: string({ nonEmpty: true }),
+    method: string({ nonEmpty: true }),
+    args: optional(array(json())),
+  },
+  runTool: {
+    type: literal("runTool"),
+    tool: string({ nonEmpty: true }),
+    input: optional(string({ json: "allowEmpty" })),
+  },
+  resetToolHistory: { type: literal("resetToolHistory") },
+});
+
+const toolSchema = object<Tool>({
+  tool_name: string({ nonEmpty: true }),
+  description: string({ nonEmpty: true }),
+  inputSchema: object({ json: string({ json: true }) }),
+  script: string({ nonEmpty: true }),
+  run_after_app_init: boolean(),
+  order: number(),
+  timeoutMs: optional(toolTimeoutSchema),
+  timeoutFallback: optional(string()),
+  executionMode: optional(oneOf(["main", "sandbox"] as const)),
+  permissions: optional(permissionsSchema),
+  testCases: optional(array(testCaseSchema)),
+  preconditions: optional(array(preconditionSchema)),
+  postHooks: optional(array(postHookSchema)),
+});
+
+const globalParameterSchema = object<GlobalParameter>({
+  id: string(),
+  key: string({ nonEmpty: true }),
+  value: string(),
+  description: optional(string()),
+  order: number(),
+  secret: optional(boolean()),
+  encryptedValue: optional(string()),
+  environmentValues: optional(record(string())),
+  encryptedEnvironmentValues: optional(record(string())),
+});
+
+const mockHttpRouteSchema = refine(
+  object<MockHttpRoute>({
+    id: string(),
+    method: oneOf(MOCK_HTTP_METHODS),
+    urlPattern: string({ nonEmpty: true }),
+    responseType: oneOf(["json", "template", "script"] as const),
+    status: number({ integer: true, min: 100, max: 599 }),
+    body: string(),
+    delayMs: optional(number({ min: 0, max: MAX_TOOL_TIMEOUT_MS })),
+    description: optional(string()),
+  }),
+  (route) =>
+    route.responseType === "json" && !isJSON(route.body)
+      ? "body must be valid JSON for a JSON response"
+      : null,
+);
+
+const mockHttpSchema = object<MockHttpConfig>({
+  enabled: boolean(),
+  passthrough: boolean(),
+  routes: array(mockHttpRouteSchema),
+});
+
+// Error message naming the values that occur more than once, or null
+const findDuplicates = (values: string[], label: string) => {
+  const duplicates = values.filter(
+    (value, index) => values.indexOf(value) !== index,
+  );
+  return duplicates.length > 0
+    ? `has duplicate ${label}: ${Array.from(new Set(duplicates)).join(", ")}`
+    : null;
+};
+
+const percentageSchema = number({ min: 0, max: 100 });
+
+export const pricingSchema = object<PricingConfig>({
+  taxRate: percentageSchema,
+  categoryTaxRates: optional(
+    refine(record(percentageSchema), (rates) =>
+      Object.keys(rates).some((category) => !category.trim())
+        ? "need a category for every rate"
+        : null,
+    ),
+  ),
+  taxInclusive: boolean(),
+  serviceChargeRate: optional(percentageSchema),
+  deliveryFee: optional(number({ min: 0 })),
+  feesTaxable: optional(boolean()),
+  tipPresets: optional(
+    refine(array(percentageSchema), (presets) =>
+      findDuplicates(presets.map(String), "values"),
+    ),
+  ),
+  minorUnits: number({ integer: true, min: 0, max: 4 }),
+  rounding: oneOf(["halfUp", "halfEven"] as const),
+});
+
+// Language tag that Intl formats with, e.g. en-CA
+const localeSchema = refine(string({ nonEmpty: true }), (locale) => {
+  try {
+    Intl.getCanonicalLocales(locale);
+    return null;
+  } catch {
+    return "must be a language tag such as en-CA or es-MX";
+  }
+});
+
+export const storeLocaleSchema = object<StoreLocale>({
+  locale: localeSchema,
+  currency: string({ pattern: /^[A-Z]{3}$/ }),
+});
+
+const timeOfDaySchema = string({ pattern: /^([01]\d|2[0-3]):[0-5]\d$/ });
+const dateSchema = string({ pattern: /^\d{4}-\d{2}-\d{2}$/ });
+
+const promotionScheduleSchema = object<PromotionSchedule>({
+  days: optional(array(number({ integer: true, min: 0, max: 6 }))),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+});
+
+const promotionSchema = refine(
+  object<Promotion>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    description: optional(string()),
+    type: oneOf(["percentOff", "amountOff", "bogo", "orderDiscount"] as const),
+    enabled: boolean(),
+    itemIds: optional(array(string({ nonEmpty: true }))),
+    categories: optional(array(string({ nonEmpty: true }))),
+    percentOff: optional(number({ min: 0, max: 100 })),
+    amountOff: optional(number({ min: 0 })),
+    buyQuantity: optional(number({ integer: true, min: 1 })),
+    getQuantity: optional(number({ integer: true, min: 1 })),
+    minSubtotal: optional(number({ min: 0 })),
+    couponCode: optional(string({ pattern: /^[A-Za-z0-9 -]+$/ })),
+    loyaltyOnly: optional(boolean()),
+    schedule: optional(promotionScheduleSchema),
+    validFrom: optional(dateSchema),
+    validUntil: optional(dateSchema),
+  }),
+  (promotion) => {
+    if (promotion.type === "percentOff" && promotion.percentOff === undefined)
+      return "percentOff is required";
+    if (promotion.type === "amountOff" && promotion.amountOff === undefined)
+      return "amountOff is required";
+    if (
+      promotion.type === "bogo" &&
+      (promotion.buyQuantity === undefined ||
+        promotion.getQuantity === undefined)
+    ) {
+      return "buyQuantity and getQuantity are required";
+    }
+    if (
+      promotion.type === "orderDiscount" &&
+      (promotion.percentOff === undefined) ===
+        (promotion.amountOff === undefined)
+    ) {
+      return "needs either percentOff or amountOff";
+    }
+    return null;
+  },
+);
+
+const inferenceConfigSchema = object<InferenceConfig>({
+  maxTokens: number({ integer: true, min: 1 }),
+  topP: number({ min: 0, max: 1 }),
+  temperature: number({ min: 0, max: 1 }),
+});
+
+// Error message for an active environment or parameter values of an environment that is not configured, or null
+const findUnknownEnvironments = (agent: AgentConfig) => {
+  const environments = agent.environments || [];
+  if (
+    agent.activeEnvironment &&
+    !environments.includes(agent.activeEnvironment)
+  ) {
+    return `activeEnvironment "${agent.activeEnvironment}" is not one of the environments`;
+  }
+  const unknown = agent.globalParameters.flatMap((param) =>
+    Object.keys(param.environmentValues || {})
+      .filter((environment) => !environments.includes(environment))
+      .map((environment) => `${param.key} (${environment})`),
+  );
+  return unknown.length > 0
+    ? `has global parameter values for unknown environments: ${unknown.join(", ")}`
+    : null;
+};
+
+const agentSchema = refine(
+  object<AgentConfig>({
+    system_prompt: string(),
+    globalParameters: refine(array(globalParameterSchema), (params) =>
+      findDuplicates(
+        params.map((param) => param.key),
+        "keys",
+      ),
+    ),
+    tools: refine(array(toolSchema), (tools) =>
+      findDuplicates(
+        tools.map((tool) => tool.tool_name),
+        "tool names",
+      ),
+    ),
+    autoInitiateConversation: optional(boolean()),
+    initiationAudio: optional(string()),
+    companyName: optional(string()),
+    modelId: optional(string()),
+    region: optional(string({ pattern: /^[a-z]{2}(-[a-z]+)+-\d$/ })),
+    voiceId: optional(string()),
+    inferenceConfig: optional(inferenceConfigSchema),
+    toolTimeoutMs: optional(toolTimeoutSchema),
+    mockHttp: optional(mockHttpSchema),
+    pricing: optional(pricingSchema),
+    storeLocale: optional(storeLocaleSchema),
+    promotions: optional(
+      refine(array(promotionSchema), (promotions) =>
+        findDuplicates(
+          promotions.map((promotion) => promotion.id),
+          "ids",
+        ),
+      ),
+    ),
+    environments: optional(
+      refine(array(string({ pattern: ENVIRONMENT_NAME_PATTERN })), (names) =>
+        findDuplicates(names, "names"),
+      ),
+    ),
+    activeEnvironment: optional(string()),
+  }),
+  findUnknownEnvironments,
+);
+
+export const settingsSchema = object<AppSettings>({
+  cognito: cognitoSchema,
+  agent: agentSchema,
+});